@@ -2,6 +2,7 @@ import React from "react";
 import { describe, expect, it, vi, beforeEach } from "vitest";
 import { render, screen, waitFor, fireEvent, within } from "@testing-library/react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MemoryRouter } from "react-router-dom";
 import { AutomationOutboxPage } from "../components/admin/screens/AutomationOutboxPage";
 
 const replayMock = vi.fn();
@@ -60,9 +61,11 @@ describe("AutomationOutboxPage", () => {
   it("allows replaying a single event", async () => {
     const qc = new QueryClient();
     render(
-      <QueryClientProvider client={qc}>
-        <AutomationOutboxPage />
-      </QueryClientProvider>
+      <MemoryRouter>
+        <QueryClientProvider client={qc}>
+          <AutomationOutboxPage />
+        </QueryClientProvider>
+      </MemoryRouter>
     );
 
     const rows = await screen.findAllByTestId("automation-row");
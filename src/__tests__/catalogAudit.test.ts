@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { auditCatalog, completenessScore, productIssues, scoreBand } from "../lib/catalog-audit";
+import type { Product } from "../types/product";
+
+const complete = (id: string, extra: Partial<Product> = {}): Product => ({
+  id,
+  name: id,
+  nameAr: "\u0645\u0646\u062a\u062c",
+  slug: id,
+  description: "Fresh",
+  descriptionAr: "\u0637\u0627\u0632\u062c",
+  imageUrl: "https://cdn.test/a.jpg",
+  sku: id.toUpperCase(),
+  priceCents: 1000,
+  stock: 5,
+  status: "ACTIVE",
+  categoryId: "c1",
+  providerId: "p1",
+  ...extra,
+});
+
+describe("catalog audit", () => {
+  it("flags each missing field", () => {
+    expect(productIssues(complete("a"))).toEqual([]);
+    expect(
+      productIssues(complete("b", { nameAr: " ", description: null, imageUrl: null, images: [{ url: "" }], sku: null, priceCents: 0 }))
+    ).toEqual(["zero_price", "no_image", "no_name_ar", "no_description", "no_sku"]);
+    expect(productIssues(complete("c", { imageUrl: null, images: ["https://cdn.test/b.jpg"] }))).toEqual([]);
+  });
+
+  it("checks variant prices and SKUs and unknown categories", () => {
+    const variants = [
+      { options: { Size: "S" }, priceCents: 900, stock: 1, sku: "S" },
+      { options: { Size: "L" }, priceCents: 0, stock: 1, sku: "" },
+    ];
+    expect(productIssues(complete("d", { variants }), new Set(["c2"]))).toEqual(["zero_price", "no_category", "no_sku"]);
+  });
+
+  it("weights issues into a 0-100 score", () => {
+    expect(completenessScore([])).toBe(100);
+    expect(completenessScore(["no_sku"])).toBe(95);
+    expect(completenessScore(["zero_price", "no_category", "no_image", "no_name_ar", "no_description", "no_description_ar", "no_sku"])).toBe(0);
+    expect([scoreBand(95), scoreBand(75), scoreBand(40)]).toEqual(["good", "fair", "poor"]);
+  });
+
+  it("buckets products worst first and scores each provider", () => {
+    const audit = auditCatalog([
+      complete("ok"),
+      complete("nosku", { sku: "" }),
+      complete("bare", { providerId: "p2", nameAr: undefined, imageUrl: null }),
+      complete("gone", { status: "DISCONTINUED", priceCents: 0 }),
+    ]);
+    expect(audit.rows.map((row) => row.product.id)).toEqual(["bare", "nosku", "ok"]);
+    expect(audit.buckets.no_sku.map((row) => row.product.id)).toEqual(["nosku"]);
+    expect(audit.buckets.zero_price).toEqual([]);
+    expect(audit.byProvider.map((quality) => [quality.providerId, quality.score])).toEqual([
+      ["p2", 67],
+      ["p1", 98],
+    ]);
+    expect(audit.score).toBe(87);
+  });
+});
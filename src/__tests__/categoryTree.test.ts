@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCategoryTree,
+  descendantIds,
+  filterTree,
+  flattenTree,
+  mergeTargets,
+  planMove,
+  treeOptions,
+} from "../lib/category-tree";
+import type { Category } from "../services/categories.service";
+
+const category = (id: string, parentId: string | null, sortOrder: number, extra: Partial<Category> = {}): Category => ({
+  id,
+  name: id,
+  slug: id,
+  imageUrl: null,
+  isActive: true,
+  sortOrder,
+  parentId,
+  providerId: "p1",
+  _count: { products: 1 },
+  ...extra,
+});
+
+const categories = [
+  category("food", null, 0),
+  category("fruit", "food", 1),
+  category("veg", "food", 0, { _count: { products: 4 } }),
+  category("apples", "fruit", 0),
+  category("drinks", null, 1),
+  category("other", null, 0, { providerId: "p2" }),
+];
+
+describe("category tree", () => {
+  it("nests by parent, orders siblings and rolls up product counts", () => {
+    const tree = buildCategoryTree(categories);
+    expect(flattenTree(tree).map((node) => `${node.depth}:${node.category.id}`)).toEqual([
+      "0:food",
+      "1:veg",
+      "1:fruit",
+      "2:apples",
+      "0:other",
+      "0:drinks",
+    ]);
+    expect(tree[0].totalProducts).toBe(7);
+    expect(flattenTree(tree, new Set(["food"])).map((node) => node.category.id)).toEqual(["food", "other", "drinks"]);
+  });
+
+  it("cuts parent cycles and leaves unknown counts unknown", () => {
+    const tree = buildCategoryTree([category("a", "b", 0), category("b", "a", 1, { _count: undefined })]);
+    expect(tree.map((node) => node.category.id)).toEqual(["a", "b"]);
+    expect(tree[1].totalProducts).toBeNull();
+  });
+
+  it("keeps ancestors of search matches", () => {
+    const result = filterTree(buildCategoryTree(categories), "APP");
+    expect(flattenTree(result).map((node) => node.category.id)).toEqual(["food", "fruit", "apples"]);
+  });
+
+  it("plans nesting and reordering moves", () => {
+    expect(planMove(categories, "drinks", "fruit", "inside")).toEqual({
+      id: "drinks",
+      parentId: "fruit",
+      order: [{ id: "drinks", sortOrder: 1 }],
+    });
+    expect(planMove(categories, "fruit", "veg", "before")).toEqual({
+      id: "fruit",
+      parentId: "food",
+      order: [
+        { id: "fruit", sortOrder: 0 },
+        { id: "veg", sortOrder: 1 },
+      ],
+    });
+    // Roots are ordered per provider, so "other" keeps its place
+    expect(planMove(categories, "apples", "drinks", "after")).toEqual({
+      id: "apples",
+      parentId: null,
+      order: [{ id: "apples", sortOrder: 2 }],
+    });
+  });
+
+  it("refuses drops into the own subtree or across providers", () => {
+    expect(descendantIds(categories, "food")).toEqual(new Set(["fruit", "veg", "apples"]));
+    expect(planMove(categories, "food", "apples", "inside")).toBeNull();
+    expect(planMove(categories, "food", "food", "after")).toBeNull();
+    expect(planMove(categories, "drinks", "other", "inside")).toBeNull();
+    expect(mergeTargets(categories, "fruit").map((item) => item.id)).toEqual(["food", "veg", "drinks"]);
+  });
+
+  it("indents picker labels by depth", () => {
+    expect(treeOptions(categories, { exclude: new Set(["other", "drinks"]) }).map((option) => option.label)).toEqual([
+      "food",
+      "  veg",
+      "  fruit",
+      "    apples",
+    ]);
+  });
+});
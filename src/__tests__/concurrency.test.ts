@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { settleWithConcurrency } from "../lib/concurrency";
+
+describe("settleWithConcurrency", () => {
+  it("caps in-flight work and reports each item in input order", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const progress: number[] = [];
+    const results = await settleWithConcurrency(
+      [1, 2, 3, 4, 5, 6],
+      async (value) => {
+        inFlight += 1;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 7 - value));
+        inFlight -= 1;
+        if (value % 3 === 0) throw new Error(`bad ${value}`);
+        return value * 10;
+      },
+      { limit: 2, onSettled: (_result, done) => progress.push(done) }
+    );
+
+    expect(peak).toBe(2);
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(results.map((result) => result.item)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(results.filter((result) => !result.ok).map((result) => result.item)).toEqual([3, 6]);
+    expect(results[0]).toEqual({ item: 1, ok: true, value: 10 });
+  });
+
+  it("resolves immediately for an empty list", async () => {
+    await expect(settleWithConcurrency([], async () => 1)).resolves.toEqual([]);
+  });
+});
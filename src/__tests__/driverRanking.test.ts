@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { buildDriverSignals, rankDrivers, scoreDriver, EMPTY_SIGNALS } from "../lib/driver-ranking";
+import type { DeliveryDriver } from "../types/delivery";
+import type { Order } from "../types/order";
+
+const driver = (id: string, isActive = true): DeliveryDriver => ({ id, fullName: `Driver ${id}`, phone: "0100", isActive });
+
+const order = (id: string, driverId: string, zoneId: string, status: Order["status"]): Order => ({
+  id,
+  status,
+  totalCents: 1000,
+  createdAt: "2024-01-01T10:00:00Z",
+  customer: { id: "c1", name: "Customer", phone: "0100" },
+  driver: { id: driverId, fullName: `Driver ${driverId}` },
+  deliveryZone: { id: zoneId, nameEn: zoneId, nameAr: zoneId },
+} as Order);
+
+const cairo = { lat: 30.0444, lng: 31.2357 };
+
+describe("driver ranking", () => {
+  it("folds order lists into per-driver signals", () => {
+    const signals = buildDriverSignals(
+      {
+        active: [order("o1", "a", "z1", "PREPARING"), order("o2", "a", "z2", "OUT_FOR_DELIVERY")],
+        delivered: [order("o3", "b", "z1", "DELIVERED")],
+        failed: [order("o4", "b", "z3", "DELIVERY_FAILED")],
+      },
+      { a: cairo }
+    );
+    expect(signals.a).toMatchObject({ activeOrders: 2, activeZoneIds: ["z1", "z2"], location: cairo });
+    expect(signals.b).toMatchObject({ activeOrders: 0, delivered: 1, failed: 1, recentZoneIds: ["z1", "z3"] });
+  });
+
+  it("scores an idle, nearby, in-zone driver highest", () => {
+    const best = scoreDriver(
+      driver("a"),
+      { ...EMPTY_SIGNALS, location: cairo, activeZoneIds: ["z1"], delivered: 8 },
+      { zoneId: "z1", location: cairo }
+    );
+    expect(best.distanceKm).toBe(0);
+    expect(best.failureRate).toBe(0);
+    expect(best.total).toBe(98);
+    expect(best.components.map((component) => component.key)).toEqual(["load", "distance", "zone", "reliability"]);
+  });
+
+  it("ranks active drivers and breaks ties on load", () => {
+    const ranked = rankDrivers(
+      [driver("busy"), driver("idle"), driver("off", false)],
+      { busy: { ...EMPTY_SIGNALS, activeOrders: 2 } },
+      {}
+    );
+    expect(ranked.map((suggestion) => suggestion.driver.id)).toEqual(["idle", "busy"]);
+  });
+});
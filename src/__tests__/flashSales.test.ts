@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  findFlashSaleConflicts,
+  flashSaleCalendar,
+  flashSalePhase,
+  flashSalePrice,
+  salesNeedingRevert,
+  validateFlashSale,
+} from "../lib/flash-sales";
+import type { FlashSale } from "../types/flash-sale";
+
+const sale = (id: string, startsAt: string, endsAt: string, productIds: string[], extra: Partial<FlashSale> = {}): FlashSale => ({
+  id,
+  name: id,
+  startsAt,
+  endsAt,
+  discountType: "PERCENT",
+  percent: 10,
+  status: "SCHEDULED",
+  items: productIds.map((productId) => ({ productId, priceCents: 1000, salePriceCents: 900 })),
+  ...extra,
+});
+
+const weekend = sale("weekend", "2025-03-07T10:00:00.000Z", "2025-03-08T18:00:00.000Z", ["p1", "p2"]);
+
+describe("flash sales", () => {
+  it("prices percent and fixed sales only when they lower the price", () => {
+    expect(flashSalePrice(1999, { discountType: "PERCENT", percent: 15 })).toBe(1699);
+    expect(flashSalePrice(1000, { discountType: "FIXED_PRICE", fixedPriceCents: 750 })).toBe(750);
+    expect(flashSalePrice(500, { discountType: "FIXED_PRICE", fixedPriceCents: 750 })).toBeNull();
+  });
+
+  it("flags shared products in overlapping windows only", () => {
+    const sales = [
+      weekend,
+      sale("canceled", "2025-03-07T00:00:00.000Z", "2025-03-09T00:00:00.000Z", ["p1"], { status: "CANCELED" }),
+      sale("after", "2025-03-08T18:00:00.000Z", "2025-03-09T00:00:00.000Z", ["p1"]),
+    ];
+    const conflicts = findFlashSaleConflicts(
+      { startsAt: "2025-03-08T12:00:00.000Z", endsAt: "2025-03-08T20:00:00.000Z", productIds: ["p1", "p3"] },
+      sales
+    );
+    expect(conflicts.map((conflict) => [conflict.sale.id, conflict.productId])).toEqual([
+      ["weekend", "p1"],
+      ["after", "p1"],
+    ]);
+    expect(findFlashSaleConflicts({ ...weekend, productIds: ["p1"] }, sales).map((c) => c.sale.id)).toEqual([]);
+  });
+
+  it("tracks the phase and the ended sales still holding prices", () => {
+    const now = new Date("2025-03-08T12:00:00.000Z");
+    expect(flashSalePhase(weekend, now)).toBe("active");
+    expect(flashSalePhase(weekend, new Date("2025-03-08T18:00:00.000Z"))).toBe("ended");
+    const applied = { ...weekend, status: "ACTIVE" as const };
+    expect(salesNeedingRevert([applied], now)).toEqual([]);
+    // The scheduler gets a grace period before an unreverted sale is reported
+    expect(salesNeedingRevert([applied], new Date("2025-03-08T18:05:00.000Z"))).toEqual([]);
+    expect(salesNeedingRevert([applied], new Date("2025-03-08T18:05:00.000Z"), 0)).toEqual([applied]);
+    expect(salesNeedingRevert([applied, { ...applied, id: "done", revertedAt: "x" }], new Date("2025-03-09T00:00:00.000Z"))).toEqual([applied]);
+  });
+
+  it("validates the form input", () => {
+    const input = {
+      name: " ",
+      startsAt: "2025-03-08T10:00:00.000Z",
+      endsAt: "2025-03-08T09:00:00.000Z",
+      discountType: "FIXED_PRICE" as const,
+      fixedPriceCents: 900,
+      productIds: ["a", "b"],
+    };
+    expect(validateFlashSale(input, [{ id: "a", priceCents: 1000 }, { id: "b", priceCents: 800 }])).toEqual({
+      issues: ["name_required", "invalid_window", "not_a_discount"],
+      notDiscounted: ["b"],
+    });
+    expect(validateFlashSale({ ...input, discountType: "PERCENT", percent: 100 }, []).issues).toContain("invalid_percent");
+  });
+
+  it("lays out a month in whole weeks with the sales on each day", () => {
+    const weeks = flashSaleCalendar("2025-03-01", [weekend], 6);
+    expect(weeks[0][0]).toMatchObject({ date: "2025-03-01", inMonth: true });
+    expect(weeks.every((week) => week.length === 7)).toBe(true);
+    const days = weeks.flat().filter((day) => day.sales.length).map((day) => day.date);
+    expect(days[0] <= "2025-03-07" && days[days.length - 1] >= "2025-03-08").toBe(true);
+    expect(weeks[weeks.length - 1][6].date >= "2025-03-31").toBe(true);
+  });
+});
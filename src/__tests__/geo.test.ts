@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  appendTrackPoint,
+  estimateEtaMinutes,
+  fitViewport,
+  haversineKm,
+  projectToWorld,
+  tileUrl,
+  trailSpeedMps,
+  visibleTiles,
+  type TrackPoint,
+} from "../lib/geo";
+
+const cairo = { lat: 30.0444, lng: 31.2357 };
+const giza = { lat: 30.0131, lng: 31.2089 };
+
+describe("geo helpers", () => {
+  it("measures great-circle distance", () => {
+    expect(haversineKm(cairo, giza)).toBeCloseTo(4.3, 1);
+    expect(haversineKm(cairo, cairo)).toBe(0);
+  });
+
+  it("projects onto slippy-map tiles and resolves tile urls", () => {
+    const world = projectToWorld({ lat: 0, lng: 0 }, 1);
+    expect(world).toEqual({ x: 256, y: 256 });
+    const tiles = visibleTiles(world, 1, 512, 512);
+    expect(tiles.map((tile) => [tile.x, tile.y])).toEqual([
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [1, 1],
+    ]);
+    expect(tileUrl("/tiles/{z}/{x}/{y}.png", tiles[3])).toBe("/tiles/1/1/1.png");
+  });
+
+  it("zooms in as far as the points allow", () => {
+    const close = fitViewport([cairo, giza], 800, 480);
+    const far = fitViewport([cairo, { lat: 31.2001, lng: 29.9187 }], 800, 480);
+    expect(close.zoom).toBeGreaterThan(far.zoom);
+  });
+
+  it("estimates ETA from reported speed or the fallback", () => {
+    expect(estimateEtaMinutes(10, 10)).toBe(22);
+    expect(estimateEtaMinutes(10, 0)).toBe(39);
+  });
+
+  it("builds breadcrumb trails without duplicating jitter", () => {
+    const start: TrackPoint = { ...cairo, at: "2024-01-01T10:00:00Z" };
+    let trail = appendTrackPoint([], start);
+    trail = appendTrackPoint(trail, start);
+    trail = appendTrackPoint(trail, { lat: cairo.lat + 0.00001, lng: cairo.lng, at: "2024-01-01T10:00:10Z" });
+    expect(trail).toHaveLength(1);
+    expect(trail[0].at).toBe("2024-01-01T10:00:10Z");
+
+    trail = appendTrackPoint(trail, { lat: cairo.lat + 0.01, lng: cairo.lng, at: "2024-01-01T10:01:50Z" });
+    expect(trail).toHaveLength(2);
+    expect(trailSpeedMps(trail)).toBeCloseTo(11.1, 1);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { adjustmentDelta, countLines, countVariances, parseQuantity, validateAdjustment } from "../lib/inventory";
+import type { Product } from "../services/products.service";
+
+const product = (id: string, stock: number, extra: Partial<Product> = {}): Product => ({
+  id,
+  name: id,
+  slug: id,
+  priceCents: 1000,
+  stock,
+  status: "ACTIVE",
+  categoryId: "c1",
+  ...extra,
+});
+
+describe("inventory", () => {
+  it("parses whole quantities including Arabic-Indic digits", () => {
+    expect(parseQuantity(" 12 ")).toBe(12);
+    expect(parseQuantity("\u0661\u0662")).toBe(12);
+    expect(parseQuantity("1.5")).toBeNull();
+    expect(parseQuantity("-3")).toBeNull();
+    expect(parseQuantity("")).toBeNull();
+  });
+
+  it("signs the change by reason", () => {
+    expect(adjustmentDelta("RECEIVE", 5, 10)).toBe(5);
+    expect(adjustmentDelta("RETURN", 2, 10)).toBe(2);
+    expect(adjustmentDelta("DAMAGE", 3, 10)).toBe(-3);
+    expect(adjustmentDelta("COUNT_CORRECTION", 7, 10)).toBe(-3);
+  });
+
+  it("rejects adjustments that change nothing or go negative", () => {
+    expect(validateAdjustment("RECEIVE", "0", 4)).toBe("invalid_quantity");
+    expect(validateAdjustment("DAMAGE", "5", 4)).toBe("negative_stock");
+    expect(validateAdjustment("COUNT_CORRECTION", "4", 4)).toBe("no_change");
+    expect(validateAdjustment("COUNT_CORRECTION", "0", 4)).toBeNull();
+  });
+
+  it("counts variants separately and submits only the differences", () => {
+    const lines = countLines([
+      product("p1", 10, { sku: "A" }),
+      product("p2", 6, {
+        variants: [
+          { id: "v1", options: { Size: "S" }, priceCents: 1000, stock: 2 },
+          { id: "v2", options: { Size: "L" }, priceCents: 1000, stock: 4 },
+        ],
+      }),
+    ]);
+    expect(lines.map((line) => [line.key, line.expectedStock, line.variantLabel])).toEqual([
+      ["p1", 10, undefined],
+      ["p2:v1", 2, "Size: S"],
+      ["p2:v2", 4, "Size: L"],
+    ]);
+
+    const summary = countVariances(lines, { p1: "12", "p2:v1": "2", "p2:v2": "x" });
+    expect(summary.counted).toBe(2);
+    expect(summary.invalid).toEqual(["p2:v2"]);
+    expect(summary.unitsOver).toBe(2);
+    expect(summary.lines).toEqual([{ productId: "p1", variantId: null, expectedStock: 10, countedStock: 12 }]);
+  });
+});
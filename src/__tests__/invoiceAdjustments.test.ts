@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { checkCreditNote, checkVoid, creditableCents, invoiceActions, previewAdjustment } from "../lib/invoice-adjustments";
+import type { Invoice } from "../types/invoice";
+
+const invoice = (extra: Partial<Invoice> = {}): Invoice => ({
+  id: "inv1",
+  providerId: "p1",
+  number: "INV-0001",
+  status: "OPEN",
+  currency: "EGP",
+  amountDueCents: 10_000,
+  amountPaidCents: 0,
+  items: [{ id: "s1", invoiceId: "inv1", type: "SUBSCRIPTION", amountCents: 10_000 }],
+  ...extra,
+});
+
+const creditNote = (id: string, amountCents: number) => ({ id, invoiceId: "inv1", number: id.toUpperCase(), amountCents, reason: "Refund" });
+
+describe("invoice adjustments", () => {
+  it("offers actions by status", () => {
+    expect(invoiceActions(invoice({ status: "DRAFT" }))).toEqual(["adjust", "void"]);
+    expect(invoiceActions(invoice({ amountPaidCents: 2_000 }))).toEqual(["adjust"]);
+    expect(invoiceActions(invoice({ status: "PAID", amountPaidCents: 10_000 }))).toEqual(["credit"]);
+    expect(invoiceActions(invoice({ status: "PAID", amountPaidCents: 10_000, creditNotes: [creditNote("cn1", 10_000)] }))).toEqual([]);
+    expect(invoiceActions(invoice({ status: "VOID" }))).toEqual([]);
+  });
+
+  it("previews the totals with the new line and its tax", () => {
+    const preview = previewAdjustment(invoice(), { amountCents: 5_000, description: "Setup fee", taxRateBps: 1_400 });
+    expect(preview.error).toBeNull();
+    expect(preview.before.totalCents).toBe(10_000);
+    expect(preview.after).toMatchObject({ subtotalCents: 15_000, taxCents: 700, totalCents: 15_700, balanceCents: 15_700 });
+  });
+
+  it("rejects empty adjustments and discounts below what was paid", () => {
+    expect(previewAdjustment(invoice(), { amountCents: 0, description: "x" }).error).toBe("amount_required");
+    expect(previewAdjustment(invoice(), { amountCents: 100, description: " " }).error).toBe("description_required");
+    expect(previewAdjustment(invoice({ amountPaidCents: 6_000 }), { amountCents: -5_000, description: "Goodwill" }).error).toBe(
+      "below_paid"
+    );
+    expect(previewAdjustment(invoice({ status: "PAID" }), { amountCents: 100, description: "Late" }).error).toBe("not_allowed");
+  });
+
+  it("limits credit notes to the paid amount not yet credited", () => {
+    const paid = invoice({ status: "PAID", amountPaidCents: 10_000, creditNotes: [creditNote("cn1", 4_000)] });
+    expect(creditableCents(paid)).toBe(6_000);
+    expect(checkCreditNote(paid, { amountCents: 6_000, reason: "Outage" })).toBeNull();
+    expect(checkCreditNote(paid, { amountCents: 6_001, reason: "Outage" })).toBe("exceeds_creditable");
+    expect(checkCreditNote(paid, { amountCents: 1_000, reason: "" })).toBe("reason_required");
+    expect(checkCreditNote(invoice(), { amountCents: 1_000, reason: "Outage" })).toBe("not_allowed");
+  });
+
+  it("needs an audit note to void an unpaid invoice", () => {
+    expect(checkVoid(invoice(), "  ")).toBe("reason_required");
+    expect(checkVoid(invoice(), "Billed twice")).toBeNull();
+    expect(checkVoid(invoice({ amountPaidCents: 1 }), "Billed twice")).toBe("not_allowed");
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { buildInvoiceDocument, formatTaxRate, invoiceBreakdown, lineTax, type InvoiceLabels } from "../lib/invoice-document";
+import type { Invoice, InvoiceItem } from "../types/invoice";
+
+const item = (id: string, type: InvoiceItem["type"], amountCents: number, extra: Partial<InvoiceItem> = {}): InvoiceItem => ({
+  id,
+  invoiceId: "inv1",
+  type,
+  amountCents,
+  ...extra,
+});
+
+const invoice = (items: InvoiceItem[] | undefined, extra: Partial<Invoice> = {}): Invoice => ({
+  id: "inv1",
+  providerId: "p1",
+  number: "INV-0001",
+  status: "OPEN",
+  currency: "EGP",
+  amountDueCents: 99_999,
+  amountPaidCents: 10_000,
+  items,
+  ...extra,
+});
+
+const labels = (suffix: string): InvoiceLabels => ({
+  invoice: `Invoice${suffix}`,
+  number: "Number",
+  status: "Status",
+  issuedAt: "Issued",
+  dueAt: "Due",
+  paidAt: "Paid at",
+  period: "Period",
+  billedTo: "Billed to",
+  plan: "Plan",
+  description: "Description",
+  taxRate: "Rate",
+  amount: "Amount",
+  subtotal: "Subtotal",
+  tax: (rate) => `VAT ${rate}`,
+  untaxed: "VAT",
+  total: "Total",
+  amountPaid: "Paid",
+  balanceDue: "Balance",
+  credited: "Credited",
+  creditNote: "Credit note",
+  voidNote: "Voided:",
+  noItems: "No items",
+  linesDiffer: (total) => `Lines add up to ${total}`,
+  sections: { SUBSCRIPTION: "Subscription", COMMISSION: "Commission", ADJUSTMENT: "Adjustment" },
+  statuses: { DRAFT: "Draft", OPEN: "Open", PAID: "Paid", VOID: "Void" },
+});
+
+const options = {
+  lang: "en",
+  dir: "ltr" as const,
+  labels: labels(""),
+  formatMoney: (cents: number) => (cents / 100).toFixed(2),
+  formatDate: (iso: string) => iso.slice(0, 10),
+};
+
+describe("invoice document", () => {
+  it("works out line tax from the rate unless the server sent it", () => {
+    expect(lineTax({ amountCents: 10_005, taxRateBps: 1_400 })).toBe(1_401);
+    expect(lineTax({ amountCents: 10_000, taxRateBps: 1_400, taxCents: 1_399 })).toBe(1_399);
+    expect(lineTax({ amountCents: 10_000 })).toBe(0);
+    expect(formatTaxRate(1_400)).toBe("14%");
+    expect(formatTaxRate(1_250)).toBe("12.5%");
+  });
+
+  it("groups lines by type and sums tax per rate", () => {
+    const breakdown = invoiceBreakdown(
+      invoice([
+        item("c1", "COMMISSION", 2_000, { taxRateBps: 1_400 }),
+        item("s1", "SUBSCRIPTION", 50_000, { taxRateBps: 1_400 }),
+        item("a1", "ADJUSTMENT", -1_000),
+        item("c2", "COMMISSION", 3_000, { taxRateBps: 500 }),
+      ])
+    );
+    expect(breakdown.sections.map((section) => [section.type, section.items.map((line) => line.id), section.amountCents])).toEqual([
+      ["SUBSCRIPTION", ["s1"], 50_000],
+      ["COMMISSION", ["c1", "c2"], 5_000],
+      ["ADJUSTMENT", ["a1"], -1_000],
+    ]);
+    expect(breakdown.taxes).toEqual([
+      { rateBps: 1_400, baseCents: 52_000, taxCents: 7_280 },
+      { rateBps: 500, baseCents: 3_000, taxCents: 150 },
+    ]);
+    // The billed amount stays the total; the lines are off by what they add up to beyond it
+    expect(breakdown).toMatchObject({
+      subtotalCents: 54_000,
+      taxCents: 7_430,
+      lineTotalCents: 61_430,
+      totalCents: 99_999,
+      differenceCents: -38_569,
+      balanceCents: 89_999,
+    });
+  });
+
+  it("falls back to the billed amount without items and owes nothing on void invoices", () => {
+    expect(invoiceBreakdown(invoice(undefined))).toMatchObject({ totalCents: 99_999, differenceCents: 0, balanceCents: 89_999 });
+    expect(invoiceBreakdown(invoice(undefined, { status: "VOID" })).balanceCents).toBe(0);
+  });
+
+  it("renders escaped lines with labels in both languages", () => {
+    const html = buildInvoiceDocument(
+      [invoice([item("s1", "SUBSCRIPTION", 50_000, { taxRateBps: 1_400, description: "Pro <monthly>" })], { provider: { id: "p1", name: "Shop & Co", slug: "shop" } })],
+      { ...options, secondaryLabels: labels(" (\u0641\u0627\u062a\u0648\u0631\u0629)") }
+    );
+    expect(html).toContain("<title>Invoice INV-0001</title>");
+    expect(html).toContain("Pro &lt;monthly&gt;");
+    expect(html).toContain("Shop &amp; Co");
+    expect(html).toContain('<span class="alt">Invoice (\u0641\u0627\u062a\u0648\u0631\u0629)</span>');
+    // Labels that read the same in both sets are printed once
+    expect(html).not.toContain('<span class="alt">Subtotal</span>');
+    expect(html).toContain("VAT 14%");
+    expect(html).toContain("570.00");
+    expect(html).toContain("999.99");
+    expect(html).toContain('<p class="warning">Lines add up to 570.00');
+  });
+
+  it("prints no warning when the lines match and credit notes as negative amounts", () => {
+    const html = buildInvoiceDocument(
+      [
+        invoice([item("s1", "SUBSCRIPTION", 10_000)], {
+          status: "PAID",
+          amountDueCents: 10_000,
+          amountPaidCents: 10_000,
+          creditNotes: [{ id: "cn1", invoiceId: "inv1", number: "CN-1", amountCents: 2_500, reason: "Refund" }],
+        }),
+      ],
+      options
+    );
+    expect(html).not.toContain('class="warning"');
+    expect(html).toContain('<td class="num">-25.00</td>');
+  });
+});
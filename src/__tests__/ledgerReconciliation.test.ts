@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import { commissionRateAt, expectedCommission, providerCommissionBps, reconcileLedger } from "../lib/ledger-reconciliation";
+import type { LedgerEntryItem } from "../services/admin-finance.service";
+import type { Invoice, InvoiceItem, ProviderLedgerEntry } from "../types/invoice";
+
+const order = (id: string, totalCents: number, createdAt = "2026-10-01T10:00:00Z") => ({
+  id,
+  code: id.toUpperCase(),
+  totalCents,
+  status: "DELIVERED",
+  createdAt,
+});
+
+const flatRate = () => 1_000;
+
+const entry = (id: string, orderId: string, amountCents: number, invoiceId = "inv1"): ProviderLedgerEntry => ({
+  id,
+  providerId: "p1",
+  orderId,
+  invoiceId,
+  type: "COMMISSION",
+  amountCents,
+  currency: "EGP",
+});
+
+const line = (amountCents: number): InvoiceItem => ({ id: `i${amountCents}`, invoiceId: "inv1", type: "COMMISSION", amountCents });
+
+const invoice = (id: string, items: InvoiceItem[], ledgerEntries: ProviderLedgerEntry[]): Invoice => ({
+  id,
+  providerId: "p1",
+  number: id.toUpperCase(),
+  status: "OPEN",
+  currency: "EGP",
+  amountDueCents: 0,
+  amountPaidCents: 0,
+  periodStart: "2026-09-15T00:00:00Z",
+  periodEnd: "2026-10-15T00:00:00Z",
+  items,
+  ledgerEntries,
+});
+
+const settlement = (id: string, orderId: string): LedgerEntryItem => ({
+  id,
+  providerId: "p1",
+  orderId,
+  type: "ORDER_SETTLEMENT",
+  amountCents: 9_000,
+  createdAt: "2026-10-02T10:00:00Z",
+});
+
+describe("ledger reconciliation", () => {
+  it("computes the expected commission from basis points", () => {
+    expect(expectedCommission(12_345, 1_000)).toBe(1_235);
+    expect(providerCommissionBps({ commissionRateBpsOverride: 500, plan: { commissionRateBps: 1_000 } })).toBe(500);
+    expect(providerCommissionBps({ commissionRateBpsOverride: null, plan: { commissionRateBps: 1_000 } })).toBe(1_000);
+    expect(providerCommissionBps(null)).toBeNull();
+  });
+
+  it("takes the rate of the subscription running on the order's date", () => {
+    const subscriptions = [
+      { status: "CANCELED" as const, createdAt: "2026-01-01T00:00:00Z", canceledAt: "2026-06-01T00:00:00Z", plan: { commissionRateBps: 1_500 } },
+      { status: "ACTIVE" as const, createdAt: "2026-06-01T00:00:00Z", commissionRateBpsOverride: 800, plan: { commissionRateBps: 1_000 } },
+    ];
+    expect(commissionRateAt(subscriptions, "2026-03-10T00:00:00Z")).toBe(1_500);
+    expect(commissionRateAt(subscriptions, "2026-06-01T00:00:00Z")).toBe(800);
+    expect(commissionRateAt(subscriptions, "2025-12-31T00:00:00Z")).toBeNull();
+  });
+
+  it("flags missing, duplicate and mismatched commission entries and settlements", () => {
+    const entries = [entry("e1", "a", 1_000), entry("e2", "b", 1_000), entry("e3", "b", 1_000), entry("e4", "c", 1_500), entry("e9", "z", 700)];
+    const result = reconcileLedger({
+      orders: [
+        order("a", 10_000),
+        order("b", 10_000),
+        order("c", 10_000),
+        order("d", 10_000),
+        order("e", 10_000),
+        order("f", 10_000, "2026-10-20T10:00:00Z"),
+      ],
+      // e1 shows up on two invoice payloads but is one entry
+      invoices: [invoice("inv1", [line(5_200)], entries), invoice("inv2", [], [entries[0]])],
+      settlements: [settlement("s1", "a"), settlement("s2", "b"), settlement("s3", "b"), settlement("s4", "c"), settlement("s5", "f")],
+      unsettledOrderIds: new Set(["e"]),
+      rateAt: flatRate,
+    });
+    expect(result.rows.map((row) => [row.order.id, row.issues])).toEqual([
+      ["a", []],
+      ["b", ["duplicate_commission", "duplicate_settlement"]],
+      ["c", ["commission_mismatch"]],
+      ["d", ["missing_commission", "missing_settlement"]],
+      ["e", ["missing_commission"]],
+      // After the last invoiced period: no entry yet is expected
+      ["f", []],
+    ]);
+    expect(result.rows[4].pendingSettlement).toBe(true);
+    expect(result.rows[5].awaitingInvoice).toBe(true);
+    expect(result.rows[0].invoiceNumbers).toEqual(["INV1"]);
+    expect(result.mismatches.map((row) => row.order.id)).toEqual(["b", "c", "d", "e"]);
+    expect(result.totals).toEqual({
+      expectedCents: 6_000,
+      commissionCents: 4_500,
+      awaitingInvoice: 1,
+      issues: { duplicate_commission: 1, duplicate_settlement: 1, commission_mismatch: 1, missing_commission: 2, missing_settlement: 1 },
+    });
+    expect(result.orphans.map((item) => item.id)).toEqual(["e9"]);
+  });
+
+  it("ignores the entries of a voided invoice that was reissued", () => {
+    const voided = { ...invoice("inv1", [line(1_200)], [entry("e1", "a", 1_200)]), status: "VOID" as const };
+    const reissued = invoice("inv2", [{ ...line(1_000), invoiceId: "inv2" }], [entry("e2", "a", 1_000, "inv2")]);
+    const result = reconcileLedger({
+      orders: [order("a", 10_000)],
+      invoices: [voided, reissued],
+      settlements: [settlement("s1", "a")],
+      rateAt: flatRate,
+    });
+    expect(result.rows[0]).toMatchObject({ commissionCents: 1_000, invoiceNumbers: ["INV2"], issues: [] });
+    expect(result.invoices).toEqual([]);
+  });
+
+  it("checks invoice commission lines against their entries", () => {
+    const result = reconcileLedger({
+      orders: [order("a", 10_000)],
+      invoices: [invoice("inv1", [line(1_000), line(50)], [entry("e1", "a", 1_000)])],
+      settlements: [settlement("s1", "a")],
+      rateAt: flatRate,
+    });
+    expect(result.mismatches).toEqual([]);
+    expect(result.invoices.map((check) => [check.invoice.number, check.lineCents, check.entryCents, check.differenceCents])).toEqual([
+      ["INV1", 1_050, 1_000, 50],
+    ]);
+  });
+
+  it("keeps signs, so a reversal does not pass for the charge", () => {
+    const result = reconcileLedger({
+      orders: [order("a", 10_000)],
+      invoices: [invoice("inv1", [line(1_000)], [entry("e1", "a", -1_000)])],
+      settlements: [settlement("s1", "a")],
+      rateAt: flatRate,
+    });
+    expect(result.rows[0]).toMatchObject({ commissionCents: -1_000, issues: ["commission_mismatch"] });
+    expect(result.invoices.map((check) => check.differenceCents)).toEqual([2_000]);
+  });
+
+  it("only reports orphans dated inside the range", () => {
+    const entries = [
+      { ...entry("early", "x", 500), createdAt: "2026-09-20T00:00:00Z" },
+      { ...entry("late", "y", 500), createdAt: "2026-10-05T00:00:00Z" },
+    ];
+    const result = reconcileLedger({
+      orders: [],
+      invoices: [invoice("inv1", [line(1_000)], entries)],
+      settlements: [],
+      rateAt: flatRate,
+      range: { from: "2026-10-01T00:00:00Z" },
+    });
+    expect(result.orphans.map((item) => item.id)).toEqual(["late"]);
+  });
+
+  it("bills an order in the period it was delivered in, at that day's rate", () => {
+    const delivered = { ...order("a", 10_000, "2026-10-14T10:00:00Z"), deliveredAt: "2026-10-16T10:00:00Z" };
+    const result = reconcileLedger({
+      orders: [delivered, order("b", 10_000, "2026-10-14T10:00:00Z")],
+      invoices: [invoice("inv1", [], [])],
+      settlements: [settlement("s1", "a"), settlement("s2", "b")],
+      rateAt: (date) => (date < "2026-10-15" ? 1_000 : 800),
+    });
+    expect(result.rows.map((row) => [row.order.id, row.rateBps, row.awaitingInvoice, row.issues])).toEqual([
+      ["a", 800, true, []],
+      ["b", 1_000, false, ["missing_commission"]],
+    ]);
+  });
+
+  it("skips the amount check when the rate is unknown", () => {
+    const result = reconcileLedger({
+      orders: [order("a", 10_000)],
+      invoices: [invoice("inv1", [line(3)], [entry("e1", "a", 3)])],
+      settlements: [settlement("s1", "a")],
+      rateAt: () => null,
+    });
+    expect(result.rows[0]).toMatchObject({ expectedCents: null, issues: [] });
+  });
+});
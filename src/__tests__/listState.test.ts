@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  exportSavedViews,
+  listParam,
+  listStateQuery,
+  loadSavedViews,
+  mergeSavedViews,
+  parseListState,
+  parseSavedViewsExport,
+  serializeListState,
+  setRoleDefault,
+  storeSavedViews,
+  upsertSavedView,
+  type SavedView,
+} from "../lib/list-state";
+
+const schema = {
+  q: listParam.string(),
+  status: listParam.oneOf(["all", "ACTIVE", "DRAFT"] as const, "all"),
+  page: listParam.number(1, { min: 1 }),
+  hasDriver: listParam.optionalBoolean(),
+  minPrice: listParam.optionalNumber(),
+};
+
+const view = (overrides: Partial<SavedView> = {}): SavedView => ({
+  id: "v1",
+  screen: "orders",
+  name: "Unassigned",
+  query: "hasDriver=0",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("list state", () => {
+  it("falls back to defaults for missing or invalid params", () => {
+    const state = parseListState(schema, new URLSearchParams("status=BOGUS&page=0&hasDriver=1&minPrice=12.5&q=milk"));
+    expect(state).toEqual({ q: "milk", status: "all", page: 1, hasDriver: true, minPrice: 12.5 });
+  });
+
+  it("omits defaults and keeps params outside the schema", () => {
+    const params = serializeListState(
+      schema,
+      { q: "", status: "ACTIVE", page: 1, hasDriver: false, minPrice: undefined },
+      new URLSearchParams("orderId=o1&page=3")
+    );
+    expect(params.toString()).toBe("orderId=o1&status=ACTIVE&hasDriver=0");
+  });
+
+  it("round-trips through the stored query", () => {
+    const state = { q: "rice", status: "DRAFT" as const, page: 4, hasDriver: undefined, minPrice: 3 };
+    expect(parseListState(schema, new URLSearchParams(listStateQuery(schema, state)))).toEqual(state);
+  });
+});
+
+describe("saved views", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("replaces a view with the same name on the same screen", () => {
+    const views = upsertSavedView([view()], view({ id: "v2", name: "unassigned ", query: "hasDriver=0&page=2" }));
+    expect(views).toHaveLength(1);
+    expect(views[0]).toMatchObject({ id: "v1", query: "hasDriver=0&page=2" });
+    expect(upsertSavedView(views, view({ id: "v3", screen: "products" }))).toHaveLength(2);
+  });
+
+  it("keeps views per user", () => {
+    storeSavedViews("u1", [view()]);
+    expect(loadSavedViews("u1")).toHaveLength(1);
+    expect(loadSavedViews("u2")).toEqual([]);
+  });
+
+  it("imports an export and drops invalid entries", () => {
+    const text = JSON.stringify({ ...exportSavedViews([view()]), views: [view({ id: "v9", name: "Late" }), { id: "x" }] });
+    const imported = parseSavedViewsExport(text);
+    expect(imported.map((item) => item.id)).toEqual(["v9"]);
+    expect(mergeSavedViews([view()], imported)).toHaveLength(2);
+    expect(() => parseSavedViewsExport("{}")).toThrow();
+    expect(() => parseSavedViewsExport("not json")).toThrow();
+  });
+
+  it("pins and unpins role defaults", () => {
+    const pinned = setRoleDefault({}, "OPS_MANAGER", "orders", { name: "Unassigned", query: "hasDriver=0" });
+    expect(pinned.OPS_MANAGER?.orders?.query).toBe("hasDriver=0");
+    expect(setRoleDefault(pinned, "OPS_MANAGER", "orders", null).OPS_MANAGER).toEqual({});
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { categoryThresholds, dailyVelocity, groupByProvider, lowStockReport, reorderQuantity, resolveThreshold } from "../lib/low-stock";
+import type { Product } from "../types/product";
+
+const product = (id: string, stock: number, extra: Partial<Product> = {}): Product => ({
+  id,
+  name: id,
+  slug: id,
+  priceCents: 1000,
+  stock,
+  status: "ACTIVE",
+  categoryId: "leaf",
+  ...extra,
+});
+
+const categories = [
+  { id: "root", parentId: null, lowStockThreshold: 20 },
+  { id: "leaf", parentId: "root", lowStockThreshold: null },
+  { id: "other", parentId: null },
+];
+
+describe("low stock", () => {
+  it("resolves product, then inherited category, then default thresholds", () => {
+    const byCategory = categoryThresholds(categories);
+    expect(byCategory.get("leaf")).toBe(20);
+    expect(byCategory.has("other")).toBe(false);
+    expect(resolveThreshold(product("a", 0, { lowStockThreshold: 3 }), byCategory)).toEqual({ threshold: 3, source: "product" });
+    expect(resolveThreshold(product("b", 0), byCategory)).toEqual({ threshold: 20, source: "category" });
+    expect(resolveThreshold(product("c", 0, { categoryId: "other" }), byCategory, 7)).toEqual({ threshold: 7, source: "default" });
+  });
+
+  it("survives category cycles", () => {
+    const looped = categoryThresholds([
+      { id: "x", parentId: "y" },
+      { id: "y", parentId: "x" },
+    ]);
+    expect(looped.size).toBe(0);
+  });
+
+  it("suggests enough to cover the window on top of the threshold", () => {
+    expect(reorderQuantity({ stock: 4, threshold: 10, velocity: 2, coverDays: 14 })).toBe(34);
+    expect(reorderQuantity({ stock: -2, threshold: 5, velocity: 0 })).toBe(5);
+    expect(dailyVelocity([{ productId: "a", qty: 60 }], 30).get("a")).toBe(2);
+  });
+
+  it("lists shortages by urgency and groups them by provider", () => {
+    const rows = lowStockReport(
+      [
+        product("slow", 2, { categoryId: "other", providerId: "p1" }),
+        product("fast", 8, { categoryId: "other", providerId: "p2" }),
+        product("plenty", 50, { categoryId: "other" }),
+        product("gone", 0, { categoryId: "other", status: "DISCONTINUED" }),
+        product("faster", 9, { categoryId: "other", providerId: "p1" }),
+      ],
+      { velocity: new Map([["fast", 4], ["faster", 1]]), defaultThreshold: 10, coverDays: 7 }
+    );
+    expect(rows.map((row) => row.product.id)).toEqual(["fast", "faster", "slow"]);
+    expect(rows[0]).toMatchObject({ daysLeft: 2, suggestedQty: 30 });
+    expect(rows[2]).toMatchObject({ daysLeft: null, suggestedQty: 8 });
+    expect([...groupByProvider(rows).keys()]).toEqual(["p2", "p1"]);
+  });
+});
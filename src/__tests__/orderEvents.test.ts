@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { QueryClient } from "@tanstack/react-query";
+import {
+  applyOrderEventToCache,
+  applyOrderEventToPage,
+  applyOrderEventToSummary,
+  changesListMembership,
+  summaryCoversOrder,
+} from "../lib/order-events";
+import { getOrderStreamStatus, openOrderStream } from "../lib/order-stream";
+import { createMockOrderEventSource, type MockOrderEventSource } from "../lib/mock-order-stream";
+import type { DashboardSummary } from "../services/dashboard.service";
+import type { Order, OrderEvent, OrdersPaged } from "../types/order";
+
+const order = (id: string, status: Order["status"]): Order => ({
+  id,
+  code: id.toUpperCase(),
+  totalCents: 1000,
+  status,
+  createdAt: "2024-01-01T00:00:00Z",
+  customer: { id: "c1", name: "Customer", phone: "0100" },
+});
+
+const page = (items: Order[]): OrdersPaged => ({ items, total: items.length, page: 1, pageSize: 20 });
+
+describe("order event cache reducers", () => {
+  it("patches status in place and drops rows that leave a status filter", () => {
+    const event: OrderEvent = { id: "e1", type: "order.status_changed", orderId: "a", at: "2024-01-01T01:00:00Z", from: "PENDING", to: "CONFIRMED" };
+    const patched = applyOrderEventToPage(page([order("a", "PENDING"), order("b", "PENDING")]), event);
+    expect(patched?.items[0].status).toBe("CONFIRMED");
+
+    const filtered = applyOrderEventToPage(page([order("a", "PENDING")]), event, { status: "PENDING", page: 1 });
+    expect(filtered?.items).toHaveLength(0);
+    expect(filtered?.total).toBe(0);
+  });
+
+  it("prepends created orders on the first page and asks for a refetch when filters are unknown", () => {
+    const event: OrderEvent = { id: "e2", type: "order.created", orderId: "n", at: "2024-01-01T01:00:00Z", order: order("n", "PENDING") };
+    expect(applyOrderEventToPage(page([order("a", "PENDING")]), event, { page: 1 })?.items[0].id).toBe("n");
+    expect(applyOrderEventToPage(page([]), event, { page: 2 })).toBeUndefined();
+    expect(applyOrderEventToPage(page([]), event, { customer: "ahmed" })).toBeUndefined();
+  });
+
+  it("flags events that move orders into or out of a filtered list", () => {
+    const base = { id: "e4", orderId: "z", at: "2024-01-01T01:00:00Z" };
+    const confirmed: OrderEvent = { ...base, type: "order.status_changed", from: "PENDING", to: "CONFIRMED" };
+    expect(changesListMembership(confirmed, { status: "CONFIRMED" })).toBe(true);
+    expect(changesListMembership(confirmed, { status: "PENDING" })).toBe(true);
+    expect(changesListMembership(confirmed, { status: "DELIVERED" })).toBe(false);
+    expect(changesListMembership(confirmed, { page: 1 })).toBe(false);
+    expect(changesListMembership({ ...base, type: "order.driver_assigned" }, { hasDriver: false })).toBe(true);
+
+    // an order off the page that now matches the filter cannot be placed locally, hence the refetch
+    expect(applyOrderEventToPage(page([order("a", "CONFIRMED")]), confirmed, { status: "CONFIRMED" })?.items).toHaveLength(1);
+  });
+
+  it("moves dashboard status counts", () => {
+    const summary = {
+      sales: { totalRevenueCents: 0, totalOrders: 1, avgOrderValueCents: 0 },
+      byStatus: [{ status: "PENDING", _count: { status: 1 } }],
+      recent: [],
+      topProducts: [],
+      lowStock: [],
+      customersCount: 0,
+    } as DashboardSummary;
+    const next = applyOrderEventToSummary(summary, {
+      id: "e3",
+      type: "order.status_changed",
+      orderId: "a",
+      at: "2024-01-01T01:00:00Z",
+      from: "PENDING",
+      to: "CONFIRMED",
+    });
+    expect(next.byStatus).toEqual([
+      { status: "PENDING", _count: { status: 0 } },
+      { status: "CONFIRMED", _count: { status: 1 } },
+    ]);
+  });
+
+  it("counts a replayed event once and only patches summaries whose range holds the order", () => {
+    const summary = {
+      sales: { totalRevenueCents: 0, totalOrders: 0, avgOrderValueCents: 0 },
+      byStatus: [],
+      recent: [],
+      topProducts: [],
+      lowStock: [],
+      customersCount: 0,
+    } as DashboardSummary;
+    const queryClient = new QueryClient();
+    const keys = { ordersKey: ["orders"], summaryKey: ["summary"] };
+    const january = { from: "2024-01-01T00:00:00Z", to: "2024-01-31T23:59:59Z" };
+    const february = { from: "2024-02-01T00:00:00Z", to: "2024-02-29T23:59:59Z" };
+    queryClient.setQueryData(["summary", "header"], summary);
+    queryClient.setQueryData(["summary", january], summary);
+    queryClient.setQueryData(["summary", february], summary);
+
+    const created: OrderEvent = { id: "e5", type: "order.created", orderId: "n", at: "2024-01-01T01:00:00Z", order: order("n", "PENDING") };
+    const confirmed: OrderEvent = { id: "e6", type: "order.status_changed", orderId: "n", at: "2024-01-01T02:00:00Z", from: "PENDING", to: "CONFIRMED" };
+    [created, confirmed, created, confirmed].forEach((event) => applyOrderEventToCache(queryClient, event, keys));
+
+    const counts = (range: unknown) => queryClient.getQueryData<DashboardSummary>(["summary", range]);
+    expect(counts("header")?.sales.totalOrders).toBe(1);
+    expect(counts(january)?.byStatus).toEqual([
+      { status: "PENDING", _count: { status: 0 } },
+      { status: "CONFIRMED", _count: { status: 1 } },
+    ]);
+    expect(counts(february)).toBe(summary);
+
+    expect(summaryCoversOrder(january, undefined)).toBeNull();
+    expect(summaryCoversOrder({}, undefined)).toBe(true);
+  });
+});
+
+describe("order stream", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("delivers mock events and falls back to polling after repeated failures", async () => {
+    vi.useFakeTimers();
+    const sources: MockOrderEventSource[] = [];
+    const onMessage = vi.fn();
+    const stream = openOrderStream({
+      key: "admin",
+      url: () => "mock://orders",
+      onMessage,
+      initialDelayMs: 10,
+      fallbackAfter: 2,
+      createSource: () => {
+        const source = createMockOrderEventSource({ autoplay: false, unreachable: sources.length === 1 || sources.length === 2 });
+        sources.push(source);
+        return source;
+      },
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getOrderStreamStatus("admin")).toBe("open");
+    sources[0].emit({ type: "order.created", orderId: "x" });
+    expect(onMessage).toHaveBeenCalledWith({ type: "order.created", orderId: "x" });
+
+    sources[0].fail();
+    await vi.advanceTimersByTimeAsync(15);
+    expect(sources).toHaveLength(2);
+    expect(getOrderStreamStatus("admin")).toBe("fallback");
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(sources).toHaveLength(4);
+    expect(getOrderStreamStatus("admin")).toBe("open");
+    expect(getOrderStreamStatus("provider")).toBe("idle");
+    stream.close();
+    expect(getOrderStreamStatus("admin")).toBe("idle");
+  });
+
+  it("waits for an asynchronous url and ignores it once closed", async () => {
+    vi.useFakeTimers();
+    const createSource = vi.fn(() => createMockOrderEventSource({ autoplay: false }));
+    let resolveUrl: (url: string) => void = () => undefined;
+    const stream = openOrderStream({
+      key: "provider",
+      url: () => new Promise<string>((resolve) => (resolveUrl = resolve)),
+      onMessage: vi.fn(),
+      createSource,
+    });
+    expect(getOrderStreamStatus("provider")).toBe("connecting");
+    stream.close();
+    resolveUrl("mock://orders?ticket=t1");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(createSource).not.toHaveBeenCalled();
+    expect(getOrderStreamStatus("provider")).toBe("idle");
+  });
+});
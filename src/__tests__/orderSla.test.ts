@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyOrderEventToSla,
+  collectNewBreaches,
+  evaluateSlaEntries,
+  formatSlaDuration,
+  statusEnteredAt,
+  thresholdsFromWatcher,
+  DEFAULT_SLA_MINUTES,
+} from "../lib/order-sla";
+import type { Order } from "../types/order";
+
+const order = (id: string, status: Order["status"], updatedAt = "2024-01-01T10:00:00Z"): Order => ({
+  id,
+  code: id.toUpperCase(),
+  totalCents: 1000,
+  status,
+  createdAt: "2024-01-01T09:00:00Z",
+  updatedAt,
+  customer: { id: "c1", name: "Customer", phone: "0100" },
+});
+
+const at = (time: string) => new Date(`2024-01-01T${time}:00Z`).getTime();
+
+describe("order SLA", () => {
+  it("uses watcher thresholds per status and falls back to the default", () => {
+    expect(thresholdsFromWatcher([{ status: "pending", minutes: 10 }, { status: "PREPARING", minutes: 0 }])).toEqual({ PENDING: 10 });
+    expect(thresholdsFromWatcher([]).CONFIRMED).toBe(DEFAULT_SLA_MINUTES);
+  });
+
+  it("measures age from the latest history entry into the current status", () => {
+    const current = order("a", "PREPARING", "2024-01-01T10:30:00Z");
+    const history = [
+      { id: "h1", at: "2024-01-01T09:00:00Z", to: "PENDING" as const },
+      { id: "h2", at: "2024-01-01T09:20:00Z", from: "CONFIRMED" as const, to: "PREPARING" as const },
+    ];
+    expect(statusEnteredAt(current, history)).toBe("2024-01-01T09:20:00Z");
+    expect(statusEnteredAt(current)).toBe("2024-01-01T10:30:00Z");
+  });
+
+  it("flags breaches, sorts most urgent first and alerts once per status", () => {
+    const thresholds = { PENDING: 15, PREPARING: 60 };
+    const entries = [
+      { order: order("a", "PREPARING"), enteredAt: "2024-01-01T10:00:00Z" },
+      { order: order("b", "PENDING"), enteredAt: "2024-01-01T10:00:00Z" },
+      { order: order("c", "DELIVERED"), enteredAt: "2024-01-01T08:00:00Z" },
+    ];
+    const states = evaluateSlaEntries(entries, thresholds, at("10:20"));
+    expect(states.map((state) => [state.order.id, state.breached])).toEqual([
+      ["b", true],
+      ["a", false],
+    ]);
+    expect(formatSlaDuration(states[0].remainingMs)).toBe("5m");
+
+    const seen = new Set<string>();
+    expect(collectNewBreaches(states, seen)).toHaveLength(1);
+    expect(collectNewBreaches(states, seen)).toHaveLength(0);
+    expect(formatSlaDuration(-(65 * 60_000))).toBe("1h 05m");
+  });
+
+  it("follows status changes from the order stream", () => {
+    const entries = [{ order: order("a", "PENDING"), enteredAt: "2024-01-01T10:00:00Z" }];
+    const statuses: Order["status"][] = ["PENDING", "PREPARING"];
+    const moved = applyOrderEventToSla(
+      entries,
+      { id: "e1", type: "order.status_changed", orderId: "a", at: "2024-01-01T10:05:00Z", from: "PENDING", to: "PREPARING" },
+      statuses
+    );
+    expect(moved).toEqual([{ order: { ...entries[0].order, status: "PREPARING" }, enteredAt: "2024-01-01T10:05:00Z" }]);
+
+    const done = applyOrderEventToSla(moved, { id: "e2", type: "order.canceled", orderId: "a", at: "2024-01-01T10:06:00Z" }, statuses);
+    expect(done).toEqual([]);
+  });
+});
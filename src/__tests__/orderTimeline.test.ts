@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { buildOrderTimeline, filterTimeline, groupTimeline } from "../lib/order-timeline";
+import type { AutomationEvent } from "../services/automation.service";
+import type { WhatsappLog } from "../services/whatsapp.service";
+import type { OrderHistoryEntry } from "../types/order";
+
+const history: OrderHistoryEntry[] = [
+  { id: "h1", at: "2024-01-01T10:00:00Z", to: "PENDING" },
+  { id: "h2", at: "2024-01-01T10:05:00Z", from: "PENDING", to: "CONFIRMED" },
+];
+
+const automation: AutomationEvent[] = [
+  { id: "a1", createdAt: "2024-01-01T10:05:01Z", type: "order.confirmed", status: "SENT", attempts: 1, correlationId: "corr-1" },
+  { id: "a1", createdAt: "2024-01-01T10:05:01Z", type: "order.confirmed", status: "SENT", attempts: 1, correlationId: "corr-1" },
+];
+
+const whatsapp: WhatsappLog[] = [
+  {
+    id: "w1",
+    createdAt: "2024-01-01T10:05:03Z",
+    direction: "OUTBOUND",
+    status: "DELIVERED",
+    metadata: { correlationId: "corr-1" },
+  },
+  { id: "w2", createdAt: "2024-01-01T10:20:00Z", direction: "INBOUND", status: "READ" },
+];
+
+describe("order timeline", () => {
+  it("merges the feeds newest first without duplicates", () => {
+    const entries = buildOrderTimeline({ history, automation, whatsapp });
+    expect(entries.map((entry) => entry.key)).toEqual(["whatsapp:w2", "whatsapp:w1", "automation:a1", "status:h2", "status:h1"]);
+  });
+
+  it("filters by source", () => {
+    const entries = buildOrderTimeline({ history, automation, whatsapp });
+    expect(filterTimeline(entries, ["status"]).every((entry) => entry.source === "status")).toBe(true);
+    expect(filterTimeline(entries, [])).toHaveLength(0);
+  });
+
+  it("groups entries sharing a correlation id, oldest first inside the group", () => {
+    const groups = groupTimeline(buildOrderTimeline({ history, automation, whatsapp }));
+    expect(groups.map((group) => group.key)).toEqual(["whatsapp:w2", "corr:corr-1", "status:h2", "status:h1"]);
+    expect(groups[1].entries.map((entry) => entry.key)).toEqual(["automation:a1", "whatsapp:w1"]);
+    expect(groups[1].at).toBe("2024-01-01T10:05:03Z");
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+  BankFileError,
+  batchTotals,
+  newBatchId,
+  parseBankConfirmation,
+  payoutFee,
+  priceLine,
+  proposeBatch,
+  reconcileConfirmations,
+} from "../lib/payout-batch";
+import type { PayoutItem, VendorBalanceItem } from "../services/admin-finance.service";
+
+const balance = (providerId: string, availableCents: number): VendorBalanceItem => ({
+  id: `b-${providerId}`,
+  providerId,
+  availableCents,
+  pendingCents: 0,
+  lifetimeSalesCents: 0,
+  lifetimeCommissionCents: 0,
+  lifetimeEarningsCents: 0,
+  provider: { id: providerId, name: providerId.toUpperCase(), status: "ACTIVE" },
+});
+
+const payout = (id: string, referenceId: string, extra: Partial<PayoutItem> = {}): PayoutItem => ({
+  id,
+  providerId: "p1",
+  amountCents: 50_000,
+  feeCents: 500,
+  status: "PROCESSING",
+  referenceId,
+  createdAt: "2026-10-19T10:00:00Z",
+  ...extra,
+});
+
+const rules = { minAmountCents: 10_000, feeFlatCents: 200, feeBps: 100 };
+
+describe("payout batch", () => {
+  it("charges a flat plus percentage fee", () => {
+    expect(payoutFee(50_000, rules)).toBe(700);
+    expect(payoutFee(0, rules)).toBe(0);
+  });
+
+  it("proposes the available balance per provider and skips lines under the minimum", () => {
+    const lines = proposeBatch([balance("small", 5_000), balance("big", 80_000), balance("none", 0)], rules, "PB1");
+    expect(lines.map((line) => [line.providerId, line.referenceId, line.included, line.skip])).toEqual([
+      ["big", "PB1-001", true, undefined],
+      ["small", "PB1-002", false, "below_minimum"],
+    ]);
+    expect(lines[0]).toMatchObject({ amountCents: 80_000, feeCents: 1_000, netCents: 79_000 });
+    expect(batchTotals(lines)).toEqual([{ currency: "EGP", count: 1, amountCents: 80_000, feeCents: 1_000, netCents: 79_000 }]);
+  });
+
+  it("adds totals up per currency", () => {
+    const lines = proposeBatch(
+      [balance("p1", 50_000), { ...balance("p2", 20_000), currency: "USD" }, balance("p3", 30_000)],
+      rules,
+      "PB1"
+    );
+    expect(batchTotals(lines)).toEqual([
+      { currency: "EGP", count: 2, amountCents: 80_000, feeCents: 1_200, netCents: 78_800 },
+      { currency: "USD", count: 1, amountCents: 20_000, feeCents: 400, netCents: 19_600 },
+    ]);
+  });
+
+  it("caps edited amounts at the available balance and flags fees that eat the payout", () => {
+    const [line] = proposeBatch([balance("p1", 30_000)], rules, "PB1");
+    expect(priceLine(line, 90_000, rules).amountCents).toBe(30_000);
+    expect(priceLine(line, 20_000, { minAmountCents: 0, feeFlatCents: 25_000, feeBps: 0 })).toMatchObject({
+      included: false,
+      skip: "fee_exceeds_amount",
+    });
+  });
+
+  it("names batches after the second they start, with a random part", () => {
+    expect(newBatchId(new Date(2026, 9, 19, 14, 5, 7), "K7Q2")).toBe("PB261019140507K7Q2");
+    const at = new Date(2026, 9, 19, 14, 5, 7);
+    expect(newBatchId(at)).toMatch(/^PB261019140507[0-9A-Z]{4}$/);
+    expect(new Set(Array.from({ length: 20 }, () => newBatchId(at))).size).toBeGreaterThan(1);
+  });
+});
+
+describe("bank confirmation", () => {
+  it("finds columns by header and reads statuses in English or Arabic", () => {
+    const rows = parseBankConfirmation([
+      ["Payment Reference", "Amount", "Transfer Status", "Remarks"],
+      ["PB1-001", "495.00", "Completed", ""],
+      ["PB1-002", "", "\u0645\u0631\u0641\u0648\u0636", "Closed account"],
+      ["", "", "", ""],
+    ]);
+    expect(rows).toEqual([
+      { rowNumber: 2, referenceId: "PB1-001", status: "PAID", rawStatus: "Completed", reason: undefined, amountCents: 49_500 },
+      { rowNumber: 3, referenceId: "PB1-002", status: "FAILED", rawStatus: "\u0645\u0631\u0641\u0648\u0636", reason: "Closed account", amountCents: undefined },
+    ]);
+  });
+
+  it("rejects files without a reference or status column", () => {
+    expect(() => parseBankConfirmation([["Amount", "Status"], ["1", "ok"]])).toThrow(BankFileError);
+    expect(() => parseBankConfirmation([["Reference"], ["PB1-001"]])).toThrow(BankFileError);
+  });
+
+  it("applies only clean one-to-one matches", () => {
+    const confirmations = parseBankConfirmation([
+      ["reference", "status", "amount"],
+      ["pb1-001", "paid", "495"],
+      ["PB1-002", "paid", "100"],
+      ["PB1-003", "pending", ""],
+      ["PB1-004", "failed", ""],
+      ["PB1-009", "paid", ""],
+      ["PB1-001", "paid", ""],
+      ["PB1-005", "failed", ""],
+      ["PB1-006", "paid", ""],
+    ]);
+    const payouts = [
+      payout("a", "PB1-001"),
+      payout("b", "PB1-002"),
+      payout("c", "PB1-003"),
+      payout("d", "PB1-004"),
+      payout("e", "PB1-005", { status: "PAID" }),
+      payout("f", "PB1-006"),
+      payout("g", "pb1-006 "),
+    ];
+    expect(reconcileConfirmations(confirmations, payouts).map((row) => row.status ?? row.issue)).toEqual([
+      "PAID",
+      "amount_mismatch",
+      "unknown_status",
+      "FAILED",
+      "unmatched",
+      "duplicate",
+      "already_final",
+      "ambiguous",
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { computeMargin, costAt, marginTone, sortCostHistory } from "../lib/product-cost";
+import type { ProductCostEntry } from "../types/product";
+
+const entry = (id: string, costCents: number, effectiveFrom: string): ProductCostEntry => ({
+  id,
+  productId: "p1",
+  costCents,
+  effectiveFrom,
+});
+
+describe("computeMargin", () => {
+  it("returns profit, margin and markup", () => {
+    expect(computeMargin(10000, 7500)).toEqual({ profitCents: 2500, marginPercent: 25, markupPercent: (2500 / 7500) * 100 });
+  });
+
+  it("leaves markup empty for a zero cost", () => {
+    expect(computeMargin(1000, 0)?.markupPercent).toBeNull();
+  });
+
+  it("needs a positive price and a known cost", () => {
+    expect(computeMargin(0, 100)).toBeNull();
+    expect(computeMargin(1000, null)).toBeNull();
+    expect(computeMargin(1000, -1)).toBeNull();
+  });
+});
+
+describe("marginTone", () => {
+  it("flags losses and thin margins", () => {
+    expect(marginTone(computeMargin(1000, 1200)!)).toBe("loss");
+    expect(marginTone(computeMargin(1000, 950)!)).toBe("thin");
+    expect(marginTone(computeMargin(1000, 600)!)).toBe("healthy");
+  });
+});
+
+describe("cost history", () => {
+  const history = [
+    entry("a", 100, "2024-01-01T00:00:00Z"),
+    entry("c", 300, "2024-09-01T00:00:00Z"),
+    entry("b", 200, "2024-05-01T00:00:00Z"),
+  ];
+
+  it("sorts newest effective date first", () => {
+    expect(sortCostHistory(history).map((item) => item.id)).toEqual(["c", "b", "a"]);
+  });
+
+  it("picks the entry in effect at a date", () => {
+    expect(costAt(history, new Date("2024-06-15T00:00:00Z"))?.costCents).toBe(200);
+    expect(costAt(history, new Date("2023-12-31T00:00:00Z"))).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import {
+  altsByUrl,
+  cropOutputSize,
+  cropRect,
+  imageAltsPayload,
+  mergeImages,
+  moveItem,
+  removeImage,
+  replaceImage,
+  resolvePrimary,
+} from "../lib/product-gallery";
+
+describe("product gallery", () => {
+  it("reorders and merges without duplicates", () => {
+    expect(moveItem(["a", "b", "c"], 0, 2)).toEqual(["b", "c", "a"]);
+    expect(moveItem(["a", "b", "c"], 2, 0)).toEqual(["c", "a", "b"]);
+    expect(moveItem(["a"], 3, 0)).toEqual(["a"]);
+    expect(mergeImages(["a", "b"], [" b ", "", "c"])).toEqual(["a", "b", "c"]);
+  });
+
+  it("keeps a valid cover through removals and crops", () => {
+    expect(resolvePrimary(["a", "b"], "z")).toBe("a");
+    expect(resolvePrimary([], "a")).toBe("");
+    expect(removeImage(["a", "b"], "a", "a")).toEqual({ images: ["b"], primary: "b" });
+    expect(removeImage(["a", "b"], "a", "b")).toEqual({ images: ["a"], primary: "a" });
+    expect(replaceImage(["a", "b"], "b", "b", "b2")).toEqual({ images: ["a", "b2"], primary: "b2" });
+  });
+
+  it("fits the largest crop of the ratio and clamps its position", () => {
+    expect(cropRect({ width: 1000, height: 500 }, 1)).toEqual({ x: 250, y: 0, width: 500, height: 500 });
+    expect(cropRect({ width: 1000, height: 500 }, 16 / 9, { x: 0 })).toEqual({ x: 0, y: 0, width: 889, height: 500 });
+    expect(cropRect({ width: 800, height: 1200 }, 4 / 3, { y: 2 })).toEqual({ x: 0, y: 600, width: 800, height: 600 });
+    expect(cropRect({ width: 1000, height: 1000 }, 1, { zoom: 2, x: 1, y: 0 })).toEqual({ x: 500, y: 0, width: 500, height: 500 });
+    expect(cropOutputSize({ x: 0, y: 0, width: 3200, height: 2400 })).toEqual({ width: 1600, height: 1200 });
+  });
+
+  it("sends alt text only for images still in the gallery", () => {
+    const alts = altsByUrl([
+      { url: "a", alt: "Red mug", altAr: null },
+      { url: "gone", alt: "Old", altAr: "\u0642\u062f\u064a\u0645" },
+    ]);
+    alts.b = { alt: " ", altAr: "\u0643\u0648\u0628" };
+    expect(imageAltsPayload(["b", "a", "c"], alts)).toEqual([
+      { url: "b", alt: null, altAr: "\u0643\u0648\u0628" },
+      { url: "a", alt: "Red mug", altAr: null },
+    ]);
+  });
+});
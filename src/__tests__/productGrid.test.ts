@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { Product } from "../services/products.service";
+import {
+  applyGridChanges,
+  cellChange,
+  currentGridValues,
+  gridPatch,
+  parseClipboard,
+  pasteChanges,
+  revertGridChanges,
+  validateGridValues,
+  type GridEdits,
+} from "../lib/product-grid";
+
+const product = (id: string, extra: Partial<Product> = {}): Product => ({
+  id,
+  name: id,
+  slug: id,
+  priceCents: 1000,
+  salePriceCents: null,
+  stock: 5,
+  status: "ACTIVE",
+  categoryId: "c1",
+  ...extra,
+});
+
+const products = [product("a"), product("b", { salePriceCents: 800 }), product("c", { variants: [{ options: {}, priceCents: 1, stock: 1 }] })];
+
+describe("product grid", () => {
+  it("parses tab-separated clipboard text from Excel", () => {
+    expect(parseClipboard('12.5\t3\r\n"1,200"\t\r\n')).toEqual([
+      ["12.5", "3"],
+      ["1,200", ""],
+    ]);
+  });
+
+  it("pastes from the active cell and skips read-only cells", () => {
+    const changes = pasteChanges(products, {}, { row: 0, col: 2 }, [["7", "hidden", "x"], ["9"], ["4", "draft"]]);
+    expect(changes).toEqual([
+      { id: "a", column: "stock", before: undefined, after: "7" },
+      { id: "a", column: "status", before: undefined, after: "HIDDEN" },
+      { id: "b", column: "stock", before: undefined, after: "9" },
+      { id: "c", column: "status", before: undefined, after: "DRAFT" },
+    ]);
+  });
+
+  it("tracks dirty rows and undoes a batch back to the saved values", () => {
+    let edits: GridEdits = applyGridChanges({}, [cellChange(products[0], {}, "price", "12")], products);
+    const second = [cellChange(products[0], edits, "price", "15"), cellChange(products[1], edits, "stock", "5")];
+    expect(second[1].after).toBeUndefined();
+    edits = applyGridChanges(edits, second, products);
+    expect(currentGridValues(products[0], edits).price).toBe("15");
+    expect(Object.keys(edits)).toEqual(["a"]);
+
+    edits = revertGridChanges(edits, second);
+    expect(edits.a.values).toEqual({ price: "12" });
+    expect(revertGridChanges(edits, [{ id: "a", column: "price", after: "12" }])).toEqual({});
+  });
+
+  it("validates values and builds a patch of the changed fields", () => {
+    expect(validateGridValues({ price: "10", salePrice: "12", stock: "1.5", status: "SOLD" })).toEqual({
+      salePrice: "invalid_sale_price",
+      stock: "invalid_stock",
+      status: "invalid_status",
+    });
+    expect(gridPatch(products[1], { salePrice: "" })).toEqual({ salePriceCents: null, priceCents: 1000 });
+    expect(gridPatch(products[0], { price: "1,250.50", stock: "3" })).toEqual({ priceCents: 125050, stock: 3 });
+  });
+});
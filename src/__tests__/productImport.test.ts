@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, readXlsxRows, columnIndex } from "../lib/spreadsheet-read";
+import { toXlsx } from "../lib/table-export";
+import {
+  guessMapping,
+  missingRequiredFields,
+  parseImportNumber,
+  rowsToCsv,
+  validateImportRows,
+  type ImportRow,
+} from "../lib/product-import";
+
+const categories = [
+  { id: "c1", name: "Dairy", nameAr: "ألبان", slug: "dairy" },
+  { id: "c2", name: "Bakery", slug: "bakery" },
+];
+
+const row = (rowNumber: number, cells: string[]): ImportRow => ({ rowNumber, cells });
+
+describe("spreadsheet reading", () => {
+  it("parses CSV with a BOM, quotes and semicolons", () => {
+    expect(parseCsv('\uFEFFName,Price\r\n"Milk, ""full""",12.5\r\n\r\n')).toEqual([
+      ["Name", "Price"],
+      ['Milk, "full"', "12.5"],
+    ]);
+    expect(parseCsv("Name;Price\nBread;3,5")).toEqual([
+      ["Name", "Price"],
+      ["Bread", "3,5"],
+    ]);
+  });
+
+  it("reads back the first sheet of an XLSX", async () => {
+    const bytes = toXlsx(
+      [
+        { name: "Milk <1L>", total: 12.5 },
+        { name: "Bread", total: 3 },
+      ],
+      [
+        { header: "Name", value: (item: { name: string; total: number }) => item.name },
+        { header: "Price", value: (item: { name: string; total: number }) => item.total },
+      ]
+    );
+    expect(await readXlsxRows(bytes)).toEqual([
+      ["Name", "Price"],
+      ["Milk <1L>", "12.5"],
+      ["Bread", "3"],
+    ]);
+  });
+
+  it("turns cell references into column indexes", () => {
+    expect(["A1", "Z9", "AA10", "AB2"].map(columnIndex)).toEqual([0, 25, 26, 27]);
+  });
+});
+
+describe("product import", () => {
+  it("guesses the mapping from headers once per field", () => {
+    expect(guessMapping(["SKU", "Product Name", "السعر", "Category_Slug", "Notes", "name"])).toEqual([
+      "sku",
+      "name",
+      "price",
+      "category",
+      null,
+      null,
+    ]);
+    expect(missingRequiredFields(["sku", "name", null])).toEqual(["category", "price"]);
+  });
+
+  it("parses spreadsheet amounts", () => {
+    expect(parseImportNumber("1,250.50")).toBe(1250.5);
+    expect(parseImportNumber("12,50")).toBe(12.5);
+    expect(parseImportNumber("1,250")).toBe(1250);
+    expect(parseImportNumber("١٢٫٥ ج.م")).toBe(12.5);
+    expect(parseImportNumber("abc")).toBeNaN();
+  });
+
+  it("flags duplicates, unknown categories and bad numbers per row", () => {
+    const mapping = guessMapping(["sku", "name", "category", "price", "sale price", "stock", "status"]);
+    const rows = [
+      row(2, ["A1", "Milk", "dairy", "10", "8", "5", "active"]),
+      row(3, ["a1", "Cheese", "ألبان", "0", "", "2.5", ""]),
+      row(4, ["B2", "", "Frozen", "5", "6", "", "sold"]),
+    ];
+    const issues = validateImportRows(rows, mapping, categories);
+    expect(issues[0]).toEqual([{ field: "sku", code: "duplicate_sku" }]);
+    expect(issues[1].map((issue) => issue.code)).toEqual(["duplicate_sku", "invalid_price", "invalid_stock"]);
+    expect(issues[2].map((issue) => issue.code)).toEqual([
+      "required",
+      "unknown_category",
+      "invalid_sale_price",
+      "invalid_status",
+    ]);
+    expect(validateImportRows(rows.slice(2), mapping, null)[0].map((issue) => issue.code)).not.toContain(
+      "unknown_category"
+    );
+  });
+
+  it("writes mapped fields under the template headers, in template order, with category ids", () => {
+    const csv = rowsToCsv(
+      [row(2, ["Milk, 1L", "1,250.00", "active", "keep", "ألبان"]), row(3, ["Bread", "3", "", "", "Pastry"])],
+      ["name", "price", "status", null, "category"],
+      categories
+    );
+    expect(csv).toBe('\uFEFFname,categoryId,price,status\r\n"Milk, 1L",c1,1250,ACTIVE\r\nBread,Pastry,3,\r\n');
+  });
+
+  it("keeps the category as typed when the categories are not loaded", () => {
+    expect(rowsToCsv([row(2, ["Dairy", "Milk"])], ["category", "name"], null)).toBe("\uFEFFname,categoryId\r\nMilk,Dairy\r\n");
+  });
+});
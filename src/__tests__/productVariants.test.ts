@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildVariantMatrix,
+  discardedVariants,
+  formatItemOptions,
+  restoreVariantPrices,
+  serializeOptionGroups,
+  summarizeVariants,
+  validateVariants,
+  variantsFromForm,
+  type VariantFormValue,
+} from "../lib/product-variants";
+import type { ProductOptionGroup } from "../types/product";
+
+const groups: ProductOptionGroup[] = [
+  { name: "Size", type: "VARIANT", values: [{ label: "S" }, { label: "L" }] },
+  { name: "Color", type: "VARIANT", values: [{ label: "Red" }, { label: "" }, { label: "Blue" }] },
+  { name: "Extras", type: "ADDON", values: [{ label: "Cheese", priceDeltaCents: 500 }] },
+];
+
+describe("buildVariantMatrix", () => {
+  it("crosses variant groups only and seeds new rows", () => {
+    const rows = buildVariantMatrix(groups, [], { price: "20", sku: "TEE" });
+    expect(rows).toHaveLength(4);
+    expect(rows[0]).toMatchObject({ options: { Size: "S", Color: "Red" }, sku: "TEE-S-RED", price: "20", stock: "0" });
+  });
+
+  it("keeps edited rows that still exist", () => {
+    const first = buildVariantMatrix(groups, [], { price: "20" });
+    const edited = first.map((row) => (row.options.Size === "L" ? { ...row, price: "25", stock: "3" } : row));
+    const next = buildVariantMatrix(
+      groups.map((group) => (group.name === "Size" ? { ...group, values: [...group.values, { label: "XL" }] } : group)),
+      edited,
+      { price: "20" }
+    );
+    expect(next).toHaveLength(6);
+    expect(next.find((row) => row.options.Size === "L" && row.options.Color === "Blue")).toMatchObject({ price: "25", stock: "3" });
+  });
+
+  it("carries saved rows across when an axis is added or removed", () => {
+    const sizes = [groups[0]];
+    const saved = buildVariantMatrix(sizes, [], { price: "20" }).map((row, i) => ({ ...row, id: `v${i}`, stock: "4" }));
+    const widened = buildVariantMatrix(groups, saved, { price: "20" });
+    expect(widened.filter((row) => row.id).map((row) => [row.id, row.options])).toEqual([
+      ["v0", { Size: "S", Color: "Red" }],
+      ["v1", { Size: "L", Color: "Red" }],
+    ]);
+    expect(discardedVariants(saved, widened)).toEqual([]);
+
+    const narrowed = buildVariantMatrix([groups[1]], widened, { price: "20" });
+    expect(narrowed.map((row) => row.id)).toEqual(["v0", undefined]);
+    expect(discardedVariants(widened, narrowed).map((row) => row.id)).toEqual(["v1"]);
+  });
+});
+
+describe("restoreVariantPrices", () => {
+  it("keeps saved prices and seeds new rows from the product price", () => {
+    const restored = restoreVariantPrices(
+      [
+        { id: "v1", options: { Size: "S" }, priceCents: 1, salePriceCents: 1, stock: 2 },
+        { options: { Size: "L" }, priceCents: 1, stock: 2 },
+      ],
+      [{ id: "v1", options: { Size: "S" }, priceCents: 2_000, salePriceCents: null, stock: 5 }],
+      2_500
+    );
+    expect(restored.map((variant) => [variant.priceCents, variant.salePriceCents, variant.stock])).toEqual([
+      [2_000, null, 2],
+      [2_500, null, 2],
+    ]);
+  });
+});
+
+describe("validateVariants", () => {
+  const row = (patch: Partial<VariantFormValue>): VariantFormValue => ({
+    options: {},
+    sku: "A",
+    price: "10",
+    salePrice: "",
+    stock: "1",
+    imageUrl: "",
+    ...patch,
+  });
+
+  it("flags duplicate SKUs, bad prices and stock", () => {
+    const issues = validateVariants([row({}), row({ sku: "a" }), row({ sku: "", price: "0", salePrice: "12", stock: "-1" })]);
+    expect(issues[0]).toEqual(["sku_duplicate"]);
+    expect(issues[2]).toEqual(["sku_required", "invalid_price", "invalid_sale_price", "invalid_stock"]);
+  });
+
+  it("summarizes valid rows", () => {
+    const variants = variantsFromForm([row({ price: "12.5", stock: "2" }), row({ sku: "B", price: "10", salePrice: "8", stock: "5" })]);
+    expect(summarizeVariants(variants)).toEqual({ minPriceCents: 1000, minSalePriceCents: 800, totalStock: 7 });
+  });
+});
+
+describe("serialization", () => {
+  it("drops empty values and keeps add-on deltas", () => {
+    const serialized = serializeOptionGroups(groups);
+    expect(serialized[1].values.map((value) => value.label)).toEqual(["Red", "Blue"]);
+    expect(serialized[0].values[0]).not.toHaveProperty("priceDeltaCents");
+    expect(serialized[2].values[0].priceDeltaCents).toBe(500);
+  });
+
+  it("formats selected options per language", () => {
+    const options = [
+      { group: "Size", groupAr: "الحجم", value: "L", valueAr: "كبير" },
+      { group: "", value: "Extra cheese" },
+    ];
+    expect(formatItemOptions(options)).toBe("Size: L · Extra cheese");
+    expect(formatItemOptions(options, "ar")).toBe("الحجم: كبير · Extra cheese");
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { encodeQr, qrSvg, reedSolomonRemainder } from "../lib/qr";
+
+describe("qr encoder", () => {
+  it("computes Reed-Solomon codewords", () => {
+    // "HELLO WORLD" at 1-M, from the worked example in the spec tutorials
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+
+  it("picks the smallest version that fits", () => {
+    expect(encodeQr("ORD-1024")).toHaveLength(21);
+    expect(encodeQr("x".repeat(20))).toHaveLength(25);
+    expect(() => encodeQr("x".repeat(400))).toThrow();
+  });
+
+  it("draws finder patterns and valid format bits", () => {
+    const modules = encodeQr("ORD-1024");
+    const size = modules.length;
+    [
+      [0, 0],
+      [size - 7, 0],
+      [0, size - 7],
+    ].forEach(([x, y]) => {
+      expect(modules[y].slice(x, x + 7)).toEqual([true, true, true, true, true, true, true]);
+      expect(modules[y + 1].slice(x, x + 7)).toEqual([true, false, false, false, false, false, true]);
+      expect(modules[y + 3].slice(x, x + 7)).toEqual([true, false, true, true, true, false, true]);
+    });
+    expect(modules[size - 8][8]).toBe(true);
+
+    // Read the first format copy back and check its BCH remainder
+    const positions = [0, 1, 2, 3, 4, 5, 7, 8].map((y) => [8, y]).concat([7, 5, 4, 3, 2, 1, 0].map((x) => [x, 8]));
+    const bits = positions.reduce((acc, [x, y], i) => acc | (Number(modules[y][x]) << i), 0) ^ 0x5412;
+    let rem = bits;
+    for (let i = 14; i >= 10; i -= 1) if ((rem >>> i) & 1) rem ^= 0x537 << (i - 10);
+    expect(rem).toBe(0);
+    // level M
+    expect(bits >>> 13).toBe(0);
+  });
+
+  it("renders svg markup with a quiet zone", () => {
+    const svg = qrSvg("ORD-1024", { sizePx: 100 });
+    expect(svg).toContain('viewBox="0 0 29 29"');
+    expect(svg).toContain('width="100"');
+    expect(svg).toContain("M4 4h1v1h-1z");
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { buildPrintDocument, escapeHtml, type ReceiptLabels } from "../lib/receipt-print";
+import type { OrderReceipt } from "../types/order";
+
+const labels = new Proxy({} as ReceiptLabels, { get: (_target, key) => `[${String(key)}]` });
+
+const receipt = (code: string): OrderReceipt => ({
+  id: code,
+  code,
+  status: "CONFIRMED",
+  createdAt: "2024-01-01T10:00:00Z",
+  customer: { id: "c1", name: "Mona <VIP>", phone: "0100" },
+  address: { street: "Tahrir St", city: "Cairo", notes: "Ring twice\nLeave at door" },
+  items: [
+    { productId: "p1", productName: "Milk", quantity: 2, unitPriceCents: 2500, lineTotalCents: 5000 },
+    { productId: "p2", productName: "Bread", quantity: 1, unitPriceCents: 1000, lineTotalCents: 1000 },
+  ],
+  subtotalCents: 6000,
+  couponDiscountCents: 500,
+  loyaltyDiscountCents: 0,
+  shippingFeeCents: 1500,
+  totalCents: 7000,
+  currency: "EGP",
+});
+
+const options = {
+  lang: "ar",
+  dir: "rtl" as const,
+  labels,
+  branding: { storeName: "Fasket", header: "Tax ID 123", footer: "Thank you\nCome again" },
+  formatMoney: (cents: number) => (cents / 100).toFixed(2),
+  formatDate: (iso: string) => iso.slice(0, 10),
+};
+
+describe("receipt print documents", () => {
+  it("renders one thermal receipt per page with branding, totals and a QR code", () => {
+    const html = buildPrintDocument([receipt("A1"), receipt("A2")], { ...options, format: "thermal58" });
+    expect(html).toContain('dir="rtl"');
+    expect(html).toContain("size: 58mm auto");
+    expect(html.match(/<section class="doc thermal">/g)).toHaveLength(2);
+    expect(html).toContain("Mona &lt;VIP&gt;");
+    expect(html).toContain("Thank you<br/>Come again");
+    expect(html).toContain("-5.00");
+    expect(html).not.toContain("[loyalty]");
+    expect(html.match(/<svg/g)).toHaveLength(2);
+  });
+
+  it("renders A4 packing slips with pick boxes and unit count", () => {
+    const html = buildPrintDocument([receipt("A1")], { ...options, format: "a4" });
+    expect(html).toContain("size: A4");
+    expect(html).toContain("[packingSlip] · #A1");
+    expect(html.match(/class="box"/g)).toHaveLength(2);
+    expect(html).toMatch(/\[itemsCount\]<\/td><td class="num">3</);
+    expect(html).not.toContain("70.00");
+  });
+
+  it("escapes html", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe("&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  previewCancellation,
+  previewPlanChange,
+  previewReactivation,
+  previewTrialExtension,
+  subscriptionActions,
+} from "../lib/subscription-lifecycle";
+import type { ProviderSubscription } from "../types/subscription";
+
+const basic = { id: "basic", name: "Basic", billingInterval: "MONTHLY" as const, amountCents: 30_000, currency: "EGP" };
+const pro = { id: "pro", name: "Pro", billingInterval: "MONTHLY" as const, amountCents: 90_000, currency: "EGP" };
+const yearly = { id: "year", name: "Pro yearly", billingInterval: "YEARLY" as const, amountCents: 900_000, currency: "EGP" };
+
+const subscription = (extra: Partial<ProviderSubscription> = {}): ProviderSubscription => ({
+  id: "s1",
+  providerId: "p1",
+  planId: "basic",
+  status: "ACTIVE",
+  currentPeriodStart: "2026-10-01T00:00:00.000Z",
+  currentPeriodEnd: "2026-10-31T00:00:00.000Z",
+  ...extra,
+});
+
+// Two thirds of the 30-day period are left
+const now = new Date("2026-10-11T00:00:00.000Z");
+
+describe("subscription lifecycle", () => {
+  it("offers actions by status and schedule", () => {
+    expect(subscriptionActions(subscription())).toEqual(["change_plan", "cancel"]);
+    expect(subscriptionActions(subscription({ status: "TRIALING" }))).toEqual(["change_plan", "extend_trial", "cancel"]);
+    expect(subscriptionActions(subscription({ cancelAt: "2026-10-31T00:00:00.000Z" }))).toEqual(["change_plan", "reactivate"]);
+    expect(subscriptionActions(subscription({ status: "CANCELED" }))).toEqual(["reactivate"]);
+  });
+
+  it("prorates an upgrade over the rest of the period and bills it now", () => {
+    const impact = previewPlanChange(subscription(), basic, pro, now);
+    expect(impact.lines).toEqual([
+      { kind: "unused_time", planName: "Basic", amountCents: -20_000 },
+      { kind: "remaining_time", planName: "Pro", amountCents: 60_000 },
+    ]);
+    expect(impact).toMatchObject({ error: null, totalCents: 40_000, invoiceAt: now.toISOString(), periodEnd: "2026-10-31T00:00:00.000Z" });
+  });
+
+  it("carries a downgrade's credit to the renewal invoice", () => {
+    const impact = previewPlanChange(subscription({ planId: "pro" }), pro, basic, now);
+    expect(impact.totalCents).toBe(-40_000);
+    expect(impact.invoiceAt).toBe("2026-10-31T00:00:00.000Z");
+  });
+
+  it("credits no unused time for an unpaid period", () => {
+    const impact = previewPlanChange(subscription({ status: "PAST_DUE" }), basic, pro, now);
+    expect(impact.lines).toEqual([{ kind: "remaining_time", planName: "Pro", amountCents: 60_000 }]);
+    expect(impact.totalCents).toBe(60_000);
+  });
+
+  it("starts a new period when the interval changes", () => {
+    const impact = previewPlanChange(subscription(), basic, yearly, now);
+    expect(impact.lines.map((line) => [line.kind, line.amountCents])).toEqual([
+      ["unused_time", -20_000],
+      ["new_period", 900_000],
+    ]);
+    expect(impact.periodEnd).toBe("2027-10-11T00:00:00.000Z");
+  });
+
+  it("does not charge a trial for a plan change", () => {
+    const impact = previewPlanChange(subscription({ status: "TRIALING", trialEndsAt: "2026-10-20T00:00:00.000Z" }), basic, pro, now);
+    expect(impact).toMatchObject({ totalCents: 90_000, invoiceAt: "2026-10-20T00:00:00.000Z" });
+    expect(previewPlanChange(subscription(), basic, basic, now).error).toBe("same_plan");
+    expect(previewPlanChange(subscription(), basic, { ...pro, currency: "USD" }, now).error).toBe("currency_mismatch");
+  });
+
+  it("moves the first charge when a trial is extended", () => {
+    const trialing = subscription({ status: "TRIALING", trialEndsAt: "2026-10-20T00:00:00.000Z" });
+    expect(previewTrialExtension(trialing, basic, "2026-10-27", now)).toMatchObject({ error: null, totalCents: 30_000 });
+    expect(previewTrialExtension(trialing, basic, "2026-10-19", now).error).toBe("date_not_later");
+    expect(previewTrialExtension(subscription(), basic, "2026-12-01", now).error).toBe("not_allowed");
+  });
+
+  it("cancels at period end and reactivates", () => {
+    expect(previewCancellation(subscription(), basic)).toMatchObject({
+      totalCents: 0,
+      invoiceAt: null,
+      periodEnd: "2026-10-31T00:00:00.000Z",
+      lines: [{ kind: "renewal_dropped", amountCents: -30_000 }],
+    });
+    expect(previewReactivation(subscription({ cancelAt: "2026-10-31T00:00:00.000Z" }), basic, now)).toMatchObject({
+      totalCents: 30_000,
+      invoiceAt: "2026-10-31T00:00:00.000Z",
+    });
+    expect(previewReactivation(subscription({ status: "EXPIRED" }), basic, now)).toMatchObject({
+      invoiceAt: now.toISOString(),
+      periodEnd: "2026-11-11T00:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest";
+import { ExportCanceledError, columnName, fetchAllPages, toCsv, toXlsx } from "../lib/table-export";
+import { crc32 } from "../lib/zip";
+
+type Row = { name: string; total: number };
+
+const columns = [
+  { header: "Name", value: (row: Row) => row.name },
+  { header: "Total", value: (row: Row) => row.total },
+];
+
+const pages = (rows: Row[]) => (page: number, pageSize: number) =>
+  Promise.resolve({ items: rows.slice((page - 1) * pageSize, page * pageSize), total: rows.length, page, pageSize });
+
+const rows: Row[] = Array.from({ length: 5 }, (_, i) => ({ name: `r${i}`, total: i }));
+
+describe("table export", () => {
+  it("walks every page and reports progress", async () => {
+    const onProgress = vi.fn();
+    const result = await fetchAllPages(pages(rows), { pageSize: 2, onProgress });
+    expect(result.map((row) => row.name)).toEqual(["r0", "r1", "r2", "r3", "r4"]);
+    expect(onProgress).toHaveBeenLastCalledWith({ loaded: 5, total: 5 });
+    expect(onProgress).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const fetchPage = vi.fn(async (page: number, pageSize: number) => {
+      controller.abort();
+      return pages(rows)(page, pageSize);
+    });
+    await expect(fetchAllPages(fetchPage, { pageSize: 2, signal: controller.signal })).rejects.toBeInstanceOf(
+      ExportCanceledError
+    );
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it("writes CSV with quoting and formula guarding", () => {
+    const csv = toCsv([{ name: 'Milk, "full"', total: 12.5 }, { name: "=HYPERLINK()", total: -1 }], columns);
+    expect(csv).toBe('\uFEFFName,Total\r\n"Milk, ""full""",12.5\r\n\'=HYPERLINK(),-1\r\n');
+  });
+
+  it("names spreadsheet columns", () => {
+    expect([0, 25, 26, 27, 701, 702].map(columnName)).toEqual(["A", "Z", "AA", "AB", "ZZ", "AAA"]);
+  });
+
+  it("packages a zip with the workbook parts", () => {
+    const bytes = toXlsx([{ name: "<b>", total: 3 }], columns, { sheet: "Orders" });
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(bytes.length - 22, true)).toBe(0x06054b50);
+    expect(view.getUint16(bytes.length - 12, true)).toBe(6);
+    const text = new TextDecoder().decode(bytes);
+    expect(text).toContain("xl/worksheets/sheet1.xml");
+    expect(text).toContain("&lt;b&gt;");
+    expect(text).toContain('<c r="B2"><v>3</v></c>');
+  });
+
+  it("computes the standard CRC-32", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+});
@@ -1,7 +1,7 @@
 // src/components/admin/AdminDashboard.tsx
 import React, { useEffect, useMemo, useState } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { SidebarProvider } from "../ui/sidebar";
 import { Sheet, SheetContent } from "../ui/sheet";
 import { Input } from "../ui/input";
@@ -85,7 +85,11 @@ import { ProviderApplicationsManagement } from "./screens/ProviderApplicationsMa
 import { FailedDeliveriesQueue } from "./screens/FailedDeliveriesQueue";
 import { useTranslation } from "react-i18next";
 import BrandLogo from "../common/BrandLogo";
-import { fetchDashboard, type DashboardSummary } from "../../services/dashboard.service";
+import { fetchDashboard } from "../../services/dashboard.service";
+import { DASHBOARD_SUMMARY_KEY } from "../../hooks/api/useDashboardAdmin";
+import { DASHBOARD_FALLBACK_POLL_MS, useOrderEventStream, useOrdersPollInterval } from "../../hooks/api/useOrderEvents";
+import { useSlaBreachAlerts, useStuckOrders } from "../../hooks/api/useOrderSla";
+import { evaluateSlaEntries, formatSlaDuration, type SlaState } from "../../lib/order-sla";
 import { useAuth } from "../../auth/AuthProvider";
 import { usePermissions } from "../../auth/permissions";
 import RequireCapability from "../../auth/RequireCapability";
@@ -158,7 +162,6 @@ export function AdminDashboard() {
     )
       ? (pathSegments[0] as AdminScreen)
       : defaultScreen;
-  const [summary, setSummary] = useState<DashboardSummary | null>(null);
   const [adminState, setAdminState] = useState<AdminState>(() => ({
     currentScreen: defaultScreen,
   }));
@@ -232,27 +235,63 @@ export function AdminDashboard() {
     setAdminState((prev) => ({ ...prev, ...updates }));
   };
 
-  // Live notifications from recent orders + low stock
-  useEffect(() => {
-    if (!isAdmin) {
-      setSummary(null);
-      return;
-    }
-    let cancelled = false;
-    (async () => {
-      try {
-        const s = await fetchDashboard();
-        if (!cancelled) {
-          setSummary(s);
-        }
-      } catch (e) {
-        // ignore; header/side can render without
+  // Live notifications from recent orders + low stock; the order stream patches this cache in place
+  const orderScope = isProvider ? "provider" : "admin";
+  useOrderEventStream({ scope: orderScope, enabled: accessibleScreens.includes("orders") });
+  const summaryPollInterval = useOrdersPollInterval(orderScope, DASHBOARD_FALLBACK_POLL_MS);
+  const summaryQuery = useQuery({
+    queryKey: [...DASHBOARD_SUMMARY_KEY, "header"] as const,
+    queryFn: () => fetchDashboard(),
+    enabled: isAdmin,
+    refetchInterval: summaryPollInterval,
+    // header/side can render without
+    meta: { silent: true },
+  });
+  const summary = isAdmin ? summaryQuery.data ?? null : null;
+
+  // SLA breaches: toast as orders cross their threshold and list current ones under notifications
+  const slaEnabled = accessibleScreens.includes("orders");
+  const sla = useStuckOrders({
+    scope: isProvider ? "provider" : "admin",
+    enabled: slaEnabled,
+    withHistory: perms.canViewHistory,
+    withWatcher: perms.canViewAutomation,
+  });
+  const [slaCheckedAt, setSlaCheckedAt] = useState(() => Date.now());
+  const openOrder = (orderId: string) => {
+    navigate(`/orders/${orderId}`);
+    updateAdminState({ currentScreen: "orders", selectedOrder: orderId });
+  };
+  useSlaBreachAlerts(
+    sla.entries,
+    sla.thresholds,
+    (breaches: SlaState[]) => {
+      setSlaCheckedAt(Date.now());
+      if (breaches.length === 1) {
+        const [breach] = breaches;
+        toast.warning(
+          t("orders.sla.breach_title", { defaultValue: "Order #{{code}} is stuck", code: breach.order.code || breach.order.id }),
+          {
+            description: t("orders.sla.breach_message", {
+              defaultValue: "{{status}} for over {{minutes}} min",
+              status: t(`orders.statuses.${breach.order.status}`, { defaultValue: breach.order.status }),
+              minutes: breach.thresholdMinutes,
+            }),
+            action: { label: t("app.actions.view", "View"), onClick: () => openOrder(breach.order.id) },
+          }
+        );
+      } else {
+        toast.warning(t("orders.sla.breach_many", { defaultValue: "{{count}} orders passed their SLA", count: breaches.length }), {
+          action: { label: t("app.actions.view", "View"), onClick: () => handleMenuItemClick("orders") },
+        });
       }
-    })();
-    return () => {
-      cancelled = true;
-    };
-  }, [isAdmin]);
+    },
+    { enabled: slaEnabled }
+  );
+  const slaBreaches = useMemo(
+    () => evaluateSlaEntries(sla.entries, sla.thresholds, slaCheckedAt).filter((state) => state.breached),
+    [sla.entries, sla.thresholds, slaCheckedAt]
+  );
 
   // Ensure users cannot stay on screens outside their role permissions
   useEffect(() => {
@@ -273,6 +312,16 @@ export function AdminDashboard() {
         });
       }
     }
+    for (const breach of slaBreaches.slice(0, 3)) {
+      items.push({
+        id: `sla-${breach.order.id}`,
+        title: t("orders.sla.panel_title", "Stuck orders"),
+        message: t("orders.sla.breach_title", { defaultValue: "Order #{{code}} is stuck", code: breach.order.code || breach.order.id }),
+        time: t("orders.sla.overdue", { defaultValue: "Overdue {{time}}", time: formatSlaDuration(breach.remainingMs) }),
+        type: "order",
+        payload: { orderId: breach.order.id },
+      });
+    }
     if (summary?.lowStock?.length) {
       for (const ls of summary.lowStock.slice(0, 3)) {
         items.push({
@@ -285,7 +334,7 @@ export function AdminDashboard() {
       }
     }
     return items;
-  }, [summary, t]);
+  }, [summary, slaBreaches, t]);
 
   const handleMenuItemClick = (screen: AdminScreen) => {
     updateAdminState({ currentScreen: screen });
@@ -0,0 +1,208 @@
+import React, { useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { Bookmark, Check, Download, Link2, Pin, Save, Trash2, Upload } from "lucide-react";
+import { Button } from "../../ui/button";
+import { Input } from "../../ui/input";
+import { Label } from "../../ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "../../ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../ui/dialog";
+import { usePermissions } from "../../../auth/permissions";
+import { useSavedViews } from "../../../hooks/useSavedViews";
+import { VIEW_ROLES, type ListScreen } from "../../../lib/list-state";
+import { downloadBlob } from "../../../lib/download";
+
+type SavedViewsMenuProps = {
+  screen: ListScreen;
+  /** Current list query from `useListState` */
+  query: string;
+  onApply: (query: string) => void;
+};
+
+export function SavedViewsMenu({ screen, query, onApply }: SavedViewsMenuProps) {
+  const { t } = useTranslation();
+  const { role } = usePermissions();
+  const { views, save, remove, exportAll, importText, roleDefaults, pinForRole, pinning } = useSavedViews(screen);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const fileInput = useRef<HTMLInputElement>(null);
+  const isAdmin = role === "ADMIN";
+  const pinned = role ? roleDefaults[role]?.[screen] : undefined;
+
+  const roleLabel = (value: string) => t(`listViews.roles.${value}`, value);
+
+  // failures are reported by the global mutation error toast
+  const handlePin = (viewRole: string, view: { name: string; query: string } | null) =>
+    pinForRole(viewRole, view).catch(() => undefined);
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    save(name, query);
+    toast.success(t("listViews.saved", { defaultValue: "View \"{{name}}\" saved", name: name.trim() }));
+    setSaveOpen(false);
+    setName("");
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success(t("listViews.link_copied", "Link copied"));
+    } catch {
+      toast.error(t("listViews.link_failed", "Could not copy the link"));
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(exportAll(), null, 2)], { type: "application/json" });
+    downloadBlob(blob, "saved-views.json");
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const count = importText(await file.text());
+      toast.success(t("listViews.imported", { defaultValue: "{{count}} views imported", count }));
+    } catch (error) {
+      toast.error(t("listViews.import_failed", "Could not import views"), {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            <Bookmark className="w-4 h-4" />
+            {t("listViews.title", "Views")}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>{t("listViews.saved_views", "Saved views")}</DropdownMenuLabel>
+          {!views.length && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">{t("listViews.empty", "No saved views yet")}</p>
+          )}
+          {views.map((view) => (
+            <DropdownMenuItem key={view.id} className="gap-2" onSelect={() => onApply(view.query)}>
+              {view.query === query ? <Check className="w-4 h-4" /> : <span className="w-4" />}
+              <span className="flex-1 truncate">{view.name}</span>
+              <button
+                type="button"
+                className="rounded p-0.5 text-muted-foreground hover:text-destructive"
+                aria-label={t("listViews.delete", { defaultValue: "Delete {{name}}", name: view.name })}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  remove(view.id);
+                }}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </DropdownMenuItem>
+          ))}
+          {pinned && (
+            <DropdownMenuItem className="gap-2" onSelect={() => onApply(pinned.query)}>
+              <Pin className="w-4 h-4" />
+              <span className="flex-1 truncate">
+                {t("listViews.role_default", { defaultValue: "Role default: {{name}}", name: pinned.name })}
+              </span>
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="gap-2" onSelect={() => setSaveOpen(true)}>
+            <Save className="w-4 h-4" />
+            {t("listViews.save_current", "Save current view")}
+          </DropdownMenuItem>
+          <DropdownMenuItem className="gap-2" onSelect={handleCopyLink}>
+            <Link2 className="w-4 h-4" />
+            {t("listViews.copy_link", "Copy link")}
+          </DropdownMenuItem>
+          {isAdmin && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger className="gap-2">
+                <Pin className="w-4 h-4" />
+                {t("listViews.pin_default", "Pin as role default")}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="w-56">
+                {VIEW_ROLES.map((viewRole) => {
+                  const current = roleDefaults[viewRole]?.[screen];
+                  return (
+                    <DropdownMenuItem
+                      key={viewRole}
+                      className="gap-2"
+                      disabled={pinning}
+                      onSelect={() => handlePin(viewRole, { name: t("listViews.current_view", "Current view"), query })}
+                    >
+                      <span className="flex-1">{roleLabel(viewRole)}</span>
+                      {current && (
+                        <button
+                          type="button"
+                          className="rounded p-0.5 text-xs text-muted-foreground hover:text-destructive"
+                          aria-label={t("listViews.unpin", "Unpin")}
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            handlePin(viewRole, null);
+                          }}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </DropdownMenuItem>
+                  );
+                })}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="gap-2" onSelect={handleExport}>
+            <Download className="w-4 h-4" />
+            {t("listViews.export", "Export views")}
+          </DropdownMenuItem>
+          <DropdownMenuItem className="gap-2" onSelect={() => fileInput.current?.click()}>
+            <Upload className="w-4 h-4" />
+            {t("listViews.import", "Import views")}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent className="max-w-sm">
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{t("listViews.save_current", "Save current view")}</DialogTitle>
+              <DialogDescription>
+                {t("listViews.save_hint", "Saving with an existing name replaces that view.")}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-name">{t("listViews.name", "Name")}</Label>
+              <Input id="saved-view-name" value={name} autoFocus maxLength={60} onChange={(event) => setName(event.target.value)} />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setSaveOpen(false)}>
+                {t("app.actions.cancel", "Cancel")}
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                {t("app.actions.save", "Save")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
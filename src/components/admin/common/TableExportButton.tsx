@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { FileSpreadsheet } from "lucide-react";
+import { Button } from "../../ui/button";
+import { Checkbox } from "../../ui/checkbox";
+import { Progress } from "../../ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../ui/dialog";
+import { getAdminErrorMessage } from "../../../lib/errors";
+import { downloadBlob } from "../../../lib/download";
+import {
+  EXPORT_FORMATS,
+  ExportCanceledError,
+  buildExportBlob,
+  fetchAllPages,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportProgress,
+  type PageFetcher,
+} from "../../../lib/table-export";
+
+type TableExportButtonProps<T> = {
+  /** File name prefix; also keys the remembered column selection */
+  filename: string;
+  title: string;
+  columns: ExportColumn<T>[];
+  /** Fetches one page with the screen's current filters */
+  fetchPage: PageFetcher<T>;
+  disabled?: boolean;
+};
+
+const COLUMNS_STORAGE_PREFIX = "fasket_export_columns:";
+
+function loadSelection<T>(filename: string, columns: ExportColumn<T>[]) {
+  try {
+    const stored = JSON.parse(localStorage.getItem(`${COLUMNS_STORAGE_PREFIX}${filename}`) || "null");
+    if (Array.isArray(stored)) {
+      const known = stored.filter((id) => columns.some((column) => column.id === id));
+      if (known.length) return new Set<string>(known);
+    }
+  } catch {
+    // fall back to defaults
+  }
+  return new Set(columns.filter((column) => column.defaultSelected !== false).map((column) => column.id));
+}
+
+export function TableExportButton<T>({ filename, title, columns, fetchPage, disabled }: TableExportButtonProps<T>) {
+  const { t, i18n } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+  const [selected, setSelected] = useState<Set<string>>(() => loadSelection(filename, columns));
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const controller = useRef<AbortController | null>(null);
+  const running = progress !== null;
+
+  // Stop fetching if the screen unmounts mid-export
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const toggleColumn = (id: string, checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const handleExport = async () => {
+    const chosen = columns.filter((column) => selected.has(column.id));
+    localStorage.setItem(`${COLUMNS_STORAGE_PREFIX}${filename}`, JSON.stringify(chosen.map((column) => column.id)));
+    const abort = new AbortController();
+    controller.current = abort;
+    setProgress({ loaded: 0, total: 0 });
+    try {
+      const rows = await fetchAllPages(fetchPage, { signal: abort.signal, onProgress: setProgress });
+      const resolved = chosen.map((column) => ({ header: t(column.labelKey, column.label), value: column.value }));
+      const blob = buildExportBlob(format, rows, resolved, { sheet: title, rtl: i18n.dir() === "rtl" });
+      downloadBlob(blob, `${filename}-${dayjs().format("YYYYMMDD-HHmm")}.${format}`);
+      toast.success(t("export.done", { defaultValue: "Exported {{count}} rows", count: rows.length }));
+      setOpen(false);
+    } catch (error) {
+      if (error instanceof ExportCanceledError) {
+        toast.info(t("export.canceled", "Export canceled"));
+      } else {
+        toast.error(getAdminErrorMessage(error, t, t("export.failed", "Export failed")));
+      }
+    } finally {
+      controller.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) controller.current?.abort();
+    setOpen(next);
+  };
+
+  const percent = progress?.total ? Math.round((progress.loaded / progress.total) * 100) : 0;
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="gap-2" disabled={disabled} onClick={() => setOpen(true)}>
+        <FileSpreadsheet className="w-4 h-4" />
+        {t("export.button", "Export")}
+      </Button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{t("export.title", { defaultValue: "Export {{name}}", name: title })}</DialogTitle>
+            <DialogDescription>
+              {t("export.description", "Exports every page matching the current filters.")}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              {EXPORT_FORMATS.map((value) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={format === value ? "secondary" : "outline"}
+                  aria-pressed={format === value}
+                  disabled={running}
+                  onClick={() => setFormat(value)}
+                >
+                  {value.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{t("export.columns_label", "Columns")}</span>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2"
+                    disabled={running}
+                    onClick={() => setSelected(new Set(columns.map((column) => column.id)))}
+                  >
+                    {t("export.select_all", "All")}
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-7 px-2" disabled={running} onClick={() => setSelected(new Set())}>
+                    {t("app.actions.clear", "Clear")}
+                  </Button>
+                </div>
+              </div>
+              <div className="grid max-h-64 grid-cols-2 gap-2 overflow-y-auto rounded-md border p-3">
+                {columns.map((column) => (
+                  <label key={column.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selected.has(column.id)}
+                      disabled={running}
+                      onCheckedChange={(checked) => toggleColumn(column.id, checked === true)}
+                    />
+                    {t(column.labelKey, column.label)}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {running && (
+              <div className="space-y-1">
+                <Progress value={percent} />
+                <p className="text-xs text-muted-foreground">
+                  {progress.total
+                    ? t("export.progress", { defaultValue: "Loaded {{loaded}} of {{total}} rows", ...progress })
+                    : t("export.starting", "Starting...")}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            {running ? (
+              <Button variant="outline" onClick={() => controller.current?.abort()}>
+                {t("app.actions.cancel", "Cancel")}
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                {t("app.actions.close", "Close")}
+              </Button>
+            )}
+            <Button disabled={running || !selected.size} onClick={handleExport}>
+              {t("export.start", { defaultValue: "Export {{format}}", format: format.toUpperCase() })}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -2,6 +2,7 @@
 import { useTranslation } from "react-i18next";
 import dayjs from "dayjs";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "../../ui/card";
 import { Input } from "../../ui/input";
 import { Button } from "../../ui/button";
@@ -38,7 +39,17 @@ export function AutomationOutboxPage() {
   const { t } = useTranslation();
   const perms = usePermissions();
   const qc = useQueryClient();
-  const [filters, setFilters] = useState<Filters>({ status: undefined, type: undefined, from: undefined, to: undefined, q: "", page: 1, pageSize: 25 });
+  // Order timelines link here with ?q=<correlation id or order code>
+  const [searchParams] = useSearchParams();
+  const [filters, setFilters] = useState<Filters>(() => ({
+    status: undefined,
+    type: undefined,
+    from: undefined,
+    to: undefined,
+    q: searchParams.get("q") || "",
+    page: 1,
+    pageSize: 25,
+  }));
   const debouncedQ = useDebounce(filters.q || "", 250);
   const query = useQuery({
     queryKey: ["automation-events", { ...filters, q: debouncedQ }],
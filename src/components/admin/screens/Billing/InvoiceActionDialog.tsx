@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "../../../ui/button";
+import { Input } from "../../../ui/input";
+import { Label } from "../../../ui/label";
+import { Textarea } from "../../../ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { INVOICES_QUERY_KEY, invoiceQueryKey } from "../../../../hooks/api/useInvoices";
+import { LEDGER_RECONCILIATION_QUERY_KEY } from "../../../../hooks/api/useLedgerReconciliation";
+import { addInvoiceAdjustment, createCreditNote, voidInvoice } from "../../../../services/invoices.service";
+import { fmtCurrency, fromCents, toCents } from "../../../../lib/money";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import {
+  checkCreditNote,
+  checkVoid,
+  creditableCents,
+  previewAdjustment,
+  type InvoiceAction,
+  type InvoiceActionError,
+} from "../../../../lib/invoice-adjustments";
+import { creditedCents, invoiceBreakdown } from "../../../../lib/invoice-document";
+import type { Invoice } from "../../../../types/invoice";
+
+// Field-level problems only disable the submit button; these need explaining
+const SHOWN_ERRORS: InvoiceActionError[] = ["not_allowed", "below_paid", "exceeds_creditable"];
+
+type InvoiceActionDialogProps = {
+  invoice: Invoice | null;
+  action: InvoiceAction | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function InvoiceActionDialog({ invoice, action, onOpenChange }: InvoiceActionDialogProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState("");
+  const [text, setText] = useState("");
+  const [vatPercent, setVatPercent] = useState("");
+
+  useEffect(() => {
+    if (!invoice || !action) return;
+    setAmount(action === "credit" ? String(fromCents(creditableCents(invoice))) : "");
+    setText("");
+    setVatPercent("");
+  }, [invoice, action]);
+
+  const currency = invoice?.currency || "EGP";
+  const money = (cents: number) => fmtCurrency(cents, currency);
+  const parsedCents = toCents(amount);
+  const amountCents = amount.trim() && Number.isFinite(parsedCents) ? parsedCents : 0;
+  const parsedRate = Math.round(Number(vatPercent) * 100);
+  const taxRateBps = vatPercent.trim() && Number.isFinite(parsedRate) && parsedRate > 0 ? parsedRate : null;
+
+  const adjustment = useMemo(
+    () => (invoice && action === "adjust" ? previewAdjustment(invoice, { amountCents, description: text, taxRateBps }) : null),
+    [invoice, action, amountCents, text, taxRateBps]
+  );
+  const error: InvoiceActionError | null = !invoice
+    ? null
+    : action === "adjust"
+      ? adjustment?.error ?? null
+      : action === "credit"
+        ? checkCreditNote(invoice, { amountCents, reason: text })
+        : checkVoid(invoice, text);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      if (!invoice) return;
+      if (action === "adjust") {
+        await addInvoiceAdjustment(invoice.id, { amountCents, description: text.trim(), taxRateBps });
+      } else if (action === "credit") {
+        await createCreditNote(invoice.id, { amountCents, reason: text.trim() });
+      } else {
+        await voidInvoice(invoice.id, text.trim());
+      }
+    },
+    onSuccess: async () => {
+      toast.success(t(`billing.actions.${action}.done`, "Invoice updated"));
+      onOpenChange(false);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: INVOICES_QUERY_KEY }),
+        queryClient.invalidateQueries({ queryKey: invoiceQueryKey("admin", invoice?.id) }),
+        queryClient.invalidateQueries({ queryKey: LEDGER_RECONCILIATION_QUERY_KEY }),
+      ]);
+    },
+    onError: (err) => toast.error(getAdminErrorMessage(err, t, t("billing.actions.failed", "Unable to update invoice"))),
+  });
+
+  const previewRows: Array<[string, string, string?]> = !invoice
+    ? []
+    : action === "adjust" && adjustment
+      ? [
+          [t("billing.document.subtotal", "Subtotal"), money(adjustment.before.subtotalCents), money(adjustment.after.subtotalCents)],
+          [t("billing.document.untaxed", "VAT"), money(adjustment.before.taxCents), money(adjustment.after.taxCents)],
+          [t("billing.document.total", "Total"), money(adjustment.before.totalCents), money(adjustment.after.totalCents)],
+          [t("billing.document.balanceDue", "Balance due"), money(adjustment.before.balanceCents), money(adjustment.after.balanceCents)],
+        ]
+      : action === "credit"
+        ? [
+            [t("billing.invoiceAmountPaid", "Paid"), money(invoice.amountPaidCents)],
+            [t("billing.document.credited", "Credited"), money(creditedCents(invoice)), money(creditedCents(invoice) + Math.max(0, amountCents))],
+            [t("billing.actions.credit.remaining", "Left to credit"), money(creditableCents(invoice)), money(Math.max(0, creditableCents(invoice) - amountCents))],
+          ]
+        : [
+            [t("billing.document.balanceDue", "Balance due"), money(invoiceBreakdown(invoice).balanceCents), money(0)],
+            [
+              t("billing.invoiceStatus", "Status"),
+              t(`billing.invoiceStatuses.${invoice.status}`, invoice.status),
+              t("billing.invoiceStatuses.VOID", "VOID"),
+            ],
+          ];
+
+  return (
+    <Dialog open={Boolean(invoice && action)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {t(`billing.actions.${action}.title`, { defaultValue: "Update invoice {{number}}", number: invoice?.number })}
+          </DialogTitle>
+          <DialogDescription>{t(`billing.actions.${action}.description`, "")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {action !== "void" && (
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>{t("billing.actions.amount", { defaultValue: "Amount ({{currency}})", currency })}</Label>
+                <Input type="number" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+                {action === "adjust" && (
+                  <p className="text-xs text-muted-foreground">{t("billing.actions.adjust.hint", "Use a negative amount for a discount.")}</p>
+                )}
+              </div>
+              {action === "adjust" && (
+                <div className="space-y-1">
+                  <Label>{t("billing.actions.adjust.vat", "VAT rate (%)")}</Label>
+                  <Input type="number" min="0" step="0.5" value={vatPercent} onChange={(e) => setVatPercent(e.target.value)} />
+                </div>
+              )}
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label>{t(`billing.actions.${action}.text`, "Reason")}</Label>
+            <Textarea rows={3} value={text} onChange={(e) => setText(e.target.value)} />
+          </div>
+
+          <div className="rounded-md border text-sm">
+            <div className="grid grid-cols-3 gap-2 border-b bg-muted/40 px-3 py-2 text-xs text-muted-foreground">
+              <span />
+              <span className="text-right">{t("billing.actions.now", "Now")}</span>
+              <span className="text-right">{t("billing.actions.after", "After")}</span>
+            </div>
+            {previewRows.map(([label, now, after]) => (
+              <div key={label} className="grid grid-cols-3 gap-2 px-3 py-1.5">
+                <span>{label}</span>
+                <span className="text-right tabular-nums">{now}</span>
+                <span className="text-right font-medium tabular-nums">{after ?? now}</span>
+              </div>
+            ))}
+          </div>
+          {error && SHOWN_ERRORS.includes(error) && (
+            <p className="text-xs text-red-600">{t(`billing.actions.errors.${error}`, error)}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("app.actions.cancel", "Cancel")}
+          </Button>
+          <Button
+            variant={action === "void" ? "destructive" : "default"}
+            disabled={Boolean(error) || mutation.isPending}
+            onClick={() => mutation.mutate()}
+          >
+            {t(`billing.actions.${action}.submit`, "Save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,172 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { Printer } from "lucide-react";
+import { Button } from "../../../ui/button";
+import { Label } from "../../../ui/label";
+import { Skeleton } from "../../../ui/skeleton";
+import { Switch } from "../../../ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { ErrorState } from "../../common/ErrorState";
+import { useInvoice } from "../../../../hooks/api/useInvoices";
+import { useReceiptBranding } from "../../../../hooks/api/useOrderReceipt";
+import { fmtCurrency } from "../../../../lib/money";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import { printHtmlDocument } from "../../../../lib/receipt-print";
+import { INVOICE_SECTIONS, buildInvoiceDocument, type InvoiceLabels } from "../../../../lib/invoice-document";
+import type { OrderScope } from "../../../../services/orders.service";
+import type { InvoiceItemType, InvoiceStatus } from "../../../../types/invoice";
+
+type DocumentLang = "en" | "ar";
+
+const INVOICE_STATUSES: InvoiceStatus[] = ["DRAFT", "OPEN", "PAID", "VOID"];
+
+type InvoiceDocumentDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoiceId?: string;
+  scope?: OrderScope;
+};
+
+export function InvoiceDocumentDialog({ open, onOpenChange, invoiceId, scope = "admin" }: InvoiceDocumentDialogProps) {
+  const { t, i18n } = useTranslation();
+  const [lang, setLang] = useState<DocumentLang>(i18n.language?.startsWith("ar") ? "ar" : "en");
+  const [bilingual, setBilingual] = useState(true);
+  const [printing, setPrinting] = useState(false);
+
+  const invoiceQuery = useInvoice(invoiceId, { scope, enabled: open });
+  // Admins print the platform's details as the issuer; providers cannot read platform settings,
+  // so their copy carries their own account details as the billed party instead
+  const issuer = useReceiptBranding("admin", { enabled: open && scope === "admin" });
+  const account = useReceiptBranding("provider", { enabled: open && scope === "provider" });
+  const loading = invoiceQuery.isLoading || (scope === "admin" ? issuer.isLoading : account.isLoading);
+
+  const labelsFor = (code: DocumentLang): InvoiceLabels => {
+    const tl = i18n.getFixedT(code);
+    return {
+      invoice: tl("billing.document.title", "Tax invoice"),
+      number: tl("billing.invoiceNumber", "Invoice"),
+      status: tl("billing.invoiceStatus", "Status"),
+      issuedAt: tl("billing.document.issuedAt", "Issue date"),
+      dueAt: tl("billing.invoiceDueAt", "Due at"),
+      paidAt: tl("billing.invoicePaidAt", "Paid at"),
+      period: tl("billing.invoicePeriod", "Period"),
+      billedTo: tl("billing.document.billedTo", "Billed to"),
+      plan: tl("billing.invoicePlan", "Plan"),
+      description: tl("billing.invoiceItemDescription", "Description"),
+      taxRate: tl("billing.document.taxRate", "VAT rate"),
+      amount: tl("billing.invoiceItemAmount", "Amount"),
+      subtotal: tl("billing.document.subtotal", "Subtotal"),
+      tax: (rate) => tl("billing.document.tax", { defaultValue: "VAT {{rate}}", rate }),
+      untaxed: tl("billing.document.untaxed", "VAT"),
+      total: tl("billing.document.total", "Total"),
+      amountPaid: tl("billing.invoiceAmountPaid", "Paid"),
+      balanceDue: tl("billing.document.balanceDue", "Balance due"),
+      credited: tl("billing.document.credited", "Credited"),
+      creditNote: tl("billing.document.creditNote", "Credit note"),
+      voidNote: tl("billing.document.voidNote", "Voided:"),
+      noItems: tl("billing.invoiceNoItems", "No items"),
+      linesDiffer: (lineTotal) =>
+        tl("billing.document.linesDiffer", {
+          defaultValue: "The lines add up to {{amount}}, not the billed total. Check the invoice before sending it.",
+          amount: lineTotal,
+        }),
+      sections: Object.fromEntries(
+        INVOICE_SECTIONS.map((type) => [type, tl(`billing.invoiceItemTypes.${type}`, type)])
+      ) as Record<InvoiceItemType, string>,
+      statuses: Object.fromEntries(
+        INVOICE_STATUSES.map((status) => [status, tl(`billing.invoiceStatuses.${status}`, status)])
+      ) as Record<InvoiceStatus, string>,
+    };
+  };
+
+  const buildHtml = () => {
+    if (!invoiceQuery.data) return "";
+    const locale = lang === "ar" ? "ar-EG" : "en";
+    return buildInvoiceDocument([invoiceQuery.data], {
+      lang,
+      dir: i18n.dir(lang),
+      labels: labelsFor(lang),
+      secondaryLabels: bilingual ? labelsFor(lang === "ar" ? "en" : "ar") : undefined,
+      issuer: scope === "admin" ? issuer.branding : undefined,
+      billedTo: scope === "provider" ? { name: account.branding.storeName } : undefined,
+      formatMoney: (cents, currency) => fmtCurrency(cents, currency, locale),
+      formatDate: (iso) => dayjs(iso).format("YYYY-MM-DD"),
+    });
+  };
+  const html = open ? buildHtml() : "";
+
+  const onPrint = async () => {
+    if (!html) return;
+    setPrinting(true);
+    try {
+      await printHtmlDocument(html);
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl w-[95vw]">
+        <DialogHeader>
+          <DialogTitle>
+            {invoiceQuery.data
+              ? t("billing.document.dialogTitle", { defaultValue: "Invoice {{number}}", number: invoiceQuery.data.number })
+              : t("billing.invoiceDetails", "Invoice details")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("billing.document.description", "Use the browser print dialog to print the invoice or save it as PDF.")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 sm:grid-cols-2 sm:items-end">
+          <div className="space-y-1">
+            <Label>{t("billing.document.language", "Document language")}</Label>
+            <Select value={lang} onValueChange={(value) => setLang(value as DocumentLang)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="en">English</SelectItem>
+                <SelectItem value="ar">العربية</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={bilingual} onCheckedChange={setBilingual} />
+            {t("billing.document.bilingual", "Show labels in both languages")}
+          </label>
+        </div>
+
+        <div className="flex justify-center rounded-md border bg-muted/40 p-3">
+          {loading ? (
+            <Skeleton className="h-[480px] w-full" />
+          ) : invoiceQuery.isError ? (
+            <ErrorState
+              message={getAdminErrorMessage(invoiceQuery.error, t, t("billing.invoiceLoadError", "Unable to load invoice"))}
+              onRetry={() => invoiceQuery.refetch()}
+            />
+          ) : (
+            <iframe
+              title={t("billing.document.preview", "Invoice preview")}
+              srcDoc={html}
+              className="h-[480px] w-full rounded bg-white shadow-sm"
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("app.actions.close", "Close")}
+          </Button>
+          <Button onClick={onPrint} disabled={!html || loading || printing}>
+            <Printer className="w-4 h-4 mr-1" />
+            {t("billing.document.print", "Print / Save as PDF")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { Button } from "../../../ui/button";
+import { Input } from "../../../ui/input";
+import { Label } from "../../../ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { SUBSCRIPTIONS_QUERY_KEY } from "../../../../hooks/api/useSubscriptions";
+import { INVOICES_QUERY_KEY } from "../../../../hooks/api/useInvoices";
+import {
+  cancelSubscriptionAtPeriodEnd,
+  changeSubscriptionPlan,
+  extendSubscriptionTrial,
+  previewSubscriptionPlanChange,
+  reactivateSubscription,
+} from "../../../../services/subscriptions.service";
+import { fmtCurrency } from "../../../../lib/money";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import {
+  previewCancellation,
+  previewPlanChange,
+  previewReactivation,
+  previewTrialExtension,
+  type LifecycleImpact,
+  type LifecyclePlan,
+  type SubscriptionAction,
+} from "../../../../lib/subscription-lifecycle";
+import type { Plan } from "../../../../types/plan";
+import type { ProviderSubscription } from "../../../../types/subscription";
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString() : "-");
+
+type SubscriptionActionDialogProps = {
+  subscription: ProviderSubscription | null;
+  action: SubscriptionAction | null;
+  plans: Plan[];
+  onOpenChange: (open: boolean) => void;
+};
+
+export function SubscriptionActionDialog({ subscription, action, plans, onOpenChange }: SubscriptionActionDialogProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [planId, setPlanId] = useState("");
+  const [trialUntil, setTrialUntil] = useState("");
+
+  useEffect(() => {
+    if (!subscription || !action) return;
+    setPlanId("");
+    setTrialUntil(dayjs(subscription.trialEndsAt ?? undefined).add(7, "day").format("YYYY-MM-DD"));
+  }, [subscription, action]);
+
+  const currentPlan: LifecyclePlan | undefined =
+    plans.find((plan) => plan.id === subscription?.planId) ?? subscription?.plan ?? undefined;
+  const nextPlan = plans.find((plan) => plan.id === planId);
+  const currency = currentPlan?.currency || nextPlan?.currency || "EGP";
+  const money = (cents: number) => fmtCurrency(cents, currency);
+
+  const impact = useMemo<LifecycleImpact | null>(() => {
+    if (!subscription || !action || !currentPlan) return null;
+    if (action === "change_plan") return previewPlanChange(subscription, currentPlan, nextPlan);
+    if (action === "extend_trial") return previewTrialExtension(subscription, currentPlan, trialUntil);
+    if (action === "cancel") return previewCancellation(subscription, currentPlan);
+    return previewReactivation(subscription, currentPlan);
+  }, [subscription, action, currentPlan, nextPlan, trialUntil]);
+
+  // The local lines explain the change; the amount billed is what the server's dry run says
+  const serverPreview = useQuery({
+    queryKey: [...SUBSCRIPTIONS_QUERY_KEY, "change-plan-preview", subscription?.id, planId] as const,
+    queryFn: () => previewSubscriptionPlanChange(subscription?.id ?? "", planId),
+    enabled: Boolean(subscription && action === "change_plan" && planId && impact && !impact.error),
+    meta: { silent: true },
+  });
+  const billed = action === "change_plan" ? serverPreview.data : undefined;
+  const totalCents = billed?.totalCents ?? impact?.totalCents ?? 0;
+  const invoiceAt = billed ? billed.invoiceAt ?? null : impact?.invoiceAt ?? null;
+  // A second of proration between the two can round a cent either way
+  const serverDiffers = Boolean(billed && impact && Math.abs(billed.totalCents - impact.totalCents) > 1);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      if (!subscription) return;
+      if (action === "change_plan") await changeSubscriptionPlan(subscription.id, planId);
+      else if (action === "extend_trial") await extendSubscriptionTrial(subscription.id, trialUntil);
+      else if (action === "cancel") await cancelSubscriptionAtPeriodEnd(subscription.id);
+      else await reactivateSubscription(subscription.id);
+    },
+    onSuccess: async () => {
+      toast.success(t(`billing.lifecycle.${action}.done`, "Subscription updated"));
+      onOpenChange(false);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: SUBSCRIPTIONS_QUERY_KEY }),
+        queryClient.invalidateQueries({ queryKey: INVOICES_QUERY_KEY }),
+      ]);
+    },
+    onError: (err) =>
+      toast.error(getAdminErrorMessage(err, t, t("billing.subscriptionSaveFailed", "Unable to save subscription"))),
+  });
+
+  const changeOptions = plans.filter((plan) => plan.isActive && plan.id !== subscription?.planId);
+  const waitingForInput = action === "change_plan" && !planId;
+
+  return (
+    <Dialog open={Boolean(subscription && action)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {t(`billing.lifecycle.${action}.title`, {
+              defaultValue: "Update subscription",
+              provider: subscription?.provider?.name ?? subscription?.providerId,
+            })}
+          </DialogTitle>
+          <DialogDescription>{t(`billing.lifecycle.${action}.description`, "")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {t("billing.lifecycle.current", {
+              defaultValue: "Current plan: {{plan}} · {{amount}}",
+              plan: currentPlan?.name ?? "-",
+              amount: currentPlan ? money(currentPlan.amountCents) : "-",
+            })}
+          </p>
+          {action === "change_plan" && (
+            <div className="space-y-1">
+              <Label>{t("billing.lifecycle.change_plan.newPlan", "New plan")}</Label>
+              <Select value={planId} onValueChange={setPlanId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t("billing.subscriptionSelectPlan", "Select plan")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {changeOptions.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>
+                      {plan.name} · {fmtCurrency(plan.amountCents, plan.currency)} / {t(`billing.intervals.${plan.billingInterval}`, plan.billingInterval)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {action === "extend_trial" && (
+            <div className="space-y-1">
+              <Label>{t("billing.lifecycle.extend_trial.until", "New trial end")}</Label>
+              <Input type="date" value={trialUntil} onChange={(e) => setTrialUntil(e.target.value)} />
+              <p className="text-xs text-muted-foreground">
+                {t("billing.lifecycle.extend_trial.currentEnd", {
+                  defaultValue: "Trial currently ends {{date}}",
+                  date: formatDate(subscription?.trialEndsAt),
+                })}
+              </p>
+            </div>
+          )}
+
+          {impact && !waitingForInput && (
+            <div className="rounded-md border text-sm">
+              <div className="border-b bg-muted/40 px-3 py-2 text-xs font-medium text-muted-foreground">
+                {t("billing.lifecycle.impact", "Invoice impact")}
+              </div>
+              {impact.error ? (
+                <p className="px-3 py-2 text-xs text-red-600">{t(`billing.lifecycle.errors.${impact.error}`, impact.error)}</p>
+              ) : (
+                <>
+                  {impact.lines.map((line) => (
+                    <div key={line.kind} className="flex justify-between gap-3 px-3 py-1.5">
+                      <span>{t(`billing.lifecycle.lines.${line.kind}`, { defaultValue: line.kind, plan: line.planName })}</span>
+                      <span className={line.kind === "renewal_dropped" ? "tabular-nums line-through text-muted-foreground" : "tabular-nums"}>
+                        {money(line.kind === "renewal_dropped" ? -line.amountCents : line.amountCents)}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between gap-3 border-t px-3 py-2 font-medium">
+                    <span>
+                      {invoiceAt
+                        ? t(totalCents < 0 ? "billing.lifecycle.creditOn" : "billing.lifecycle.invoiceOn", {
+                            defaultValue: "Invoiced on {{date}}",
+                            date: formatDate(invoiceAt),
+                          })
+                        : t("billing.lifecycle.noInvoice", "No further invoices")}
+                    </span>
+                    <span className="tabular-nums">{money(totalCents)}</span>
+                  </div>
+                  {action === "change_plan" && serverPreview.isFetching && (
+                    <p className="px-3 pb-2 text-xs text-muted-foreground">
+                      {t("billing.lifecycle.checking", "Checking the amount with the server...")}
+                    </p>
+                  )}
+                  {action === "change_plan" && serverPreview.isError && (
+                    <p className="px-3 pb-2 text-xs text-amber-700">
+                      {t("billing.lifecycle.estimateOnly", {
+                        defaultValue: "The server could not confirm this amount, so it is an estimate: {{message}}",
+                        message: getAdminErrorMessage(serverPreview.error, t),
+                      })}
+                    </p>
+                  )}
+                  {serverDiffers && (
+                    <p className="px-3 pb-2 text-xs text-amber-700">
+                      {t("billing.lifecycle.serverDiffers", {
+                        defaultValue: "The server will bill {{amount}}; the lines above estimate {{estimate}}.",
+                        amount: money(totalCents),
+                        estimate: money(impact.totalCents),
+                      })}
+                    </p>
+                  )}
+                  {impact.periodEnd && (
+                    <p className="px-3 pb-2 text-xs text-muted-foreground">
+                      {t(action === "cancel" ? "billing.lifecycle.endsOn" : "billing.lifecycle.period", {
+                        defaultValue: "Period {{from}} to {{to}}",
+                        from: formatDate(impact.periodStart),
+                        to: formatDate(impact.periodEnd),
+                      })}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("app.actions.cancel", "Cancel")}
+          </Button>
+          <Button
+            variant={action === "cancel" ? "destructive" : "default"}
+            disabled={
+              !impact ||
+              Boolean(impact.error) ||
+              waitingForInput ||
+              mutation.isPending ||
+              (action === "change_plan" && serverPreview.isFetching)
+            }
+            onClick={() => mutation.mutate()}
+          >
+            {t(`billing.lifecycle.${action}.submit`, "Confirm")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { z } from "zod";
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -14,19 +14,23 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Switch } from "../../ui/switch";
 import { Badge } from "../../ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../ui/table";
-import { Plus, Search, Edit, Eye } from "lucide-react";
+import { Plus, Search, Edit, Eye, Printer } from "lucide-react";
 import { usePlans, PLANS_QUERY_KEY } from "../../../hooks/api/usePlans";
 import { useSubscriptions, SUBSCRIPTIONS_QUERY_KEY } from "../../../hooks/api/useSubscriptions";
-import { useInvoices } from "../../../hooks/api/useInvoices";
+import { useInvoice, useInvoices } from "../../../hooks/api/useInvoices";
 import { useProviders } from "../../../hooks/api/useProviders";
 import { createPlan, updatePlan } from "../../../services/plans.service";
 import { createSubscription, updateSubscription } from "../../../services/subscriptions.service";
-import { getInvoice } from "../../../services/invoices.service";
 import { fmtCurrency, toCents } from "../../../lib/money";
 import { getAdminErrorMessage } from "../../../lib/errors";
 import { AdminTableSkeleton } from "../common/AdminTableSkeleton";
 import { EmptyState } from "../common/EmptyState";
 import { ErrorState } from "../common/ErrorState";
+import { InvoiceDocumentDialog } from "./Billing/InvoiceDocumentDialog";
+import { InvoiceActionDialog } from "./Billing/InvoiceActionDialog";
+import { SubscriptionActionDialog } from "./Billing/SubscriptionActionDialog";
+import { subscriptionActions, type SubscriptionAction } from "../../../lib/subscription-lifecycle";
+import { invoiceActions, type InvoiceAction } from "../../../lib/invoice-adjustments";
 import type { BillingInterval, Plan, PlanFilters, PlanUpsertInput } from "../../../types/plan";
 import type {
   ProviderSubscription,
@@ -502,6 +506,7 @@ function SubscriptionsTab() {
 
   const [open, setOpen] = useState(false);
   const [editing, setEditing] = useState<ProviderSubscription | null>(null);
+  const [lifecycle, setLifecycle] = useState<{ subscription: ProviderSubscription; action: SubscriptionAction } | null>(null);
 
   const form = useForm<SubscriptionFormValues>({
     resolver: zodResolver(subscriptionSchema),
@@ -788,8 +793,26 @@ function SubscriptionsTab() {
                           ? `${formatDate(subscription.currentPeriodStart)} ${toLabel} ${formatDate(subscription.currentPeriodEnd)}`
                           : "-"}
                       </TableCell>
-                      <TableCell>{formatDate(subscription.trialEndsAt)}</TableCell>
-                      <TableCell className="text-right">
+                      <TableCell>
+                        {formatDate(subscription.trialEndsAt)}
+                        {subscription.cancelAt && (
+                          <p className="text-xs text-red-600">
+                            {t("billing.lifecycle.cancelsOn", { defaultValue: "Cancels {{date}}", date: formatDate(subscription.cancelAt) })}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {subscriptionActions(subscription).map((action) => (
+                          <Button
+                            key={action}
+                            variant="ghost"
+                            size="sm"
+                            className={action === "cancel" ? "text-red-600" : undefined}
+                            onClick={() => setLifecycle({ subscription, action })}
+                          >
+                            {t(`billing.lifecycle.${action}.open`, action)}
+                          </Button>
+                        ))}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -824,6 +847,13 @@ function SubscriptionsTab() {
           </div>
         </CardContent>
       </Card>
+
+      <SubscriptionActionDialog
+        subscription={lifecycle?.subscription ?? null}
+        action={lifecycle?.action ?? null}
+        plans={plans}
+        onOpenChange={(nextOpen) => !nextOpen && setLifecycle(null)}
+      />
     </div>
   );
 }
@@ -863,11 +893,9 @@ function InvoicesTab() {
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
 
-  const invoiceDetailsQuery = useQuery({
-    queryKey: ["admin-invoice", selectedInvoice?.id],
-    queryFn: () => getInvoice(selectedInvoice!.id),
-    enabled: detailsOpen && !!selectedInvoice?.id,
-  });
+  const invoiceDetailsQuery = useInvoice(selectedInvoice?.id, { enabled: detailsOpen });
+  const [documentInvoiceId, setDocumentInvoiceId] = useState<string>();
+  const [pendingAction, setPendingAction] = useState<InvoiceAction | null>(null);
   const detailCurrency = invoiceDetailsQuery.data?.currency || "EGP";
 
   const openInvoice = (invoice: Invoice) => {
@@ -986,6 +1014,14 @@ function InvoicesTab() {
                         <Button variant="ghost" size="sm" aria-label={t("billing.invoiceView", "View invoice")} onClick={() => openInvoice(invoice)}>
                           <Eye className="w-4 h-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-label={t("billing.document.open", "Print invoice")}
+                          onClick={() => setDocumentInvoiceId(invoice.id)}
+                        >
+                          <Printer className="w-4 h-4" />
+                        </Button>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -1064,6 +1100,31 @@ function InvoicesTab() {
                 </div>
               </div>
 
+              {invoiceDetailsQuery.data.status === "VOID" && invoiceDetailsQuery.data.voidReason && (
+                <p className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                  {t("billing.actions.void.note", {
+                    defaultValue: "Voided {{date}}: {{reason}}",
+                    date: formatDateTime(invoiceDetailsQuery.data.voidedAt),
+                    reason: invoiceDetailsQuery.data.voidReason,
+                  })}
+                </p>
+              )}
+
+              {invoiceActions(invoiceDetailsQuery.data).length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {invoiceActions(invoiceDetailsQuery.data).map((action) => (
+                    <Button
+                      key={action}
+                      size="sm"
+                      variant={action === "void" ? "destructive" : "outline"}
+                      onClick={() => setPendingAction(action)}
+                    >
+                      {t(`billing.actions.${action}.open`, action)}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
               <div>
                 <h3 className="font-medium mb-2">{t("billing.invoiceItems", "Invoice items")}</h3>
                 {invoiceDetailsQuery.data.items?.length ? (
@@ -1117,10 +1178,48 @@ function InvoicesTab() {
                   <p className="text-sm text-muted-foreground">{t("billing.invoiceNoLedger", "No ledger entries")}</p>
                 )}
               </div>
+
+              {invoiceDetailsQuery.data.creditNotes?.length ? (
+                <div>
+                  <h3 className="font-medium mb-2">{t("billing.creditNotes", "Credit notes")}</h3>
+                  <Table className="min-w-[600px]">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t("billing.document.creditNote", "Credit note")}</TableHead>
+                        <TableHead>{t("billing.creditNoteReason", "Reason")}</TableHead>
+                        <TableHead>{t("billing.creditNoteDate", "Issued")}</TableHead>
+                        <TableHead className="text-right">{t("billing.invoiceItemAmount", "Amount")}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invoiceDetailsQuery.data.creditNotes.map((note) => (
+                        <TableRow key={note.id}>
+                          <TableCell className="font-medium">{note.number}</TableCell>
+                          <TableCell>{note.reason}</TableCell>
+                          <TableCell>{formatDateTime(note.createdAt)}</TableCell>
+                          <TableCell className="text-right">-{fmtCurrency(note.amountCents, detailCurrency)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : null}
             </div>
           ) : null}
         </DialogContent>
       </Dialog>
+
+      <InvoiceActionDialog
+        invoice={invoiceDetailsQuery.data ?? null}
+        action={detailsOpen ? pendingAction : null}
+        onOpenChange={(nextOpen) => !nextOpen && setPendingAction(null)}
+      />
+
+      <InvoiceDocumentDialog
+        open={Boolean(documentInvoiceId)}
+        onOpenChange={(nextOpen) => !nextOpen && setDocumentInvoiceId(undefined)}
+        invoiceId={documentInvoiceId}
+      />
     </div>
   );
 }
@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "../../../ui/button";
+import { Label } from "../../../ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { deleteCategory, moveCategoryProducts, updateCategory, type Category } from "../../../../services/categories.service";
+import { CATEGORIES_QUERY_KEY } from "../../../../hooks/api/useCategoriesAdmin";
+import { PRODUCTS_QUERY_KEY } from "../../../../hooks/api/useProductsAdmin";
+import { mergeTargets, productCountOf, treeOptions } from "../../../../lib/category-tree";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+
+type CategoryDeleteDialogProps = {
+  category: Category | null;
+  categories: Category[];
+  onOpenChange: (open: boolean) => void;
+};
+
+/**
+ * Deletes a category without orphaning anything: its products and direct subcategories are first
+ * moved into another category of the same provider. Empty leaf categories are deleted straight away.
+ */
+export function CategoryDeleteDialog({ category, categories, onOpenChange }: CategoryDeleteDialogProps) {
+  const { t, i18n } = useTranslation();
+  const isArabic = i18n.language?.startsWith("ar");
+  const queryClient = useQueryClient();
+  const [targetId, setTargetId] = useState("");
+
+  useEffect(() => setTargetId(""), [category?.id]);
+
+  const productCount = category ? productCountOf(category) : null;
+  const children = useMemo(
+    () => (category ? categories.filter((item) => item.parentId === category.id) : []),
+    [categories, category]
+  );
+  const options = useMemo(() => {
+    if (!category) return [];
+    const allowed = new Set(mergeTargets(categories, category.id).map((item) => item.id));
+    return treeOptions(categories, { isArabic }).filter((option) => allowed.has(option.id));
+  }, [categories, category, isArabic]);
+  // Unknown counts are treated as non-empty so nothing is deleted out from under its products
+  const needsTarget = productCount !== 0 || children.length > 0;
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      if (!category) return;
+      if (needsTarget) {
+        if (productCount !== 0) await moveCategoryProducts(category.id, targetId);
+        for (const child of children) {
+          await updateCategory(child.id, { parentId: targetId });
+        }
+      }
+      await deleteCategory(category.id);
+    },
+    onSuccess: () => {
+      toast.success(
+        needsTarget
+          ? t("categories.merge.done", "Category merged and deleted")
+          : t("categories.deleted", "Category deleted")
+      );
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(getAdminErrorMessage(error, t, t("app.notifications.error"))),
+    // Partial failures may already have moved products, so always refresh both lists
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: CATEGORIES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+    },
+  });
+
+  const name = category ? (isArabic && category.nameAr ? category.nameAr : category.name) : "";
+
+  return (
+    <Dialog open={Boolean(category)} onOpenChange={(open) => !mutation.isPending && onOpenChange(open)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("categories.delete", "Delete category")}</DialogTitle>
+          <DialogDescription>
+            {needsTarget
+              ? t("categories.merge.description", {
+                  defaultValue: "Move what is filed under {{name}} into another category, then delete it.",
+                  name,
+                })
+              : t("categories.delete_confirm", "This action cannot be undone.")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {needsTarget && (
+          <div className="space-y-3">
+            <ul className="list-disc space-y-1 ps-5 text-sm text-muted-foreground">
+              <li>
+                {productCount === null
+                  ? t("categories.merge.productsUnknown", "Its products, whatever the count")
+                  : t("categories.merge.products", { defaultValue: "{{count}} products", count: productCount })}
+              </li>
+              {children.length > 0 && (
+                <li>{t("categories.merge.children", { defaultValue: "{{count}} subcategories", count: children.length })}</li>
+              )}
+            </ul>
+            <div className="space-y-1">
+              <Label>{t("categories.merge.target", "Move into")}</Label>
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t("categories.merge.pickTarget", "Choose a category")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!options.length && (
+                <p className="text-xs text-rose-600">
+                  {t("categories.merge.noTargets", "Create another category for this provider first.")}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={mutation.isPending}>
+            {t("app.actions.cancel")}
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={mutation.isPending || (needsTarget && !targetId)}
+            onClick={() => mutation.mutate()}
+          >
+            {mutation.isPending
+              ? t("app.loading", "Saving...")
+              : needsTarget
+                ? t("categories.merge.confirm", "Move and delete")
+                : t("app.actions.delete")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,224 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Edit, FolderPlus, GripVertical, Image as ImageIcon, Trash2 } from "lucide-react";
+import { Button } from "../../../ui/button";
+import { Badge } from "../../../ui/badge";
+import { ImageWithFallback } from "../../../figma/ImageWithFallback";
+import type { Category } from "../../../../services/categories.service";
+import { flattenTree, planMove, type CategoryTreeNode, type DropPosition, type TreeMove } from "../../../../lib/category-tree";
+
+type CategoryTreeProps = {
+  nodes: CategoryTreeNode[];
+  /** The full, unfiltered list; moves are planned against it even while searching */
+  categories: Category[];
+  /** Shown on root rows when several providers share the view */
+  providerName?: (id: string) => string | undefined;
+  busy?: boolean;
+  onMove: (move: TreeMove) => void;
+  onEdit: (category: Category) => void;
+  onAddChild: (parent: Category) => void;
+  onDelete?: (category: Category) => void;
+};
+
+const INDENT_PX = 20;
+
+function dropPositionFor(event: React.DragEvent<HTMLElement>): DropPosition {
+  const rect = event.currentTarget.getBoundingClientRect();
+  const offset = (event.clientY - rect.top) / Math.max(1, rect.height);
+  return offset < 0.25 ? "before" : offset > 0.75 ? "after" : "inside";
+}
+
+/** Categories as an indented tree: drag onto a row to nest, onto its top or bottom edge to reorder. */
+export function CategoryTree({ nodes, categories, providerName, busy, onMove, onEdit, onAddChild, onDelete }: CategoryTreeProps) {
+  const { t, i18n } = useTranslation();
+  const isArabic = i18n.language?.startsWith("ar");
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropHint, setDropHint] = useState<{ id: string; position: DropPosition } | null>(null);
+
+  const rows = useMemo(() => flattenTree(nodes, collapsed), [nodes, collapsed]);
+  const siblings = useMemo(() => {
+    const byId = new Map<string, CategoryTreeNode[]>();
+    const walk = (list: CategoryTreeNode[]) =>
+      list.forEach((node) => {
+        byId.set(node.category.id, list);
+        walk(node.children);
+      });
+    walk(nodes);
+    return byId;
+  }, [nodes]);
+
+  const toggle = (id: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const step = (node: CategoryTreeNode, direction: -1 | 1) => {
+    const list = siblings.get(node.category.id) ?? [];
+    const index = list.indexOf(node);
+    const neighbour = list[index + direction];
+    if (!neighbour) return;
+    const move = planMove(categories, node.category.id, neighbour.category.id, direction < 0 ? "before" : "after");
+    if (move) onMove(move);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLElement>, targetId: string) => {
+    event.preventDefault();
+    const position = dropPositionFor(event);
+    setDropHint(null);
+    setDragId(null);
+    if (!dragId) return;
+    const move = planMove(categories, dragId, targetId, position);
+    if (move) onMove(move);
+  };
+
+  const countLabel = (node: CategoryTreeNode) => {
+    if (node.productCount === null) return null;
+    return node.children.length && node.totalProducts !== null && node.totalProducts !== node.productCount
+      ? t("categories.tree.countWithChildren", {
+          defaultValue: "{{count}} products · {{total}} incl. subcategories",
+          count: node.productCount,
+          total: node.totalProducts,
+        })
+      : t("categories.tree.count", { defaultValue: "{{count}} products", count: node.productCount });
+  };
+
+  return (
+    <ul className={`divide-y ${busy ? "opacity-60 pointer-events-none" : ""}`} role="tree">
+      {rows.map((node) => {
+        const { category } = node;
+        const hasChildren = node.children.length > 0;
+        const isCollapsed = collapsed.has(category.id);
+        const hint = dropHint?.id === category.id ? dropHint.position : null;
+        const list = siblings.get(category.id) ?? [];
+        const index = list.indexOf(node);
+        const provider = node.depth === 0 && category.providerId ? providerName?.(category.providerId) : undefined;
+        const count = countLabel(node);
+        return (
+          <li
+            key={category.id}
+            role="treeitem"
+            aria-level={node.depth + 1}
+            aria-expanded={hasChildren ? !isCollapsed : undefined}
+            draggable
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = "move";
+              setDragId(category.id);
+            }}
+            onDragEnd={() => {
+              setDragId(null);
+              setDropHint(null);
+            }}
+            onDragOver={(event) => {
+              if (!dragId) return;
+              const position = dropPositionFor(event);
+              // Leaving preventDefault out shows the not-allowed cursor for invalid drops
+              if (!planMove(categories, dragId, category.id, position)) {
+                if (hint) setDropHint(null);
+                return;
+              }
+              event.preventDefault();
+              if (hint !== position) setDropHint({ id: category.id, position });
+            }}
+            onDrop={(event) => handleDrop(event, category.id)}
+            className={[
+              "flex items-center gap-2 px-3 py-2 text-sm",
+              dragId === category.id ? "opacity-40" : "",
+              hint === "inside" ? "bg-primary/10" : "",
+              hint === "before" ? "shadow-[inset_0_2px_0_0_hsl(var(--primary))]" : "",
+              hint === "after" ? "shadow-[inset_0_-2px_0_0_hsl(var(--primary))]" : "",
+            ].join(" ")}
+          >
+            <div className="flex items-center gap-1" style={{ paddingInlineStart: node.depth * INDENT_PX }}>
+              <GripVertical className="w-4 h-4 cursor-grab text-muted-foreground" />
+              {hasChildren ? (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  aria-label={isCollapsed ? t("categories.tree.expand", "Expand") : t("categories.tree.collapse", "Collapse")}
+                  onClick={() => toggle(category.id)}
+                >
+                  {isCollapsed ? <ChevronRight className="w-4 h-4 rtl:rotate-180" /> : <ChevronDown className="w-4 h-4" />}
+                </Button>
+              ) : (
+                <span className="w-6" />
+              )}
+            </div>
+            <div className="w-9 h-9 shrink-0 rounded-md overflow-hidden bg-muted">
+              {category.imageUrl ? (
+                <ImageWithFallback src={category.imageUrl} alt={category.name} className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+                  <ImageIcon className="w-4 h-4" />
+                </div>
+              )}
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="truncate font-medium">
+                {isArabic && category.nameAr ? category.nameAr : category.name}
+                {provider && <span className="ms-2 text-xs font-normal text-muted-foreground">{provider}</span>}
+              </p>
+              <p className="truncate text-xs text-muted-foreground">
+                {category.slug}
+                {count && <span className="ms-2">· {count}</span>}
+              </p>
+            </div>
+            {!category.isActive && (
+              <Badge className="bg-slate-200 text-slate-700">{t("app.no", "Inactive")}</Badge>
+            )}
+            <div className="flex shrink-0 items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={index <= 0}
+                aria-label={t("categories.tree.moveUp", "Move up")}
+                onClick={() => step(node, -1)}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={index === -1 || index >= list.length - 1}
+                aria-label={t("categories.tree.moveDown", "Move down")}
+                onClick={() => step(node, 1)}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                aria-label={t("categories.tree.addChild", "Add subcategory")}
+                title={t("categories.tree.addChild", "Add subcategory")}
+                onClick={() => onAddChild(category)}
+              >
+                <FolderPlus className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={t("app.actions.edit")} onClick={() => onEdit(category)}>
+                <Edit className="w-4 h-4" />
+              </Button>
+              {onDelete && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-rose-600"
+                  aria-label={t("app.actions.delete")}
+                  onClick={() => onDelete(category)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
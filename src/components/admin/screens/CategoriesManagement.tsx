@@ -7,7 +7,6 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import {
   createCategory,
   updateCategory,
-  deleteCategory,
   reorderCategories,
   type Category,
 } from "../../../services/categories.service";
@@ -16,7 +15,6 @@ import { Card, CardContent, CardHeader, CardTitle } from "../../ui/card";
 import { Button } from "../../ui/button";
 import { Input } from "../../ui/input";
 import { Label } from "../../ui/label";
-import { Badge } from "../../ui/badge";
 import {
   Dialog,
   DialogContent,
@@ -25,39 +23,22 @@ import {
   DialogTitle,
 } from "../../ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../ui/select";
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "../../ui/table";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from "../../ui/alert-dialog";
 import { Switch } from "../../ui/switch";
 import { ImageWithFallback } from "../../figma/ImageWithFallback";
-import { Plus, Search, Edit, Trash2, GripVertical, Image as ImageIcon } from "lucide-react";
+import { Plus, Search, Image as ImageIcon } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "../../../auth/AuthProvider";
 import { useDebounce } from "../../../hooks/useDebounce";
-import { useCategoriesAdmin, CATEGORIES_QUERY_KEY } from "../../../hooks/api/useCategoriesAdmin";
+import { useCategoryTree, CATEGORIES_QUERY_KEY, CATEGORY_TREE_MAX } from "../../../hooks/api/useCategoriesAdmin";
 import { useProviders } from "../../../hooks/api/useProviders";
 import { getAdminErrorMessage } from "../../../lib/errors";
 import { AdminTableSkeleton } from "../../admin/common/AdminTableSkeleton";
 import { EmptyState } from "../../admin/common/EmptyState";
 import { ErrorState } from "../../admin/common/ErrorState";
+import { buildCategoryTree, descendantIds, filterTree, treeOptions, type TreeMove } from "../../../lib/category-tree";
+import { CategoryTree } from "./Categories/CategoryTree";
+import { CategoryDeleteDialog } from "./Categories/CategoryDeleteDialog";
 
-const PAGE_SIZE = 20;
 const MAX_FILE_MB = 2;
 
 const categoryFormSchema = z.object({
@@ -69,6 +50,7 @@ const categoryFormSchema = z.object({
     .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers, and hyphen only"),
   parentId: z.string().optional(),
   sortOrder: z.string().optional(),
+  lowStockThreshold: z.string().optional(),
   isActive: z
     .boolean()
     .optional()
@@ -79,16 +61,16 @@ const categoryFormSchema = z.object({
 
 type CategoryFormValues = z.infer<typeof categoryFormSchema>;
 
-type DialogState = { mode: "create" | "edit"; category?: Category } | null;
-
-type ReorderItem = { id: string; sortOrder: number };
+/** `parent` preselects the parent when adding a subcategory from the tree */
+type DialogState = { mode: "create" | "edit"; category?: Category; parent?: Category } | null;
 
 type CategoryFormDialogProps = {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   mode: "create" | "edit";
   category?: Category;
-  parents: Category[];
+  parent?: Category;
+  categories: Category[];
   providers: Array<{ id: string; name: string; nameAr?: string | null }>;
   showProviderSelect: boolean;
   providerDefaultId?: string;
@@ -112,17 +94,18 @@ function slugify(value: string) {
     .slice(0, 64);
 }
 
-function mapCategoryToForm(category?: Category): CategoryFormValues {
+function mapCategoryToForm(category?: Category, parent?: Category): CategoryFormValues {
   if (!category) {
     return {
       name: "",
       nameAr: "",
       slug: "",
-      parentId: "",
+      parentId: parent?.id || "",
       sortOrder: "0",
+      lowStockThreshold: "",
       isActive: true,
       imageUrl: "",
-      providerId: "",
+      providerId: parent?.providerId || "",
     };
   }
   return {
@@ -131,6 +114,7 @@ function mapCategoryToForm(category?: Category): CategoryFormValues {
     slug: category.slug,
     parentId: category.parentId || "",
     sortOrder: String(category.sortOrder ?? 0),
+    lowStockThreshold: category.lowStockThreshold != null ? String(category.lowStockThreshold) : "",
     isActive: !!category.isActive,
     imageUrl: category.imageUrl || "",
     providerId: category.providerId || "",
@@ -138,46 +122,31 @@ function mapCategoryToForm(category?: Category): CategoryFormValues {
 }
 
 export function CategoriesManagement() {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
+  const isArabic = i18n.language?.startsWith("ar");
   const { isAdmin } = useAuth();
   const queryClient = useQueryClient();
   const [searchInput, setSearchInput] = useState("");
   const debouncedSearch = useDebounce(searchInput, 300);
-  const [page, setPage] = useState(1);
   const [providerFilter, setProviderFilter] = useState("all");
   const [dialogState, setDialogState] = useState<DialogState>(null);
-  const [rows, setRows] = useState<Category[]>([]);
-  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Category | null>(null);
 
-  const categoriesQuery = useCategoriesAdmin(
-    {
-      q: debouncedSearch.trim() || undefined,
-      providerId: isAdmin && providerFilter !== "all" ? providerFilter : undefined,
-      page,
-      pageSize: PAGE_SIZE,
-    },
-    { enabled: true }
-  );
+  const treeQuery = useCategoryTree({ providerId: isAdmin && providerFilter !== "all" ? providerFilter : undefined });
   const providersQuery = useProviders({ page: 1, pageSize: 200 }, { enabled: isAdmin });
   const providers = providersQuery.data?.items ?? [];
 
-  const categoryData = categoriesQuery.data;
-  const categoryItems: Category[] = categoryData?.items ?? [];
-  const total = categoryData?.total ?? 0;
-  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
-
-  useEffect(() => {
-    if (categoryData?.items) {
-      setRows(categoryData.items);
-    }
-  }, [categoryData?.items]);
-
-  const parents = useMemo(() => categoryItems.filter((item) => !item.parentId), [categoryItems]);
-  const parentNames = useMemo(() => {
-    const lookup = new Map<string, string>();
-    categoryItems.forEach((item) => lookup.set(item.id, item.name));
-    return lookup;
-  }, [categoryItems]);
+  const categories = useMemo(() => treeQuery.data ?? [], [treeQuery.data]);
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+  const visibleTree = useMemo(() => filterTree(tree, debouncedSearch), [tree, debouncedSearch]);
+  const totalProducts = useMemo(
+    () => (tree.some((node) => node.totalProducts === null) ? null : tree.reduce((sum, node) => sum + (node.totalProducts ?? 0), 0)),
+    [tree]
+  );
+  const providerName = useMemo(() => {
+    const names = new Map(providers.map((provider) => [provider.id, isArabic && provider.nameAr ? provider.nameAr : provider.name]));
+    return (id: string) => names.get(id);
+  }, [providers, isArabic]);
 
   const saveMutation = useMutation({
     mutationFn: async ({
@@ -205,6 +174,7 @@ export function CategoriesManagement() {
         parentId: values.parentId ? values.parentId : null,
         isActive: values.isActive,
         sortOrder: Number(values.sortOrder || 0),
+        lowStockThreshold: values.lowStockThreshold ? Number(values.lowStockThreshold) : null,
         imageUrl,
         providerId: values.providerId ? values.providerId : undefined,
       };
@@ -224,45 +194,21 @@ export function CategoriesManagement() {
     onError: (error) => toast.error(getAdminErrorMessage(error, t, t("app.notifications.error"))),
   });
 
-  const deleteMutation = useMutation({
-    mutationFn: (id: string) => deleteCategory(id),
-    onSuccess: () => {
-      toast.success(t("categories.deleted", "Category deleted"));
-      queryClient.invalidateQueries({ queryKey: CATEGORIES_QUERY_KEY });
-    },
-    onError: (error) => toast.error(getAdminErrorMessage(error, t, t("app.notifications.error"))),
-  });
-
-  const reorderMutation = useMutation({
-    mutationFn: (items: ReorderItem[]) => reorderCategories(items),
-    onError: (error) => {
-      toast.error(
-        getAdminErrorMessage(error, t, t("categories.reorder_error", "Unable to reorder categories"))
-      );
-      // revert visual order
-      if (categoryItems.length) setRows(categoryItems);
-    },
-    onSuccess: () => {
-      toast.success(t("categories.reordered", "Categories reordered"));
-      queryClient.invalidateQueries({ queryKey: CATEGORIES_QUERY_KEY });
+  const moveMutation = useMutation({
+    mutationFn: async (move: TreeMove) => {
+      const current = categories.find((category) => category.id === move.id);
+      if ((current?.parentId ?? null) !== move.parentId) {
+        await updateCategory(move.id, { parentId: move.parentId });
+      }
+      if (move.order.length) await reorderCategories(move.order);
     },
+    onSuccess: () => toast.success(t("categories.reordered", "Categories reordered")),
+    onError: (error) =>
+      toast.error(getAdminErrorMessage(error, t, t("categories.reorder_error", "Unable to reorder categories"))),
+    // The tree is rebuilt from the server either way, which also reverts a failed move
+    onSettled: () => queryClient.invalidateQueries({ queryKey: CATEGORIES_QUERY_KEY }),
   });
 
-    const handleReorder = (targetId: string) => {
-    if (!draggingId || draggingId === targetId) return;
-    setRows((prev) => {
-      const next = [...prev];
-      const fromIndex = next.findIndex((item) => item.id === draggingId);
-      const toIndex = next.findIndex((item) => item.id === targetId);
-      if (fromIndex === -1 || toIndex === -1) return prev;
-      const [moved] = next.splice(fromIndex, 1);
-      next.splice(toIndex, 0, moved);
-      const base = (page - 1) * PAGE_SIZE;
-      reorderMutation.mutate(next.map((category, index) => ({ id: category.id, sortOrder: base + index })));
-      return next;
-    });
-  };
-
   return (
     <div className="p-4 lg:p-6 space-y-6">
       <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
@@ -283,16 +229,13 @@ export function CategoriesManagement() {
               <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
               <Input
                 value={searchInput}
-                onChange={(event) => {
-                  setSearchInput(event.target.value);
-                  setPage(1);
-                }}
+                onChange={(event) => setSearchInput(event.target.value)}
                 placeholder={t("filters.searchPlaceholder", "Search categories")}
                 className="pl-9"
               />
             </div>
             {isAdmin && (
-              <Select value={providerFilter} onValueChange={(value) => { setProviderFilter(value); setPage(1); }}>
+              <Select value={providerFilter} onValueChange={setProviderFilter}>
                 <SelectTrigger className="w-full sm:w-56">
                   <SelectValue placeholder={t("providers.selectProvider", "Select provider")} />
                 </SelectTrigger>
@@ -307,161 +250,74 @@ export function CategoriesManagement() {
               </Select>
             )}
           </div>
-          <div className="flex gap-2">
+          <div className="flex flex-wrap items-center gap-2">
             <Button
               variant="outline"
               size="sm"
               onClick={() => {
                 setSearchInput("");
                 setProviderFilter("all");
-                setPage(1);
-                categoriesQuery.refetch();
+                treeQuery.refetch();
               }}
             >
               {t("common.resetFilters", "Reset filters")}
             </Button>
+            <p className="text-xs text-muted-foreground">
+              {t("categories.tree.hint", "Drag a category onto another to nest it, or onto its top or bottom edge to reorder.")}
+            </p>
           </div>
 
           <div className="border rounded-lg overflow-hidden">
-            {categoriesQuery.isLoading ? (
+            {treeQuery.isLoading ? (
               <div className="p-4">
-                <AdminTableSkeleton rows={5} columns={8} />
+                <AdminTableSkeleton rows={5} columns={4} />
               </div>
-            ) : categoriesQuery.isError ? (
+            ) : treeQuery.isError ? (
               <div className="p-6">
                 <ErrorState
-                  message={getAdminErrorMessage(categoriesQuery.error, t, t("categories.loadError", "Unable to load categories"))}
-                  onRetry={() => categoriesQuery.refetch()}
+                  message={getAdminErrorMessage(treeQuery.error, t, t("categories.loadError", "Unable to load categories"))}
+                  onRetry={() => treeQuery.refetch()}
                 />
               </div>
-            ) : rows.length === 0 ? (
+            ) : visibleTree.length === 0 ? (
               <div className="p-6">
                 <EmptyState
                   title={t("categories.emptyTitle") || "No categories yet"}
                   description={t("categories.emptyDescription") || "Start by creating your first category."}
                   action={
-                    <Button size="sm" variant="outline" onClick={() => categoriesQuery.refetch()}>
+                    <Button size="sm" variant="outline" onClick={() => treeQuery.refetch()}>
                       {t("app.actions.retry")}
                     </Button>
                   }
                 />
               </div>
             ) : (
-              <div className="overflow-x-auto">
-                <Table className="min-w-[900px]">
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead className="w-12"></TableHead>
-                      <TableHead>{t("categories.name")}</TableHead>
-                      <TableHead>{t("categories.nameAr", "Arabic Name")}</TableHead>
-                      <TableHead>{t("categories.slug")}</TableHead>
-                      <TableHead>{t("categories.parent")}</TableHead>
-                      <TableHead>{t("categories.sortOrder")}</TableHead>
-                      <TableHead>{t("categories.active")}</TableHead>
-                      <TableHead className="text-right">{t("app.actions.actions")}</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {rows.map((category) => (
-                      <TableRow
-                        key={category.id}
-                        draggable
-                        onDragStart={() => setDraggingId(category.id)}
-                        onDragOver={(event) => event.preventDefault()}
-                        onDrop={() => handleReorder(category.id)}
-                        onDragEnd={() => setDraggingId(null)}
-                      >
-                        <TableCell className="text-muted-foreground">
-                          <GripVertical className="w-4 h-4" />
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-3">
-                            <div className="w-12 h-12 rounded-md overflow-hidden bg-muted">
-                              {category.imageUrl ? (
-                                <ImageWithFallback src={category.imageUrl} alt={category.name} className="w-full h-full object-cover" />
-                              ) : (
-                                <div className="w-full h-full flex items-center justify-center text-muted-foreground">
-                                  <ImageIcon className="w-4 h-4" />
-                                </div>
-                              )}
-                            </div>
-                            <div>
-                              <p className="font-medium text-sm">{category.name}</p>
-                              <p className="text-xs text-muted-foreground">ID: {category.id.slice(0, 6)}</p>
-                            </div>
-                          </div>
-                        </TableCell>
-                        <TableCell>{category.nameAr || "--"}</TableCell>
-                        <TableCell>{category.slug}</TableCell>
-                        <TableCell>{category.parentId ? parentNames.get(category.parentId) || "--" : t("categories.root", "Root")}</TableCell>
-                        <TableCell>{category.sortOrder ?? 0}</TableCell>
-                        <TableCell>
-                          <Badge className={category.isActive ? "bg-emerald-100 text-emerald-700" : "bg-slate-200 text-slate-700"}>
-                            {category.isActive ? t("app.yes", "Active") : t("app.no", "Inactive")}
-                          </Badge>
-                        </TableCell>
-                        <TableCell className="text-right">
-                          <div className="flex justify-end gap-2">
-                            <Button variant="ghost" size="icon" onClick={() => setDialogState({ mode: "edit", category })}>
-                              <Edit className="w-4 h-4" />
-                            </Button>
-                            {isAdmin && (
-                              <AlertDialog>
-                                <AlertDialogTrigger asChild>
-                                  <Button variant="ghost" size="icon" className="text-rose-600">
-                                    <Trash2 className="w-4 h-4" />
-                                  </Button>
-                                </AlertDialogTrigger>
-                                <AlertDialogContent>
-                                  <AlertDialogHeader>
-                                    <AlertDialogTitle>{t("categories.delete", "Delete category")}</AlertDialogTitle>
-                                    <AlertDialogDescription>
-                                      {t("categories.delete_confirm", "This action cannot be undone.")}
-                                    </AlertDialogDescription>
-                                  </AlertDialogHeader>
-                                  <AlertDialogFooter>
-                                    <AlertDialogCancel>{t("app.actions.cancel")}</AlertDialogCancel>
-                                    <AlertDialogAction onClick={() => deleteMutation.mutate(category.id)}>
-                                      {t("app.actions.delete")}
-                                    </AlertDialogAction>
-                                  </AlertDialogFooter>
-                                </AlertDialogContent>
-                              </AlertDialog>
-                            )}
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
+              <CategoryTree
+                nodes={visibleTree}
+                categories={categories}
+                providerName={isAdmin && providerFilter === "all" ? providerName : undefined}
+                busy={moveMutation.isPending}
+                onMove={(move) => moveMutation.mutate(move)}
+                onEdit={(category) => setDialogState({ mode: "edit", category })}
+                onAddChild={(parent) => setDialogState({ mode: "create", parent })}
+                onDelete={isAdmin ? setDeleteTarget : undefined}
+              />
             )}
-            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between px-4 py-3 border-t text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-t text-sm">
               <span>
-                {t("common.pagination.summary", "{{from}}-{{to}} of {{total}}", {
-                  from: (page - 1) * PAGE_SIZE + 1,
-                  to: Math.min(page * PAGE_SIZE, total),
-                  total,
-                })}
+                {totalProducts === null
+                  ? t("categories.tree.summary", { defaultValue: "{{count}} categories", count: categories.length })
+                  : t("categories.tree.summaryWithProducts", {
+                      defaultValue: "{{count}} categories · {{products}} products",
+                      count: categories.length,
+                      products: totalProducts,
+                    })}
               </span>
-              <div className="flex flex-wrap items-center gap-2 sm:justify-end">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  disabled={page === 1}
-                  onClick={() => setPage((prev) => Math.max(1, prev - 1))}
-                >
-                  {t("app.actions.prev")}
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  disabled={page >= totalPages}
-                  onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
-                >
-                  {t("app.actions.next")}
-                </Button>
-              </div>
+              {categories.length >= CATEGORY_TREE_MAX && (
+                <span className="text-xs text-amber-700">
+                  {t("categories.tree.truncated", { defaultValue: "Only the first {{count}} categories are shown.", count: CATEGORY_TREE_MAX })}
+                </span>
+              )}
             </div>
           </div>
         </CardContent>
@@ -472,13 +328,18 @@ export function CategoriesManagement() {
         onOpenChange={(open) => !open && setDialogState(null)}
         mode={dialogState?.mode || "create"}
         category={dialogState?.category}
-        parents={parents}
+        parent={dialogState?.parent}
+        categories={categories}
         providers={providers}
         showProviderSelect={isAdmin}
         providerDefaultId={isAdmin && providerFilter !== "all" ? providerFilter : undefined}
         loading={saveMutation.isPending}
         onSubmit={(values, imageFile) => saveMutation.mutate({ id: dialogState?.category?.id, values, imageFile })}
       />
+
+      {isAdmin && (
+        <CategoryDeleteDialog category={deleteTarget} categories={categories} onOpenChange={(open) => !open && setDeleteTarget(null)} />
+      )}
     </div>
   );
 }
@@ -488,30 +349,31 @@ function CategoryFormDialog({
   onOpenChange,
   mode,
   category,
-  parents,
+  parent,
+  categories,
   providers,
   showProviderSelect,
   providerDefaultId,
   loading,
   onSubmit,
 }: CategoryFormDialogProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const form = useForm<CategoryFormValues>({
     resolver: zodResolver(categoryFormSchema) as Resolver<CategoryFormValues>,
-    defaultValues: mapCategoryToForm(category),
+    defaultValues: mapCategoryToForm(category, parent),
   });
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const slugTouched = useRef(false);
 
   useEffect(() => {
-    form.reset(mapCategoryToForm(category));
+    form.reset(mapCategoryToForm(category, parent));
     setImageFile(null);
     slugTouched.current = false;
-    if (mode === "create" && showProviderSelect && providerDefaultId) {
+    if (mode === "create" && showProviderSelect && providerDefaultId && !parent) {
       form.setValue("providerId", providerDefaultId);
     }
-  }, [category, form, mode, providerDefaultId, showProviderSelect]);
+  }, [category, parent, form, mode, providerDefaultId, showProviderSelect]);
 
   useEffect(() => {
     if (!imageFile) {
@@ -532,10 +394,15 @@ function CategoryFormDialog({
 
   const submit = form.handleSubmit((values: CategoryFormValues) => onSubmit(values, imageFile));
   const selectedProviderId = form.watch("providerId");
-  const availableParents =
-    showProviderSelect && selectedProviderId
-      ? parents.filter((parent) => parent.providerId === selectedProviderId)
-      : parents;
+  // Any category can be a parent except this one and its own subtree
+  const availableParents = useMemo(() => {
+    const exclude = category ? descendantIds(categories, category.id).add(category.id) : new Set<string>();
+    const scoped =
+      showProviderSelect && selectedProviderId
+        ? categories.filter((item) => item.providerId === selectedProviderId)
+        : categories;
+    return treeOptions(scoped, { exclude, isArabic: i18n.language?.startsWith("ar") });
+  }, [categories, category, selectedProviderId, showProviderSelect, i18n.language]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -597,9 +464,9 @@ function CategoryFormDialog({
               onChange={(event) => form.setValue("parentId", event.target.value)}
             >
               <option value="">{t("categories.root", "Root")}</option>
-              {availableParents.map((parent) => (
-                <option key={parent.id} value={parent.id}>
-                  {parent.name}
+              {availableParents.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
                 </option>
               ))}
             </select>
@@ -614,6 +481,17 @@ function CategoryFormDialog({
                 placeholder="0"
               />
             </div>
+            <div>
+              <Label>{t("lowStock.categoryThreshold", "Low-stock alert at")}</Label>
+              <Input
+                inputMode="numeric"
+                {...form.register("lowStockThreshold")}
+                onChange={(event) =>
+                  form.setValue("lowStockThreshold", normalizeDigits(event.target.value).replace(/[^0-9]/g, ""))
+                }
+                placeholder={t("lowStock.inheritCategory", "Parent or store default")}
+              />
+            </div>
             <div className="flex items-center gap-3">
               <Label>{t("categories.active")}</Label>
               <Switch checked={form.watch("isActive")} onCheckedChange={(checked) => form.setValue("isActive", checked)} />
@@ -1,7 +1,7 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { getCustomer, setCustomerRole, resetCustomerPassword, Customer, deleteCustomer } from "../../../services/customers.service";
+import { getCustomer, setCustomerRole, resetCustomerPassword, Customer, deleteCustomer, listCustomers } from "../../../services/customers.service";
 import { fmtEGP } from "../../../lib/money";
 
 // shadcn/ui
@@ -22,7 +22,11 @@ import { EmptyState } from "../../admin/common/EmptyState";
 import { ErrorState } from "../../admin/common/ErrorState";
 import { useDebounce } from "../../../hooks/useDebounce";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../ui/select";
-import { useSearchParams } from "react-router-dom";
+import { useListState } from "../../../hooks/useListState";
+import { listParam } from "../../../lib/list-state";
+import { SavedViewsMenu } from "../common/SavedViewsMenu";
+import { TableExportButton } from "../common/TableExportButton";
+import { CUSTOMER_EXPORT_COLUMNS } from "../../../lib/export-columns";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -49,17 +53,23 @@ type CustomerDetail = {
   orders?: Array<{ id: string; createdAt: string; totalCents: number }>;
 };
 
+const CUSTOMERS_LIST_SCHEMA = {
+  q: listParam.string(),
+  page: listParam.number(1, { min: 1 }),
+  pageSize: listParam.number(20, { min: 1, max: 100 }),
+};
+
 export function CustomersManagement() {
   const { t } = useTranslation();
   const { isAdmin, isStaff } = useAuth();
   const queryClient = useQueryClient();
-  const [searchParams, setSearchParams] = useSearchParams();
 
-  // filters & pagination (kept logic)
-  const [q, setQ] = useState("");
+  // filters & pagination, kept in the URL
+  const { state: listState, setState: setListState, applyQuery, query: listQuery } = useListState(CUSTOMERS_LIST_SCHEMA, {
+    screen: "customers",
+  });
+  const { q, page, pageSize } = listState;
   const debouncedQ = useDebounce(q, 300);
-  const [page, setPage] = useState(1);
-  const [pageSize, setPageSize] = useState(20);
 
   const customersQuery = useCustomersAdmin(
     {
@@ -81,24 +91,6 @@ export function CustomersManagement() {
   const [detailLoading, setDetailLoading] = useState(false);
   const [detailError, setDetailError] = useState<string | null>(null);
 
-  useEffect(() => {
-    const qParam = searchParams.get("q") || "";
-    const pageParam = Number(searchParams.get("page") || 1);
-    const sizeParam = Number(searchParams.get("pageSize") || 20);
-    setQ(qParam);
-    setPage(Number.isFinite(pageParam) && pageParam > 0 ? pageParam : 1);
-    setPageSize(Number.isFinite(sizeParam) && sizeParam > 0 ? sizeParam : 20);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  useEffect(() => {
-    const params = new URLSearchParams();
-    if (q.trim()) params.set("q", q.trim());
-    if (page > 1) params.set("page", String(page));
-    if (pageSize !== 20) params.set("pageSize", String(pageSize));
-    setSearchParams(params, { replace: true });
-  }, [q, page, pageSize, setSearchParams]);
-
   const updateRoleMutation = useMutation({
     mutationFn: ({ id, role }: { id: string; role: "CUSTOMER" | "ADMIN" | "STAFF" }) => setCustomerRole(id, role),
     onSuccess: async (_data, variables) => {
@@ -241,17 +233,14 @@ export function CustomersManagement() {
               <Input
                 placeholder={t("filters.searchPlaceholder") || "Search customers..."}
                 value={q}
-                onChange={(e) => {
-                  setQ(e.target.value);
-                  setPage(1);
-                }}
+                onChange={(e) => setListState({ q: e.target.value, page: 1 })}
                 className="pl-10"
                 onKeyDown={(e) => {
-                  if (e.key === "Enter") setPage(1);
+                  if (e.key === "Enter") setListState({ page: 1 });
                 }}
               />
             </div>
-            <Select value={String(pageSize)} onValueChange={(value) => { setPageSize(Number(value)); setPage(1); }}>
+            <Select value={String(pageSize)} onValueChange={(value) => setListState({ pageSize: Number(value), page: 1 })}>
               <SelectTrigger className="w-32">
                 <SelectValue placeholder={t("common.page_size", "Page size")} />
               </SelectTrigger>
@@ -266,13 +255,22 @@ export function CustomersManagement() {
             <Button
               variant="outline"
               onClick={() => {
-                setPage(1);
+                setListState({ page: 1 });
                 customersQuery.refetch();
               }}
               disabled={customersQuery.isFetching}
             >
               {t("app.actions.search")}
             </Button>
+            <SavedViewsMenu screen="customers" query={listQuery} onApply={applyQuery} />
+            <TableExportButton
+              filename="customers"
+              title={t("customers.title")}
+              columns={CUSTOMER_EXPORT_COLUMNS}
+              fetchPage={(exportPage, exportPageSize) =>
+                listCustomers({ q: debouncedQ.trim().length >= 2 ? debouncedQ.trim() : undefined, page: exportPage, pageSize: exportPageSize })
+              }
+            />
           </div>
         </CardContent>
       </Card>
@@ -419,14 +417,14 @@ export function CustomersManagement() {
               <Button
                 variant="outline"
                 disabled={page === 1}
-                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                onClick={() => setListState((prev) => ({ page: Math.max(1, prev.page - 1) }))}
               >
                 {t("app.actions.prev")}
               </Button>
               <Button
                 variant="outline"
                 disabled={page >= totalPages}
-                onClick={() => setPage((p) => p + 1)}
+                onClick={() => setListState((prev) => ({ page: prev.page + 1 }))}
               >
                 {t("app.actions.next")}
               </Button>
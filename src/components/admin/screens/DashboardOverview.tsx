@@ -1,7 +1,16 @@
 import React, { useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
+import { useNavigate } from "react-router-dom";
 import type { TFunction } from "i18next";
 import { useDashboardAdmin } from "../../../hooks/api/useDashboardAdmin";
+import { DASHBOARD_FALLBACK_POLL_MS, useOrdersPollInterval } from "../../../hooks/api/useOrderEvents";
+import { useStuckOrders } from "../../../hooks/api/useOrderSla";
+import { useNow } from "../../../hooks/useNow";
+import { usePermissions } from "../../../auth/permissions";
+import { useAuth } from "../../../auth/AuthProvider";
+import { evaluateSlaEntries } from "../../../lib/order-sla";
+import { StuckOrdersPanel } from "./Orders/StuckOrdersPanel";
+import { StockAdjustDialog, type StockTarget } from "./Products/StockAdjustDialog";
 import { fmtEGP } from "../../../lib/money";
 import { Card, CardContent, CardHeader, CardTitle } from "../../ui/card";
 import { Button } from "../../ui/button";
@@ -45,6 +54,8 @@ function getDateRange(range: RangeOption) {
   const end = new Date();
   const start = new Date();
   start.setDate(end.getDate() - (days - 1));
+  // Through the end of today, so orders streamed in after the range was picked still fall inside it
+  end.setHours(23, 59, 59, 999);
   return { from: start.toISOString(), to: end.toISOString() };
 }
 
@@ -55,7 +66,25 @@ export function DashboardOverview({ updateAdminState }: Props) {
   const rangeFilter = useMemo(() => getDateRange(range), [range]);
   const granularity = range === "90d" ? "week" : "day";
 
-  const { summaryQuery, seriesQuery } = useDashboardAdmin(rangeFilter, granularity as "day" | "week");
+  const pollInterval = useOrdersPollInterval("admin", DASHBOARD_FALLBACK_POLL_MS);
+  const { summaryQuery, seriesQuery } = useDashboardAdmin(rangeFilter, granularity as "day" | "week", {
+    refetchInterval: pollInterval,
+  });
+
+  const perms = usePermissions();
+  const { isAdmin } = useAuth();
+  const [receiveTarget, setReceiveTarget] = useState<StockTarget | null>(null);
+  const navigate = useNavigate();
+  const now = useNow();
+  // only roles that can act on orders get the SLA panel
+  const showSla = perms.canUpdateOrders;
+  const sla = useStuckOrders({
+    scope: "admin",
+    enabled: showSla,
+    withHistory: perms.canViewHistory,
+    withWatcher: perms.canViewAutomation,
+  });
+  const slaStates = useMemo(() => evaluateSlaEntries(sla.entries, sla.thresholds, now), [sla.entries, sla.thresholds, now]);
 
   const summary = summaryQuery.data;
   const seriesData = (seriesQuery.data as TimeseriesPoint[] | undefined) || [];
@@ -187,6 +216,15 @@ export function DashboardOverview({ updateAdminState }: Props) {
             ))}
       </div>
 
+      {showSla && (
+        <StuckOrdersPanel
+          states={slaStates}
+          loading={sla.isLoading}
+          onOpenOrder={(orderId) => navigate(`/orders/${orderId}`)}
+          onViewAll={() => updateAdminState?.({ currentScreen: "orders" })}
+        />
+      )}
+
       <div className="grid gap-4 lg:grid-cols-3">
         <Card className="lg:col-span-2">
           <CardHeader className="flex flex-row items-center justify-between">
@@ -250,16 +288,35 @@ export function DashboardOverview({ updateAdminState }: Props) {
               <ArrowRight className="w-4 h-4" />
             </Button>
             <div className="rounded-lg bg-muted p-3 space-y-2">
-              <p className="text-xs text-muted-foreground">{t("dashboard.lowStock", "Low stock alerts")}</p>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">{t("dashboard.lowStock", "Low stock alerts")}</p>
+                {isAdmin && (
+                  <div className="flex gap-3">
+                    <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => navigate("/products/manage?view=reorder")}>
+                      {t("lowStock.reorder", "Reorder")}
+                    </Button>
+                    <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => navigate("/products/manage?view=count")}>
+                      {t("inventory.count.title", "Cycle count")}
+                    </Button>
+                  </div>
+                )}
+              </div>
               {lowStock.length === 0 ? (
                 <p className="text-sm text-muted-foreground">{t("dashboard.none", "All good for now")}</p>
               ) : (
                 lowStock.map((item) => (
-                  <div key={item.id} className="flex items-center justify-between text-sm">
-                    <span>{item.name}</span>
-                    <Badge variant="secondary">
-                      <Flame className="w-3 h-3 mr-1" /> {item.stock}
-                    </Badge>
+                  <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate">{item.name}</span>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">
+                        <Flame className="w-3 h-3 mr-1" /> {item.stock}
+                      </Badge>
+                      {isAdmin && (
+                        <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => setReceiveTarget(item)}>
+                          {t("inventory.receive", "Receive")}
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 ))
               )}
@@ -356,6 +413,15 @@ export function DashboardOverview({ updateAdminState }: Props) {
           </CardContent>
         </Card>
       </div>
+
+      {isAdmin && (
+        <StockAdjustDialog
+          open={Boolean(receiveTarget)}
+          onOpenChange={(open) => !open && setReceiveTarget(null)}
+          product={receiveTarget}
+          defaultReason="RECEIVE"
+        />
+      )}
     </div>
   );
 }
@@ -16,6 +16,7 @@ import { ErrorState } from "../common/ErrorState";
 import { RefreshCcw, MapPin, PhoneCall } from "lucide-react";
 import { getAdminErrorMessage } from "../../../lib/errors";
 import { fmtCurrency } from "../../../lib/money";
+import { formatItemOptions } from "../../../lib/product-variants";
 import { useDriverOrder, useDriverOrders, DRIVER_ORDERS_QUERY_KEY } from "../../../hooks/api/useDriverOrders";
 import { updateDriverOrderStatus } from "../../../services/driver-orders.service";
 import type { DriverOrder, DriverOrderAddress } from "../../../types/driver-orders";
@@ -64,7 +65,7 @@ const hasCoords = (address: DriverOrderAddress | null | undefined) =>
   address && Number.isFinite(address.lat) && Number.isFinite(address.lng);
 
 export function DriverOrders() {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const queryClient = useQueryClient();
   const [statusFilter, setStatusFilter] = useState<OrderStatus | "all">("all");
   const [page, setPage] = useState(1);
@@ -388,6 +389,9 @@ export function DriverOrders() {
                         <div key={item.id} className="flex items-center justify-between">
                           <div>
                             <p className="font-medium">{item.name}</p>
+                            {item.options?.length ? (
+                              <p className="text-xs text-muted-foreground">{formatItemOptions(item.options, i18n.language)}</p>
+                            ) : null}
                             <p className="text-xs text-muted-foreground">
                               {t("orders.qty", "Qty")}: {item.qty ?? 0}
                             </p>
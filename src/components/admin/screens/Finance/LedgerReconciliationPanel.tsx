@@ -0,0 +1,286 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { Download, RefreshCw } from "lucide-react";
+import { Badge } from "../../../ui/badge";
+import { Button } from "../../../ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../../../ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../ui/table";
+import { AdminTableSkeleton } from "../../common/AdminTableSkeleton";
+import { EmptyState } from "../../common/EmptyState";
+import { ErrorState } from "../../common/ErrorState";
+import { useLedgerReconciliation, RECONCILIATION_MAX } from "../../../../hooks/api/useLedgerReconciliation";
+import { RECONCILE_ORDER_ISSUES, commissionDate, type ReconcileOrderIssue } from "../../../../lib/ledger-reconciliation";
+import { reconciliationExportColumns } from "../../../../lib/export-columns";
+import { buildExportBlob, type ExportFormat } from "../../../../lib/table-export";
+import { downloadBlob } from "../../../../lib/download";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import { fmtCurrency } from "../../../../lib/money";
+
+type LedgerReconciliationPanelProps = {
+  providerId?: string;
+  from?: string;
+  to?: string;
+};
+
+const PAGE_STEP = 50;
+
+const formatDate = (value?: string | null) => (value ? dayjs(value).format("YYYY-MM-DD") : "--");
+
+/** Delivered orders next to their commission entries, invoice lines and settlements, mismatches first. */
+export function LedgerReconciliationPanel({ providerId, from, to }: LedgerReconciliationPanelProps) {
+  const { t, i18n } = useTranslation();
+  const [issue, setIssue] = useState<ReconcileOrderIssue | "mismatches" | "all">("mismatches");
+  const [visible, setVisible] = useState(PAGE_STEP);
+  const filters = useMemo(() => ({ providerId, from: from || undefined, to: to || undefined }), [providerId, from, to]);
+  const { reconciliation, rates, truncated, isLoading, isFetching, isError, error, refetch } = useLedgerReconciliation(filters);
+  const { totals, mismatches, invoices, orphans } = reconciliation;
+
+  const money = (cents: number | null, currency = "EGP") => (cents == null ? "--" : fmtCurrency(cents, currency, i18n.language));
+  const issueLabel = (value: ReconcileOrderIssue) => t(`finance.reconciliation.issues.${value}`);
+
+  const rows = useMemo(() => {
+    if (issue === "all") return reconciliation.rows;
+    if (issue === "mismatches") return mismatches;
+    return mismatches.filter((row) => row.issues.includes(issue));
+  }, [reconciliation, mismatches, issue]);
+
+  const selectIssue = (next: typeof issue) => {
+    setIssue(next);
+    setVisible(PAGE_STEP);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!mismatches.length) {
+      toast.info(t("finance.reconciliation.nothingToExport", "No mismatches to export"));
+      return;
+    }
+    const columns = reconciliationExportColumns({ issueLabel }).map((column) => ({
+      header: t(column.labelKey, column.label),
+      value: column.value,
+    }));
+    const title = t("finance.reconciliation.title", "Reconciliation");
+    const blob = buildExportBlob(format, mismatches, columns, { sheet: title, rtl: i18n.dir() === "rtl" });
+    downloadBlob(blob, `reconciliation-${providerId}-${dayjs().format("YYYYMMDD-HHmm")}.${format}`);
+  };
+
+  if (!providerId) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <EmptyState
+            title={t("finance.reconciliation.pickVendor", "Select a vendor to reconcile")}
+            description={t("finance.reconciliation.pickVendorHint", "Use the vendor and date filters above.")}
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="mb-4">
+      <CardHeader className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <CardTitle className="text-base">{t("finance.reconciliation.title", "Reconciliation")}</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {!rates.length
+              ? t("finance.reconciliation.noRate", "No subscription found, so commission amounts are not checked.")
+              : t(rates.length > 1 ? "finance.reconciliation.rates" : "finance.reconciliation.rate", {
+                  defaultValue: "Commission rate {{rate}}% of the order total",
+                  rate: rates.map((rate) => (rate / 100).toFixed(2)).join("%, "),
+                })}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" className="gap-1" disabled={isFetching} onClick={() => refetch()}>
+            <RefreshCw className={`w-4 h-4 ${isFetching ? "animate-spin" : ""}`} />
+            {t("app.actions.refresh", "Refresh")}
+          </Button>
+          <Button variant="outline" size="sm" className="gap-1" disabled={!mismatches.length} onClick={() => handleExport("xlsx")}>
+            <Download className="w-4 h-4" />
+            {t("finance.reconciliation.exportXlsx", "Mismatches (Excel)")}
+          </Button>
+          <Button variant="ghost" size="sm" disabled={!mismatches.length} onClick={() => handleExport("csv")}>
+            CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <AdminTableSkeleton rows={5} columns={7} />
+        ) : isError ? (
+          <ErrorState
+            message={getAdminErrorMessage(error, t, t("finance.load_failed", "Unable to load data"))}
+            onRetry={() => refetch()}
+          />
+        ) : (
+          <>
+            {truncated && (
+              <p className="text-xs text-amber-700">
+                {t("finance.reconciliation.truncated", {
+                  defaultValue: "Only the first {{count}} rows of each source were checked. Narrow the dates.",
+                  count: RECONCILIATION_MAX,
+                })}
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-3 text-sm md:grid-cols-4">
+              <div>
+                <p className="text-xs text-muted-foreground">{t("finance.reconciliation.delivered", "Delivered orders")}</p>
+                <p className="font-semibold">{reconciliation.rows.length}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">{t("finance.reconciliation.expected", "Expected commission")}</p>
+                <p className="font-semibold">{!rates.length ? "--" : money(totals.expectedCents)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">{t("finance.reconciliation.recorded", "Recorded commission")}</p>
+                <p className="font-semibold">{money(totals.commissionCents)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">{t("finance.reconciliation.flagged", "Orders flagged")}</p>
+                <p className={`font-semibold ${mismatches.length ? "text-rose-600" : "text-emerald-600"}`}>{mismatches.length}</p>
+                {totals.awaitingInvoice > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {t("finance.reconciliation.awaitingInvoiceCount", {
+                      defaultValue: "{{count}} not invoiced yet",
+                      count: totals.awaitingInvoice,
+                    })}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant={issue === "mismatches" ? "secondary" : "outline"} onClick={() => selectIssue("mismatches")}>
+                {t("finance.reconciliation.mismatches", "Mismatches")} ({mismatches.length})
+              </Button>
+              {RECONCILE_ORDER_ISSUES.map((id) => (
+                <Button
+                  key={id}
+                  size="sm"
+                  variant={issue === id ? "secondary" : "outline"}
+                  disabled={!totals.issues[id]}
+                  aria-pressed={issue === id}
+                  onClick={() => selectIssue(id)}
+                >
+                  {issueLabel(id)} ({totals.issues[id] ?? 0})
+                </Button>
+              ))}
+              <Button size="sm" variant={issue === "all" ? "secondary" : "outline"} onClick={() => selectIssue("all")}>
+                {t("finance.reconciliation.allOrders", "All orders")} ({reconciliation.rows.length})
+              </Button>
+            </div>
+
+            {!rows.length ? (
+              <EmptyState
+                title={
+                  reconciliation.rows.length
+                    ? t("finance.reconciliation.clean", "Everything ties out")
+                    : t("finance.reconciliation.noOrders", "No delivered orders in this range")
+                }
+              />
+            ) : (
+              <div className="overflow-x-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("finance.order", "Order")}</TableHead>
+                      <TableHead>{t("finance.date", "Date")}</TableHead>
+                      <TableHead className="text-end">{t("finance.amount", "Amount")}</TableHead>
+                      <TableHead className="text-end">{t("finance.reconciliation.expected", "Expected commission")}</TableHead>
+                      <TableHead className="text-end">{t("finance.reconciliation.recorded", "Recorded commission")}</TableHead>
+                      <TableHead>{t("finance.reconciliation.invoices", "Invoices")}</TableHead>
+                      <TableHead>{t("finance.reconciliation.issuesColumn", "Issues")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.slice(0, visible).map((row) => (
+                      <TableRow key={row.order.id}>
+                        <TableCell className="font-medium">{row.order.code || row.order.id}</TableCell>
+                        <TableCell>{formatDate(commissionDate(row.order))}</TableCell>
+                        <TableCell className="text-end tabular-nums">{money(row.order.totalCents, row.order.currency)}</TableCell>
+                        <TableCell className="text-end tabular-nums">{money(row.expectedCents, row.order.currency)}</TableCell>
+                        <TableCell className="text-end tabular-nums">
+                          {row.entries.length ? money(row.commissionCents, row.order.currency) : "--"}
+                          {row.entries.length > 1 && <span className="ms-1 text-xs text-muted-foreground">×{row.entries.length}</span>}
+                        </TableCell>
+                        <TableCell className="text-sm">{row.invoiceNumbers.join(", ") || "--"}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {row.issues.map((item) => (
+                              <Badge key={item} variant="outline" className="text-[11px] text-rose-700">
+                                {issueLabel(item)}
+                              </Badge>
+                            ))}
+                            {row.pendingSettlement && (
+                              <Badge variant="outline" className="text-[11px]">
+                                {t("finance.reconciliation.awaitingSettlement", "Awaiting settlement")}
+                              </Badge>
+                            )}
+                            {row.awaitingInvoice && (
+                              <Badge variant="outline" className="text-[11px]">
+                                {t("finance.reconciliation.awaitingInvoice", "Not invoiced yet")}
+                              </Badge>
+                            )}
+                            {!row.issues.length && !row.pendingSettlement && !row.awaitingInvoice && (
+                              <Badge className="bg-emerald-100 text-emerald-700 text-[11px]">{t("finance.reconciliation.ok", "OK")}</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {rows.length > visible && (
+                  <div className="border-t p-2 text-center">
+                    <Button variant="ghost" size="sm" onClick={() => setVisible((value) => value + PAGE_STEP)}>
+                      {t("finance.reconciliation.showMore", { defaultValue: "Show more ({{count}} left)", count: rows.length - visible })}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {invoices.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">{t("finance.reconciliation.invoiceMismatches", "Invoices whose commission lines differ from their entries")}</p>
+                <div className="overflow-x-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t("billing.invoiceNumber", "Invoice")}</TableHead>
+                        <TableHead className="text-end">{t("finance.reconciliation.lines", "Commission lines")}</TableHead>
+                        <TableHead className="text-end">{t("finance.reconciliation.entries", "Commission entries")}</TableHead>
+                        <TableHead className="text-end">{t("finance.reconciliation.difference", "Difference")}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invoices.map((check) => (
+                        <TableRow key={check.invoice.id}>
+                          <TableCell className="font-medium">{check.invoice.number}</TableCell>
+                          <TableCell className="text-end tabular-nums">{money(check.lineCents, check.invoice.currency)}</TableCell>
+                          <TableCell className="text-end tabular-nums">{money(check.entryCents, check.invoice.currency)}</TableCell>
+                          <TableCell className="text-end tabular-nums text-rose-600">{money(check.differenceCents, check.invoice.currency)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            {orphans.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {t("finance.reconciliation.orphans", {
+                  defaultValue: "{{count}} commission entries belong to orders outside this range or not delivered.",
+                  count: orphans.length,
+                })}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,325 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery } from "@tanstack/react-query";
+import { Download } from "lucide-react";
+import { Badge } from "../../../ui/badge";
+import { Button } from "../../../ui/button";
+import { Checkbox } from "../../../ui/checkbox";
+import { Input } from "../../../ui/input";
+import { Label } from "../../../ui/label";
+import { Progress } from "../../../ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../ui/table";
+import { AdminTableSkeleton } from "../../common/AdminTableSkeleton";
+import { EmptyState } from "../../common/EmptyState";
+import { ErrorState } from "../../common/ErrorState";
+import { createPayout, listVendorBalances, updatePayout } from "../../../../services/admin-finance.service";
+import { fetchAllPages, buildExportBlob } from "../../../../lib/table-export";
+import { settleWithConcurrency } from "../../../../lib/concurrency";
+import { downloadBlob } from "../../../../lib/download";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import { fmtCurrency, fromCents, toCents } from "../../../../lib/money";
+import {
+  BANK_FILE_COLUMNS,
+  DEFAULT_BATCH_RULES,
+  batchTotals,
+  newBatchId,
+  priceLine,
+  proposeBatch,
+  type BatchLine,
+  type BatchRules,
+} from "../../../../lib/payout-batch";
+
+const BATCH_CONCURRENCY = 3;
+// Balances are loaded in full so the batch covers every provider, up to this many
+const PAYOUT_BATCH_MAX = 2000;
+
+type LineEdit = { amountCents?: number; excluded?: boolean };
+type LineOutcome = { ok: true; payoutId: string } | { ok: false; message: string };
+
+type PayoutBatchDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCompleted: () => void;
+};
+
+const rulesToForm = (rules: BatchRules) => ({
+  min: String(fromCents(rules.minAmountCents)),
+  flat: String(fromCents(rules.feeFlatCents)),
+  percent: String(rules.feeBps / 100),
+});
+
+const amountInput = (value: string) => {
+  const numeric = Number(value.replace(/[^\d.]/g, ""));
+  return Number.isFinite(numeric) ? numeric : 0;
+};
+
+/**
+ * Builds a reviewed payout batch from vendor balances: one line per provider with the available
+ * amount, the minimum and fee rules applied, then creates the payouts and downloads the bank file.
+ */
+export function PayoutBatchDialog({ open, onOpenChange, onCompleted }: PayoutBatchDialogProps) {
+  const { t, i18n } = useTranslation();
+  const [batchId, setBatchId] = useState(() => newBatchId());
+  const [form, setForm] = useState(() => rulesToForm(DEFAULT_BATCH_RULES));
+  const [edits, setEdits] = useState<Record<string, LineEdit>>({});
+  const [outcomes, setOutcomes] = useState<Record<string, LineOutcome>>({});
+  const [running, setRunning] = useState<{ done: number; total: number } | null>(null);
+  // Taken when creation starts: the references are then on the server and in the bank file, so
+  // balance refetches must not re-propose (and renumber) the lines
+  const [snapshot, setSnapshot] = useState<BatchLine[] | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setBatchId(newBatchId());
+    setEdits({});
+    setOutcomes({});
+    setSnapshot(null);
+  }, [open]);
+
+  const balancesQuery = useQuery({
+    queryKey: ["finance-balances", "batch"],
+    queryFn: () =>
+      fetchAllPages((page, pageSize) => listVendorBalances({ minAvailableCents: 1, page, pageSize }), {
+        maxRows: PAYOUT_BATCH_MAX,
+      }),
+    enabled: open,
+  });
+
+  const rules = useMemo<BatchRules>(
+    () => ({
+      minAmountCents: toCents(amountInput(form.min)),
+      feeFlatCents: toCents(amountInput(form.flat)),
+      feeBps: Math.round(amountInput(form.percent) * 100),
+    }),
+    [form]
+  );
+
+  const proposed = useMemo(
+    () =>
+      proposeBatch(balancesQuery.data ?? [], rules, batchId).map((line) => {
+        const edit = edits[line.providerId];
+        const priced = edit?.amountCents !== undefined ? priceLine({ ...line, included: true }, edit.amountCents, rules) : line;
+        return edit?.excluded ? { ...priced, included: false } : priced;
+      }),
+    [balancesQuery.data, rules, batchId, edits]
+  );
+  const lines = snapshot ?? proposed;
+
+  const totals = batchTotals(lines);
+  const created = lines.filter((line) => outcomes[line.providerId]?.ok);
+  const pending = lines.filter((line) => line.included && !outcomes[line.providerId]?.ok);
+  const failedCount = Object.values(outcomes).filter((outcome) => !outcome.ok).length;
+  const locked = Boolean(running) || Boolean(snapshot);
+  const money = (cents: number, currency: string) => fmtCurrency(cents, currency, i18n.language);
+
+  const editLine = (providerId: string, edit: LineEdit) =>
+    setEdits((prev) => ({ ...prev, [providerId]: { ...prev[providerId], ...edit } }));
+
+  const downloadBankFile = (batch: BatchLine[]) => {
+    downloadBlob(buildExportBlob("csv", batch, BANK_FILE_COLUMNS), `${batchId}.csv`);
+  };
+
+  const run = async () => {
+    if (!pending.length) return;
+    const confirmed = window.confirm(
+      t("finance.batch.confirm", {
+        defaultValue: "Create {{count}} payouts totalling {{amount}}?",
+        count: pending.length,
+        amount: batchTotals(pending)
+          .map((sum) => money(sum.amountCents, sum.currency))
+          .join(", "),
+      })
+    );
+    if (!confirmed) return;
+    setSnapshot(lines);
+    setRunning({ done: 0, total: pending.length });
+    const results = await settleWithConcurrency(
+      pending,
+      async (line) => {
+        const payout = await createPayout({
+          providerId: line.providerId,
+          amountCents: line.amountCents,
+          feeCents: line.feeCents,
+          referenceId: line.referenceId,
+        });
+        // The payout exists either way; a failed status flip still leaves it open for the bank import
+        await updatePayout(payout.id, { status: "PROCESSING", referenceId: line.referenceId }).catch(() => undefined);
+        return payout;
+      },
+      {
+        limit: BATCH_CONCURRENCY,
+        onSettled: (_result, done) => setRunning((prev) => (prev ? { ...prev, done } : prev)),
+      }
+    );
+    setRunning(null);
+    const next = { ...outcomes };
+    results.forEach((result) => {
+      next[result.item.providerId] = result.ok
+        ? { ok: true, payoutId: result.value.id }
+        : { ok: false, message: getAdminErrorMessage(result.error, t) };
+    });
+    setOutcomes(next);
+    const batch = lines.filter((line) => next[line.providerId]?.ok);
+    if (batch.length) downloadBankFile(batch);
+    onCompleted();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !running && onOpenChange(next)}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{t("finance.batch.title", "Payout batch")}</DialogTitle>
+          <DialogDescription>
+            {t("finance.batch.description", {
+              defaultValue: "Batch {{id}}: review the proposed amounts, create the payouts and send the bank file.",
+              id: batchId,
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label>{t("finance.batch.minimum", "Minimum payout")}</Label>
+            <Input
+              inputMode="decimal"
+              value={form.min}
+              disabled={locked}
+              onChange={(event) => setForm((prev) => ({ ...prev, min: event.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>{t("finance.batch.feeFlat", "Fee per transfer")}</Label>
+            <Input
+              inputMode="decimal"
+              value={form.flat}
+              disabled={locked}
+              onChange={(event) => setForm((prev) => ({ ...prev, flat: event.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>{t("finance.batch.feePercent", "Fee %")}</Label>
+            <Input
+              inputMode="decimal"
+              value={form.percent}
+              disabled={locked}
+              onChange={(event) => setForm((prev) => ({ ...prev, percent: event.target.value }))}
+            />
+          </div>
+        </div>
+
+        {!snapshot && balancesQuery.isLoading ? (
+          <AdminTableSkeleton rows={5} columns={6} />
+        ) : !snapshot && balancesQuery.isError ? (
+          <ErrorState
+            message={getAdminErrorMessage(balancesQuery.error, t, t("finance.load_failed", "Unable to load balances"))}
+            onRetry={() => balancesQuery.refetch()}
+          />
+        ) : !lines.length ? (
+          <EmptyState title={t("finance.batch.empty", "No vendor has an available balance")} />
+        ) : (
+          <div className="max-h-[50vh] overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>{t("finance.vendor", "Vendor")}</TableHead>
+                  <TableHead className="text-end">{t("finance.available", "Available")}</TableHead>
+                  <TableHead className="w-36 text-end">{t("finance.amount", "Amount")}</TableHead>
+                  <TableHead className="text-end">{t("finance.fee", "Fee")}</TableHead>
+                  <TableHead className="text-end">{t("finance.batch.net", "Transfer")}</TableHead>
+                  <TableHead>{t("finance.reference", "Reference")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => {
+                  const outcome = outcomes[line.providerId];
+                  return (
+                    <TableRow key={line.providerId} className={line.included ? "" : "text-muted-foreground"}>
+                      <TableCell>
+                        <Checkbox
+                          checked={line.included}
+                          disabled={locked || Boolean(line.skip)}
+                          aria-label={line.providerName}
+                          onCheckedChange={(checked) => editLine(line.providerId, { excluded: !checked })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{line.providerName}</p>
+                        {line.skip && <p className="text-xs text-amber-700">{t(`finance.batch.skip.${line.skip}`)}</p>}
+                        {outcome && !outcome.ok && <p className="text-xs text-rose-600">{outcome.message}</p>}
+                      </TableCell>
+                      <TableCell className="text-end tabular-nums">{money(line.availableCents, line.currency)}</TableCell>
+                      <TableCell className="text-end">
+                        <Input
+                          className="h-8 text-end tabular-nums"
+                          inputMode="decimal"
+                          disabled={locked}
+                          defaultValue={String(fromCents(line.amountCents))}
+                          key={`${line.providerId}-${line.amountCents}`}
+                          onBlur={(event) => editLine(line.providerId, { amountCents: toCents(amountInput(event.target.value)) })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-end tabular-nums">{money(line.feeCents, line.currency)}</TableCell>
+                      <TableCell className="text-end tabular-nums font-medium">{money(line.netCents, line.currency)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-xs">{line.referenceId}</span>
+                          {outcome?.ok && <Badge className="bg-emerald-100 text-emerald-700">{t("finance.batch.created", "Created")}</Badge>}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+          <div className="text-muted-foreground">
+            {/* One line per currency; a batch that pays in several never adds them together */}
+            {(totals.length ? totals : [{ currency: "EGP", count: 0, amountCents: 0, feeCents: 0, netCents: 0 }]).map((sum) => (
+              <p key={sum.currency}>
+                {t("finance.batch.totals", {
+                  defaultValue: "{{count}} payouts · {{amount}} debited · {{fee}} fees · {{net}} to transfer",
+                  count: sum.count,
+                  amount: money(sum.amountCents, sum.currency),
+                  fee: money(sum.feeCents, sum.currency),
+                  net: money(sum.netCents, sum.currency),
+                })}
+              </p>
+            ))}
+          </div>
+          {running && (
+            <div className="flex w-full items-center gap-3 sm:w-60">
+              <Progress value={(running.done / running.total) * 100} />
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {running.done}/{running.total}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {created.length > 0 && (
+            <Button variant="outline" className="gap-1" onClick={() => downloadBankFile(created)}>
+              <Download className="w-4 h-4" />
+              {t("finance.batch.bankFile", "Bank file")}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={Boolean(running)}>
+            {t("app.actions.close", "Close")}
+          </Button>
+          <Button onClick={run} disabled={Boolean(running) || !pending.length}>
+            {running
+              ? t("common.saving", "Saving...")
+              : failedCount
+                ? t("orders.bulk.retry_failed", "Retry failed")
+                : t("finance.batch.create", { defaultValue: "Create {{count}} payouts", count: pending.length })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
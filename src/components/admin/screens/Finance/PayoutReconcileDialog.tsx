@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Badge } from "../../../ui/badge";
+import { Button } from "../../../ui/button";
+import { Progress } from "../../../ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../ui/table";
+import { listPayouts, updatePayout } from "../../../../services/admin-finance.service";
+import { fetchAllPages } from "../../../../lib/table-export";
+import { readSpreadsheet } from "../../../../lib/spreadsheet-read";
+import { settleWithConcurrency } from "../../../../lib/concurrency";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import { fmtCurrency } from "../../../../lib/money";
+import {
+  BankFileError,
+  parseBankConfirmation,
+  reconcileConfirmations,
+  type ReconcileRow,
+} from "../../../../lib/payout-batch";
+
+const RECONCILE_CONCURRENCY = 3;
+// Confirmations are matched against the most recent payouts, up to this many
+const RECONCILE_PAYOUTS_MAX = 5000;
+
+type ApplyOutcome = { ok: true } | { ok: false; message: string };
+
+type PayoutReconcileDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCompleted: () => void;
+};
+
+const statusStyles = {
+  PAID: "bg-emerald-100 text-emerald-700",
+  FAILED: "bg-rose-100 text-rose-700",
+} as const;
+
+/** Imports the bank's confirmation CSV/XLSX and marks each matched payout paid or failed. */
+export function PayoutReconcileDialog({ open, onOpenChange, onCompleted }: PayoutReconcileDialogProps) {
+  const { t, i18n } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [rows, setRows] = useState<ReconcileRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const [outcomes, setOutcomes] = useState<Map<ReconcileRow, ApplyOutcome>>(new Map());
+  const [running, setRunning] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    if (open) return;
+    setFile(null);
+    setRows([]);
+    setError(null);
+    setOutcomes(new Map());
+  }, [open]);
+
+  const handleFile = async (next: File | null) => {
+    setFile(next);
+    setRows([]);
+    setError(null);
+    setOutcomes(new Map());
+    if (!next) return;
+    setReading(true);
+    try {
+      const confirmations = parseBankConfirmation(await readSpreadsheet(next));
+      const payouts = await fetchAllPages((page, pageSize) => listPayouts({ page, pageSize }), {
+        maxRows: RECONCILE_PAYOUTS_MAX,
+      });
+      setRows(reconcileConfirmations(confirmations, payouts));
+    } catch (err) {
+      setError(
+        err instanceof BankFileError
+          ? t(`finance.reconcile.errors.${err.code}`)
+          : getAdminErrorMessage(err, t, t("finance.reconcile.parseError", "Unable to read this file. Use CSV or XLSX."))
+      );
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const pending = rows.filter((row) => row.status && !outcomes.get(row)?.ok);
+  const issues = rows.filter((row) => row.issue).length;
+  const failedCount = [...outcomes.values()].filter((outcome) => !outcome.ok).length;
+
+  const apply = async () => {
+    if (!pending.length) return;
+    setRunning({ done: 0, total: pending.length });
+    const results = await settleWithConcurrency(
+      pending,
+      (row) =>
+        updatePayout(row.payout!.id, {
+          status: row.status!,
+          referenceId: row.payout!.referenceId,
+          failureReason: row.status === "FAILED" ? row.confirmation.reason || row.confirmation.rawStatus : undefined,
+        }),
+      {
+        limit: RECONCILE_CONCURRENCY,
+        onSettled: (_result, done) => setRunning((prev) => (prev ? { ...prev, done } : prev)),
+      }
+    );
+    setRunning(null);
+    setOutcomes((prev) => {
+      const next = new Map(prev);
+      results.forEach((result) =>
+        next.set(result.item, result.ok ? { ok: true } : { ok: false, message: getAdminErrorMessage(result.error, t) })
+      );
+      return next;
+    });
+    onCompleted();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !running && onOpenChange(next)}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{t("finance.reconcile.title", "Import bank confirmation")}</DialogTitle>
+          <DialogDescription>
+            {t(
+              "finance.reconcile.description",
+              "Rows are matched to payouts by reference; matched payouts are marked paid or failed."
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          className="border-2 border-dashed rounded-lg p-6 text-center"
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={(event) => {
+            event.preventDefault();
+            const next = event.dataTransfer.files?.[0];
+            if (next && !running) handleFile(next);
+          }}
+        >
+          {reading ? (
+            <p className="text-sm text-muted-foreground">{t("products.bulkImport.reading", "Reading file...")}</p>
+          ) : file ? (
+            <p className="font-medium">{file.name}</p>
+          ) : (
+            <p className="text-muted-foreground text-sm">{t("finance.reconcile.dropzone", "Drop the bank's CSV or XLSX here")}</p>
+          )}
+          <Button type="button" variant="ghost" className="mt-2" disabled={Boolean(running)} onClick={() => inputRef.current?.click()}>
+            {t("products.bulkImport.chooseFile", "Choose file")}
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".xlsx,.csv"
+            className="hidden"
+            onChange={(event) => {
+              handleFile(event.target.files?.[0] || null);
+              event.target.value = "";
+            }}
+          />
+        </div>
+
+        {error && <div className="text-sm text-rose-600 bg-rose-50 rounded-md p-3">{error}</div>}
+
+        {rows.length > 0 && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {t("finance.reconcile.summary", {
+                defaultValue: "{{count}} rows · {{ready}} ready to apply · {{issues}} need a look",
+                count: rows.length,
+                ready: rows.filter((row) => row.status).length,
+                issues,
+              })}
+            </p>
+            <div className="max-h-[50vh] overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">#</TableHead>
+                    <TableHead>{t("finance.reference", "Reference")}</TableHead>
+                    <TableHead>{t("finance.vendor", "Vendor")}</TableHead>
+                    <TableHead className="text-end">{t("finance.batch.net", "Transfer")}</TableHead>
+                    <TableHead>{t("finance.reconcile.bankStatus", "Bank status")}</TableHead>
+                    <TableHead>{t("finance.reconcile.result", "Result")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => {
+                    const outcome = outcomes.get(row);
+                    const { confirmation, payout } = row;
+                    return (
+                      <TableRow key={confirmation.rowNumber}>
+                        <TableCell className="text-muted-foreground">{confirmation.rowNumber}</TableCell>
+                        <TableCell className="font-mono text-xs">{confirmation.referenceId}</TableCell>
+                        <TableCell>{payout ? payout.provider?.name || payout.providerId : "--"}</TableCell>
+                        <TableCell className="text-end tabular-nums">
+                          {payout
+                            ? fmtCurrency(payout.amountCents - (payout.feeCents ?? 0), payout.currency || "EGP", i18n.language)
+                            : "--"}
+                        </TableCell>
+                        <TableCell>
+                          <p>{confirmation.rawStatus || "--"}</p>
+                          {confirmation.reason && <p className="text-xs text-muted-foreground">{confirmation.reason}</p>}
+                        </TableCell>
+                        <TableCell>
+                          {row.status ? (
+                            <div className="space-y-1">
+                              <Badge className={statusStyles[row.status]}>
+                                {outcome?.ok
+                                  ? t(`finance.reconcile.applied.${row.status}`)
+                                  : t(`finance.reconcile.willMark.${row.status}`)}
+                              </Badge>
+                              {outcome && !outcome.ok && <p className="text-xs text-rose-600">{outcome.message}</p>}
+                            </div>
+                          ) : (
+                            <Badge variant="outline" className="text-amber-700">
+                              {t(`finance.reconcile.issues.${row.issue}`, { status: payout?.status })}
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+
+        {running && (
+          <div className="flex items-center gap-3">
+            <Progress value={(running.done / running.total) * 100} />
+            <span className="shrink-0 text-xs text-muted-foreground">
+              {running.done}/{running.total}
+            </span>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={Boolean(running)}>
+            {t("app.actions.close", "Close")}
+          </Button>
+          <Button onClick={apply} disabled={Boolean(running) || !pending.length}>
+            {running
+              ? t("common.saving", "Saving...")
+              : failedCount
+                ? t("orders.bulk.retry_failed", "Retry failed")
+                : t("finance.reconcile.apply", { defaultValue: "Apply {{count}} updates", count: pending.length })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
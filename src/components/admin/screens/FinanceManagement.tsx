@@ -14,10 +14,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { AdminTableSkeleton } from "../common/AdminTableSkeleton";
 import { EmptyState } from "../common/EmptyState";
 import { ErrorState } from "../common/ErrorState";
+import { SavedViewsMenu } from "../common/SavedViewsMenu";
+import { TableExportButton } from "../common/TableExportButton";
+import { PAYOUT_EXPORT_COLUMNS } from "../../../lib/export-columns";
 import { toast } from "sonner";
 import { fmtCurrency, toCents } from "../../../lib/money";
 import { getAdminErrorMessage } from "../../../lib/errors";
+import { PayoutBatchDialog } from "./Finance/PayoutBatchDialog";
+import { PayoutReconcileDialog } from "./Finance/PayoutReconcileDialog";
+import { LedgerReconciliationPanel } from "./Finance/LedgerReconciliationPanel";
 import { useProviders } from "../../../hooks/api/useProviders";
+import { useListState } from "../../../hooks/useListState";
+import { listParam } from "../../../lib/list-state";
 import {
   createPayout,
   downloadStatementCsv,
@@ -37,6 +45,21 @@ const LEDGER_KEY = ["finance-ledger"];
 const PAYOUTS_KEY = ["finance-payouts"];
 const UNSETTLED_KEY = ["finance-unsettled"];
 
+const FINANCE_LIST_SCHEMA = {
+  tab: listParam.oneOf(["balances", "ledger", "payouts", "unsettled", "reconciliation"] as const, "balances"),
+  providerId: listParam.string("all"),
+  from: listParam.string(),
+  to: listParam.string(),
+  ledgerType: listParam.string("all"),
+  payoutStatus: listParam.string("all"),
+  balancesPage: listParam.number(1, { min: 1 }),
+  ledgerPage: listParam.number(1, { min: 1 }),
+  payoutsPage: listParam.number(1, { min: 1 }),
+  unsettledPage: listParam.number(1, { min: 1 }),
+};
+
+type FinanceTab = (typeof FINANCE_LIST_SCHEMA)["tab"]["defaultValue"];
+
 function formatDate(value?: string | null) {
   if (!value) return "--";
   const parsed = new Date(value);
@@ -64,16 +87,10 @@ function StatCard({ label, value }: { label: string; value: string }) {
 export function FinanceManagement() {
   const { t, i18n } = useTranslation();
   const queryClient = useQueryClient();
-  const [tab, setTab] = useState("balances");
-  const [providerId, setProviderId] = useState("all");
-  const [from, setFrom] = useState("");
-  const [to, setTo] = useState("");
-  const [ledgerType, setLedgerType] = useState("all");
-  const [payoutStatus, setPayoutStatus] = useState("all");
-  const [balancesPage, setBalancesPage] = useState(1);
-  const [ledgerPage, setLedgerPage] = useState(1);
-  const [payoutsPage, setPayoutsPage] = useState(1);
-  const [unsettledPage, setUnsettledPage] = useState(1);
+  const { state: listState, setState: setListState, applyQuery, query: listQuery } = useListState(FINANCE_LIST_SCHEMA, {
+    screen: "finance",
+  });
+  const { tab, providerId, from, to, ledgerType, payoutStatus, balancesPage, ledgerPage, payoutsPage, unsettledPage } = listState;
   const pageSize = 10;
 
   const [createOpen, setCreateOpen] = useState(false);
@@ -84,6 +101,9 @@ export function FinanceManagement() {
     referenceId: "",
   });
 
+  const [batchOpen, setBatchOpen] = useState(false);
+  const [reconcileOpen, setReconcileOpen] = useState(false);
+
   const [updateOpen, setUpdateOpen] = useState(false);
   const [selectedPayout, setSelectedPayout] = useState<PayoutItem | null>(null);
   const [updateForm, setUpdateForm] = useState({
@@ -199,6 +219,13 @@ export function FinanceManagement() {
     onError: (error) => toast.error(getAdminErrorMessage(error, t)),
   });
 
+  const refreshPayouts = () => {
+    queryClient.invalidateQueries({ queryKey: SUMMARY_KEY });
+    queryClient.invalidateQueries({ queryKey: BALANCES_KEY });
+    queryClient.invalidateQueries({ queryKey: PAYOUTS_KEY });
+    queryClient.invalidateQueries({ queryKey: LEDGER_KEY });
+  };
+
   const openCreateDialog = () => {
     setCreateForm((prev) => ({
       ...prev,
@@ -314,7 +341,7 @@ export function FinanceManagement() {
         <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-3">
           <div className="space-y-2">
             <Label>{t("finance.vendor", "Vendor")}</Label>
-            <Select value={providerId} onValueChange={(value) => { setProviderId(value); setBalancesPage(1); setLedgerPage(1); setPayoutsPage(1); }}>
+            <Select value={providerId} onValueChange={(value) => setListState({ providerId: value, balancesPage: 1, ledgerPage: 1, payoutsPage: 1 })}>
               <SelectTrigger>
                 <SelectValue placeholder={t("finance.vendor", "Vendor")} />
               </SelectTrigger>
@@ -330,26 +357,28 @@ export function FinanceManagement() {
           </div>
           <div className="space-y-2">
             <Label>{t("finance.from", "From")}</Label>
-            <Input type="date" value={from} onChange={(event) => { setFrom(event.target.value); setLedgerPage(1); setPayoutsPage(1); setUnsettledPage(1); }} />
+            <Input type="date" value={from} onChange={(event) => setListState({ from: event.target.value, ledgerPage: 1, payoutsPage: 1, unsettledPage: 1 })} />
           </div>
           <div className="space-y-2">
             <Label>{t("finance.to", "To")}</Label>
-            <Input type="date" value={to} onChange={(event) => { setTo(event.target.value); setLedgerPage(1); setPayoutsPage(1); setUnsettledPage(1); }} />
+            <Input type="date" value={to} onChange={(event) => setListState({ to: event.target.value, ledgerPage: 1, payoutsPage: 1, unsettledPage: 1 })} />
           </div>
           <div className="flex items-end gap-2">
-            <Button variant="outline" onClick={() => { setFrom(""); setTo(""); }}>
+            <Button variant="outline" onClick={() => setListState({ from: "", to: "" })}>
               {t("finance.clear_dates", "Clear dates")}
             </Button>
+            <SavedViewsMenu screen="finance" query={listQuery} onApply={applyQuery} />
           </div>
         </CardContent>
       </Card>
 
-      <Tabs value={tab} onValueChange={setTab}>
+      <Tabs value={tab} onValueChange={(value) => setListState({ tab: value as FinanceTab })}>
         <TabsList>
           <TabsTrigger value="balances">{t("finance.balances", "Balances")}</TabsTrigger>
           <TabsTrigger value="ledger">{t("finance.ledger", "Ledger")}</TabsTrigger>
           <TabsTrigger value="payouts">{t("finance.payouts", "Payouts")}</TabsTrigger>
           <TabsTrigger value="unsettled">{t("finance.unsettled", "Unsettled orders")}</TabsTrigger>
+          <TabsTrigger value="reconciliation">{t("finance.reconciliation.title", "Reconciliation")}</TabsTrigger>
         </TabsList>
 
         <TabsContent value="balances">
@@ -407,10 +436,10 @@ export function FinanceManagement() {
                       {t("common.pagination.label", { defaultValue: "Page {{page}} of {{count}}", page: balancesPage, count: balancesTotalPages })}
                     </div>
                     <div className="flex gap-2">
-                      <Button size="sm" variant="outline" disabled={balancesPage <= 1} onClick={() => setBalancesPage((p) => Math.max(1, p - 1))}>
+                      <Button size="sm" variant="outline" disabled={balancesPage <= 1} onClick={() => setListState((prev) => ({ balancesPage: Math.max(1, prev.balancesPage - 1) }))}>
                         {t("common.prev", "Prev")}
                       </Button>
-                      <Button size="sm" variant="outline" disabled={balancesPage >= balancesTotalPages} onClick={() => setBalancesPage((p) => Math.min(balancesTotalPages, p + 1))}>
+                      <Button size="sm" variant="outline" disabled={balancesPage >= balancesTotalPages} onClick={() => setListState((prev) => ({ balancesPage: Math.min(balancesTotalPages, prev.balancesPage + 1) }))}>
                         {t("common.next", "Next")}
                       </Button>
                     </div>
@@ -426,7 +455,7 @@ export function FinanceManagement() {
             <CardHeader className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
               <CardTitle className="text-base">{t("finance.ledger", "Ledger")}</CardTitle>
               <div className="flex flex-wrap gap-2">
-                <Select value={ledgerType} onValueChange={(value) => { setLedgerType(value); setLedgerPage(1); }}>
+                <Select value={ledgerType} onValueChange={(value) => setListState({ ledgerType: value, ledgerPage: 1 })}>
                   <SelectTrigger className="w-48">
                     <SelectValue placeholder={t("finance.ledger_type", "Entry type")} />
                   </SelectTrigger>
@@ -437,6 +466,9 @@ export function FinanceManagement() {
                     <SelectItem value="PAYOUT">PAYOUT</SelectItem>
                     <SelectItem value="PAYOUT_FEE">PAYOUT_FEE</SelectItem>
                     <SelectItem value="PAYOUT_REVERSAL">PAYOUT_REVERSAL</SelectItem>
+                    <SelectItem value="INVOICE_ADJUSTMENT">INVOICE_ADJUSTMENT</SelectItem>
+                    <SelectItem value="CREDIT_NOTE">CREDIT_NOTE</SelectItem>
+                    <SelectItem value="INVOICE_VOID">INVOICE_VOID</SelectItem>
                   </SelectContent>
                 </Select>
                 <Button variant="outline" onClick={handleStatementExport} disabled={providerId === "all"}>
@@ -495,10 +527,10 @@ export function FinanceManagement() {
                       {t("common.pagination.label", { defaultValue: "Page {{page}} of {{count}}", page: ledgerPage, count: ledgerTotalPages })}
                     </div>
                     <div className="flex gap-2">
-                      <Button size="sm" variant="outline" disabled={ledgerPage <= 1} onClick={() => setLedgerPage((p) => Math.max(1, p - 1))}>
+                      <Button size="sm" variant="outline" disabled={ledgerPage <= 1} onClick={() => setListState((prev) => ({ ledgerPage: Math.max(1, prev.ledgerPage - 1) }))}>
                         {t("common.prev", "Prev")}
                       </Button>
-                      <Button size="sm" variant="outline" disabled={ledgerPage >= ledgerTotalPages} onClick={() => setLedgerPage((p) => Math.min(ledgerTotalPages, p + 1))}>
+                      <Button size="sm" variant="outline" disabled={ledgerPage >= ledgerTotalPages} onClick={() => setListState((prev) => ({ ledgerPage: Math.min(ledgerTotalPages, prev.ledgerPage + 1) }))}>
                         {t("common.next", "Next")}
                       </Button>
                     </div>
@@ -514,7 +546,7 @@ export function FinanceManagement() {
             <CardHeader className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
               <CardTitle className="text-base">{t("finance.payouts", "Payouts")}</CardTitle>
               <div className="flex flex-wrap gap-2">
-                <Select value={payoutStatus} onValueChange={(value) => { setPayoutStatus(value); setPayoutsPage(1); }}>
+                <Select value={payoutStatus} onValueChange={(value) => setListState({ payoutStatus: value, payoutsPage: 1 })}>
                   <SelectTrigger className="w-40">
                     <SelectValue placeholder={t("finance.status", "Status")} />
                   </SelectTrigger>
@@ -526,9 +558,21 @@ export function FinanceManagement() {
                     <SelectItem value="FAILED">FAILED</SelectItem>
                   </SelectContent>
                 </Select>
+                <TableExportButton
+                  filename="payouts"
+                  title={t("finance.payouts", "Payouts")}
+                  columns={PAYOUT_EXPORT_COLUMNS}
+                  fetchPage={(page, exportPageSize) => listPayouts({ ...payoutParams, page, pageSize: exportPageSize })}
+                />
                 <Button variant="outline" onClick={() => runScheduledMutation.mutate()} disabled={runScheduledMutation.isPending}>
                   {runScheduledMutation.isPending ? t("common.saving", "Saving...") : t("finance.run_scheduled", "Run scheduled")}
                 </Button>
+                <Button variant="outline" onClick={() => setReconcileOpen(true)}>
+                  {t("finance.reconcile.open", "Import confirmation")}
+                </Button>
+                <Button variant="outline" onClick={() => setBatchOpen(true)}>
+                  {t("finance.batch.open", "Build batch")}
+                </Button>
                 <Button onClick={openCreateDialog}>{t("finance.create_payout", "Create payout")}</Button>
               </div>
             </CardHeader>
@@ -587,10 +631,10 @@ export function FinanceManagement() {
                       {t("common.pagination.label", { defaultValue: "Page {{page}} of {{count}}", page: payoutsPage, count: payoutsTotalPages })}
                     </div>
                     <div className="flex gap-2">
-                      <Button size="sm" variant="outline" disabled={payoutsPage <= 1} onClick={() => setPayoutsPage((p) => Math.max(1, p - 1))}>
+                      <Button size="sm" variant="outline" disabled={payoutsPage <= 1} onClick={() => setListState((prev) => ({ payoutsPage: Math.max(1, prev.payoutsPage - 1) }))}>
                         {t("common.prev", "Prev")}
                       </Button>
-                      <Button size="sm" variant="outline" disabled={payoutsPage >= payoutsTotalPages} onClick={() => setPayoutsPage((p) => Math.min(payoutsTotalPages, p + 1))}>
+                      <Button size="sm" variant="outline" disabled={payoutsPage >= payoutsTotalPages} onClick={() => setListState((prev) => ({ payoutsPage: Math.min(payoutsTotalPages, prev.payoutsPage + 1) }))}>
                         {t("common.next", "Next")}
                       </Button>
                     </div>
@@ -651,10 +695,10 @@ export function FinanceManagement() {
                       {t("common.pagination.label", { defaultValue: "Page {{page}} of {{count}}", page: unsettledPage, count: unsettledTotalPages })}
                     </div>
                     <div className="flex gap-2">
-                      <Button size="sm" variant="outline" disabled={unsettledPage <= 1} onClick={() => setUnsettledPage((p) => Math.max(1, p - 1))}>
+                      <Button size="sm" variant="outline" disabled={unsettledPage <= 1} onClick={() => setListState((prev) => ({ unsettledPage: Math.max(1, prev.unsettledPage - 1) }))}>
                         {t("common.prev", "Prev")}
                       </Button>
-                      <Button size="sm" variant="outline" disabled={unsettledPage >= unsettledTotalPages} onClick={() => setUnsettledPage((p) => Math.min(unsettledTotalPages, p + 1))}>
+                      <Button size="sm" variant="outline" disabled={unsettledPage >= unsettledTotalPages} onClick={() => setListState((prev) => ({ unsettledPage: Math.min(unsettledTotalPages, prev.unsettledPage + 1) }))}>
                         {t("common.next", "Next")}
                       </Button>
                     </div>
@@ -664,6 +708,12 @@ export function FinanceManagement() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="reconciliation">
+          {tab === "reconciliation" && (
+            <LedgerReconciliationPanel providerId={providerId !== "all" ? providerId : undefined} from={from} to={to} />
+          )}
+        </TabsContent>
       </Tabs>
       <Dialog open={createOpen} onOpenChange={setCreateOpen}>
         <DialogContent>
@@ -722,6 +772,9 @@ export function FinanceManagement() {
         </DialogContent>
       </Dialog>
 
+      <PayoutBatchDialog open={batchOpen} onOpenChange={setBatchOpen} onCompleted={refreshPayouts} />
+      <PayoutReconcileDialog open={reconcileOpen} onOpenChange={setReconcileOpen} onCompleted={refreshPayouts} />
+
       <Dialog open={updateOpen} onOpenChange={setUpdateOpen}>
         <DialogContent>
           <DialogHeader>
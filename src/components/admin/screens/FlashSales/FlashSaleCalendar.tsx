@@ -0,0 +1,85 @@
+import React, { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { flashSaleCalendar, flashSalePhase, type FlashSalePhase } from "../../../../lib/flash-sales";
+import type { FlashSale } from "../../../../types/flash-sale";
+
+type FlashSaleCalendarProps = {
+  month: string;
+  sales: FlashSale[];
+  now: Date;
+  onSelectSale: (sale: FlashSale) => void;
+  onSelectDay: (date: string) => void;
+};
+
+export const phaseStyles: Record<FlashSalePhase, string> = {
+  scheduled: "bg-blue-100 text-blue-800",
+  active: "bg-emerald-100 text-emerald-800",
+  ended: "bg-muted text-muted-foreground",
+  canceled: "bg-muted text-muted-foreground line-through",
+};
+
+const MAX_CHIPS = 3;
+// Weeks start on Saturday, as in the Egyptian work week
+const WEEK_START = 6;
+
+export function FlashSaleCalendar({ month, sales, now, onSelectSale, onSelectDay }: FlashSaleCalendarProps) {
+  const { t, i18n } = useTranslation();
+  const isArabic = i18n.language?.startsWith("ar");
+  const weeks = useMemo(() => flashSaleCalendar(month, sales, WEEK_START), [month, sales]);
+  const today = dayjs(now).format("YYYY-MM-DD");
+  const weekdays = weeks[0].map((day) => new Intl.DateTimeFormat(i18n.language, { weekday: "short" }).format(dayjs(day.date).toDate()));
+
+  return (
+    <div className="border rounded-lg overflow-hidden text-xs">
+      <div className="grid grid-cols-7 bg-muted/60 font-medium text-muted-foreground">
+        {weekdays.map((label, index) => (
+          <div key={index} className="px-2 py-1.5">
+            {label}
+          </div>
+        ))}
+      </div>
+      {weeks.map((week) => (
+        <div key={week[0].date} className="grid grid-cols-7 border-t">
+          {week.map((day) => (
+            <div
+              key={day.date}
+              role="button"
+              tabIndex={0}
+              className={`min-h-[92px] border-s first:border-s-0 p-1.5 space-y-1 cursor-pointer hover:bg-muted/30 ${
+                day.inMonth ? "" : "bg-muted/20 text-muted-foreground"
+              }`}
+              onClick={() => onSelectDay(day.date)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") onSelectDay(day.date);
+              }}
+            >
+              <div className={`w-6 h-6 flex items-center justify-center rounded-full ${day.date === today ? "bg-primary text-primary-foreground" : ""}`}>
+                {dayjs(day.date).date()}
+              </div>
+              {day.sales.slice(0, MAX_CHIPS).map((sale) => (
+                <button
+                  key={sale.id}
+                  type="button"
+                  className={`block w-full truncate rounded px-1.5 py-0.5 text-start ${phaseStyles[flashSalePhase(sale, now)]}`}
+                  title={`${sale.name} ${dayjs(sale.startsAt).format("DD/MM HH:mm")} - ${dayjs(sale.endsAt).format("DD/MM HH:mm")}`}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onSelectSale(sale);
+                  }}
+                >
+                  {isArabic && sale.nameAr ? sale.nameAr : sale.name}
+                </button>
+              ))}
+              {day.sales.length > MAX_CHIPS && (
+                <p className="px-1 text-muted-foreground">
+                  {t("flashSales.more", { defaultValue: "+{{count}} more", count: day.sales.length - MAX_CHIPS })}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { AlertTriangle, Plus, X } from "lucide-react";
+import { Button } from "../../../ui/button";
+import { Input } from "../../../ui/input";
+import { Label } from "../../../ui/label";
+import { Switch } from "../../../ui/switch";
+import { Badge } from "../../../ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../ui/table";
+import { createFlashSale, updateFlashSale } from "../../../../services/flash-sales.service";
+import { useProductsAdmin, PRODUCTS_QUERY_KEY } from "../../../../hooks/api/useProductsAdmin";
+import { useFlashSales, FLASH_SALES_QUERY_KEY } from "../../../../hooks/api/useFlashSales";
+import { useDebounce } from "../../../../hooks/useDebounce";
+import { findFlashSaleConflicts, flashSalePrice, validateFlashSale } from "../../../../lib/flash-sales";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import { fmtEGP, fromCents, toCents } from "../../../../lib/money";
+import type { FlashSale, FlashSaleDiscountType, FlashSaleInput } from "../../../../types/flash-sale";
+
+type PickedProduct = { id: string; name: string; nameAr?: string | null; priceCents: number };
+
+type FlashSaleFormProps = {
+  open: boolean;
+  sale?: FlashSale | null;
+  /** Prefills the window when creating from a calendar day */
+  defaultDate?: string | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+const LOCAL_FORMAT = "YYYY-MM-DDTHH:mm";
+
+export function FlashSaleForm({ open, sale, defaultDate, onOpenChange }: FlashSaleFormProps) {
+  const { t, i18n } = useTranslation();
+  const isArabic = i18n.language?.startsWith("ar");
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [nameAr, setNameAr] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [discountType, setDiscountType] = useState<FlashSaleDiscountType>("PERCENT");
+  const [percent, setPercent] = useState("");
+  const [fixedPrice, setFixedPrice] = useState("");
+  const [markHotOffer, setMarkHotOffer] = useState(true);
+  const [products, setProducts] = useState<PickedProduct[]>([]);
+  const [search, setSearch] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+  const debouncedSearch = useDebounce(search, 300);
+
+  useEffect(() => {
+    if (!open) return;
+    const start = sale
+      ? dayjs(sale.startsAt)
+      : (defaultDate ? dayjs(defaultDate).hour(10) : dayjs().add(1, "hour")).startOf("hour");
+    setName(sale?.name ?? "");
+    setNameAr(sale?.nameAr ?? "");
+    setStartsAt(start.format(LOCAL_FORMAT));
+    setEndsAt((sale ? dayjs(sale.endsAt) : start.add(6, "hour")).format(LOCAL_FORMAT));
+    setDiscountType(sale?.discountType ?? "PERCENT");
+    setPercent(sale?.percent != null ? String(sale.percent) : "");
+    setFixedPrice(sale?.fixedPriceCents != null ? String(fromCents(sale.fixedPriceCents)) : "");
+    setMarkHotOffer(sale?.markHotOffer ?? true);
+    setProducts(
+      (sale?.items ?? []).map((item) => ({
+        id: item.productId,
+        name: item.name ?? item.productId,
+        nameAr: item.nameAr,
+        priceCents: item.priceCents,
+      }))
+    );
+    setSearch("");
+    setSubmitted(false);
+  }, [open, sale, defaultDate]);
+
+  const input: FlashSaleInput = {
+    name,
+    nameAr,
+    startsAt: startsAt ? dayjs(startsAt).toISOString() : "",
+    endsAt: endsAt ? dayjs(endsAt).toISOString() : "",
+    discountType,
+    percent: discountType === "PERCENT" && percent.trim() ? Number(percent) : null,
+    fixedPriceCents: discountType === "FIXED_PRICE" && fixedPrice.trim() ? toCents(fixedPrice) : null,
+    markHotOffer,
+    productIds: products.map((product) => product.id),
+  };
+  const { issues, notDiscounted } = validateFlashSale(input, products);
+  const windowValid = !issues.includes("invalid_window");
+
+  const searchQuery = useProductsAdmin(
+    { q: debouncedSearch.trim(), page: 1, pageSize: 10 },
+    { enabled: open && debouncedSearch.trim().length > 0 }
+  );
+  const overlapping = useFlashSales(
+    { from: input.startsAt, to: input.endsAt },
+    { enabled: open && windowValid && products.length > 0 }
+  );
+  const conflicts = useMemo(
+    () =>
+      windowValid
+        ? findFlashSaleConflicts({ id: sale?.id, startsAt: input.startsAt, endsAt: input.endsAt, productIds: input.productIds }, overlapping.data ?? [])
+        : [],
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [windowValid, sale?.id, input.startsAt, input.endsAt, products, overlapping.data]
+  );
+  const conflictsByProduct = useMemo(() => {
+    const map = new Map<string, FlashSale[]>();
+    conflicts.forEach(({ productId, sale: other }) => map.set(productId, [...(map.get(productId) ?? []), other]));
+    return map;
+  }, [conflicts]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => (sale ? updateFlashSale(sale.id, input) : createFlashSale(input)),
+    onSuccess: () => {
+      toast.success(sale ? t("flashSales.updated", "Flash sale updated") : t("flashSales.created", "Flash sale scheduled"));
+      queryClient.invalidateQueries({ queryKey: FLASH_SALES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(getAdminErrorMessage(error, t, t("flashSales.saveFailed", "Unable to save flash sale"))),
+  });
+
+  const handleSubmit = () => {
+    setSubmitted(true);
+    if (issues.length || conflicts.length) return;
+    saveMutation.mutate();
+  };
+
+  const productName = (product: { name: string; nameAr?: string | null }) =>
+    isArabic && product.nameAr ? product.nameAr : product.name;
+  const readOnly = Boolean(sale && sale.status !== "SCHEDULED");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl w-[95vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{sale ? t("flashSales.edit", "Edit flash sale") : t("flashSales.new", "New flash sale")}</DialogTitle>
+          <DialogDescription>
+            {readOnly
+              ? t("flashSales.readOnly", "Only scheduled sales can be changed. Cancel a running sale to stop it.")
+              : t("flashSales.formHint", "Prices switch at the start time and go back to their previous values when the sale ends.")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <fieldset disabled={readOnly || saveMutation.isPending} className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label>{t("flashSales.name", "Name")}</Label>
+              <Input value={name} onChange={(event) => setName(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>{t("flashSales.nameAr", "Arabic name")}</Label>
+              <Input dir="rtl" value={nameAr} onChange={(event) => setNameAr(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>{t("flashSales.startsAt", "Starts")}</Label>
+              <Input type="datetime-local" value={startsAt} onChange={(event) => setStartsAt(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>{t("flashSales.endsAt", "Ends")}</Label>
+              <Input type="datetime-local" value={endsAt} onChange={(event) => setEndsAt(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>{t("flashSales.discountType", "Discount")}</Label>
+              <Select value={discountType} onValueChange={(value) => setDiscountType(value as FlashSaleDiscountType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="PERCENT">{t("flashSales.types.PERCENT", "Percent off")}</SelectItem>
+                  <SelectItem value="FIXED_PRICE">{t("flashSales.types.FIXED_PRICE", "Fixed sale price")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              {discountType === "PERCENT" ? (
+                <>
+                  <Label>{t("flashSales.percent", "Percent off")}</Label>
+                  <Input inputMode="numeric" value={percent} onChange={(event) => setPercent(event.target.value.replace(/[^\d]/g, ""))} />
+                </>
+              ) : (
+                <>
+                  <Label>{t("flashSales.fixedPrice", "Sale price")}</Label>
+                  <Input inputMode="decimal" value={fixedPrice} onChange={(event) => setFixedPrice(event.target.value.replace(/[^\d.]/g, ""))} />
+                </>
+              )}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={markHotOffer} onCheckedChange={setMarkHotOffer} />
+            {t("flashSales.markHotOffer", "Show the products in hot offers while the sale runs")}
+          </label>
+
+          <div className="space-y-2">
+            <Label>{t("flashSales.products", "Products")}</Label>
+            <Input
+              placeholder={t("flashSales.searchProducts", "Search products to add")}
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+            />
+            {debouncedSearch.trim() && (
+              <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+                {(searchQuery.data?.items ?? []).map((product) => {
+                  const added = products.some((item) => item.id === product.id);
+                  return (
+                    <div key={product.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                      <span className="truncate">{productName(product)}</span>
+                      <span className="ms-auto text-xs text-muted-foreground">{fmtEGP(product.priceCents)}</span>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        disabled={added}
+                        onClick={() =>
+                          setProducts((prev) => [
+                            ...prev,
+                            { id: product.id, name: product.name, nameAr: product.nameAr, priceCents: product.priceCents },
+                          ])
+                        }
+                      >
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                {searchQuery.data && !searchQuery.data.items.length && (
+                  <p className="px-3 py-2 text-sm text-muted-foreground">{t("products.noResults", "No products found")}</p>
+                )}
+              </div>
+            )}
+          </div>
+        </fieldset>
+
+        {products.length > 0 && (
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("products.product", "Product")}</TableHead>
+                  <TableHead>{t("products.price", "Price")}</TableHead>
+                  <TableHead>{t("flashSales.salePrice", "Flash price")}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {products.map((product) => {
+                  const price = flashSalePrice(product.priceCents, input);
+                  const clashes = conflictsByProduct.get(product.id) ?? [];
+                  return (
+                    <TableRow key={product.id} className={clashes.length ? "bg-rose-50/60" : ""}>
+                      <TableCell>
+                        <p className="text-sm font-medium">{productName(product)}</p>
+                        {clashes.map((other) => (
+                          <p key={other.id} className="flex items-center gap-1 text-xs text-rose-700">
+                            <AlertTriangle className="w-3 h-3" />
+                            {t("flashSales.conflict", {
+                              defaultValue: "Also in {{name}} ({{from}} - {{to}})",
+                              name: isArabic && other.nameAr ? other.nameAr : other.name,
+                              from: dayjs(other.startsAt).format("DD/MM HH:mm"),
+                              to: dayjs(other.endsAt).format("DD/MM HH:mm"),
+                            })}
+                          </p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-sm">{fmtEGP(product.priceCents)}</TableCell>
+                      <TableCell className="text-sm">
+                        {price != null ? (
+                          <span className="font-semibold text-emerald-700">{fmtEGP(price)}</span>
+                        ) : (
+                          <Badge className="bg-amber-100 text-amber-700">{t("flashSales.issues.not_a_discount", "Not lower than the price")}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-end">
+                        {!readOnly && (
+                          <Button
+                            type="button"
+                            size="icon"
+                            variant="ghost"
+                            aria-label={t("app.actions.remove", "Remove")}
+                            onClick={() => setProducts((prev) => prev.filter((item) => item.id !== product.id))}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {submitted && (issues.length > 0 || conflicts.length > 0) && (
+          <div className="rounded-md bg-rose-50 p-3 text-sm text-rose-700 space-y-1">
+            {issues.map((issue) => (
+              <p key={issue}>
+                {t(`flashSales.issues.${issue}`, { count: notDiscounted.length })}
+              </p>
+            ))}
+            {conflicts.length > 0 && (
+              <p>{t("flashSales.issues.conflicts", { defaultValue: "{{count}} products are already in an overlapping sale", count: conflictsByProduct.size })}</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            {t("app.actions.cancel")}
+          </Button>
+          {!readOnly && (
+            <Button type="button" disabled={saveMutation.isPending} onClick={handleSubmit}>
+              {saveMutation.isPending ? t("common.saving", "Saving...") : t("app.actions.save")}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,274 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { AlertTriangle, ChevronLeft, ChevronRight, Plus } from "lucide-react";
+import { Button } from "../../../ui/button";
+import { Badge } from "../../../ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "../../../ui/card";
+import { AdminTableSkeleton } from "../../common/AdminTableSkeleton";
+import { ErrorState } from "../../common/ErrorState";
+import { EmptyState } from "../../common/EmptyState";
+import { useFlashSales, FLASH_SALES_QUERY_KEY } from "../../../../hooks/api/useFlashSales";
+import { PRODUCTS_QUERY_KEY } from "../../../../hooks/api/useProductsAdmin";
+import { cancelFlashSale, getFlashSale, revertFlashSale } from "../../../../services/flash-sales.service";
+import { REVERT_GRACE_MS, flashSalePhase, salesNeedingRevert } from "../../../../lib/flash-sales";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import { fmtEGP } from "../../../../lib/money";
+import type { FlashSale } from "../../../../types/flash-sale";
+import { FlashSaleCalendar, phaseStyles } from "./FlashSaleCalendar";
+import { FlashSaleForm } from "./FlashSaleForm";
+
+const UPCOMING_DAYS = 60;
+// setTimeout overflows past ~24.8 days; re-check at least daily
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000;
+
+const time = (value: string) => new Date(value).getTime();
+
+/** Calendar of flash sales with the running and upcoming ones listed underneath. */
+export function FlashSalesPanel() {
+  const { t, i18n } = useTranslation();
+  const isArabic = i18n.language?.startsWith("ar");
+  const queryClient = useQueryClient();
+  const [month, setMonth] = useState(() => dayjs().startOf("month").format("YYYY-MM-DD"));
+  const [now, setNow] = useState(() => new Date());
+  const [formState, setFormState] = useState<{ sale?: FlashSale; date?: string } | null>(null);
+
+  const calendarRange = useMemo(
+    () => ({
+      from: dayjs(month).subtract(7, "day").toISOString(),
+      to: dayjs(month).add(1, "month").add(7, "day").toISOString(),
+    }),
+    [month]
+  );
+  // Starts a week back so ended sales the server has not reverted still show up
+  const upcomingRange = useMemo(
+    () => ({
+      from: dayjs().subtract(7, "day").startOf("hour").toISOString(),
+      to: dayjs().add(UPCOMING_DAYS, "day").startOf("hour").toISOString(),
+    }),
+    []
+  );
+  const calendarQuery = useFlashSales(calendarRange);
+  const upcomingQuery = useFlashSales(upcomingRange);
+  const upcomingSales = upcomingQuery.data ?? [];
+
+  const listed = useMemo(
+    () =>
+      upcomingSales
+        .filter((sale) => ["active", "scheduled"].includes(flashSalePhase(sale, now)))
+        .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime()),
+    [upcomingSales, now]
+  );
+
+  const overdue = useMemo(() => salesNeedingRevert(upcomingSales, now), [upcomingSales, now]);
+
+  // Tick (and refetch) when the next sale starts, ends or runs past its revert grace, so phases and the
+  // server's reverts show without a reload
+  useEffect(() => {
+    const boundaries = upcomingSales
+      .flatMap((sale) => [time(sale.startsAt), time(sale.endsAt), time(sale.endsAt) + REVERT_GRACE_MS])
+      .map((value) => value - now.getTime())
+      .filter((delay) => delay > 0);
+    if (!boundaries.length) return;
+    const timer = window.setTimeout(() => {
+      setNow(new Date());
+      queryClient.invalidateQueries({ queryKey: FLASH_SALES_QUERY_KEY });
+    }, Math.min(Math.min(...boundaries) + 1000, MAX_TIMER_MS));
+    return () => window.clearTimeout(timer);
+  }, [upcomingSales, now, queryClient]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: FLASH_SALES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ["hot-offers"] });
+  };
+
+  // Fallback for sales the server's scheduler missed: each one is read again and only reverted while the
+  // server still reports it applied, so a revert that landed in the meantime is not repeated
+  const revertMutation = useMutation({
+    mutationFn: (sales: FlashSale[]) =>
+      Promise.allSettled(
+        sales.map(async (sale) => {
+          const current = await getFlashSale(sale.id);
+          if (!salesNeedingRevert([current], new Date(), 0).length) return false;
+          await revertFlashSale(sale.id);
+          return true;
+        })
+      ),
+    onSuccess: (results) => {
+      const failed = results.filter((result) => result.status === "rejected").length;
+      const reverted = results.filter((result) => result.status === "fulfilled" && result.value).length;
+      if (failed) toast.error(t("flashSales.revertFailed", { defaultValue: "{{count}} ended sales could not be reverted", count: failed }));
+      if (reverted) toast.success(t("flashSales.reverted", { defaultValue: "Prices restored for {{count}} ended sales", count: reverted }));
+      invalidate();
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => cancelFlashSale(id),
+    onSuccess: () => {
+      toast.success(t("flashSales.canceled", "Flash sale canceled"));
+      invalidate();
+    },
+    onError: (error) => toast.error(getAdminErrorMessage(error, t, t("flashSales.cancelFailed", "Unable to cancel flash sale"))),
+  });
+
+  const handleCancel = (sale: FlashSale) => {
+    const running = flashSalePhase(sale, now) === "active";
+    const message = running
+      ? t("flashSales.cancelRunningConfirm", "Stop this sale now and restore the previous prices?")
+      : t("flashSales.cancelConfirm", "Cancel this scheduled sale?");
+    if (window.confirm(message)) cancelMutation.mutate(sale.id);
+  };
+
+  const discountLabel = (sale: FlashSale) =>
+    sale.discountType === "PERCENT"
+      ? t("flashSales.percentOff", { defaultValue: "{{value}}% off", value: sale.percent ?? 0 })
+      : t("flashSales.fixedAt", { defaultValue: "At {{price}}", price: fmtEGP(sale.fixedPriceCents ?? 0) });
+
+  return (
+    <div className="space-y-4">
+      {overdue.length > 0 && (
+        <Card className="border-amber-300 bg-amber-50">
+          <CardContent className="flex flex-wrap items-center gap-3 p-4">
+            <AlertTriangle className="w-5 h-5 text-amber-600" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-amber-800">
+                {t("flashSales.overdueTitle", {
+                  defaultValue: "The server has not restored prices for {{count}} ended sales",
+                  count: overdue.length,
+                })}
+              </p>
+              <p className="text-xs text-amber-700">
+                {t("flashSales.overdueHint", {
+                  defaultValue: "{{names}}. Restoring them here is a fallback; each sale is checked again before its prices change.",
+                  names: overdue.map((sale) => (isArabic && sale.nameAr ? sale.nameAr : sale.name)).join(", "),
+                })}
+              </p>
+            </div>
+            <Button size="sm" variant="outline" disabled={revertMutation.isPending} onClick={() => revertMutation.mutate(overdue)}>
+              {t("flashSales.revertNow", "Restore prices now")}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <CardTitle className="text-base">{t("flashSales.calendar", "Flash sale calendar")}</CardTitle>
+          <div className="flex items-center gap-2">
+            <Button
+              size="icon"
+              variant="outline"
+              aria-label={t("app.actions.prev")}
+              onClick={() => setMonth((value) => dayjs(value).subtract(1, "month").format("YYYY-MM-DD"))}
+            >
+              <ChevronLeft className="w-4 h-4 rtl:rotate-180" />
+            </Button>
+            <span className="min-w-[140px] text-center text-sm font-medium">
+              {new Intl.DateTimeFormat(i18n.language, { month: "long", year: "numeric" }).format(dayjs(month).toDate())}
+            </span>
+            <Button
+              size="icon"
+              variant="outline"
+              aria-label={t("app.actions.next")}
+              onClick={() => setMonth((value) => dayjs(value).add(1, "month").format("YYYY-MM-DD"))}
+            >
+              <ChevronRight className="w-4 h-4 rtl:rotate-180" />
+            </Button>
+            <Button className="gap-2" onClick={() => setFormState({})}>
+              <Plus className="w-4 h-4" />
+              {t("flashSales.new", "New flash sale")}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {calendarQuery.isLoading ? (
+            <AdminTableSkeleton rows={5} columns={7} />
+          ) : calendarQuery.isError ? (
+            <ErrorState
+              message={getAdminErrorMessage(calendarQuery.error, t, t("flashSales.loadFailed", "Unable to load flash sales"))}
+              onRetry={() => calendarQuery.refetch()}
+            />
+          ) : (
+            <FlashSaleCalendar
+              month={month}
+              sales={calendarQuery.data ?? []}
+              now={now}
+              onSelectSale={(sale) => setFormState({ sale })}
+              onSelectDay={(date) => setFormState({ date })}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{t("flashSales.upcoming", "Running and upcoming")}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {upcomingQuery.isLoading ? (
+            <div className="p-4">
+              <AdminTableSkeleton rows={3} columns={4} />
+            </div>
+          ) : upcomingQuery.isError ? (
+            <div className="p-4">
+              <ErrorState
+                message={getAdminErrorMessage(upcomingQuery.error, t, t("flashSales.loadFailed", "Unable to load flash sales"))}
+                onRetry={() => upcomingQuery.refetch()}
+              />
+            </div>
+          ) : !listed.length ? (
+            <div className="p-6">
+              <EmptyState
+                title={t("flashSales.emptyTitle", "No flash sales scheduled")}
+                description={t("flashSales.emptyDescription", "Pick a day in the calendar to plan one.")}
+              />
+            </div>
+          ) : (
+            <div className="divide-y">
+              {listed.map((sale) => {
+                const phase = flashSalePhase(sale, now);
+                return (
+                  <div key={sale.id} className="flex flex-wrap items-center gap-3 px-4 py-3 text-sm">
+                    <Badge className={phaseStyles[phase]}>{t(`flashSales.phases.${phase}`)}</Badge>
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{isArabic && sale.nameAr ? sale.nameAr : sale.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {dayjs(sale.startsAt).format("DD/MM HH:mm")} - {dayjs(sale.endsAt).format("DD/MM HH:mm")} · {discountLabel(sale)} ·{" "}
+                        {t("flashSales.productCount", { defaultValue: "{{count}} products", count: sale.items.length })}
+                      </p>
+                    </div>
+                    <div className="ms-auto flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setFormState({ sale })}>
+                        {phase === "scheduled" ? t("app.actions.edit") : t("flashSales.view", "View")}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-rose-600"
+                        disabled={cancelMutation.isPending}
+                        onClick={() => handleCancel(sale)}
+                      >
+                        {phase === "active" ? t("flashSales.stop", "Stop now") : t("flashSales.cancel", "Cancel sale")}
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <FlashSaleForm
+        open={Boolean(formState)}
+        sale={formState?.sale}
+        defaultDate={formState?.date}
+        onOpenChange={(open) => !open && setFormState(null)}
+      />
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ import { AdminTableSkeleton } from "../common/AdminTableSkeleton";
 import { ErrorState } from "../common/ErrorState";
 import { useCategoriesAdmin } from "../../../hooks/api/useCategoriesAdmin";
 import { useNavigate } from "react-router-dom";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../ui/tabs";
+import { FlashSalesPanel } from "./FlashSales/FlashSalesPanel";
 
 type HotOfferStatus = Product["status"];
 
@@ -140,164 +142,175 @@ export function HotOffersList() {
         </div>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>{t("common.filters", "Filters")}</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="flex flex-wrap gap-3">
-            <Input
-              className="w-64"
-              placeholder={t("filters.searchPlaceholder") || "Search"}
-              value={search}
-              onChange={(e) => {
-                setSearch(e.target.value);
-                setPage(1);
-              }}
-            />
-            <Select value={status} onValueChange={(value) => { setStatus(value as HotOfferStatus | "all"); setPage(1); }}>
-              <SelectTrigger className="w-44">
-                <SelectValue placeholder={t("products.statuses.ALL", "All statuses")} />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">{t("products.statuses.ALL", "All statuses")}</SelectItem>
-                <SelectItem value="ACTIVE">{t("products.statuses.ACTIVE", "Active")}</SelectItem>
-                <SelectItem value="DRAFT">{t("products.statuses.DRAFT", "Draft")}</SelectItem>
-                <SelectItem value="HIDDEN">{t("products.statuses.HIDDEN", "Hidden")}</SelectItem>
-                <SelectItem value="DISCONTINUED">{t("products.statuses.DISCONTINUED", "Discontinued")}</SelectItem>
-              </SelectContent>
-            </Select>
-            <Select value={categoryId} onValueChange={(value) => { setCategoryId(value as typeof categoryId); setPage(1); }}>
-              <SelectTrigger className="w-48">
-                <SelectValue placeholder={t("products.category", "Category")} />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">{t("products.category_all", "All categories")}</SelectItem>
-                {categoriesQuery.data?.items?.map((cat) => (
-                  <SelectItem key={cat.id} value={cat.id}>
-                    {cat.name}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-            <Select value={String(pageSize)} onValueChange={(value) => { setPageSize(Number(value)); setPage(1); }}>
-              <SelectTrigger className="w-32">
-                <SelectValue placeholder={t("common.page_size", "Page size")} />
-              </SelectTrigger>
-              <SelectContent>
-                {[20, 50, 100].map((size) => (
-                  <SelectItem key={size} value={String(size)}>
-                    {size} / {t("common.page", "page")}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="flex flex-wrap gap-2">
-            <FasketButton
-              size="sm"
-              variant="outline"
-              disabled={!selected.size}
-              loading={toggleHotBulk.isPending}
-              onClick={() => toggleHotBulk.mutate({ ids: Array.from(selected), isHotOffer: true })}
-            >
-              {t("products.actions.markHot", "Mark hot offer")}
-            </FasketButton>
-            <FasketButton
-              size="sm"
-              variant="outline"
-              disabled={!selected.size}
-              loading={toggleHotBulk.isPending}
-              onClick={() => toggleHotBulk.mutate({ ids: Array.from(selected), isHotOffer: false })}
-            >
-              {t("products.actions.removeHot", "Remove hot offer")}
-            </FasketButton>
-          </div>
-
-          <div className="border rounded-lg">
-            {query.isLoading ? (
-              <div className="p-4">
-                <AdminTableSkeleton rows={5} columns={6} />
-              </div>
-            ) : query.isError ? (
-              <div className="p-4">
-                <ErrorState
-                  message={t("products.load_failed", "Unable to load products")}
-                  onRetry={() => query.refetch()}
-                />
-              </div>
-            ) : items.length === 0 ? (
-              <div className="p-6">
-                <FasketEmptyState
-                  title={t("products.emptyTitle", "No products found")}
-                  description={t("products.emptyDescription", "Try a different search or status")}
-                  action={
-                    <div className="flex gap-2">
-                      <FasketButton size="sm" variant="outline" onClick={() => query.refetch()}>
-                        {t("app.actions.refresh", "Refresh")}
-                      </FasketButton>
-                      <FasketButton size="sm" onClick={() => navigate("/products/manage")}>
-                        {t("products.actions.create", "Create product")}
-                      </FasketButton>
-                    </div>
-                  }
+      <Tabs defaultValue="offers">
+        <TabsList>
+          <TabsTrigger value="offers">{t("products.hotOffers", "Hot Offers")}</TabsTrigger>
+          <TabsTrigger value="flash">{t("flashSales.title", "Flash sales")}</TabsTrigger>
+        </TabsList>
+        <TabsContent value="flash" className="mt-4">
+          <FlashSalesPanel />
+        </TabsContent>
+        <TabsContent value="offers" className="mt-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("common.filters", "Filters")}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-3">
+                <Input
+                  className="w-64"
+                  placeholder={t("filters.searchPlaceholder") || "Search"}
+                  value={search}
+                  onChange={(e) => {
+                    setSearch(e.target.value);
+                    setPage(1);
+                  }}
                 />
+                <Select value={status} onValueChange={(value) => { setStatus(value as HotOfferStatus | "all"); setPage(1); }}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue placeholder={t("products.statuses.ALL", "All statuses")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t("products.statuses.ALL", "All statuses")}</SelectItem>
+                    <SelectItem value="ACTIVE">{t("products.statuses.ACTIVE", "Active")}</SelectItem>
+                    <SelectItem value="DRAFT">{t("products.statuses.DRAFT", "Draft")}</SelectItem>
+                    <SelectItem value="HIDDEN">{t("products.statuses.HIDDEN", "Hidden")}</SelectItem>
+                    <SelectItem value="DISCONTINUED">{t("products.statuses.DISCONTINUED", "Discontinued")}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={categoryId} onValueChange={(value) => { setCategoryId(value as typeof categoryId); setPage(1); }}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder={t("products.category", "Category")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t("products.category_all", "All categories")}</SelectItem>
+                    {categoriesQuery.data?.items?.map((cat) => (
+                      <SelectItem key={cat.id} value={cat.id}>
+                        {cat.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={String(pageSize)} onValueChange={(value) => { setPageSize(Number(value)); setPage(1); }}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue placeholder={t("common.page_size", "Page size")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[20, 50, 100].map((size) => (
+                      <SelectItem key={size} value={String(size)}>
+                        {size} / {t("common.page", "page")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-            ) : (
-              <FasketTable<Product>
-                columns={[
-                  {
-                    key: "select",
-                    title: "",
-                    render: (row) => (
-                      <input
-                        type="checkbox"
-                        className="accent-primary"
-                        checked={selected.has(row.id)}
-                        onChange={(e) => {
-                          const next = new Set(selected);
-                          if (e.target.checked) next.add(row.id);
-                          else next.delete(row.id);
-                          setSelected(next);
-                        }}
-                      />
-                    ),
-                  },
-                  ...columns,
-                ]}
-                data={items}
-                loading={query.isFetching}
-                skeletonRows={5}
-                emptyTitle={t("products.emptyTitle", "No products found")}
-                emptyDescription={t("products.emptyDescription", "Try a different search or status")}
-              />
-            )}
-            <div className="flex items-center justify-between px-4 py-3 border-t text-sm text-muted-foreground">
-              <span>
-                {t("common.pagination.summary", "{{from}}-{{to}} of {{total}}", {
-                  from: (page - 1) * pageSize + 1,
-                  to: Math.min(page * pageSize, total),
-                  total,
-                })}
-              </span>
-              <div className="flex gap-2">
-                <FasketButton size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))}>
-                  {t("common.prev", "Prev")}
+
+              <div className="flex flex-wrap gap-2">
+                <FasketButton
+                  size="sm"
+                  variant="outline"
+                  disabled={!selected.size}
+                  loading={toggleHotBulk.isPending}
+                  onClick={() => toggleHotBulk.mutate({ ids: Array.from(selected), isHotOffer: true })}
+                >
+                  {t("products.actions.markHot", "Mark hot offer")}
                 </FasketButton>
                 <FasketButton
                   size="sm"
                   variant="outline"
-                  disabled={page >= pageCount}
-                  onClick={() => setPage((p) => Math.min(pageCount, p + 1))}
+                  disabled={!selected.size}
+                  loading={toggleHotBulk.isPending}
+                  onClick={() => toggleHotBulk.mutate({ ids: Array.from(selected), isHotOffer: false })}
                 >
-                  {t("common.next", "Next")}
+                  {t("products.actions.removeHot", "Remove hot offer")}
                 </FasketButton>
               </div>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+
+              <div className="border rounded-lg">
+                {query.isLoading ? (
+                  <div className="p-4">
+                    <AdminTableSkeleton rows={5} columns={6} />
+                  </div>
+                ) : query.isError ? (
+                  <div className="p-4">
+                    <ErrorState
+                      message={t("products.load_failed", "Unable to load products")}
+                      onRetry={() => query.refetch()}
+                    />
+                  </div>
+                ) : items.length === 0 ? (
+                  <div className="p-6">
+                    <FasketEmptyState
+                      title={t("products.emptyTitle", "No products found")}
+                      description={t("products.emptyDescription", "Try a different search or status")}
+                      action={
+                        <div className="flex gap-2">
+                          <FasketButton size="sm" variant="outline" onClick={() => query.refetch()}>
+                            {t("app.actions.refresh", "Refresh")}
+                          </FasketButton>
+                          <FasketButton size="sm" onClick={() => navigate("/products/manage")}>
+                            {t("products.actions.create", "Create product")}
+                          </FasketButton>
+                        </div>
+                      }
+                    />
+                  </div>
+                ) : (
+                  <FasketTable<Product>
+                    columns={[
+                      {
+                        key: "select",
+                        title: "",
+                        render: (row) => (
+                          <input
+                            type="checkbox"
+                            className="accent-primary"
+                            checked={selected.has(row.id)}
+                            onChange={(e) => {
+                              const next = new Set(selected);
+                              if (e.target.checked) next.add(row.id);
+                              else next.delete(row.id);
+                              setSelected(next);
+                            }}
+                          />
+                        ),
+                      },
+                      ...columns,
+                    ]}
+                    data={items}
+                    loading={query.isFetching}
+                    skeletonRows={5}
+                    emptyTitle={t("products.emptyTitle", "No products found")}
+                    emptyDescription={t("products.emptyDescription", "Try a different search or status")}
+                  />
+                )}
+                <div className="flex items-center justify-between px-4 py-3 border-t text-sm text-muted-foreground">
+                  <span>
+                    {t("common.pagination.summary", "{{from}}-{{to}} of {{total}}", {
+                      from: (page - 1) * pageSize + 1,
+                      to: Math.min(page * pageSize, total),
+                      total,
+                    })}
+                  </span>
+                  <div className="flex gap-2">
+                    <FasketButton size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))}>
+                      {t("common.prev", "Prev")}
+                    </FasketButton>
+                    <FasketButton
+                      size="sm"
+                      variant="outline"
+                      disabled={page >= pageCount}
+                      onClick={() => setPage((p) => Math.min(pageCount, p + 1))}
+                    >
+                      {t("common.next", "Next")}
+                    </FasketButton>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -1,21 +1,26 @@
-import React from "react";
+import React, { useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Card, CardContent } from "../../ui/card";
 import { Button } from "../../ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../ui/table";
 import { AdminTableSkeleton } from "../common/AdminTableSkeleton";
 import { fmtCurrency } from "../../../lib/money";
+import { formatItemOptions } from "../../../lib/product-variants";
+import type { OrderScope } from "../../../services/orders.service";
 import type { OrderReceipt } from "../../../types/order";
 import { Printer, FileDown } from "lucide-react";
+import { ReceiptPrintDialog } from "./Orders/ReceiptPrintDialog";
 
 type OrderReceiptViewProps = {
   receipt: OrderReceipt | null;
   isLoading?: boolean;
+  scope?: OrderScope;
 };
 
-export function OrderReceiptView({ receipt, isLoading }: OrderReceiptViewProps) {
+export function OrderReceiptView({ receipt, isLoading, scope = "admin" }: OrderReceiptViewProps) {
   const { t, i18n } = useTranslation();
   const isRTL = i18n.dir() === "rtl";
+  const [printOpen, setPrintOpen] = useState(false);
 
   if (isLoading) {
     return <AdminTableSkeleton rows={3} columns={4} />;
@@ -26,7 +31,7 @@ export function OrderReceiptView({ receipt, isLoading }: OrderReceiptViewProps)
   }
 
   const currency = receipt.currency || "EGP";
-  const printReceipt = () => window.print();
+  const printReceipt = () => setPrintOpen(true);
   const addressParts = [
     receipt.address.label,
     receipt.address.building,
@@ -156,7 +161,12 @@ export function OrderReceiptView({ receipt, isLoading }: OrderReceiptViewProps)
           <TableBody>
             {receipt.items.map((item) => (
               <TableRow key={item.productId || item.productName}>
-                <TableCell className="font-medium">{item.productName}</TableCell>
+                <TableCell>
+                  <p className="font-medium">{item.productName}</p>
+                  {item.options?.length ? (
+                    <p className="text-xs text-muted-foreground">{formatItemOptions(item.options, i18n.language)}</p>
+                  ) : null}
+                </TableCell>
                 <TableCell>{item.quantity}</TableCell>
                 <TableCell>{fmtCurrency(item.unitPriceCents, currency)}</TableCell>
                 <TableCell className="text-right">{fmtCurrency(item.lineTotalCents, currency)}</TableCell>
@@ -165,6 +175,8 @@ export function OrderReceiptView({ receipt, isLoading }: OrderReceiptViewProps)
           </TableBody>
         </Table>
       </div>
+
+      <ReceiptPrintDialog open={printOpen} onOpenChange={setPrintOpen} orderIds={[receipt.id]} scope={scope} />
     </div>
   );
 }
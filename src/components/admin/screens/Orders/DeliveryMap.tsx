@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Minus, Plus, Maximize2 } from "lucide-react";
+import { Button } from "../../../ui/button";
+import {
+  TILE_SIZE,
+  fitViewport,
+  projectToWorld,
+  tileUrl,
+  visibleTiles,
+  type LatLng,
+  type WorldPoint,
+} from "../../../../lib/geo";
+import type { TrackedDelivery } from "../../../../hooks/api/useDeliveryTracking";
+
+// "offline" draws a plain grid instead of fetching tiles; any {z}/{x}/{y} template works, including a local tile server
+const DEFAULT_TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const MAP_TILE_URL = import.meta.env.VITE_MAP_TILE_URL ?? DEFAULT_TILE_URL;
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 18;
+
+type Viewport = { zoom: number; center: WorldPoint };
+
+type DeliveryMapProps = {
+  deliveries: TrackedDelivery[];
+  selectedId: string | null;
+  onSelect: (orderId: string) => void;
+  tileTemplate?: string;
+  height?: number;
+};
+
+export function DeliveryMap({ deliveries, selectedId, onSelect, tileTemplate = MAP_TILE_URL, height = 480 }: DeliveryMapProps) {
+  const { t } = useTranslation();
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [width, setWidth] = useState(800);
+  // null follows the deliveries; set once the user pans or zooms
+  const [manualView, setManualView] = useState<Viewport | null>(null);
+  const dragRef = useRef<{ x: number; y: number; center: WorldPoint } | null>(null);
+  const offline = !tileTemplate || tileTemplate === "offline";
+
+  useEffect(() => {
+    const node = containerRef.current;
+    if (!node) return;
+    setWidth(node.clientWidth || 800);
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver((entries) => setWidth(entries[0]?.contentRect.width || 800));
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, []);
+
+  const points = useMemo(() => {
+    const all: LatLng[] = [];
+    deliveries.forEach((delivery) => {
+      if (delivery.location) all.push(delivery.location);
+      if (delivery.destination) all.push(delivery.destination);
+    });
+    return all;
+  }, [deliveries]);
+
+  const fitted = useMemo(() => fitViewport(points, width, height, { minZoom: MIN_ZOOM }), [points, width, height]);
+  const view = manualView ?? fitted;
+
+  const toScreen = (point: LatLng) => {
+    const world = projectToWorld(point, view.zoom);
+    return { x: world.x - view.center.x + width / 2, y: world.y - view.center.y + height / 2 };
+  };
+
+  const zoomBy = (delta: number) => {
+    const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, view.zoom + delta));
+    const factor = 2 ** (zoom - view.zoom);
+    setManualView({ zoom, center: { x: view.center.x * factor, y: view.center.y * factor } });
+  };
+
+  const onPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if ((event.target as HTMLElement).closest("button,[data-marker]")) return;
+    dragRef.current = { x: event.clientX, y: event.clientY, center: view.center };
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+  };
+
+  const onPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setManualView({
+      zoom: view.zoom,
+      center: { x: drag.center.x - (event.clientX - drag.x), y: drag.center.y - (event.clientY - drag.y) },
+    });
+  };
+
+  const tiles = visibleTiles(view.center, view.zoom, width, height);
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full overflow-hidden rounded-lg border bg-muted touch-none select-none"
+      style={{ height }}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={() => (dragRef.current = null)}
+      onPointerLeave={() => (dragRef.current = null)}
+      data-testid="delivery-map"
+    >
+      {tiles.map((tile) =>
+        offline ? (
+          <div
+            key={`${tile.z}-${tile.left}-${tile.top}`}
+            className="absolute border border-dashed border-muted-foreground/20"
+            style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ) : (
+          <img
+            key={`${tile.z}-${tile.left}-${tile.top}`}
+            src={tileUrl(tileTemplate, tile)}
+            alt=""
+            draggable={false}
+            className="absolute max-w-none"
+            style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        )
+      )}
+
+      <svg className="absolute inset-0" width={width} height={height}>
+        {deliveries.map((delivery) => {
+          const selected = delivery.order.id === selectedId;
+          const trail = delivery.trail.map(toScreen);
+          const driver = delivery.location ? toScreen(delivery.location) : null;
+          const destination = delivery.destination ? toScreen(delivery.destination) : null;
+          const color = selected ? "#2563eb" : "#64748b";
+          return (
+            <g key={delivery.order.id} opacity={selectedId && !selected ? 0.55 : 1}>
+              {trail.length > 1 && (
+                <polyline
+                  points={trail.map((point) => `${point.x},${point.y}`).join(" ")}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={3}
+                  strokeLinejoin="round"
+                  strokeOpacity={0.6}
+                />
+              )}
+              {driver && destination && (
+                <line x1={driver.x} y1={driver.y} x2={destination.x} y2={destination.y} stroke={color} strokeDasharray="6 6" />
+              )}
+              {destination && (
+                <g
+                  data-marker
+                  transform={`translate(${destination.x},${destination.y})`}
+                  className="cursor-pointer"
+                  onClick={() => onSelect(delivery.order.id)}
+                >
+                  <title>{delivery.order.address?.line1 || `#${delivery.order.code}`}</title>
+                  <path d="M0 0 L-7 -14 A8 8 0 1 1 7 -14 Z" fill="#dc2626" stroke="white" strokeWidth={1.5} />
+                  <circle cy={-17} r={3} fill="white" />
+                </g>
+              )}
+              {driver && (
+                <g
+                  data-marker
+                  transform={`translate(${driver.x},${driver.y})`}
+                  className="cursor-pointer"
+                  onClick={() => onSelect(delivery.order.id)}
+                >
+                  <title>{delivery.order.driver?.fullName || `#${delivery.order.code}`}</title>
+                  {delivery.location?.heading != null && (
+                    <path d="M0 -16 L5 -8 L-5 -8 Z" fill={color} transform={`rotate(${delivery.location.heading})`} />
+                  )}
+                  <circle r={selected ? 9 : 7} fill={color} stroke="white" strokeWidth={2} />
+                </g>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="absolute right-2 top-2 flex flex-col gap-1">
+        <Button size="sm" variant="secondary" onClick={() => zoomBy(1)} title={t("orders.map.zoom_in", "Zoom in")}>
+          <Plus className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => zoomBy(-1)} title={t("orders.map.zoom_out", "Zoom out")}>
+          <Minus className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => setManualView(null)} title={t("orders.map.fit", "Fit all deliveries")}>
+          <Maximize2 className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="absolute bottom-1 right-2 rounded bg-background/80 px-1 text-[10px] text-muted-foreground">
+        {offline ? t("orders.map.offline_tiles", "Offline map") : tileTemplate === DEFAULT_TILE_URL ? "© OpenStreetMap contributors" : null}
+      </div>
+    </div>
+  );
+}
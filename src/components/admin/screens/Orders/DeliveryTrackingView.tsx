@@ -0,0 +1,135 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { MapPin, Navigation, Truck } from "lucide-react";
+import { Badge } from "../../../ui/badge";
+import { Button } from "../../../ui/button";
+import { AdminTableSkeleton } from "../../common/AdminTableSkeleton";
+import { EmptyState } from "../../common/EmptyState";
+import { ErrorState } from "../../common/ErrorState";
+import { useDeliveryTracking } from "../../../../hooks/api/useDeliveryTracking";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import type { OrderScope } from "../../../../services/orders.service";
+import { DeliveryMap } from "./DeliveryMap";
+
+type DeliveryTrackingViewProps = {
+  scope: OrderScope;
+  onOpen: (orderId: string) => void;
+};
+
+export function DeliveryTrackingView({ scope, onOpen }: DeliveryTrackingViewProps) {
+  const { t } = useTranslation();
+  const tracking = useDeliveryTracking({ scope });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (tracking.isLoading) {
+    return (
+      <div className="p-4">
+        <AdminTableSkeleton rows={4} columns={3} />
+      </div>
+    );
+  }
+  if (tracking.isError) {
+    return (
+      <ErrorState
+        message={getAdminErrorMessage(tracking.error, t, t("orders.loadError", "Unable to load orders"))}
+        onRetry={() => tracking.refetch()}
+      />
+    );
+  }
+  if (!tracking.deliveries.length) {
+    return (
+      <div className="p-4">
+        <EmptyState
+          title={t("orders.map.empty", "No orders out for delivery")}
+          description={t("orders.map.empty_hint", "Orders appear here once a driver picks them up.")}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 p-4 lg:grid-cols-3">
+      <div className="lg:col-span-2">
+        <DeliveryMap deliveries={tracking.deliveries} selectedId={selectedId} onSelect={setSelectedId} />
+        <div className="mt-2 flex flex-wrap gap-4 text-xs text-muted-foreground">
+          <span className="inline-flex items-center gap-1">
+            <span className="inline-block h-2.5 w-2.5 rounded-full bg-slate-500" />
+            {t("orders.map.legend_driver", "Driver (trail from recent updates)")}
+          </span>
+          <span className="inline-flex items-center gap-1">
+            <span className="inline-block h-2.5 w-2.5 rounded-full bg-red-600" />
+            {t("orders.map.legend_destination", "Delivery address")}
+          </span>
+        </div>
+      </div>
+      <div className="max-h-[520px] space-y-2 overflow-y-auto">
+        {tracking.deliveries.map((delivery) => {
+          const selected = delivery.order.id === selectedId;
+          return (
+            <div
+              key={delivery.order.id}
+              role="button"
+              tabIndex={0}
+              onClick={() => setSelectedId(delivery.order.id)}
+              onKeyDown={(event) => event.key === "Enter" && setSelectedId(delivery.order.id)}
+              className={`rounded-lg border p-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary/60 ${
+                selected ? "border-primary bg-primary/5" : "bg-card"
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-semibold">#{delivery.order.code || delivery.order.id}</p>
+                  <p className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                    <Truck className="w-3 h-3" />
+                    {delivery.order.driver?.fullName || t("orders.noDriver", "No driver")}
+                  </p>
+                </div>
+                {delivery.etaMinutes != null ? (
+                  <Badge variant="secondary">
+                    {t("orders.map.eta", { defaultValue: "ETA {{minutes}} min", minutes: delivery.etaMinutes })}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline">{t("orders.map.eta_unknown", "ETA unknown")}</Badge>
+                )}
+              </div>
+              <div className="mt-2 space-y-1 text-xs text-muted-foreground">
+                {delivery.distanceKm != null && (
+                  <p className="inline-flex items-center gap-1">
+                    <Navigation className="w-3 h-3" />
+                    {t("orders.map.distance", { defaultValue: "{{km}} km away", km: delivery.distanceKm.toFixed(1) })}
+                  </p>
+                )}
+                {!delivery.destination && (
+                  <p className="inline-flex items-center gap-1 text-amber-700">
+                    <MapPin className="w-3 h-3" />
+                    {t("orders.map.no_destination", "Address has no coordinates")}
+                  </p>
+                )}
+                <p>
+                  {delivery.location
+                    ? t("orders.map.updated", {
+                        defaultValue: "Location at {{time}}",
+                        time: dayjs(delivery.location.recordedAt).format("HH:mm:ss"),
+                      })
+                    : t("orders.trackingEmpty", "No driver location yet.")}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="mt-1 px-0"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onOpen(delivery.order.id);
+                }}
+              >
+                {t("orders.detail", "Order details")}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
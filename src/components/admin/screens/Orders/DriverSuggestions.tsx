@@ -0,0 +1,112 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Sparkles } from "lucide-react";
+import { Badge } from "../../../ui/badge";
+import { Button } from "../../../ui/button";
+import { Skeleton } from "../../../ui/skeleton";
+import { useDriverSuggestions } from "../../../../hooks/api/useDriverSuggestions";
+import type { DriverSuggestion, ScoreComponent } from "../../../../lib/driver-ranking";
+import type { OrderDetail } from "../../../../types/order";
+
+type DriverSuggestionsProps = {
+  order: OrderDetail;
+  limit?: number;
+  disabled?: boolean;
+  assigningId?: string | null;
+  onAssign: (driverId: string) => void;
+};
+
+export function DriverSuggestions({ order, limit = 5, disabled, assigningId, onAssign }: DriverSuggestionsProps) {
+  const { t } = useTranslation();
+  const { suggestions, target, isLoading, signalsUnavailable } = useDriverSuggestions(order);
+  const top = suggestions.filter((suggestion) => suggestion.driver.id !== order.driver?.id).slice(0, limit);
+
+  const componentLabel = (component: ScoreComponent) =>
+    t(`orders.suggest.components.${component.key}`, { defaultValue: component.key });
+
+  const detailFor = (suggestion: DriverSuggestion, component: ScoreComponent) => {
+    switch (component.key) {
+      case "load":
+        return t("orders.suggest.active_orders", {
+          defaultValue: "{{count}} open orders",
+          count: suggestion.signals.activeOrders,
+        });
+      case "distance":
+        return suggestion.distanceKm != null
+          ? t("orders.map.distance", { defaultValue: "{{km}} km away", km: suggestion.distanceKm.toFixed(1) })
+          : t("orders.suggest.no_location", "Location unknown");
+      case "zone":
+        if (!target.zoneId) return t("orders.suggest.zone_unknown", "Order has no zone");
+        if (suggestion.signals.activeZoneIds.includes(target.zoneId)) return t("orders.suggest.zone_active", "In zone now");
+        if (suggestion.signals.recentZoneIds.includes(target.zoneId)) return t("orders.suggest.zone_recent", "Recently in zone");
+        return t("orders.suggest.zone_other", "Other zone");
+      case "reliability":
+        return suggestion.failureRate != null
+          ? t("orders.suggest.failure_rate", {
+              defaultValue: "{{rate}}% failed",
+              rate: Math.round(suggestion.failureRate * 100),
+            })
+          : t("orders.suggest.no_history", "No recent deliveries");
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <p className="flex items-center gap-1 text-xs font-semibold text-muted-foreground">
+        <Sparkles className="w-3 h-3" />
+        {t("orders.suggest.title", "Suggested drivers")}
+      </p>
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-12 w-full" />
+        </div>
+      ) : !top.length ? (
+        <p className="text-xs text-muted-foreground">{t("orders.suggest.empty", "No active drivers available.")}</p>
+      ) : (
+        top.map((suggestion) => (
+          <div key={suggestion.driver.id} className="rounded-md bg-muted/40 p-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex min-w-0 items-center gap-2">
+                <Badge variant="secondary" title={t("orders.suggest.score_hint", "Score out of 100")}>
+                  {suggestion.total}
+                </Badge>
+                <span className="truncate font-medium">{suggestion.driver.fullName}</span>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={disabled || Boolean(assigningId)}
+                onClick={() => onAssign(suggestion.driver.id)}
+              >
+                {assigningId === suggestion.driver.id
+                  ? t("common.saving", "Saving...")
+                  : t("orders.suggest.assign", "Assign")}
+              </Button>
+            </div>
+            <div className="mt-2 flex flex-wrap gap-1">
+              {suggestion.components.map((component) => (
+                <span
+                  key={component.key}
+                  className="rounded border bg-background px-1.5 py-0.5 text-[11px] text-muted-foreground"
+                  title={t("orders.suggest.points", {
+                    defaultValue: "{{points}} of {{max}} points",
+                    points: Math.round(component.score * component.weight * 100),
+                    max: Math.round(component.weight * 100),
+                  })}
+                >
+                  {componentLabel(component)}: {detailFor(suggestion, component)}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+      {signalsUnavailable && (
+        <p className="text-xs text-amber-700">
+          {t("orders.suggest.signals_error", "Load and history could not be loaded; scores are partial.")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useNavigate } from "react-router-dom";
+import dayjs from "dayjs";
+import { Bell, Clock, ExternalLink, Link2, MessageSquare } from "lucide-react";
+import { Badge } from "../../../ui/badge";
+import { Button } from "../../../ui/button";
+import { Switch } from "../../../ui/switch";
+import { AdminTableSkeleton } from "../../common/AdminTableSkeleton";
+import { EmptyState } from "../../common/EmptyState";
+import { usePermissions } from "../../../../auth/permissions";
+import { formatWhatsappStatus, type WhatsappLog } from "../../../../services/whatsapp.service";
+import type { AutomationEvent } from "../../../../services/automation.service";
+import { redactPhoneNumbers, redactSensitiveText } from "../../../../lib/redaction";
+import {
+  TIMELINE_SOURCES,
+  buildOrderTimeline,
+  filterTimeline,
+  groupTimeline,
+  type TimelineEntry,
+  type TimelineSource,
+} from "../../../../lib/order-timeline";
+import type { OrderHistoryEntry } from "../../../../types/order";
+
+type SourceFeed<T> = {
+  items?: T[];
+  loading?: boolean;
+  error?: string | null;
+  onRetry?: () => void;
+};
+
+type OrderTimelineProps = {
+  orderCode?: string | null;
+  history?: SourceFeed<OrderHistoryEntry>;
+  automation?: SourceFeed<AutomationEvent>;
+  whatsapp?: SourceFeed<WhatsappLog>;
+};
+
+const SOURCE_ICON: Record<TimelineSource, React.ComponentType<{ className?: string }>> = {
+  status: Clock,
+  automation: Bell,
+  whatsapp: MessageSquare,
+};
+
+const SOURCE_DOT: Record<TimelineSource, string> = {
+  status: "bg-blue-500",
+  automation: "bg-amber-500",
+  whatsapp: "bg-emerald-500",
+};
+
+const isFailure = (status?: string | null) => ["FAILED", "DEAD"].includes(String(status || "").toUpperCase());
+
+export function OrderTimeline({ orderCode, history, automation, whatsapp }: OrderTimelineProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const perms = usePermissions();
+  const feeds: Record<TimelineSource, SourceFeed<unknown> | undefined> = { status: history, automation, whatsapp };
+  const available = TIMELINE_SOURCES.filter((source) => feeds[source]);
+  const [hidden, setHidden] = useState<Set<TimelineSource>>(new Set());
+  const [grouped, setGrouped] = useState(true);
+
+  const entries = useMemo(
+    () => buildOrderTimeline({ history: history?.items, automation: automation?.items, whatsapp: whatsapp?.items }),
+    [history?.items, automation?.items, whatsapp?.items]
+  );
+  const visible = filterTimeline(
+    entries,
+    available.filter((source) => !hidden.has(source))
+  );
+  const groups = grouped
+    ? groupTimeline(visible)
+    : visible.map((entry) => ({ key: entry.key, correlationId: null, at: entry.at, entries: [entry] }));
+  const loading = available.some((source) => feeds[source]?.loading);
+  const failedFeeds = available.filter((source) => feeds[source]?.error);
+
+  const sourceLabel = (source: TimelineSource) => t(`orders.timeline.sources.${source}`, source);
+
+  const toggleSource = (source: TimelineSource) =>
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (next.has(source)) next.delete(source);
+      else next.add(source);
+      return next;
+    });
+
+  const openOutbox = (event: AutomationEvent) => {
+    const q = event.correlationId || event.orderCode || orderCode || "";
+    navigate(`/automation-outbox?q=${encodeURIComponent(q)}`);
+  };
+
+  const openWhatsapp = (log: WhatsappLog) => {
+    if (log.supportConversationId) {
+      navigate(`/support/whatsapp?conversation=${encodeURIComponent(log.supportConversationId)}`);
+      return;
+    }
+    navigate(`/support/whatsapp-logs?order=${encodeURIComponent(orderCode || "")}`);
+  };
+
+  const sanitize = (value?: string | null) => {
+    const redacted = redactSensitiveText(value || "");
+    return perms.canViewPII ? redacted : redactPhoneNumbers(redacted);
+  };
+
+  const renderEntry = (item: TimelineEntry) => {
+    const Icon = SOURCE_ICON[item.source];
+    let title: React.ReactNode;
+    let detail: React.ReactNode = null;
+    let status: string | null = null;
+    let link: React.ReactNode = null;
+
+    if (item.source === "status") {
+      const { entry } = item;
+      const to = t(`orders.statuses.${entry.to}`, { defaultValue: entry.to });
+      title = entry.from ? `${t(`orders.statuses.${entry.from}`, { defaultValue: entry.from })} → ${to}` : to;
+      detail = [entry.note, entry.actor].filter(Boolean).join(" · ") || null;
+    } else if (item.source === "automation") {
+      const { event } = item;
+      title = event.type;
+      status = String(event.status || "");
+      detail = event.lastErrorSnippet || (event.attempts > 1 ? t("orders.timeline.attempts", { defaultValue: "{{count}} attempts", count: event.attempts }) : null);
+      link = (
+        <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => openOutbox(event)}>
+          <ExternalLink className="w-3 h-3 mr-1" />
+          {t("orders.timeline.open_outbox", "Outbox")}
+        </Button>
+      );
+    } else {
+      const { log } = item;
+      const direction = String(log.direction).toUpperCase() === "INBOUND" ? "←" : "→";
+      title = `${direction} ${log.templateName || log.messageType || t("whatsapp.message", "Message")}`;
+      status = formatWhatsappStatus(log.status) || String(log.status || "");
+      detail = log.errorMessage ? sanitize(log.errorMessage) : log.body ? sanitize(log.body) : null;
+      link = (
+        <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => openWhatsapp(log)}>
+          <ExternalLink className="w-3 h-3 mr-1" />
+          {log.supportConversationId ? t("orders.timeline.open_inbox", "Inbox") : t("orders.timeline.open_logs", "Logs")}
+        </Button>
+      );
+    }
+
+    return (
+      <li key={item.key} className="relative flex gap-3 pb-3 ps-5 last:pb-0">
+        <span className={`absolute start-0 top-1.5 h-2.5 w-2.5 rounded-full ${SOURCE_DOT[item.source]}`} />
+        <div className="min-w-0 flex-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <Icon className="w-3.5 h-3.5 text-muted-foreground" />
+            <span className="text-sm font-medium">{title}</span>
+            {status && (
+              <Badge variant={isFailure(status) ? "destructive" : "outline"} className="text-[11px]">
+                {status}
+              </Badge>
+            )}
+          </div>
+          {detail && <p className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">{detail}</p>}
+        </div>
+        <div className="flex shrink-0 flex-col items-end gap-1">
+          <span className="text-xs text-muted-foreground">{dayjs(item.at).format("DD MMM HH:mm:ss")}</span>
+          {link}
+        </div>
+      </li>
+    );
+  };
+
+  if (!available.length) {
+    return <p className="text-sm text-muted-foreground">{t("orders.permission.history", "You do not have permission to view history.")}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {available.map((source) => {
+            const count = entries.filter((entry) => entry.source === source).length;
+            const active = !hidden.has(source);
+            return (
+              <Button
+                key={source}
+                size="sm"
+                variant={active ? "secondary" : "outline"}
+                className="h-7 gap-1.5"
+                aria-pressed={active}
+                onClick={() => toggleSource(source)}
+              >
+                <span className={`h-2 w-2 rounded-full ${active ? SOURCE_DOT[source] : "bg-muted-foreground/40"}`} />
+                {sourceLabel(source)}
+                <span className="text-muted-foreground">{count}</span>
+              </Button>
+            );
+          })}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Switch checked={grouped} onCheckedChange={setGrouped} />
+          {t("orders.timeline.group_by_correlation", "Group by correlation ID")}
+        </label>
+      </div>
+
+      {failedFeeds.map((source) => (
+        <div key={source} className="flex items-center justify-between gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+          <span>
+            {sourceLabel(source)}: {feeds[source]?.error}
+          </span>
+          {feeds[source]?.onRetry && (
+            <Button size="sm" variant="ghost" className="h-6 px-2" onClick={feeds[source]?.onRetry}>
+              {t("app.actions.retry", "Retry")}
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {loading && !entries.length ? (
+        <AdminTableSkeleton rows={3} columns={2} />
+      ) : !groups.length ? (
+        <EmptyState title={t("orders.timeline.empty", "No events yet")} />
+      ) : (
+        <ol className="max-h-[480px] space-y-3 overflow-y-auto border-s ps-3">
+          {groups.map((group) =>
+            group.correlationId && group.entries.length > 1 ? (
+              <li key={group.key} className="rounded-md border bg-muted/30 p-2">
+                <p className="mb-2 flex items-center gap-1 text-[11px] font-medium text-muted-foreground">
+                  <Link2 className="w-3 h-3" />
+                  {t("orders.timeline.correlation", { defaultValue: "Correlation {{id}}", id: group.correlationId })}
+                  <span>· {t("orders.timeline.events", { defaultValue: "{{count}} events", count: group.entries.length })}</span>
+                </p>
+                <ul>{group.entries.map(renderEntry)}</ul>
+              </li>
+            ) : (
+              <React.Fragment key={group.key}>{group.entries.map(renderEntry)}</React.Fragment>
+            )
+          )}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { GripVertical, Truck } from "lucide-react";
+import { Badge } from "../../../ui/badge";
+import { Button } from "../../../ui/button";
+import { Textarea } from "../../../ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import { fmtCurrency } from "../../../../lib/money";
+import { isTransitionAllowed } from "../../../../lib/order-transitions";
+import type { Order, OrderStatus } from "../../../../types/order";
+
+export const BOARD_STATUSES: OrderStatus[] = [
+  "PENDING",
+  "CONFIRMED",
+  "PREPARING",
+  "OUT_FOR_DELIVERY",
+  "DELIVERED",
+  "DELIVERY_FAILED",
+  "CANCELED",
+];
+
+type StatusMeta = { color: string; label: string };
+
+type OrdersBoardProps = {
+  orders: Order[];
+  statusMeta: (status: OrderStatus) => StatusMeta | undefined;
+  canMove: boolean;
+  /** Dropping on CANCELED goes through the cancel flow and needs this on top of canMove */
+  canCancel: boolean;
+  resolveAllowedTargets: (order: Order) => Promise<OrderStatus[]>;
+  onMove: (order: Order, to: OrderStatus, note?: string) => Promise<unknown>;
+  onOpen: (orderId: string) => void;
+  isStuck?: (order: Order) => boolean;
+};
+
+type DragState = {
+  orderId: string;
+  allowed: OrderStatus[] | null;
+};
+
+export function OrdersBoard({
+  orders,
+  statusMeta,
+  canMove,
+  canCancel,
+  resolveAllowedTargets,
+  onMove,
+  onOpen,
+  isStuck,
+}: OrdersBoardProps) {
+  const { t } = useTranslation();
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [overStatus, setOverStatus] = useState<OrderStatus | null>(null);
+  // Optimistic column placement while the status update is in flight
+  const [pending, setPending] = useState<Record<string, OrderStatus>>({});
+  // A drop on CANCELED waits here for the cancellation note
+  const [cancelTarget, setCancelTarget] = useState<Order | null>(null);
+  const [cancelNote, setCancelNote] = useState("");
+
+  useEffect(() => {
+    setPending((prev) => {
+      const next = { ...prev };
+      let changed = false;
+      orders.forEach((order) => {
+        if (next[order.id] && next[order.id] === order.status) {
+          delete next[order.id];
+          changed = true;
+        }
+      });
+      return changed ? next : prev;
+    });
+  }, [orders]);
+
+  const columns = useMemo(() => {
+    const grouped = new Map<OrderStatus, Order[]>(BOARD_STATUSES.map((status) => [status, []]));
+    orders.forEach((order) => {
+      const status = pending[order.id] ?? order.status;
+      const bucket = grouped.get(status);
+      if (bucket) bucket.push(order);
+    });
+    return grouped;
+  }, [orders, pending]);
+
+  const rejectMove = () => {
+    toast.error(t("errors.ORDER_INVALID_STATUS_TRANSITION", "Order cannot move to that status."));
+  };
+
+  const handleDragStart = (event: React.DragEvent<HTMLDivElement>, order: Order) => {
+    event.dataTransfer.setData("text/plain", order.id);
+    event.dataTransfer.effectAllowed = "move";
+    setDrag({ orderId: order.id, allowed: null });
+    resolveAllowedTargets(order)
+      .then((allowed) => setDrag((prev) => (prev?.orderId === order.id ? { ...prev, allowed } : prev)))
+      .catch(() => undefined);
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>, to: OrderStatus) => {
+    event.preventDefault();
+    setOverStatus(null);
+    const orderId = event.dataTransfer.getData("text/plain") || drag?.orderId;
+    const knownTargets = drag && drag.orderId === orderId ? drag.allowed : null;
+    setDrag(null);
+    const order = orders.find((item) => item.id === orderId);
+    if (!order) return;
+    const current = pending[order.id] ?? order.status;
+    if (current === to) return;
+
+    let allowed = knownTargets;
+    if (!allowed) {
+      try {
+        allowed = await resolveAllowedTargets(order);
+      } catch (error) {
+        toast.error(getAdminErrorMessage(error, t));
+        return;
+      }
+    }
+    if (!isTransitionAllowed(to, allowed)) {
+      rejectMove();
+      return;
+    }
+
+    if (to === "CANCELED") {
+      if (!canCancel) {
+        toast.error(t("orders.permission.cancel", "You do not have permission to cancel orders."));
+        return;
+      }
+      setCancelNote("");
+      setCancelTarget(order);
+      return;
+    }
+    await commitMove(order, to);
+  };
+
+  const commitMove = async (order: Order, to: OrderStatus, note?: string) => {
+    setPending((prev) => ({ ...prev, [order.id]: to }));
+    try {
+      await onMove(order, to, note);
+      toast.success(to === "CANCELED" ? t("orders.canceled", "Order canceled") : t("orders.updated", "Order updated"));
+    } catch (error) {
+      setPending((prev) => {
+        const next = { ...prev };
+        delete next[order.id];
+        return next;
+      });
+      toast.error(getAdminErrorMessage(error, t));
+    }
+  };
+
+  const confirmCancel = () => {
+    if (!cancelTarget) return;
+    setCancelTarget(null);
+    void commitMove(cancelTarget, "CANCELED", cancelNote.trim() || undefined);
+  };
+
+  const isDropBlocked = (status: OrderStatus) =>
+    (status === "CANCELED" && !canCancel) || (Boolean(drag?.allowed) && !isTransitionAllowed(status, drag?.allowed || []));
+
+  return (
+    <div className="flex gap-3 overflow-x-auto p-4" data-testid="orders-board">
+      {BOARD_STATUSES.map((status) => {
+        const meta = statusMeta(status);
+        const cards = columns.get(status) || [];
+        const blocked = drag ? isDropBlocked(status) : false;
+        return (
+          <div
+            key={status}
+            data-testid={`board-column-${status}`}
+            className={[
+              "flex w-64 shrink-0 flex-col rounded-lg border bg-muted/40",
+              overStatus === status && !blocked ? "ring-2 ring-primary/60" : "",
+              blocked ? "opacity-50" : "",
+            ].join(" ")}
+            onDragOver={(event) => {
+              if (!drag) return;
+              event.preventDefault();
+              event.dataTransfer.dropEffect = blocked ? "none" : "move";
+              setOverStatus(status);
+            }}
+            onDragLeave={() => setOverStatus((prev) => (prev === status ? null : prev))}
+            onDrop={(event) => handleDrop(event, status)}
+          >
+            <div className="flex items-center justify-between border-b px-3 py-2">
+              <Badge className={meta?.color}>{meta?.label ?? status}</Badge>
+              <span className="text-xs text-muted-foreground">{cards.length}</span>
+            </div>
+            <div className="flex max-h-[60vh] min-h-[120px] flex-col gap-2 overflow-y-auto p-2">
+              {cards.length === 0 ? (
+                <p className="py-6 text-center text-xs text-muted-foreground">{t("orders.board_empty", "No orders")}</p>
+              ) : (
+                cards.map((order) => (
+                  <div
+                    key={order.id}
+                    role="button"
+                    tabIndex={0}
+                    draggable={canMove}
+                    onDragStart={(event) => handleDragStart(event, order)}
+                    onDragEnd={() => {
+                      setDrag(null);
+                      setOverStatus(null);
+                    }}
+                    onClick={() => onOpen(order.id)}
+                    onKeyDown={(event) => event.key === "Enter" && onOpen(order.id)}
+                    className={[
+                      "rounded-md border bg-card p-3 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-primary/60",
+                      canMove ? "cursor-grab active:cursor-grabbing" : "cursor-pointer",
+                      pending[order.id] ? "opacity-70" : "",
+                    ].join(" ")}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="font-semibold">#{order.code || order.id}</p>
+                      {canMove && <GripVertical className="h-4 w-4 text-muted-foreground" />}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{order.customer?.name || "-"}</p>
+                    <div className="mt-2 flex items-center justify-between text-xs">
+                      <span className="font-medium">{fmtCurrency(order.totalCents, order.currency || "EGP")}</span>
+                      <span className="text-muted-foreground">{dayjs(order.createdAt).format("DD MMM HH:mm")}</span>
+                    </div>
+                    {(order.driver?.fullName || isStuck?.(order)) && (
+                      <div className="mt-2 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        {order.driver?.fullName ? (
+                          <span className="inline-flex items-center gap-1">
+                            <Truck className="h-3 w-3" />
+                            {order.driver.fullName}
+                          </span>
+                        ) : (
+                          <span />
+                        )}
+                        {isStuck?.(order) && <Badge variant="outline">{t("orders.stuck", "Stuck")}</Badge>}
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <Dialog open={cancelTarget !== null} onOpenChange={(open) => !open && setCancelTarget(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {t("orders.board_cancel_title", {
+                defaultValue: "Cancel order {{code}}?",
+                code: cancelTarget?.code || cancelTarget?.id,
+              })}
+            </DialogTitle>
+            <DialogDescription>{t("orders.board_cancel_hint", "Add a note for the cancellation if needed.")}</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder={t("orders.bulk.cancel_note", "Cancellation note (optional)")}
+            value={cancelNote}
+            onChange={(event) => setCancelNote(event.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelTarget(null)}>
+              {t("app.actions.close", "Close")}
+            </Button>
+            <Button variant="destructive" onClick={confirmCancel}>
+              {t("orders.board_cancel_confirm", "Cancel order")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { CheckCircle2, Printer, XCircle } from "lucide-react";
+import { Button } from "../../../ui/button";
+import { Badge } from "../../../ui/badge";
+import { Progress } from "../../../ui/progress";
+import { Textarea } from "../../../ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { useDeliveryDrivers } from "../../../../hooks/api/useDeliveryDrivers";
+import { assignDriverToOrder, cancelOrder, updateOrderStatus, type OrderScope } from "../../../../services/orders.service";
+import { settleWithConcurrency } from "../../../../lib/concurrency";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import type { Order } from "../../../../types/order";
+import { ReceiptPrintDialog } from "./ReceiptPrintDialog";
+
+const BULK_CONCURRENCY = 4;
+
+type BulkAction = "confirm" | "prepare" | "assign" | "cancel";
+
+type BulkOutcome = {
+  order: Order;
+  ok: boolean;
+  message?: string;
+};
+
+type BulkRun = {
+  action: BulkAction;
+  outcomes: BulkOutcome[];
+};
+
+type OrdersBulkBarProps = {
+  orders: Order[];
+  scope: OrderScope;
+  canUpdate: boolean;
+  canAssignDriver: boolean;
+  canCancel: boolean;
+  onClear: () => void;
+  onSelect: (orderIds: string[]) => void;
+  onCompleted: () => void;
+};
+
+export function OrdersBulkBar({
+  orders,
+  scope,
+  canUpdate,
+  canAssignDriver,
+  canCancel,
+  onClear,
+  onSelect,
+  onCompleted,
+}: OrdersBulkBarProps) {
+  const { t } = useTranslation();
+  const [confirming, setConfirming] = useState<"assign" | "cancel" | null>(null);
+  const [driverId, setDriverId] = useState("");
+  const [cancelNote, setCancelNote] = useState("");
+  const [running, setRunning] = useState<{ action: BulkAction; done: number; total: number; retry: boolean } | null>(null);
+  const [lastRun, setLastRun] = useState<BulkRun | null>(null);
+  const [printOpen, setPrintOpen] = useState(false);
+
+  const driverFilters = useMemo(() => ({ isActive: true, page: 1, pageSize: 100 }), []);
+  const driversQuery = useDeliveryDrivers(driverFilters, { enabled: confirming === "assign" && canAssignDriver });
+
+  const actionLabel = (action: BulkAction) => {
+    switch (action) {
+      case "confirm":
+        return t("orders.bulk.confirm", "Confirm");
+      case "prepare":
+        return t("orders.bulk.prepare", "Mark preparing");
+      case "assign":
+        return t("orders.bulk.assign", "Assign driver");
+      case "cancel":
+        return t("orders.bulk.cancel", "Cancel orders");
+    }
+  };
+
+  const runAction = (action: BulkAction, order: Order) => {
+    switch (action) {
+      case "confirm":
+        return updateOrderStatus(order.id, { to: "CONFIRMED" }, scope);
+      case "prepare":
+        return updateOrderStatus(order.id, { to: "PREPARING" }, scope);
+      case "assign":
+        return assignDriverToOrder(order.id, driverId);
+      case "cancel":
+        return cancelOrder(order.id, cancelNote.trim() || undefined, scope);
+    }
+  };
+
+  const run = async (action: BulkAction, targets: Order[], retry = false) => {
+    if (!targets.length || running) return;
+    setConfirming(null);
+    // a retry shows its own progress in the results dialog instead of the outcomes it replaces
+    setLastRun(null);
+    setRunning({ action, done: 0, total: targets.length, retry });
+    const results = await settleWithConcurrency(targets, (order) => runAction(action, order), {
+      limit: BULK_CONCURRENCY,
+      onSettled: (_result, done) => setRunning((prev) => (prev ? { ...prev, done } : prev)),
+    });
+    setRunning(null);
+    setLastRun({
+      action,
+      outcomes: results.map((result) =>
+        result.ok
+          ? { order: result.item, ok: true }
+          : { order: result.item, ok: false, message: getAdminErrorMessage(result.error, t) }
+      ),
+    });
+    onCompleted();
+  };
+
+  const failed = lastRun?.outcomes.filter((outcome) => !outcome.ok) ?? [];
+  const succeededCount = (lastRun?.outcomes.length ?? 0) - failed.length;
+  const busy = Boolean(running);
+
+  return (
+    <>
+      {orders.length > 0 && (
+        <div className="flex flex-col gap-3 rounded-lg border bg-muted/40 px-4 py-3 md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center gap-3 text-sm">
+            <span className="font-medium">
+              {t("orders.bulk.selected", { defaultValue: "{{count}} selected", count: orders.length })}
+            </span>
+            <Button size="sm" variant="ghost" onClick={onClear} disabled={busy}>
+              {t("app.actions.clear", "Clear")}
+            </Button>
+          </div>
+          {running ? (
+            <div className="flex w-full items-center gap-3 md:w-72">
+              <Progress value={(running.done / running.total) * 100} />
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {running.done}/{running.total}
+              </span>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" onClick={() => setPrintOpen(true)}>
+                <Printer className="w-4 h-4 mr-1" />
+                {t("orders.print.bulk", "Print receipts")}
+              </Button>
+              {canUpdate && (
+                <>
+                  <Button size="sm" variant="outline" onClick={() => run("confirm", orders)}>
+                    {actionLabel("confirm")}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => run("prepare", orders)}>
+                    {actionLabel("prepare")}
+                  </Button>
+                </>
+              )}
+              {canAssignDriver && (
+                <Button size="sm" variant="outline" onClick={() => setConfirming("assign")}>
+                  {actionLabel("assign")}
+                </Button>
+              )}
+              {canCancel && (
+                <Button size="sm" variant="destructive" onClick={() => setConfirming("cancel")}>
+                  {actionLabel("cancel")}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <ReceiptPrintDialog
+        open={printOpen}
+        onOpenChange={setPrintOpen}
+        orderIds={orders.map((order) => order.id)}
+        scope={scope}
+      />
+
+      <Dialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{confirming ? actionLabel(confirming) : null}</DialogTitle>
+            <DialogDescription>
+              {t("orders.bulk.applies_to", { defaultValue: "Applies to {{count}} selected orders.", count: orders.length })}
+            </DialogDescription>
+          </DialogHeader>
+          {confirming === "assign" ? (
+            <Select value={driverId} onValueChange={setDriverId}>
+              <SelectTrigger>
+                <SelectValue placeholder={t("orders.selectDriver", "Select driver")} />
+              </SelectTrigger>
+              <SelectContent>
+                {(driversQuery.data?.items || []).map((driver) => (
+                  <SelectItem key={driver.id} value={driver.id}>
+                    {driver.fullName} {driver.phone ? `(${driver.phone})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Textarea
+              placeholder={t("orders.bulk.cancel_note", "Cancellation note (optional)")}
+              value={cancelNote}
+              onChange={(event) => setCancelNote(event.target.value)}
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirming(null)}>
+              {t("app.actions.close", "Close")}
+            </Button>
+            <Button
+              variant={confirming === "cancel" ? "destructive" : "default"}
+              disabled={confirming === "assign" && !driverId}
+              onClick={() => confirming && run(confirming, orders)}
+            >
+              {t("app.actions.apply", "Apply")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={lastRun !== null || Boolean(running?.retry)} onOpenChange={(open) => !open && !running && setLastRun(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{lastRun ? actionLabel(lastRun.action) : running ? actionLabel(running.action) : null}</DialogTitle>
+            <DialogDescription>
+              {running
+                ? t("orders.bulk.retrying", { defaultValue: "Retrying {{done}} of {{total}}", done: running.done, total: running.total })
+                : t("orders.bulk.summary", {
+                    defaultValue: "{{succeeded}} succeeded, {{failed}} failed",
+                    succeeded: succeededCount,
+                    failed: failed.length,
+                  })}
+            </DialogDescription>
+          </DialogHeader>
+          {running && <Progress value={(running.done / running.total) * 100} />}
+          <ul className="max-h-[50vh] space-y-2 overflow-y-auto text-sm" data-testid="orders-bulk-results">
+            {lastRun?.outcomes.map((outcome) => (
+              <li key={outcome.order.id} className="flex items-start justify-between gap-3 border-b pb-2 last:border-0">
+                <div className="flex items-start gap-2">
+                  {outcome.ok ? (
+                    <CheckCircle2 className="mt-0.5 h-4 w-4 text-green-600" />
+                  ) : (
+                    <XCircle className="mt-0.5 h-4 w-4 text-red-600" />
+                  )}
+                  <div>
+                    <p className="font-medium">#{outcome.order.code || outcome.order.id}</p>
+                    {outcome.message && <p className="text-xs text-red-600">{outcome.message}</p>}
+                  </div>
+                </div>
+                <Badge variant="outline">{outcome.ok ? t("orders.bulk.ok", "Done") : t("orders.bulk.failed", "Failed")}</Badge>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            {failed.length > 0 && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    onSelect(failed.map((outcome) => outcome.order.id));
+                    setLastRun(null);
+                  }}
+                >
+                  {t("orders.bulk.select_failed", "Select failed")}
+                </Button>
+                <Button onClick={() => lastRun && run(lastRun.action, failed.map((outcome) => outcome.order), true)}>
+                  {t("orders.bulk.retry_failed", "Retry failed")}
+                </Button>
+              </>
+            )}
+            <Button variant="outline" disabled={busy} onClick={() => setLastRun(null)}>
+              {t("app.actions.close", "Close")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { Printer } from "lucide-react";
+import { Button } from "../../../ui/button";
+import { Label } from "../../../ui/label";
+import { Skeleton } from "../../../ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { useOrderReceipts, useReceiptBranding } from "../../../../hooks/api/useOrderReceipt";
+import { fmtCurrency } from "../../../../lib/money";
+import {
+  RECEIPT_FORMATS,
+  buildPrintDocument,
+  printHtmlDocument,
+  type ReceiptFormat,
+  type ReceiptLabels,
+} from "../../../../lib/receipt-print";
+import type { OrderScope } from "../../../../services/orders.service";
+import type { OrderReceipt } from "../../../../types/order";
+
+const FORMAT_STORAGE_KEY = "fasket_receipt_format";
+
+const PREVIEW_WIDTH: Record<ReceiptFormat, string> = {
+  thermal58: "240px",
+  thermal80: "320px",
+  a4: "100%",
+};
+
+function storedFormat(): ReceiptFormat {
+  const value = localStorage.getItem(FORMAT_STORAGE_KEY) as ReceiptFormat | null;
+  return value && RECEIPT_FORMATS.includes(value) ? value : "thermal80";
+}
+
+type ReceiptPrintDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderIds: string[];
+  scope?: OrderScope;
+};
+
+export function ReceiptPrintDialog({ open, onOpenChange, orderIds, scope = "admin" }: ReceiptPrintDialogProps) {
+  const { t, i18n } = useTranslation();
+  const [format, setFormat] = useState<ReceiptFormat>(storedFormat);
+  const [lang, setLang] = useState<"en" | "ar">(i18n.language?.startsWith("ar") ? "ar" : "en");
+  const [printing, setPrinting] = useState(false);
+
+  const receiptQueries = useOrderReceipts(orderIds, { scope, enabled: open });
+  const { branding, isLoading: brandingLoading } = useReceiptBranding(scope, { enabled: open });
+  const loading = brandingLoading || receiptQueries.some((query) => query.isLoading);
+  const failed = receiptQueries.filter((query) => query.isError).length;
+  const receipts = receiptQueries
+    .map((query) => query.data)
+    .filter((receipt): receipt is OrderReceipt => Boolean(receipt));
+
+  useEffect(() => {
+    localStorage.setItem(FORMAT_STORAGE_KEY, format);
+  }, [format]);
+
+  const buildHtml = () => {
+    if (!receipts.length) return "";
+    const tl = i18n.getFixedT(lang);
+    const labels: ReceiptLabels = {
+      receipt: tl("orders.receipt", "Receipt"),
+      packingSlip: tl("orders.print.packing_slip", "Packing slip"),
+      order: tl("orders.code", "Order"),
+      date: tl("orders.print.date", "Date"),
+      customer: tl("orders.customer", "Customer"),
+      phone: tl("orders.phone", "Phone"),
+      address: tl("orders.address", "Address"),
+      zone: tl("orders.zone", "Zone"),
+      driver: tl("orders.driver", "Driver"),
+      notes: tl("orders.print.notes", "Notes"),
+      item: tl("orders.item", "Item"),
+      qty: tl("orders.qty", "Qty"),
+      total: tl("orders.total", "Total"),
+      subtotal: tl("orders.subtotal", "Subtotal"),
+      coupon: tl("orders.coupon", "Coupon discount"),
+      loyalty: tl("orders.loyalty", "Loyalty discount"),
+      shipping: tl("orders.shipping", "Shipping"),
+      picked: tl("orders.print.picked", "Picked"),
+      itemsCount: tl("orders.print.units", "Total units"),
+    };
+    const locale = lang === "ar" ? "ar-EG" : "en";
+    return buildPrintDocument(receipts, {
+      format,
+      lang,
+      dir: i18n.dir(lang),
+      labels,
+      branding,
+      formatMoney: (cents, currency) => fmtCurrency(cents, currency, locale),
+      formatDate: (iso) => dayjs(iso).format("YYYY-MM-DD HH:mm"),
+    });
+  };
+  const html = open ? buildHtml() : "";
+
+  const onPrint = async () => {
+    if (!html) return;
+    setPrinting(true);
+    try {
+      await printHtmlDocument(html);
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl w-[95vw]">
+        <DialogHeader>
+          <DialogTitle>{t("orders.print.title", "Print receipts")}</DialogTitle>
+          <DialogDescription>
+            {t("orders.print.description", {
+              defaultValue: "{{count}} orders selected. Use the browser print dialog to print or save as PDF.",
+              count: orderIds.length,
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label>{t("orders.print.format", "Format")}</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ReceiptFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECEIPT_FORMATS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {t(`orders.print.formats.${option}`, option)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>{t("orders.print.language", "Receipt language")}</Label>
+            <Select value={lang} onValueChange={(value) => setLang(value as "en" | "ar")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="en">English</SelectItem>
+                <SelectItem value="ar">العربية</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex justify-center rounded-md border bg-muted/40 p-3">
+          {loading ? (
+            <Skeleton className="h-[420px] w-full" />
+          ) : html ? (
+            <iframe
+              title={t("orders.print.preview", "Print preview")}
+              srcDoc={html}
+              className="h-[420px] rounded bg-white shadow-sm"
+              style={{ width: PREVIEW_WIDTH[format] }}
+            />
+          ) : (
+            <p className="py-12 text-sm text-muted-foreground">{t("orders.no_receipt", "No receipt available")}</p>
+          )}
+        </div>
+        {failed > 0 && (
+          <p className="text-xs text-red-600">
+            {t("orders.print.failed", {
+              defaultValue: "{{count}} receipts could not be loaded and will be skipped.",
+              count: failed,
+            })}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("app.actions.close", "Close")}
+          </Button>
+          <Button onClick={onPrint} disabled={!html || loading || printing}>
+            <Printer className="w-4 h-4 mr-1" />
+            {t("orders.print.print_count", { defaultValue: "Print {{count}}", count: receipts.length })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { AlarmClock, ArrowRight } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../../../ui/card";
+import { Badge } from "../../../ui/badge";
+import { Button } from "../../../ui/button";
+import { Skeleton } from "../../../ui/skeleton";
+import { formatSlaDuration, isSlaAtRisk, type SlaState } from "../../../../lib/order-sla";
+
+type SlaCountdownBadgeProps = {
+  state: SlaState;
+};
+
+export function SlaCountdownBadge({ state }: SlaCountdownBadgeProps) {
+  const { t } = useTranslation();
+  const duration = formatSlaDuration(state.remainingMs);
+  const title = t("orders.sla.threshold_hint", {
+    defaultValue: "{{status}} threshold: {{minutes}} min",
+    status: t(`orders.statuses.${state.order.status}`, { defaultValue: state.order.status }),
+    minutes: state.thresholdMinutes,
+  });
+  if (state.breached) {
+    return (
+      <Badge variant="outline" className="border-red-300 text-red-700" title={title}>
+        {t("orders.sla.overdue", { defaultValue: "Overdue {{time}}", time: duration })}
+      </Badge>
+    );
+  }
+  return (
+    <Badge
+      variant="outline"
+      className={isSlaAtRisk(state) ? "border-amber-300 text-amber-700" : "text-muted-foreground"}
+      title={title}
+    >
+      {t("orders.sla.remaining", { defaultValue: "{{time}} left", time: duration })}
+    </Badge>
+  );
+}
+
+type StuckOrdersPanelProps = {
+  states: SlaState[];
+  loading?: boolean;
+  limit?: number;
+  onOpenOrder: (orderId: string) => void;
+  onViewAll?: () => void;
+};
+
+/** Breached orders first, then those close to their threshold. */
+export function StuckOrdersPanel({ states, loading, limit = 6, onOpenOrder, onViewAll }: StuckOrdersPanelProps) {
+  const { t } = useTranslation();
+  const urgent = states.filter((state) => state.breached || isSlaAtRisk(state));
+  const breachedCount = urgent.filter((state) => state.breached).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <AlarmClock className="w-4 h-4" />
+          {t("orders.sla.panel_title", "Stuck orders")}
+          {breachedCount > 0 && <Badge className="bg-red-100 text-red-700">{breachedCount}</Badge>}
+        </CardTitle>
+        {onViewAll && urgent.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={onViewAll}>
+            {t("dashboard.viewOrders", "View orders")}
+            <ArrowRight className="w-4 h-4 ml-1" />
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loading ? (
+          <Skeleton className="h-24" />
+        ) : urgent.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("orders.sla.none", "All active orders are within their SLA.")}</p>
+        ) : (
+          urgent.slice(0, limit).map((state) => (
+            <button
+              key={state.order.id}
+              type="button"
+              onClick={() => onOpenOrder(state.order.id)}
+              className="flex w-full items-center justify-between gap-3 rounded-lg border p-3 text-left hover:bg-muted/60"
+            >
+              <div>
+                <p className="font-medium">#{state.order.code || state.order.id}</p>
+                <p className="text-xs text-muted-foreground">
+                  {t(`orders.statuses.${state.order.status}`, { defaultValue: state.order.status })}
+                  {" · "}
+                  {t("orders.sla.in_status", { defaultValue: "{{time}} in status", time: formatSlaDuration(state.ageMs) })}
+                </p>
+              </div>
+              <SlaCountdownBadge state={state} />
+            </button>
+          ))
+        )}
+        {urgent.length > limit && (
+          <p className="text-xs text-muted-foreground">
+            {t("orders.sla.more", { defaultValue: "+{{count}} more", count: urgent.length - limit })}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,10 +9,13 @@ import { Input } from "../../ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../../ui/dialog";
 import { Switch } from "../../ui/switch";
+import { Checkbox } from "../../ui/checkbox";
 import { AdminTableSkeleton } from "../common/AdminTableSkeleton";
 import { EmptyState } from "../common/EmptyState";
 import { ErrorState } from "../common/ErrorState";
-import { Search, Truck, Filter, RefreshCcw, Receipt, Clock, PhoneCall, MessageCircle, Shield, MapPin, Layers, MessageSquare } from "lucide-react";
+import { SavedViewsMenu } from "../common/SavedViewsMenu";
+import { TableExportButton } from "../common/TableExportButton";
+import { Search, Truck, Filter, RefreshCcw, Receipt, Clock, PhoneCall, MessageCircle, Shield, MapPin, Layers, MessageSquare, Radio, LayoutList, KanbanSquare, Map as MapIcon } from "lucide-react";
 import dayjs from "dayjs";
 import { toast } from "sonner";
 import { ORDERS_QUERY_KEY, useOrdersAdmin } from "../../../hooks/api/useOrdersAdmin";
@@ -21,6 +24,8 @@ import { useDeliveryDrivers } from "../../../hooks/api/useDeliveryDrivers";
 import { useAssignDriver } from "../../../hooks/api/useAssignDriver";
 import { useOrderReceipt } from "../../../hooks/api/useOrderReceipt";
 import { useProviders } from "../../../hooks/api/useProviders";
+import { useOrderStreamStatus, useOrdersPollInterval } from "../../../hooks/api/useOrderEvents";
+import { SLA_SCAN_PAGE_SIZE, useStuckOrders } from "../../../hooks/api/useOrderSla";
 import {
   cancelOrder,
   getOrder,
@@ -35,13 +40,41 @@ import { fetchAutomationEvents } from "../../../services/automation.service";
 import { fetchWhatsappLogs, formatWhatsappStatus, resendWhatsappLog } from "../../../services/whatsapp.service";
 import { getAdminErrorMessage } from "../../../lib/errors";
 import { usePermissions } from "../../../auth/permissions";
-import type { OrderDetail, OrderFilters, OrderStatus, OrderHistoryEntry, OrderTransition } from "../../../types/order";
+import type { OrderStatus, OrderHistoryEntry, OrderSummary, OrderTransition } from "../../../types/order";
 import { fmtCurrency } from "../../../lib/money";
 import { maskPhone } from "../../../lib/pii";
 import { redactPhoneNumbers, redactSensitiveText } from "../../../lib/redaction";
 import { useDebounce } from "../../../hooks/useDebounce";
+import { useListState } from "../../../hooks/useListState";
+import { listParam } from "../../../lib/list-state";
+import { orderExportColumns } from "../../../lib/export-columns";
+import { useNow } from "../../../hooks/useNow";
 import { OrderReceiptView } from "./OrderReceiptView";
 import { collectAllowedTargets, isTransitionAllowed } from "../../../lib/order-transitions";
+import { OrdersBoard } from "./Orders/OrdersBoard";
+import { OrdersBulkBar } from "./Orders/OrdersBulkBar";
+import { DeliveryTrackingView } from "./Orders/DeliveryTrackingView";
+import { DriverSuggestions } from "./Orders/DriverSuggestions";
+import { OrderTimeline } from "./Orders/OrderTimeline";
+import { SlaCountdownBadge, StuckOrdersPanel } from "./Orders/StuckOrdersPanel";
+import { evaluateSla, evaluateSlaEntries, isSlaAtRisk, statusEnteredAt, type SlaState } from "../../../lib/order-sla";
+
+type OrdersView = "table" | "board" | "map";
+
+const ORDERS_LIST_SCHEMA = {
+  view: listParam.oneOf<OrdersView>(["table", "board", "map"], "table"),
+  page: listParam.number(1, { min: 1 }),
+  customer: listParam.string(),
+  status: listParam.optionalString(),
+  providerId: listParam.optionalString(),
+  driverId: listParam.optionalString(),
+  hasDriver: listParam.optionalBoolean(),
+  from: listParam.optionalString(),
+  to: listParam.optionalString(),
+  stuckOnly: listParam.boolean(),
+};
+
+const BOARD_PAGE_SIZE = 100;
 
 type OrdersManagementProps = {
   initialOrderId?: string | null;
@@ -57,23 +90,21 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
   const [selectedOrderId, setSelectedOrderId] = useState<string | null>(initialOrderId ?? null);
   const [detailOpen, setDetailOpen] = useState<boolean>(Boolean(initialOrderId));
   const [receiptOpen, setReceiptOpen] = useState(false);
-  const [page, setPage] = useState(1);
-  const pageSize = 20;
+  // filters, page and view live in the URL so lists can be shared and saved as views
+  const {
+    state: filters,
+    setState: setFilters,
+    applyQuery,
+    query: listQuery,
+  } = useListState(ORDERS_LIST_SCHEMA, { screen: "orders" });
+  const { page, view, stuckOnly } = filters;
+  const pageSize = view === "board" ? BOARD_PAGE_SIZE : 20;
   const [driverSearch, setDriverSearch] = useState("");
   const [selectedDriverIdToAssign, setSelectedDriverIdToAssign] = useState<string>("");
 
-  const [filters, setFilters] = useState<OrderFilters>({
-    status: undefined,
-    from: undefined,
-    to: undefined,
-    customer: "",
-    driverId: undefined,
-    hasDriver: undefined,
-    providerId: undefined,
-    page,
-    pageSize,
-  });
-  const [stuckOnly, setStuckOnly] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const canBulk = perms.canUpdateOrders || perms.canAssignDriver || perms.canCancelOrder;
+  const tableGrid = canBulk ? "grid-cols-[2rem,1.2fr,1fr,1fr,1fr,0.8fr,0.8fr]" : "grid-cols-[1.2fr,1fr,1fr,1fr,0.8fr,0.8fr]";
 
   const debouncedCustomer = useDebounce(filters.customer || "", 300);
   const debouncedDriverSearch = useDebounce(driverSearch, 300);
@@ -98,23 +129,79 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
     [filters.driverId, filters.from, filters.status, filters.to, filters.providerId, filters.hasDriver, customerTerm, page, pageSize]
   );
 
-  const ordersQuery = isProvider ? useOrdersProvider(mergedFilters) : useOrdersAdmin(mergedFilters);
+  const streamStatus = useOrderStreamStatus(orderScope);
+  const pollInterval = useOrdersPollInterval(orderScope);
+  const listPolling = { refetchInterval: pollInterval, refetchIntervalInBackground: false };
+  const ordersQuery = isProvider ? useOrdersProvider(mergedFilters, listPolling) : useOrdersAdmin(mergedFilters, listPolling);
   const items = ordersQuery.data?.items || [];
   const total = ordersQuery.data?.total || 0;
   const pageCount = Math.max(1, Math.ceil(total / pageSize));
 
-  const isStuck = (order: OrderDetail | OrderFilters & any) => {
-    const updated = order.updatedAt || order.createdAt;
-    if (!updated) return false;
-    const minutes = dayjs().diff(dayjs(updated), "minute");
-    return minutes >= 30 && !["DELIVERED", "CANCELED", "DELIVERY_FAILED"].includes((order.status || "").toUpperCase());
+  const now = useNow();
+  // the scan covers every monitored status itself, so only the other list filters carry over
+  const slaFilters = useMemo(
+    () => ({
+      from: mergedFilters.from,
+      to: mergedFilters.to,
+      driverId: mergedFilters.driverId,
+      hasDriver: mergedFilters.hasDriver,
+      providerId: mergedFilters.providerId,
+      customer: mergedFilters.customer,
+    }),
+    [mergedFilters]
+  );
+  const sla = useStuckOrders({
+    scope: orderScope,
+    withHistory: perms.canViewHistory,
+    withWatcher: perms.canViewAutomation,
+    filters: slaFilters,
+  });
+  const slaStates = useMemo(() => evaluateSlaEntries(sla.entries, sla.thresholds, now), [sla.entries, sla.thresholds, now]);
+  const slaById = useMemo(() => new Map(slaStates.map((state) => [state.order.id, state])), [slaStates]);
+
+  // Orders outside the SLA scan (e.g. beyond its page size) are judged from their own timestamps
+  const slaFor = (order: OrderSummary): SlaState | null => {
+    const scanned = slaById.get(order.id);
+    if (scanned && scanned.order.status === order.status) return scanned;
+    return evaluateSla({ order, enteredAt: statusEnteredAt(order) }, sla.thresholds, now);
+  };
+
+  const isStuck = (order: OrderSummary) => Boolean(slaFor(order)?.breached);
+
+  const renderSlaBadge = (order: OrderSummary) => {
+    const state = slaFor(order);
+    return state && (state.breached || isSlaAtRisk(state)) ? <SlaCountdownBadge state={state} /> : null;
   };
 
   const visibleItems = useMemo(() => {
-    const base = stuckOnly ? items.filter((o) => isStuck(o)) : items;
-    const stuckFirst = [...base].sort((a, b) => Number(isStuck(b)) - Number(isStuck(a)));
-    return stuckFirst;
-  }, [items, stuckOnly]);
+    // stuck-only lists every breached order from the SLA scan rather than just the current page
+    if (stuckOnly) {
+      return slaStates
+        .filter((state) => state.breached && (!filters.status || state.order.status === filters.status))
+        .map((state) => state.order);
+    }
+    return [...items].sort((a, b) => Number(isStuck(b)) - Number(isStuck(a)));
+  }, [items, stuckOnly, slaStates, filters.status, slaById, sla.thresholds, now]);
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [mergedFilters, view]);
+
+  const selectedOrders = useMemo(() => visibleItems.filter((order) => selectedIds.has(order.id)), [visibleItems, selectedIds]);
+  const allVisibleSelected = visibleItems.length > 0 && selectedOrders.length === visibleItems.length;
+
+  const toggleSelected = (orderId: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(orderId);
+      else next.delete(orderId);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(visibleItems.map((order) => order.id)) : new Set());
+  };
 
   const driverFilters = useMemo(
     () => ({ isActive: true, search: debouncedDriverSearch || undefined, page: 1, pageSize: 100 }),
@@ -130,6 +217,7 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
     queryKey: [...ordersQueryKey, "detail", selectedOrderId],
     queryFn: () => (selectedOrderId ? getOrder(selectedOrderId, orderScope) : null),
     enabled: Boolean(selectedOrderId),
+    refetchInterval: detailOpen ? pollInterval : false,
   });
 
   const orderGroupId = detailQuery.data?.orderGroupId ?? null;
@@ -155,6 +243,7 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
     queryKey: [...ordersQueryKey, "history", selectedOrderId],
     queryFn: () => (selectedOrderId ? getOrderHistory(selectedOrderId, orderScope) : []),
     enabled: perms.canViewHistory && Boolean(selectedOrderId),
+    refetchInterval: detailOpen ? pollInterval : false,
   });
 
   const driverLocationQuery = useQuery({
@@ -217,14 +306,26 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
     formatWhatsappStatus(lastOutboundWhatsapp?.status) || lastOutboundWhatsapp?.status || t("common.not_available", "N/A");
 
   const assignDriverMutation = useAssignDriver(selectedOrderId || "");
+  // cancellations keep their own endpoint so the note and cancel rules apply
+  const moveOrderStatus = ({ id, to, note }: { id: string; to: OrderStatus; note?: string }) =>
+    to === "CANCELED" ? cancelOrder(id, note, orderScope) : updateOrderStatus(id, { to }, orderScope);
   const updateStatusMutation = useMutation({
-    mutationFn: ({ id, to }: { id: string; to: OrderStatus }) => updateOrderStatus(id, { to }, orderScope),
+    mutationFn: moveOrderStatus,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ordersQueryKey });
       queryClient.invalidateQueries({ queryKey: [...ordersQueryKey, "transitions", selectedOrderId] });
       queryClient.invalidateQueries({ queryKey: [...ordersQueryKey, "history", selectedOrderId] });
     },
   });
+  const boardMoveMutation = useMutation({
+    mutationFn: moveOrderStatus,
+    // the board reports failures itself and snaps the card back
+    meta: { silent: true },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ordersQueryKey });
+      queryClient.invalidateQueries({ queryKey: [...ordersQueryKey, "transitions", variables.id] });
+    },
+  });
   const cancelMutation = useMutation({
     mutationFn: ({ id, note }: { id: string; note?: string }) => cancelOrder(id, note, orderScope),
     onSuccess: () => {
@@ -350,14 +451,14 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
     setDetailOpen(true);
   };
 
-  const onAssignDriver = async () => {
-    if (!selectedOrderId || !selectedDriverIdToAssign) return;
+  const onAssignDriver = async (driverId = selectedDriverIdToAssign) => {
+    if (!selectedOrderId || !driverId) return;
     if (!perms.canAssignDriver) {
       toast.error(t("orders.permission.assign", "You do not have permission to assign drivers."));
       return;
     }
     try {
-      await assignDriverMutation.mutateAsync({ orderId: selectedOrderId, driverId: selectedDriverIdToAssign });
+      await assignDriverMutation.mutateAsync({ orderId: selectedOrderId, driverId });
       toast.success(t("orders.driverAssigned", "Driver assigned"));
       queryClient.invalidateQueries({ queryKey: ordersQueryKey });
       detailQuery.refetch();
@@ -387,6 +488,18 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
     }
   };
 
+  const resolveBoardTargets = async (order: OrderSummary) => {
+    const transitions = await queryClient.fetchQuery({
+      queryKey: [...ordersQueryKey, "transitions", order.id],
+      queryFn: () => getOrderTransitions(order.id, orderScope),
+      staleTime: 30_000,
+    });
+    return collectAllowedTargets(undefined, transitions as OrderTransition[]);
+  };
+
+  const onBoardMove = (order: OrderSummary, to: OrderStatus, note?: string) =>
+    boardMoveMutation.mutateAsync({ id: order.id, to, note });
+
   const onCancelOrder = async () => {
     if (!selectedOrderId) return;
     if (!perms.canCancelOrder) {
@@ -403,20 +516,8 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
     }
   };
 
-  const resetFilters = () => {
-    setFilters({
-      status: undefined,
-      from: undefined,
-      to: undefined,
-      customer: "",
-      driverId: undefined,
-      hasDriver: undefined,
-      providerId: undefined,
-      page,
-      pageSize,
-    });
-    setPage(1);
-  };
+  // keeps the current view (table/board/map), clears everything else
+  const resetFilters = () => applyQuery(view === "table" ? "" : `view=${view}`);
 
   return (
     <div className="p-4 lg:p-6 space-y-4">
@@ -425,7 +526,57 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
           <h1 className="text-2xl font-semibold">{t("orders.title", "Orders")}</h1>
           <p className="text-muted-foreground">{t("orders.subtitle", "Track and manage customer orders")}</p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border">
+            <Button
+              variant={view === "table" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setFilters({ view: "table", page: 1 })}
+              title={t("orders.view_table", "Table")}
+            >
+              <LayoutList className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={view === "board" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setFilters({ view: "board", page: 1 })}
+              title={t("orders.view_board", "Board")}
+            >
+              <KanbanSquare className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={view === "map" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setFilters({ view: "map" })}
+              title={t("orders.view_map", "Live map")}
+            >
+              <MapIcon className="w-4 h-4" />
+            </Button>
+          </div>
+          <Badge
+            variant="outline"
+            className={streamStatus === "open" ? "border-green-300 text-green-700" : "text-muted-foreground"}
+            title={
+              streamStatus === "open"
+                ? undefined
+                : t("orders.live_fallback_hint", "Live updates unavailable; refreshing every 15 seconds")
+            }
+          >
+            <Radio className="w-3 h-3 mr-1" />
+            {streamStatus === "open"
+              ? t("orders.live", "Live")
+              : streamStatus === "connecting"
+                ? t("orders.live_connecting", "Connecting...")
+                : t("orders.live_polling", "Polling")}
+          </Badge>
+          <TableExportButton
+            filename="orders"
+            title={t("orders.title", "Orders")}
+            columns={orderExportColumns({ canViewPII: perms.canViewPII })}
+            fetchPage={(exportPage, exportPageSize) =>
+              listOrders({ ...mergedFilters, page: exportPage, pageSize: exportPageSize }, orderScope)
+            }
+          />
           <Button variant="outline" onClick={() => ordersQuery.refetch()}>
             <RefreshCcw className="w-4 h-4 mr-2" />
             {t("common.refresh", "Refresh")}
@@ -448,18 +599,12 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
                 className="pl-8"
                 placeholder={t("orders.searchCustomer", "Search by customer or code")}
                 value={filters.customer}
-                onChange={(e) => {
-                  setPage(1);
-                  setFilters((prev) => ({ ...prev, customer: e.target.value }));
-                }}
+                onChange={(e) => setFilters({ customer: e.target.value, page: 1 })}
               />
             </div>
             <Select
               value={filters.status || "all"}
-              onValueChange={(val) => {
-                setPage(1);
-                setFilters((prev) => ({ ...prev, status: val === "all" ? undefined : (val as OrderStatus) }));
-              }}
+              onValueChange={(val) => setFilters({ status: val === "all" ? undefined : val, page: 1 })}
             >
               <SelectTrigger>
                 <SelectValue placeholder={t("orders.status_filter", "Status")} />
@@ -476,10 +621,7 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
             {!isProvider && (
               <Select
                 value={filters.providerId || "all"}
-                onValueChange={(val) => {
-                  setPage(1);
-                  setFilters((prev) => ({ ...prev, providerId: val === "all" ? undefined : val }));
-                }}
+                onValueChange={(val) => setFilters({ providerId: val === "all" ? undefined : val, page: 1 })}
               >
                 <SelectTrigger>
                   <SelectValue placeholder={t("orders.provider_filter", "Vendor")} />
@@ -497,14 +639,13 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
             {!isProvider && (
               <Select
                 value={driverAssignmentValue}
-                onValueChange={(val) => {
-                  setPage(1);
+                onValueChange={(val) =>
                   setFilters((prev) => ({
-                    ...prev,
                     hasDriver: val === "assigned" ? true : val === "unassigned" ? false : undefined,
                     driverId: val === "unassigned" ? undefined : prev.driverId,
-                  }));
-                }}
+                    page: 1,
+                  }))
+                }
               >
                 <SelectTrigger>
                   <SelectValue placeholder={t("orders.driverAssignment", "Driver assignment")} />
@@ -519,14 +660,13 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
             {!isProvider && (
               <Select
                 value={filters.driverId || "all"}
-                onValueChange={(val) => {
-                  setPage(1);
+                onValueChange={(val) =>
                   setFilters((prev) => ({
-                    ...prev,
                     driverId: val === "all" ? undefined : val,
                     hasDriver: val === "all" ? prev.hasDriver : true,
-                  }));
-                }}
+                    page: 1,
+                  }))
+                }
                 disabled={filters.hasDriver === false}
               >
                 <SelectTrigger>
@@ -546,26 +686,63 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
               <Switch
                 id="stuckOnly"
                 checked={stuckOnly}
-                onCheckedChange={(checked) => {
-                  setPage(1);
-                  setStuckOnly(Boolean(checked));
-                }}
+                onCheckedChange={(checked) => setFilters({ stuckOnly: Boolean(checked), page: 1 })}
               />
               <label htmlFor="stuckOnly" className="text-sm flex items-center gap-1">
                 <Clock className="w-4 h-4" />
-                {t("orders.stuckOnly", "Stuck > 30m")}
+                {t("orders.stuckOnly", "Past SLA only")}
               </label>
             </div>
-            <Button variant="outline" className="w-full md:w-auto" onClick={resetFilters}>
-              {t("common.resetFilters", "Reset filters")}
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1 md:flex-none" onClick={resetFilters}>
+                {t("common.resetFilters", "Reset filters")}
+              </Button>
+              <SavedViewsMenu screen="orders" query={listQuery} onApply={applyQuery} />
+            </div>
           </div>
         </CardContent>
       </Card>
 
+      {slaStates.some((state) => state.breached || isSlaAtRisk(state)) && (
+        <StuckOrdersPanel
+          states={slaStates}
+          onOpenOrder={openDetail}
+          onViewAll={
+            stuckOnly
+              ? undefined
+              : () => setFilters({ stuckOnly: true, page: 1 })
+          }
+        />
+      )}
+
+      {canBulk && view === "table" && (
+        <OrdersBulkBar
+          orders={selectedOrders}
+          scope={orderScope}
+          canUpdate={perms.canUpdateOrders}
+          canAssignDriver={perms.canAssignDriver && !isProvider}
+          canCancel={perms.canCancelOrder}
+          onClear={() => setSelectedIds(new Set())}
+          onSelect={(orderIds) => setSelectedIds(new Set(orderIds))}
+          onCompleted={() => {
+            setSelectedIds(new Set());
+            queryClient.invalidateQueries({ queryKey: ordersQueryKey });
+          }}
+        />
+      )}
+
       <Card>
         <CardContent className="p-0">
-          <div className="hidden md:grid grid-cols-[1.2fr,1fr,1fr,1fr,0.8fr,0.8fr] text-xs font-medium text-muted-foreground px-4 py-2 border-b">
+          <div
+            className={`${view === "table" ? "hidden md:grid" : "hidden"} ${tableGrid} items-center text-xs font-medium text-muted-foreground px-4 py-2 border-b`}
+          >
+            {canBulk && (
+              <Checkbox
+                checked={allVisibleSelected}
+                onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                aria-label={t("orders.bulk.select_all", "Select all on this page")}
+              />
+            )}
             <span>{t("orders.code", "Code")}</span>
             <span>{t("orders.customer", "Customer")}</span>
             <span>{t("orders.createdAt", "Created")}</span>
@@ -573,7 +750,9 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
             <span>{t("orders.driver", "Driver")}</span>
             <span className="text-right">{t("orders.status", "Status")}</span>
           </div>
-          {ordersQuery.isLoading ? (
+          {view === "map" ? (
+            <DeliveryTrackingView scope={orderScope} onOpen={openDetail} />
+          ) : ordersQuery.isLoading ? (
             <div className="p-4">
               <AdminTableSkeleton rows={5} columns={6} />
             </div>
@@ -582,13 +761,35 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
               message={getAdminErrorMessage(ordersQuery.error, t, t("orders.loadError", "Unable to load orders"))}
               onRetry={() => ordersQuery.refetch()}
             />
-          ) : items.length === 0 ? (
+          ) : visibleItems.length === 0 ? (
             <div className="p-4">
               <EmptyState
                 title={t("orders.empty", "No orders found")}
                 description={t("orders.emptyDesc", "Try changing the filters")}
               />
             </div>
+          ) : view === "board" ? (
+            <>
+              <OrdersBoard
+                orders={visibleItems}
+                statusMeta={statusBadge}
+                canMove={perms.canUpdateOrders}
+                canCancel={perms.canCancelOrder}
+                resolveAllowedTargets={resolveBoardTargets}
+                onMove={onBoardMove}
+                onOpen={openDetail}
+                isStuck={isStuck}
+              />
+              {total > visibleItems.length && (
+                <p className="px-4 py-3 border-t text-xs text-muted-foreground">
+                  {t("orders.board_truncated", {
+                    defaultValue: "Showing {{shown}} of {{total}} orders. Narrow the filters to see the rest.",
+                    shown: visibleItems.length,
+                    total,
+                  })}
+                </p>
+              )}
+            </>
           ) : (
             <>
               <div className="hidden md:block">
@@ -602,10 +803,19 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
                       return (
                         <div
                           key={order.id}
-                          className="grid grid-cols-[1.2fr,1fr,1fr,1fr,0.8fr,0.8fr] px-4 py-3 border-b hover:bg-muted/60 cursor-pointer"
+                          className={`grid ${tableGrid} px-4 py-3 border-b hover:bg-muted/60 cursor-pointer ${selectedIds.has(order.id) ? "bg-muted/40" : ""}`}
                           style={{ position: "absolute", top: 0, left: 0, width: "100%", transform: `translateY(${virtualRow.start}px)` }}
                           onClick={() => openDetail(order.id)}
                         >
+                          {canBulk && (
+                            <div onClick={(event) => event.stopPropagation()}>
+                              <Checkbox
+                                checked={selectedIds.has(order.id)}
+                                onCheckedChange={(checked) => toggleSelected(order.id, checked === true)}
+                                aria-label={t("orders.bulk.select_order", { defaultValue: "Select order {{code}}", code: order.code || order.id })}
+                              />
+                            </div>
+                          )}
                           <div className="font-semibold">{order.code || order.id}</div>
                           <div className="space-y-0.5">
                             <p className="font-medium">{order.customer?.name}</p>
@@ -626,7 +836,7 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
                           </div>
                           <div className="text-right">
                             <div className="flex items-center justify-end gap-2">
-                              {isStuck(order) && <Badge variant="outline">{t("orders.stuck", "Stuck")}</Badge>}
+                              {renderSlaBadge(order)}
                               <Badge className={meta.color}>{meta.label}</Badge>
                             </div>
                           </div>
@@ -651,9 +861,20 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
                       className="rounded-lg border bg-card shadow-sm p-3 focus:outline-none focus:ring-2 focus:ring-primary/60"
                     >
                       <div className="flex items-start justify-between gap-3">
-                        <div>
-                          <p className="font-semibold">#{order.code || order.id}</p>
-                          <p className="text-xs text-muted-foreground">{dayjs(order.createdAt).format("DD MMM HH:mm")}</p>
+                        <div className="flex items-start gap-2">
+                          {canBulk && (
+                            <div className="pt-0.5" onClick={(event) => event.stopPropagation()} onKeyDown={(event) => event.stopPropagation()}>
+                              <Checkbox
+                                checked={selectedIds.has(order.id)}
+                                onCheckedChange={(checked) => toggleSelected(order.id, checked === true)}
+                                aria-label={t("orders.bulk.select_order", { defaultValue: "Select order {{code}}", code: order.code || order.id })}
+                              />
+                            </div>
+                          )}
+                          <div>
+                            <p className="font-semibold">#{order.code || order.id}</p>
+                            <p className="text-xs text-muted-foreground">{dayjs(order.createdAt).format("DD MMM HH:mm")}</p>
+                          </div>
                         </div>
                         <Badge className={meta.color}>{meta.label}</Badge>
                       </div>
@@ -674,29 +895,41 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
                             {driverPhone ? ` - ${driverPhone}` : ""}
                           </span>
                         </div>
-                        {isStuck(order) && (
-                          <div className="col-span-2">
-                            <Badge variant="outline">{t("orders.stuck", "Stuck > 30m")}</Badge>
-                          </div>
-                        )}
+                        {renderSlaBadge(order) && <div className="col-span-2">{renderSlaBadge(order)}</div>}
                       </div>
                     </div>
                   );
                 })}
               </div>
-              <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between px-4 py-3 border-t text-sm text-muted-foreground">
-                <div>
-                  {t("common.pagination.label", { defaultValue: "Page {{page}} of {{count}}", page, count: pageCount })}
-                </div>
-                <div className="flex flex-wrap gap-2 sm:justify-end">
-                  <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))}>
-                    {t("common.prev", "Prev")}
-                  </Button>
-                  <Button size="sm" variant="outline" disabled={page >= pageCount} onClick={() => setPage((p) => Math.min(pageCount, p + 1))}>
-                    {t("common.next", "Next")}
-                  </Button>
+              {stuckOnly ? (
+                <p className="px-4 py-3 border-t text-xs text-muted-foreground">
+                  {sla.truncated
+                    ? t("orders.sla.stuck_only_truncated", {
+                        defaultValue:
+                          "Showing {{count}} orders past their SLA from the first {{limit}} orders of each status. Narrow the filters to see the rest.",
+                        count: visibleItems.length,
+                        limit: SLA_SCAN_PAGE_SIZE,
+                      })
+                    : t("orders.sla.stuck_only_hint", {
+                        defaultValue: "Showing all {{count}} orders past their SLA across every page.",
+                        count: visibleItems.length,
+                      })}
+                </p>
+              ) : (
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between px-4 py-3 border-t text-sm text-muted-foreground">
+                  <div>
+                    {t("common.pagination.label", { defaultValue: "Page {{page}} of {{count}}", page, count: pageCount })}
+                  </div>
+                  <div className="flex flex-wrap gap-2 sm:justify-end">
+                    <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setFilters((prev) => ({ page: Math.max(1, prev.page - 1) }))}>
+                      {t("common.prev", "Prev")}
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={page >= pageCount} onClick={() => setFilters((prev) => ({ page: Math.min(pageCount, prev.page + 1) }))}>
+                      {t("common.next", "Next")}
+                    </Button>
+                  </div>
                 </div>
-              </div>
+              )}
             </>
           )}
         </CardContent>
@@ -811,7 +1044,7 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
                       </Select>
                       <div className="flex items-center gap-2">
                         <Button
-                          onClick={onAssignDriver}
+                          onClick={() => onAssignDriver()}
                           disabled={!selectedDriverIdToAssign || assignDriverMutation.isPending || assignNotAllowed}
                         >
                           {assignDriverMutation.isPending
@@ -822,6 +1055,18 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
                           {t("common.refresh", "Refresh")}
                         </Button>
                       </div>
+                      {!isProvider && !assignNotAllowed && (
+                        <DriverSuggestions
+                          order={detailQuery.data}
+                          disabled={assignDriverMutation.isPending}
+                          assigningId={
+                            assignDriverMutation.isPending && typeof assignDriverMutation.variables === "object"
+                              ? assignDriverMutation.variables.driverId
+                              : null
+                          }
+                          onAssign={(driverId) => onAssignDriver(driverId)}
+                        />
+                      )}
                       {assignNotAllowed && (
                         <p className="text-xs text-orange-600">
                           {t("orders.assignDriverDisabled", "Driver assignment is blocked for completed or canceled orders.")}
@@ -852,7 +1097,7 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
                     </Button>
                   </CardHeader>
                   <CardContent>
-                    <OrderReceiptView receipt={receiptQuery.data || null} isLoading={receiptQuery.isLoading} />
+                    <OrderReceiptView receipt={receiptQuery.data || null} isLoading={receiptQuery.isLoading} scope={orderScope} />
                   </CardContent>
                 </Card>
 
@@ -1097,39 +1342,50 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
                   <CardHeader>
                   <CardTitle className="text-sm flex items-center gap-2">
                     <Clock className="w-4 h-4" />
-                    {t("orders.history", "Status history")}
+                    {t("orders.timeline.title", "Timeline")}
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  {!perms.canViewHistory ? (
-                    <p className="text-sm text-muted-foreground">{t("orders.permission.history", "You do not have permission to view history.")}</p>
-                  ) : historyQuery.isLoading ? (
-                      <AdminTableSkeleton rows={3} columns={2} />
-                    ) : historyQuery.isError ? (
-                      <ErrorState
-                        message={getAdminErrorMessage(historyQuery.error, t, t("orders.history_error", "Unable to load history"))}
-                        onRetry={() => historyQuery.refetch()}
-                      />
-                    ) : (historyQuery.data || []).length ? (
-                      <ul className="space-y-2">
-                        {(historyQuery.data as OrderHistoryEntry[]).map((entry) => (
-                          <li key={entry.id} className="flex items-start justify-between gap-3">
-                            <div>
-                              <p className="font-medium text-sm">
-                                {entry.from ? `${entry.from} -> ${entry.to}` : entry.to}
-                              </p>
-                              {entry.note && <p className="text-xs text-muted-foreground">{entry.note}</p>}
-                            </div>
-                            <div className="text-xs text-muted-foreground text-right">
-                              <p>{dayjs(entry.at).format("DD MMM HH:mm")}</p>
-                              {entry.actor && <p>{entry.actor}</p>}
-                            </div>
-                          </li>
-                        ))}
-                      </ul>
-                    ) : (
-                      <EmptyState title={t("orders.no_history", "No history yet")} />
-                    )}
+                  <OrderTimeline
+                    orderCode={detailQuery.data.code}
+                    history={
+                      perms.canViewHistory
+                        ? {
+                            items: historyQuery.data as OrderHistoryEntry[] | undefined,
+                            loading: historyQuery.isLoading,
+                            error: historyQuery.isError
+                              ? getAdminErrorMessage(historyQuery.error, t, t("orders.history_error", "Unable to load history"))
+                              : null,
+                            onRetry: () => historyQuery.refetch(),
+                          }
+                        : undefined
+                    }
+                    automation={
+                      perms.canViewAutomation
+                        ? {
+                            items: automationItems,
+                            loading: automationLoading,
+                            error: automationError ? getAdminErrorMessage(automationError, t) : null,
+                            onRetry: () => {
+                              automationQuery.refetch();
+                              fallbackAutomationQuery.refetch();
+                            },
+                          }
+                        : undefined
+                    }
+                    whatsapp={
+                      perms.canViewSupport
+                        ? {
+                            items: whatsappLogs,
+                            loading: whatsappLogsQuery.isLoading,
+                            error: whatsappLogsQuery.isError
+                              ? getAdminErrorMessage(whatsappLogsQuery.error, t, t("whatsapp.logs_error", "Failed to load WhatsApp logs"))
+                              : null,
+                            onRetry: () => whatsappLogsQuery.refetch(),
+                          }
+                        : undefined
+                    }
+                  />
                   </CardContent>
                 </Card>
 
@@ -1173,7 +1429,7 @@ export function OrdersManagement({ initialOrderId }: OrdersManagementProps) {
           <DialogHeader>
             <DialogTitle>{t("orders.receipt", "Receipt")}</DialogTitle>
           </DialogHeader>
-          <OrderReceiptView receipt={receiptQuery.data || null} isLoading={receiptQuery.isLoading} />
+          <OrderReceiptView receipt={receiptQuery.data || null} isLoading={receiptQuery.isLoading} scope={orderScope} />
         </DialogContent>
       </Dialog>
     </div>
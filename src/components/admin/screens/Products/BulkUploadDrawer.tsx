@@ -0,0 +1,614 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowLeft, Download, Trash2 } from "lucide-react";
+import { Badge } from "../../../ui/badge";
+import { Button } from "../../../ui/button";
+import { Card, CardContent } from "../../../ui/card";
+import { Input } from "../../../ui/input";
+import { Switch } from "../../../ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../ui/table";
+import { downloadProductsBulkTemplate, uploadProductsBulk } from "../../../../services/products.service";
+import { listCategories } from "../../../../services/categories.service";
+import { CATEGORIES_QUERY_KEY } from "../../../../hooks/api/useCategoriesAdmin";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import { downloadBlob } from "../../../../lib/download";
+import { fetchAllPages } from "../../../../lib/table-export";
+import { readSpreadsheet } from "../../../../lib/spreadsheet-read";
+import {
+  IMPORT_FIELDS,
+  guessMapping,
+  missingRequiredFields,
+  rowsToCsv,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRow,
+} from "../../../../lib/product-import";
+
+type BulkRowStatus = { row: number | string; status: "success" | "failed"; message?: string; name?: string };
+type BulkUploadResult = {
+  created: number;
+  updated: number;
+  skipped?: number;
+  dryRun?: boolean;
+  rows?: BulkRowStatus[];
+  errors?: { row: number | string; message: string; name?: string }[];
+};
+
+type BulkUploadDrawerProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCompleted: () => void;
+};
+
+type Step = "file" | "map" | "review";
+
+const PREVIEW_PAGE_SIZE = 50;
+const IGNORE = "__ignore";
+
+export function BulkUploadDrawer({ open, onOpenChange, onCompleted }: BulkUploadDrawerProps) {
+  const { t } = useTranslation();
+  const [step, setStep] = useState<Step>("file");
+  const [file, setFile] = useState<File | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [onlyIssues, setOnlyIssues] = useState(false);
+  const [page, setPage] = useState(1);
+  const [prepared, setPrepared] = useState<{ file: File; rows: ImportRow[] } | null>(null);
+  const [result, setResult] = useState<BulkUploadResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<"parse" | "dryRun" | "upload" | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setStep("file");
+      setFile(null);
+      setHeaders([]);
+      setRows([]);
+      setMapping([]);
+      setOnlyIssues(false);
+      setPage(1);
+      setPrepared(null);
+      setResult(null);
+      setError(null);
+      setBusy(null);
+    }
+  }, [open]);
+
+  // Every category, so names, slugs and ids in the sheet can be checked locally
+  const categoriesQuery = useQuery({
+    queryKey: [...CATEGORIES_QUERY_KEY, "import-lookup"] as const,
+    queryFn: () => fetchAllPages((pageNumber, pageSize) => listCategories({ page: pageNumber, pageSize })),
+    enabled: open && step !== "file",
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const issues = useMemo(
+    () => (step === "review" ? validateImportRows(rows, mapping, categoriesQuery.data ?? null) : {}),
+    [step, rows, mapping, categoriesQuery.data]
+  );
+  const issueCount = Object.keys(issues).length;
+  const missingFields = missingRequiredFields(mapping);
+  const mappedColumns = IMPORT_FIELDS.map((def) => ({ ...def, index: mapping.indexOf(def.field) })).filter(
+    (column) => column.index >= 0
+  );
+
+  const visible = useMemo(() => {
+    const indexed = rows.map((row, index) => ({ row, index }));
+    return onlyIssues ? indexed.filter(({ index }) => issues[index]) : indexed;
+  }, [rows, issues, onlyIssues]);
+  const totalPages = Math.max(1, Math.ceil(visible.length / PREVIEW_PAGE_SIZE));
+  const pageRows = visible.slice((page - 1) * PREVIEW_PAGE_SIZE, page * PREVIEW_PAGE_SIZE);
+
+  useEffect(() => {
+    if (page > totalPages) setPage(totalPages);
+  }, [page, totalPages]);
+
+  const invalidate = () => {
+    setPrepared(null);
+    setResult(null);
+  };
+
+  const handleFile = async (next: File | null) => {
+    setFile(next);
+    setError(null);
+    invalidate();
+    if (!next) return;
+    setBusy("parse");
+    try {
+      const sheet = await readSpreadsheet(next);
+      const [headerRow = [], ...dataRows] = sheet;
+      const data = dataRows
+        .map((cells, index) => ({ rowNumber: index + 2, cells }))
+        .filter((row) => row.cells.some((cell) => cell));
+      if (!headerRow.length || !data.length) {
+        setError(t("products.bulkImport.emptyFile", "The file has no product rows"));
+        return;
+      }
+      setHeaders(headerRow);
+      setRows(data);
+      setMapping(guessMapping(headerRow));
+      setPage(1);
+      setStep("map");
+    } catch {
+      setError(t("products.bulkImport.parseError", "Unable to read this file. Use the template as CSV or XLSX."));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const setColumnField = (columnIndex: number, field: ImportField | null) =>
+    setMapping((prev) =>
+      // A field maps to one column; picking it elsewhere frees the old column
+      prev.map((current, index) => (index === columnIndex ? field : field && current === field ? null : current))
+    );
+
+  const updateCell = (rowIndex: number, columnIndex: number, value: string) => {
+    invalidate();
+    setRows((prev) =>
+      prev.map((row, index) => {
+        if (index !== rowIndex) return row;
+        const cells = [...row.cells];
+        while (cells.length <= columnIndex) cells.push("");
+        cells[columnIndex] = value;
+        return { ...row, cells };
+      })
+    );
+  };
+
+  const removeRows = (predicate: (index: number) => boolean) => {
+    invalidate();
+    setRows((prev) => prev.filter((_, index) => !predicate(index)));
+  };
+
+  const runDryRun = async () => {
+    if (!categoriesQuery.data) return;
+    const baseName = (file?.name || "products").replace(/\.[^.]+$/, "");
+    const prepared = {
+      file: new File([rowsToCsv(rows, mapping, categoriesQuery.data)], `${baseName}-checked.csv`, { type: "text/csv" }),
+      rows,
+    };
+    setBusy("dryRun");
+    setError(null);
+    try {
+      const res = await uploadBulkFile(prepared.file, { dryRun: true });
+      setPrepared(prepared);
+      setResult(withSourceRows(res, prepared.rows));
+    } catch (err) {
+      const message = getAdminErrorMessage(err, t, t("products.bulkImport.error", "Upload failed"));
+      setError(message);
+      toast.error(message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!prepared) return;
+    setBusy("upload");
+    setError(null);
+    try {
+      const res = await uploadBulkFile(prepared.file);
+      setResult(withSourceRows(res, prepared.rows));
+      toast.success(t("products.bulkImport.success", "Bulk upload complete"));
+      onCompleted();
+    } catch (err) {
+      const message = getAdminErrorMessage(err, t, t("products.bulkImport.error", "Upload failed"));
+      setError(message);
+      toast.error(message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const resultRows = useMemo(() => {
+    if (result?.rows?.length) return result.rows;
+    if (result?.errors?.length) {
+      return result.errors.map((item) => ({ row: item.row, status: "failed" as const, message: item.message, name: item.name }));
+    }
+    return [] as BulkRowStatus[];
+  }, [result]);
+  const dryRunFailed = Boolean(result?.dryRun && resultRows.some((row) => row.status === "failed"));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className={step === "review" ? "max-w-6xl w-[95vw] max-h-[90vh] overflow-y-auto" : "max-w-3xl w-[95vw]"}>
+        <DialogHeader>
+          <DialogTitle>{t("products.importExcel", "Import products from Excel")}</DialogTitle>
+          <DialogDescription>
+            {step === "file"
+              ? t("products.bulkImport.instructions1", "Download the template, fill it, then upload the file.")
+              : step === "map"
+              ? t("products.bulkImport.mapInstructions", "Match each column of your file to a product field.")
+              : t("products.bulkImport.reviewInstructions", "Fix the highlighted cells, then check the file with the server before importing.")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "file" && (
+          <div className="space-y-5">
+            <div className="flex flex-wrap gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                className="gap-2"
+                onClick={async () => {
+                  try {
+                    const { blob, filename } = await downloadProductsBulkTemplate();
+                    downloadBlob(blob, filename || "products-template.xlsx");
+                    toast.success(t("products.bulkImport.templateDownloaded", "Template downloaded"));
+                  } catch (err) {
+                    toast.error(
+                      getAdminErrorMessage(err, t, t("products.bulkImport.templateError", "Unable to download template"))
+                    );
+                  }
+                }}
+              >
+                <Download className="w-4 h-4" />
+                {t("products.bulkImport.downloadTemplate", "Download template")}
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => inputRef.current?.click()}>
+                {t("products.bulkImport.chooseFile", "Choose file")}
+              </Button>
+              <input
+                ref={inputRef}
+                type="file"
+                accept=".xlsx,.csv"
+                className="hidden"
+                onChange={(event) => {
+                  handleFile(event.target.files?.[0] || null);
+                  event.target.value = "";
+                }}
+              />
+            </div>
+
+            <div
+              className="border-2 border-dashed rounded-lg p-6 text-center"
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={(event) => {
+                event.preventDefault();
+                const next = event.dataTransfer.files?.[0];
+                if (next) handleFile(next);
+              }}
+            >
+              {busy === "parse" ? (
+                <p className="text-sm text-muted-foreground">{t("products.bulkImport.reading", "Reading file...")}</p>
+              ) : file ? (
+                <div>
+                  <p className="font-medium">{file.name}</p>
+                  <p className="text-xs text-muted-foreground">{(file.size / 1024).toFixed(1)} KB</p>
+                </div>
+              ) : (
+                <p className="text-muted-foreground text-sm">
+                  {t("products.bulkImport.dropzone", "Drag & drop your Excel file here")}
+                </p>
+              )}
+            </div>
+
+            {error && <div className="text-sm text-rose-600 bg-rose-50 rounded-md p-3">{error}</div>}
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {t("products.bulkImport.rowsFound", { defaultValue: "{{count}} rows in {{name}}", count: rows.length, name: file?.name })}
+            </p>
+            <div className="max-h-[50vh] overflow-y-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("products.bulkImport.column", "Column in file")}</TableHead>
+                    <TableHead>{t("products.bulkImport.sample", "Sample")}</TableHead>
+                    <TableHead>{t("products.bulkImport.field", "Product field")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {headers.map((header, index) => (
+                    <TableRow key={`${header}-${index}`}>
+                      <TableCell className="font-medium">{header || `#${index + 1}`}</TableCell>
+                      <TableCell className="max-w-[200px] truncate text-xs text-muted-foreground">
+                        {rows.find((row) => row.cells[index])?.cells[index] ?? ""}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={mapping[index] ?? IGNORE}
+                          onValueChange={(value) => setColumnField(index, value === IGNORE ? null : (value as ImportField))}
+                        >
+                          <SelectTrigger className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={IGNORE}>{t("products.bulkImport.ignore", "Don't import")}</SelectItem>
+                            {IMPORT_FIELDS.map((def) => (
+                              <SelectItem key={def.field} value={def.field}>
+                                {t(def.labelKey, def.label)}
+                                {def.required ? " *" : ""}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {missingFields.length > 0 && (
+              <div className="text-sm text-amber-700 bg-amber-50 rounded-md p-3">
+                {t("products.bulkImport.missingFields", "Map the required fields:")}{" "}
+                {missingFields
+                  .map((field) => {
+                    const def = IMPORT_FIELDS.find((item) => item.field === field)!;
+                    return t(def.labelKey, def.label);
+                  })
+                  .join(", ")}
+              </div>
+            )}
+            <div className="flex gap-3">
+              <Button type="button" variant="outline" className="gap-2" onClick={() => setStep("file")}>
+                <ArrowLeft className="w-4 h-4" />
+                {t("products.bulkImport.chooseFile", "Choose file")}
+              </Button>
+              <Button type="button" className="flex-1" disabled={missingFields.length > 0} onClick={() => setStep("review")}>
+                {t("products.bulkImport.review", "Review rows")}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "review" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <Badge variant="secondary">{t("products.bulkImport.rowsCount", { defaultValue: "{{count}} rows", count: rows.length })}</Badge>
+              <Badge className={issueCount ? "bg-rose-100 text-rose-700" : "bg-emerald-100 text-emerald-700"}>
+                {issueCount
+                  ? t("products.bulkImport.rowsWithIssues", { defaultValue: "{{count}} rows need fixes", count: issueCount })
+                  : t("products.bulkImport.allValid", "All rows look valid")}
+              </Badge>
+              {categoriesQuery.isLoading && (
+                <span className="text-xs text-muted-foreground">{t("products.bulkImport.loadingCategories", "Loading categories...")}</span>
+              )}
+              {categoriesQuery.isError && (
+                <span className="flex items-center gap-2 text-xs text-rose-600">
+                  {t("products.bulkImport.categoriesUnavailable", {
+                    defaultValue: "Categories could not be loaded, so the rows cannot be checked yet: {{message}}",
+                    message: getAdminErrorMessage(categoriesQuery.error, t),
+                  })}
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    disabled={categoriesQuery.isFetching}
+                    onClick={() => categoriesQuery.refetch()}
+                  >
+                    {t("app.actions.retry", "Retry")}
+                  </Button>
+                </span>
+              )}
+              <label className="ms-auto flex items-center gap-2">
+                <Switch
+                  checked={onlyIssues}
+                  onCheckedChange={(checked) => {
+                    setOnlyIssues(checked);
+                    setPage(1);
+                  }}
+                />
+                {t("products.bulkImport.onlyIssues", "Only rows with issues")}
+              </label>
+              {issueCount > 0 && (
+                <Button type="button" size="sm" variant="outline" onClick={() => removeRows((index) => Boolean(issues[index]))}>
+                  {t("products.bulkImport.dropInvalid", "Skip rows with issues")}
+                </Button>
+              )}
+            </div>
+
+            <div className="overflow-x-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("products.bulkImport.row", "Row")}</TableHead>
+                    {mappedColumns.map((column) => (
+                      <TableHead key={column.field}>{t(column.labelKey, column.label)}</TableHead>
+                    ))}
+                    <TableHead>{t("products.bulkImport.message", "Message")}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pageRows.map(({ row, index }) => {
+                    const rowIssues = issues[index] ?? [];
+                    return (
+                      <TableRow key={row.rowNumber} className={rowIssues.length ? "bg-rose-50/50" : ""}>
+                        <TableCell className="text-xs text-muted-foreground">{row.rowNumber}</TableCell>
+                        {mappedColumns.map((column) => (
+                          <TableCell key={column.field} className="p-1">
+                            <Input
+                              className={`h-8 min-w-[90px] text-xs ${
+                                rowIssues.some((issue) => issue.field === column.field) ? "border-rose-400" : ""
+                              }`}
+                              value={row.cells[column.index] ?? ""}
+                              onChange={(event) => updateCell(index, column.index, event.target.value)}
+                            />
+                          </TableCell>
+                        ))}
+                        <TableCell className="min-w-[160px] text-xs text-rose-600">
+                          {rowIssues.map((issue) => t(`products.bulkImport.issues.${issue.code}`)).join(" · ")}
+                        </TableCell>
+                        <TableCell className="p-1">
+                          <Button
+                            type="button"
+                            size="icon"
+                            variant="ghost"
+                            aria-label={t("app.actions.remove", "Remove")}
+                            onClick={() => removeRows((candidate) => candidate === index)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-end gap-2 text-sm">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))}>
+                  {t("app.actions.prev")}
+                </Button>
+                <span className="text-muted-foreground">
+                  {page}/{totalPages}
+                </span>
+                <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage((p) => Math.min(totalPages, p + 1))}>
+                  {t("app.actions.next")}
+                </Button>
+              </div>
+            )}
+
+            {error && <div className="text-sm text-rose-600 bg-rose-50 rounded-md p-3">{error}</div>}
+
+            <div className="flex flex-wrap gap-3">
+              <Button type="button" variant="outline" className="gap-2" disabled={Boolean(busy)} onClick={() => setStep("map")}>
+                <ArrowLeft className="w-4 h-4" />
+                {t("products.bulkImport.mapping", "Column mapping")}
+              </Button>
+              <Button
+                type="button"
+                variant={prepared ? "outline" : "default"}
+                className="flex-1"
+                disabled={issueCount > 0 || !rows.length || !categoriesQuery.data || Boolean(busy)}
+                onClick={runDryRun}
+              >
+                {busy === "dryRun"
+                  ? t("products.bulkImport.checking", "Checking...")
+                  : t("products.bulkImport.dryRun", "Check with server (dry run)")}
+              </Button>
+              <Button
+                type="button"
+                className="flex-1"
+                disabled={!prepared || !result?.dryRun || dryRunFailed || Boolean(busy)}
+                onClick={handleUpload}
+              >
+                {busy === "upload"
+                  ? t("products.bulkImport.uploading", "Uploading...")
+                  : t("products.bulkImport.startUpload", "Start upload")}
+              </Button>
+            </div>
+
+            {result && (
+              <div className="space-y-3">
+                {result.dryRun && (
+                  <p className="text-sm text-muted-foreground">
+                    {dryRunFailed
+                      ? t("products.bulkImport.dryRunFailed", "The server rejected some rows. Fix them above and check again.")
+                      : t("products.bulkImport.dryRunPassed", "Dry run passed. Nothing was saved yet.")}
+                  </p>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                  <Card>
+                    <CardContent className="p-4">
+                      <p className="text-xs text-muted-foreground">{t("products.bulkImport.created", "Created")}</p>
+                      <p className="text-2xl font-semibold text-emerald-600">{result.created}</p>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="p-4">
+                      <p className="text-xs text-muted-foreground">{t("products.bulkImport.updated", "Updated")}</p>
+                      <p className="text-2xl font-semibold text-blue-600">{result.updated}</p>
+                    </CardContent>
+                  </Card>
+                </div>
+
+                <div className="border rounded-lg max-h-72 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t("products.bulkImport.row", "Row")}</TableHead>
+                        <TableHead>{t("products.bulkImport.product", "Product")}</TableHead>
+                        <TableHead>{t("products.bulkImport.status", "Status")}</TableHead>
+                        <TableHead>{t("products.bulkImport.message", "Message")}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {resultRows.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-center text-muted-foreground">
+                            {t("products.bulkImport.noRows", "No row details provided")}
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        resultRows.map((row, index) => (
+                          <TableRow key={`${row.row}-${index}`}>
+                            <TableCell>{row.row}</TableCell>
+                            <TableCell>{row.name || "--"}</TableCell>
+                            <TableCell>
+                              <Badge className={row.status === "success" ? "bg-emerald-100 text-emerald-700" : "bg-rose-100 text-rose-700"}>
+                                {row.status === "success"
+                                  ? t("products.bulkImport.successRow", "Success")
+                                  : t("products.bulkImport.failedRow", "Failed")}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground">{row.message || "--"}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * The server numbers rows of the checked CSV (header = row 1); map them back to the row numbers
+ * of the user's original file so skipped rows don't shift the references.
+ */
+function withSourceRows(result: BulkUploadResult, sent: ImportRow[]): BulkUploadResult {
+  const source = (row: number | string) => {
+    const numeric = Number(row);
+    return Number.isInteger(numeric) ? sent[numeric - 2]?.rowNumber ?? row : row;
+  };
+  return {
+    ...result,
+    rows: result.rows?.map((row) => ({ ...row, row: source(row.row) })),
+    errors: result.errors?.map((item) => ({ ...item, row: source(item.row) })),
+  };
+}
+
+async function uploadBulkFile(file: File, options?: { dryRun?: boolean }): Promise<BulkUploadResult> {
+  const payload = await uploadProductsBulk(file, options);
+  const rows =
+    payload.rows?.map((row, index) => ({
+      row: row.row ?? row.rowNumber ?? index + 1,
+      status: ((row.status || "").toLowerCase() === "failed" ? "failed" : "success") as BulkRowStatus["status"],
+      message: row.errorMessage || row.message,
+      name: row.name,
+    })) ?? [];
+  const errors =
+    payload.errors?.map((error) => ({
+      row: error.row,
+      code: error.code,
+      message: error.message,
+    })) ?? [];
+  return {
+    created: payload.created ?? 0,
+    updated: payload.updated ?? 0,
+    skipped: payload.skipped ?? 0,
+    dryRun: payload.dryRun,
+    rows,
+    errors,
+  };
+}
@@ -0,0 +1,246 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Edit, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../../../ui/card";
+import { Button } from "../../../ui/button";
+import { Badge } from "../../../ui/badge";
+import { Progress } from "../../../ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../ui/table";
+import { AdminTableSkeleton } from "../../common/AdminTableSkeleton";
+import { EmptyState } from "../../common/EmptyState";
+import { ErrorState } from "../../common/ErrorState";
+import { useCatalogAudit, CATALOG_AUDIT_MAX } from "../../../../hooks/api/useCatalogAudit";
+import type { InventoryScope } from "../../../../services/inventory.service";
+import { AUDIT_ISSUES, scoreBand, type AuditIssue } from "../../../../lib/catalog-audit";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import type { Product } from "../../../../services/products.service";
+
+type ProviderOption = { id: string; name: string; nameAr?: string | null };
+
+type CatalogAuditPanelProps = {
+  scope: InventoryScope;
+  /** Admin only: enables the provider filter and the per-provider scores */
+  providers?: ProviderOption[];
+  onEdit: (product: Product) => void;
+  onClose?: () => void;
+};
+
+const PAGE_STEP = 50;
+
+export const scoreStyles = {
+  good: "bg-emerald-100 text-emerald-700",
+  fair: "bg-amber-100 text-amber-700",
+  poor: "bg-rose-100 text-rose-700",
+} as const;
+
+/** Completeness scores with one bucket per fixable issue; each row opens the product editor. */
+export function CatalogAuditPanel({ scope, providers, onEdit, onClose }: CatalogAuditPanelProps) {
+  const { t, i18n } = useTranslation();
+  const isArabic = i18n.language?.startsWith("ar");
+  const [providerId, setProviderId] = useState("all");
+  const [issue, setIssue] = useState<AuditIssue | "all">("all");
+  const [visible, setVisible] = useState(PAGE_STEP);
+  const { audit, truncated, isLoading, isError, error, refetch } = useCatalogAudit(scope, {
+    providerId: providerId === "all" ? undefined : providerId,
+  });
+
+  const providerName = useMemo(() => {
+    const names = new Map((providers ?? []).map((provider) => [provider.id, isArabic && provider.nameAr ? provider.nameAr : provider.name]));
+    return (id: string) => names.get(id);
+  }, [providers, isArabic]);
+
+  const rows = useMemo(
+    () => (issue === "all" ? audit.rows.filter((row) => row.issues.length) : audit.buckets[issue]),
+    [audit, issue]
+  );
+  const flagged = audit.rows.filter((row) => row.issues.length).length;
+  const band = scoreBand(audit.score);
+
+  const selectIssue = (next: AuditIssue | "all") => {
+    setIssue(next);
+    setVisible(PAGE_STEP);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-base">
+            {t("audit.title", "Catalog quality")}
+            {!isLoading && <Badge className={scoreStyles[band]}>{audit.score}%</Badge>}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {t("audit.subtitle", {
+              defaultValue: "{{flagged}} of {{count}} products need attention.",
+              flagged,
+              count: audit.rows.length,
+            })}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {providers && (
+            <Select
+              value={providerId}
+              onValueChange={(value) => {
+                setProviderId(value);
+                setVisible(PAGE_STEP);
+              }}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder={t("providers.title", "Provider")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t("common.all")}</SelectItem>
+                {providers.map((provider) => (
+                  <SelectItem key={provider.id} value={provider.id}>
+                    {isArabic && provider.nameAr ? provider.nameAr : provider.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {onClose && (
+            <Button variant="ghost" size="sm" className="gap-1" onClick={onClose}>
+              <X className="w-4 h-4" />
+              {t("app.actions.close", "Close")}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <AdminTableSkeleton rows={5} columns={4} />
+        ) : isError ? (
+          <ErrorState message={getAdminErrorMessage(error, t)} onRetry={() => refetch()} />
+        ) : (
+          <>
+            {truncated && (
+              <p className="text-xs text-amber-700">
+                {t("audit.truncated", { defaultValue: "Only the first {{count}} products were checked.", count: CATALOG_AUDIT_MAX })}
+              </p>
+            )}
+            <Progress value={audit.score} />
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant={issue === "all" ? "secondary" : "outline"} onClick={() => selectIssue("all")}>
+                {t("audit.allIssues", "All issues")} ({flagged})
+              </Button>
+              {AUDIT_ISSUES.map(({ id }) => (
+                <Button
+                  key={id}
+                  size="sm"
+                  variant={issue === id ? "secondary" : "outline"}
+                  disabled={!audit.buckets[id].length}
+                  aria-pressed={issue === id}
+                  onClick={() => selectIssue(id)}
+                >
+                  {t(`audit.issues.${id}`)} ({audit.buckets[id].length})
+                </Button>
+              ))}
+            </div>
+
+            {!rows.length ? (
+              <EmptyState
+                title={t("audit.empty", "Nothing to fix here")}
+                description={t("audit.emptyHint", "Every checked product passes this check.")}
+              />
+            ) : (
+              <div className="overflow-x-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("products.product")}</TableHead>
+                      <TableHead className="w-20 text-end">{t("audit.score", "Score")}</TableHead>
+                      <TableHead>{t("audit.issuesColumn", "Missing")}</TableHead>
+                      <TableHead className="w-20" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.slice(0, visible).map((row) => (
+                      <TableRow key={row.product.id}>
+                        <TableCell>
+                          <p className="font-medium">{isArabic && row.product.nameAr ? row.product.nameAr : row.product.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {[row.product.sku, providers && row.product.providerId ? providerName(row.product.providerId) : null]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-end">
+                          <Badge className={scoreStyles[scoreBand(row.score)]}>{row.score}%</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {row.issues.map((item) => (
+                              <Badge key={item} variant="outline" className="text-[11px]">
+                                {t(`audit.issues.${item}`)}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Button size="sm" variant="outline" className="h-8 gap-1" onClick={() => onEdit(row.product)}>
+                            <Edit className="w-3 h-3" />
+                            {t("audit.fix", "Fix")}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {rows.length > visible && (
+                  <div className="border-t p-2 text-center">
+                    <Button variant="ghost" size="sm" onClick={() => setVisible((value) => value + PAGE_STEP)}>
+                      {t("audit.showMore", { defaultValue: "Show more ({{count}} left)", count: rows.length - visible })}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {providers && providerId === "all" && audit.byProvider.length > 1 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">{t("audit.byProvider", "Score by provider")}</p>
+                <div className="overflow-x-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t("providers.title", "Provider")}</TableHead>
+                        <TableHead className="text-end">{t("audit.products", "Products")}</TableHead>
+                        <TableHead className="text-end">{t("audit.score", "Score")}</TableHead>
+                        <TableHead>{t("audit.topIssue", "Most common gap")}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {audit.byProvider.map((quality) => {
+                        const top = AUDIT_ISSUES.map(({ id }) => id)
+                          .filter((id) => quality.issues[id])
+                          .sort((a, b) => (quality.issues[b] ?? 0) - (quality.issues[a] ?? 0))[0];
+                        return (
+                          <TableRow
+                            key={quality.providerId || "none"}
+                            className={quality.providerId ? "cursor-pointer" : ""}
+                            onClick={() => quality.providerId && setProviderId(quality.providerId)}
+                          >
+                            <TableCell>{(quality.providerId && providerName(quality.providerId)) || t("lowStock.noProvider", "No provider")}</TableCell>
+                            <TableCell className="text-end tabular-nums">{quality.products}</TableCell>
+                            <TableCell className="text-end">
+                              <Badge className={scoreStyles[scoreBand(quality.score)]}>{quality.score}%</Badge>
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {top ? `${t(`audit.issues.${top}`)} (${quality.issues[top]})` : "—"}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,49 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { Badge } from "../../../ui/badge";
+import { AdminTableSkeleton } from "../../common/AdminTableSkeleton";
+import { ErrorState } from "../../common/ErrorState";
+import { useProductCostHistory } from "../../../../hooks/api/useProductCosts";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import { fmtCurrency } from "../../../../lib/money";
+import { costAt, sortCostHistory } from "../../../../lib/product-cost";
+
+export function CostHistoryList({ productId }: { productId: string }) {
+  const { t } = useTranslation();
+  const historyQuery = useProductCostHistory(productId);
+  const entries = sortCostHistory(historyQuery.data ?? []);
+  const current = costAt(entries);
+  const now = Date.now();
+
+  if (historyQuery.isLoading) return <AdminTableSkeleton rows={2} columns={3} />;
+  if (historyQuery.isError) {
+    return <ErrorState message={getAdminErrorMessage(historyQuery.error, t)} onRetry={() => historyQuery.refetch()} />;
+  }
+  if (!entries.length) {
+    return <p className="text-xs text-muted-foreground">{t("products.cost.no_history", "No cost recorded yet.")}</p>;
+  }
+
+  return (
+    <ul className="max-h-40 divide-y overflow-y-auto rounded-md border text-sm">
+      {entries.map((entry) => {
+        const scheduled = new Date(entry.effectiveFrom).getTime() > now;
+        return (
+          <li key={entry.id} className="flex items-center justify-between gap-2 px-3 py-1.5">
+            <div className="min-w-0">
+              <p className="font-medium">{fmtCurrency(entry.costCents)}</p>
+              <p className="truncate text-xs text-muted-foreground">
+                {[entry.note, entry.createdBy?.name].filter(Boolean).join(" · ") || " "}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              {entry.id === current?.id && <Badge variant="secondary">{t("products.cost.current", "Current")}</Badge>}
+              {scheduled && <Badge variant="outline">{t("products.cost.scheduled", "Scheduled")}</Badge>}
+              <span className="text-xs text-muted-foreground">{dayjs(entry.effectiveFrom).format("DD MMM YYYY")}</span>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
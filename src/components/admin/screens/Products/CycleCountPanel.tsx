@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../../../ui/card";
+import { Button } from "../../../ui/button";
+import { Input } from "../../../ui/input";
+import { Switch } from "../../../ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../ui/table";
+import { AdminTableSkeleton } from "../../common/AdminTableSkeleton";
+import { EmptyState } from "../../common/EmptyState";
+import { ErrorState } from "../../common/ErrorState";
+import { PRODUCTS_QUERY_KEY } from "../../../../hooks/api/useProductsAdmin";
+import { PROVIDER_PRODUCTS_QUERY_KEY } from "../../../../hooks/api/useProductsProvider";
+import { STOCK_MOVEMENTS_QUERY_KEY } from "../../../../hooks/api/useStockMovements";
+import { DASHBOARD_SUMMARY_KEY } from "../../../../hooks/api/useDashboardAdmin";
+import { submitCycleCount, type InventoryScope } from "../../../../services/inventory.service";
+import type { Paged, Product } from "../../../../services/products.service";
+import { countLines, countVariances, parseQuantity } from "../../../../lib/inventory";
+import { fetchAllPages } from "../../../../lib/table-export";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+
+type CycleCountPanelProps = {
+  /** Identifies the product filters being counted; changes reload the sheet */
+  filterKey: unknown;
+  fetchPage: (page: number, pageSize: number) => Promise<Paged<Product>>;
+  scope: InventoryScope;
+  categoryName: (id: string) => string | undefined;
+  onClose: () => void;
+};
+
+// A count sheet is walked shelf by shelf; narrow the filters rather than loading the whole catalog
+const MAX_LINES = 1000;
+
+/** Count sheet for the filtered products: enter what is on the shelf and submit only the variances. */
+export function CycleCountPanel({ filterKey, fetchPage, scope, categoryName, onClose }: CycleCountPanelProps) {
+  const { t, i18n } = useTranslation();
+  const isArabic = i18n.language?.startsWith("ar");
+  const queryClient = useQueryClient();
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [note, setNote] = useState("");
+  const [onlyVariances, setOnlyVariances] = useState(false);
+  const [conflicts, setConflicts] = useState<Set<string>>(new Set());
+
+  const query = useQuery({
+    queryKey: [...(scope === "provider" ? PROVIDER_PRODUCTS_QUERY_KEY : PRODUCTS_QUERY_KEY), "cycle-count", filterKey] as const,
+    queryFn: () => fetchAllPages(fetchPage, { maxRows: MAX_LINES }),
+    staleTime: 0,
+  });
+  const products = query.data ?? [];
+  const lines = useMemo(() => countLines(products), [products]);
+  const categoryByProduct = useMemo(() => new Map(products.map((product) => [product.id, product.categoryId])), [products]);
+  const summary = useMemo(() => countVariances(lines, counts), [lines, counts]);
+  const dirty = Object.values(counts).some((value) => value.trim());
+
+  const visibleLines = onlyVariances
+    ? lines.filter((line) => {
+        const counted = parseQuantity(counts[line.key] ?? "");
+        return counted !== null && counted !== line.expectedStock;
+      })
+    : lines;
+
+  const submitMutation = useMutation({
+    mutationFn: () => submitCycleCount({ lines: summary.lines, note }, scope),
+    onSuccess: (result) => {
+      const conflictKeys = new Set(
+        (result.conflicts ?? []).map((conflict) => (conflict.variantId ? `${conflict.productId}:${conflict.variantId}` : conflict.productId))
+      );
+      toast.success(t("inventory.count.submitted", { defaultValue: "{{count}} stock lines corrected", count: result.adjusted }));
+      if (conflictKeys.size) {
+        toast.warning(
+          t("inventory.count.conflicts", {
+            defaultValue: "{{count}} lines changed while counting; recount them",
+            count: conflictKeys.size,
+          })
+        );
+      }
+      // Keep the conflicting counts on screen so they can be checked against the refreshed stock
+      setCounts((prev) => Object.fromEntries(Object.entries(prev).filter(([key]) => conflictKeys.has(key))));
+      setConflicts(conflictKeys);
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: PROVIDER_PRODUCTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: STOCK_MOVEMENTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: DASHBOARD_SUMMARY_KEY });
+    },
+    onError: (error) => toast.error(getAdminErrorMessage(error, t, t("inventory.count.submitFailed", "Unable to submit the count"))),
+  });
+
+  const handleSubmit = () => {
+    if (!summary.lines.length || summary.invalid.length) return;
+    const message = t("inventory.count.confirm", {
+      defaultValue: "Apply {{count}} stock corrections (+{{over}} / -{{short}} units)?",
+      count: summary.lines.length,
+      over: summary.unitsOver,
+      short: summary.unitsShort,
+    });
+    if (window.confirm(message)) submitMutation.mutate();
+  };
+
+  const handleClose = () => {
+    if (dirty && !window.confirm(t("inventory.count.leaveConfirm", "Discard the entered counts?"))) return;
+    onClose();
+  };
+
+  return (
+    <Card className="border-sky-200">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="text-base">
+            {t("inventory.count.title", "Cycle count")} ({lines.length})
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {t("inventory.count.subtitle", "Enter what is on the shelf. Blank lines are skipped; only differences are submitted.")}
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" className="gap-1" onClick={handleClose}>
+          <X className="w-4 h-4" />
+          {t("app.actions.close", "Close")}
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        {query.isLoading ? (
+          <div className="p-4">
+            <AdminTableSkeleton rows={6} columns={5} />
+          </div>
+        ) : query.isError ? (
+          <ErrorState message={getAdminErrorMessage(query.error, t)} onRetry={() => query.refetch()} />
+        ) : !lines.length ? (
+          <div className="p-4">
+            <EmptyState
+              title={t("inventory.count.empty", "No products to count")}
+              description={t("inventory.count.emptyHint", "Adjust the filters to pick a shelf or category.")}
+            />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 border-b px-4 py-3 text-sm">
+              <span>
+                {t("inventory.count.progress", { defaultValue: "{{counted}} of {{total}} counted", counted: summary.counted, total: lines.length })}
+              </span>
+              <span className="text-emerald-600">+{summary.unitsOver}</span>
+              <span className="text-rose-600">-{summary.unitsShort}</span>
+              {summary.invalid.length > 0 && (
+                <span className="text-rose-600">
+                  {t("inventory.count.invalid", { defaultValue: "{{count}} invalid quantities", count: summary.invalid.length })}
+                </span>
+              )}
+              {products.length >= MAX_LINES && (
+                <span className="text-amber-600">{t("inventory.count.truncated", "Only the first 1000 products are loaded; narrow the filters.")}</span>
+              )}
+              <label className="ms-auto flex items-center gap-2">
+                <Switch checked={onlyVariances} onCheckedChange={setOnlyVariances} />
+                {t("inventory.count.onlyVariances", "Only differences")}
+              </label>
+            </div>
+            <div className="max-h-[60vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("products.product")}</TableHead>
+                    <TableHead>{t("products.category")}</TableHead>
+                    <TableHead className="text-end">{t("inventory.count.expected", "Expected")}</TableHead>
+                    <TableHead className="w-32">{t("inventory.count.counted", "Counted")}</TableHead>
+                    <TableHead className="text-end">{t("inventory.count.variance", "Variance")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleLines.map((line) => {
+                    const text = counts[line.key] ?? "";
+                    const counted = parseQuantity(text);
+                    const invalid = Boolean(text.trim()) && counted === null;
+                    const variance = counted === null ? null : counted - line.expectedStock;
+                    const categoryId = categoryByProduct.get(line.productId);
+                    return (
+                      <TableRow key={line.key} className={conflicts.has(line.key) ? "bg-amber-50" : undefined}>
+                        <TableCell>
+                          <p className="font-medium">{isArabic && line.nameAr ? line.nameAr : line.name}</p>
+                          <p className="text-xs text-muted-foreground">{[line.variantLabel, line.sku].filter(Boolean).join(" · ")}</p>
+                        </TableCell>
+                        <TableCell className="text-sm">{(categoryId && categoryName(categoryId)) || "—"}</TableCell>
+                        <TableCell className="text-end tabular-nums">{line.expectedStock}</TableCell>
+                        <TableCell>
+                          <Input
+                            inputMode="numeric"
+                            value={text}
+                            aria-invalid={invalid}
+                            className={invalid ? "border-rose-500" : undefined}
+                            aria-label={t("inventory.count.counted", "Counted")}
+                            onChange={(event) => setCounts((prev) => ({ ...prev, [line.key]: event.target.value }))}
+                          />
+                        </TableCell>
+                        <TableCell
+                          className={`text-end font-medium tabular-nums ${
+                            !variance ? "text-muted-foreground" : variance > 0 ? "text-emerald-600" : "text-rose-600"
+                          }`}
+                        >
+                          {variance === null ? "—" : variance > 0 ? `+${variance}` : variance}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex flex-col gap-2 border-t p-3 sm:flex-row sm:items-center">
+              <Input
+                className="sm:max-w-sm"
+                value={note}
+                placeholder={t("inventory.count.notePlaceholder", "Note, e.g. aisle 3 monthly count")}
+                onChange={(event) => setNote(event.target.value)}
+              />
+              <div className="flex gap-2 sm:ms-auto">
+                <Button variant="outline" disabled={!dirty || submitMutation.isPending} onClick={() => setCounts({})}>
+                  {t("inventory.count.clear", "Clear counts")}
+                </Button>
+                <Button disabled={!summary.lines.length || summary.invalid.length > 0 || submitMutation.isPending} onClick={handleSubmit}>
+                  {submitMutation.isPending
+                    ? t("common.saving", "Saving...")
+                    : t("inventory.count.submit", { defaultValue: "Submit {{count}} corrections", count: summary.lines.length })}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { Button } from "../../../ui/button";
+import { Label } from "../../../ui/label";
+import { Slider } from "../../../ui/slider";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { CROP_RATIOS, cropOutputSize, cropRect, type CropRatioId } from "../../../../lib/product-gallery";
+
+export type CropSource = {
+  url: string;
+  /** The original file when it was picked in this session; avoids a cross-origin fetch */
+  file?: File;
+};
+
+type ImageCropDialogProps = {
+  source: CropSource | null;
+  onOpenChange: (open: boolean) => void;
+  onCropped: (file: File) => void;
+};
+
+const PREVIEW_MAX = 360;
+
+function loadImage(src: string, crossOrigin: boolean) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    if (crossOrigin) img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+}
+
+/** Crops an image to one of the fixed catalog ratios and hands back a new file for upload. */
+export function ImageCropDialog({ source, onOpenChange, onCropped }: ImageCropDialogProps) {
+  const { t } = useTranslation();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [ratioId, setRatioId] = useState<CropRatioId>("1:1");
+  const [zoom, setZoom] = useState(1);
+  const [position, setPosition] = useState({ x: 0.5, y: 0.5 });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setImage(null);
+    setFailed(false);
+    setZoom(1);
+    setPosition({ x: 0.5, y: 0.5 });
+    if (!source) return;
+    let cancelled = false;
+    const objectUrl = source.file ? URL.createObjectURL(source.file) : null;
+    loadImage(objectUrl ?? source.url, !objectUrl)
+      .then((img) => !cancelled && setImage(img))
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [source]);
+
+  const ratio = CROP_RATIOS.find((item) => item.id === ratioId)?.value ?? 1;
+  const rect = useMemo(
+    () => (image ? cropRect({ width: image.naturalWidth, height: image.naturalHeight }, ratio, { zoom, ...position }) : null),
+    [image, ratio, zoom, position]
+  );
+  const outputSize = rect ? cropOutputSize(rect) : null;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !image || !rect) return;
+    const scale = PREVIEW_MAX / Math.max(rect.width, rect.height);
+    canvas.width = Math.round(rect.width * scale);
+    canvas.height = Math.round(rect.height * scale);
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+  }, [image, rect]);
+
+  const handleApply = async () => {
+    if (!image || !rect || !outputSize || !source) return;
+    setSaving(true);
+    try {
+      const canvas = document.createElement("canvas");
+      canvas.width = outputSize.width;
+      canvas.height = outputSize.height;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Canvas not supported");
+      ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, outputSize.width, outputSize.height);
+      const type = source.file?.type === "image/png" ? "image/png" : "image/jpeg";
+      // toBlob throws on a canvas tainted by an image served without CORS headers
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.9));
+      if (!blob) throw new Error("Empty crop");
+      const baseName = (source.file?.name || source.url.split("/").pop() || "image").replace(/\.[^.]+$/, "");
+      onCropped(new File([blob], `${baseName}-${ratioId.replace(":", "x")}.${type === "image/png" ? "png" : "jpg"}`, { type }));
+    } catch {
+      toast.error(t("products.images.cropFailed", "This image can't be cropped here. Download it and upload it again."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(source)} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("products.images.cropTitle", "Crop image")}</DialogTitle>
+          <DialogDescription>{t("products.images.cropHint", "Pick a ratio, then zoom and move the frame.")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex min-h-48 items-center justify-center rounded-md bg-muted">
+          {failed ? (
+            <p className="p-6 text-center text-sm text-rose-600">{t("products.images.cropLoadFailed", "Unable to load the image")}</p>
+          ) : image ? (
+            <canvas ref={canvasRef} className="max-h-[360px] max-w-full" />
+          ) : (
+            <p className="text-sm text-muted-foreground">{t("app.loading", "Loading...")}</p>
+          )}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label>{t("products.images.ratio", "Aspect ratio")}</Label>
+            <Select value={ratioId} onValueChange={(value) => setRatioId(value as CropRatioId)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CROP_RATIOS.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.id}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t("products.images.zoom", "Zoom")}</Label>
+            <Slider min={1} max={3} step={0.05} value={[zoom]} onValueChange={([value]) => setZoom(value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>{t("products.images.horizontal", "Horizontal position")}</Label>
+            <Slider min={0} max={1} step={0.01} value={[position.x]} onValueChange={([x]) => setPosition((prev) => ({ ...prev, x }))} />
+          </div>
+          <div className="space-y-2">
+            <Label>{t("products.images.vertical", "Vertical position")}</Label>
+            <Slider min={0} max={1} step={0.01} value={[position.y]} onValueChange={([y]) => setPosition((prev) => ({ ...prev, y }))} />
+          </div>
+        </div>
+        {outputSize && (
+          <p className="text-xs text-muted-foreground tabular-nums">
+            {outputSize.width} × {outputSize.height}px
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            {t("app.actions.cancel")}
+          </Button>
+          <Button type="button" onClick={handleApply} disabled={!image || saving}>
+            {saving ? t("common.saving", "Saving...") : t("products.images.applyCrop", "Crop and upload")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { Download, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../../../ui/card";
+import { Button } from "../../../ui/button";
+import { Badge } from "../../../ui/badge";
+import { Input } from "../../../ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../ui/table";
+import { AdminTableSkeleton } from "../../common/AdminTableSkeleton";
+import { EmptyState } from "../../common/EmptyState";
+import { ErrorState } from "../../common/ErrorState";
+import { useLowStockReport } from "../../../../hooks/api/useLowStock";
+import type { InventoryScope } from "../../../../services/inventory.service";
+import { groupByProvider, type LowStockRow } from "../../../../lib/low-stock";
+import { parseQuantity } from "../../../../lib/inventory";
+import { purchaseListExportColumns } from "../../../../lib/export-columns";
+import { buildExportBlob, type ExportFormat } from "../../../../lib/table-export";
+import { downloadBlob } from "../../../../lib/download";
+import { fmtCurrency } from "../../../../lib/money";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import { StockAdjustDialog, type StockTarget } from "./StockAdjustDialog";
+
+type ProviderOption = { id: string; name: string; nameAr?: string | null };
+
+type LowStockPanelProps = {
+  scope: InventoryScope;
+  /** Admin only: enables the provider filter and groups the report by provider */
+  providers?: ProviderOption[];
+  /** Show this many rows until expanded (vendor dashboard) */
+  limit?: number;
+  onClose?: () => void;
+};
+
+const sourceStyles = {
+  product: "bg-sky-100 text-sky-700",
+  category: "bg-violet-100 text-violet-700",
+  default: "bg-muted text-muted-foreground",
+} as const;
+
+/** Products at or below their threshold with a suggested order quantity, exportable as a purchase list. */
+export function LowStockPanel({ scope, providers, limit, onClose }: LowStockPanelProps) {
+  const { t, i18n } = useTranslation();
+  const isArabic = i18n.language?.startsWith("ar");
+  const [providerId, setProviderId] = useState("all");
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [expanded, setExpanded] = useState(false);
+  const [receiveTarget, setReceiveTarget] = useState<StockTarget | null>(null);
+  const report = useLowStockReport(scope, { providerId: providerId === "all" ? undefined : providerId });
+
+  const providerName = useMemo(() => {
+    const names = new Map((providers ?? []).map((provider) => [provider.id, isArabic && provider.nameAr ? provider.nameAr : provider.name]));
+    return (id: string) => names.get(id);
+  }, [providers, isArabic]);
+
+  // Edited quantities replace the suggestion in the totals and the export
+  const rows = useMemo(
+    () =>
+      report.rows.map((row): LowStockRow => {
+        const edited = parseQuantity(quantities[row.product.id] ?? "");
+        return edited === null ? row : { ...row, suggestedQty: edited };
+      }),
+    [report.rows, quantities]
+  );
+  const grouped = Boolean(providers) && providerId === "all";
+  const groups = useMemo(() => {
+    const all: Array<[string, LowStockRow[]]> = grouped ? [...groupByProvider(rows)] : [["", rows]];
+    let remaining = limit && !expanded ? limit : Infinity;
+    return all
+      .map(([id, groupRows]) => {
+        const visible = groupRows.slice(0, Math.max(0, remaining));
+        remaining -= visible.length;
+        return { id, rows: groupRows, visible };
+      })
+      .filter((group) => group.visible.length);
+  }, [grouped, rows, limit, expanded]);
+
+  const handleExport = (format: ExportFormat) => {
+    const orderRows = rows.filter((row) => row.suggestedQty > 0);
+    if (!orderRows.length) {
+      toast.info(t("lowStock.nothingToOrder", "Nothing to order"));
+      return;
+    }
+    const columns = purchaseListExportColumns({ providerName: providers ? providerName : undefined }).map((column) => ({
+      header: t(column.labelKey, column.label),
+      value: column.value,
+    }));
+    const title = t("lowStock.purchaseList", "Purchase list");
+    const blob = buildExportBlob(format, orderRows, columns, { sheet: title, rtl: i18n.dir() === "rtl" });
+    downloadBlob(blob, `purchase-list-${dayjs().format("YYYYMMDD-HHmm")}.${format}`);
+  };
+
+  const lineCost = (row: LowStockRow) => (row.product.costPriceCents == null ? null : row.product.costPriceCents * row.suggestedQty);
+  const groupCost = (groupRows: LowStockRow[]) => groupRows.reduce((sum, row) => sum + (lineCost(row) ?? 0), 0);
+
+  return (
+    <Card className="border-amber-200">
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <CardTitle className="text-base">
+            {t("lowStock.title", "Low stock & reorder")} ({rows.length})
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {t("lowStock.subtitle", {
+              defaultValue: "Suggested quantities cover {{days}} days of sales on top of the threshold.",
+              days: report.coverDays,
+            })}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {providers && (
+            <Select value={providerId} onValueChange={setProviderId}>
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder={t("providers.title", "Provider")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t("common.all")}</SelectItem>
+                {providers.map((provider) => (
+                  <SelectItem key={provider.id} value={provider.id}>
+                    {isArabic && provider.nameAr ? provider.nameAr : provider.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" size="sm" className="gap-1" disabled={!rows.length} onClick={() => handleExport("xlsx")}>
+            <Download className="w-4 h-4" />
+            {t("lowStock.exportXlsx", "Purchase list (Excel)")}
+          </Button>
+          <Button variant="ghost" size="sm" disabled={!rows.length} onClick={() => handleExport("csv")}>
+            CSV
+          </Button>
+          {onClose && (
+            <Button variant="ghost" size="sm" className="gap-1" onClick={onClose}>
+              <X className="w-4 h-4" />
+              {t("app.actions.close", "Close")}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {report.isLoading ? (
+          <div className="p-4">
+            <AdminTableSkeleton rows={5} columns={6} />
+          </div>
+        ) : report.isError ? (
+          <ErrorState message={getAdminErrorMessage(report.error, t)} onRetry={() => report.refetch()} />
+        ) : !rows.length ? (
+          <div className="p-4">
+            <EmptyState
+              title={t("lowStock.empty", "Nothing is running low")}
+              description={t("lowStock.emptyHint", "Products show up here once their stock reaches the threshold.")}
+            />
+          </div>
+        ) : (
+          <>
+            {(report.velocityUnavailable || report.truncated) && (
+              <p className="border-b px-4 py-2 text-xs text-amber-700">
+                {report.velocityUnavailable
+                  ? t("lowStock.noVelocity", "Sales data is unavailable; suggestions only refill to the threshold.")
+                  : t("lowStock.truncated", "Only the first 5000 products were checked.")}
+              </p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("products.product")}</TableHead>
+                  <TableHead className="text-end">{t("products.stock")}</TableHead>
+                  <TableHead className="text-end">{t("lowStock.threshold", "Threshold")}</TableHead>
+                  <TableHead className="text-end">{t("lowStock.perDay", "Sold / day")}</TableHead>
+                  <TableHead className="text-end">{t("lowStock.daysLeft", "Days left")}</TableHead>
+                  <TableHead className="w-28">{t("lowStock.orderQty", "Order qty")}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map(({ id: groupId, rows: groupRows, visible }) => (
+                  <React.Fragment key={groupId || "none"}>
+                    {grouped && (
+                      <TableRow className="bg-muted/50 hover:bg-muted/50">
+                        <TableCell colSpan={7} className="text-sm font-medium">
+                          {(groupId && providerName(groupId)) || t("lowStock.noProvider", "No provider")}
+                          <span className="ms-2 text-xs font-normal text-muted-foreground">
+                            {t("lowStock.groupSummary", {
+                              defaultValue: "{{count}} products · est. {{cost}}",
+                              count: groupRows.length,
+                              cost: fmtCurrency(groupCost(groupRows)),
+                            })}
+                          </span>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {visible.map((row) => (
+                      <TableRow key={row.product.id}>
+                        <TableCell>
+                          <p className="font-medium">{isArabic && row.product.nameAr ? row.product.nameAr : row.product.name}</p>
+                          {row.product.sku && <p className="text-xs text-muted-foreground">{row.product.sku}</p>}
+                        </TableCell>
+                        <TableCell className={`text-end tabular-nums ${row.product.stock <= 0 ? "text-rose-600 font-medium" : ""}`}>
+                          {row.product.stock}
+                        </TableCell>
+                        <TableCell className="text-end">
+                          <span className="tabular-nums">{row.threshold}</span>{" "}
+                          <Badge variant="outline" className={`ms-1 text-[10px] ${sourceStyles[row.source]}`}>
+                            {t(`lowStock.sources.${row.source}`)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-end tabular-nums">{row.dailyVelocity ? row.dailyVelocity.toFixed(1) : "—"}</TableCell>
+                        <TableCell className="text-end tabular-nums">{row.daysLeft === null ? "—" : Math.floor(row.daysLeft)}</TableCell>
+                        <TableCell>
+                          <Input
+                            inputMode="numeric"
+                            className="h-8"
+                            value={quantities[row.product.id] ?? String(row.suggestedQty)}
+                            aria-label={t("lowStock.orderQty", "Order qty")}
+                            onChange={(event) => setQuantities((prev) => ({ ...prev, [row.product.id]: event.target.value }))}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button size="sm" variant="outline" className="h-8" onClick={() => setReceiveTarget(row.product)}>
+                            {t("inventory.receive", "Receive")}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                      ))}
+                    </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+            {limit && rows.length > limit && (
+              <div className="border-t p-2 text-center">
+                <Button variant="ghost" size="sm" onClick={() => setExpanded((value) => !value)}>
+                  {expanded
+                    ? t("lowStock.showLess", "Show less")
+                    : t("lowStock.showAll", { defaultValue: "Show all {{count}}", count: rows.length })}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <StockAdjustDialog
+        open={Boolean(receiveTarget)}
+        onOpenChange={(open) => !open && setReceiveTarget(null)}
+        product={receiveTarget}
+        scope={scope}
+        defaultReason="RECEIVE"
+      />
+    </Card>
+  );
+}
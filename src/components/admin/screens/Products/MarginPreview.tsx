@@ -0,0 +1,75 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { fmtCurrency } from "../../../../lib/money";
+import { computeMargin, marginTone, type MarginTone } from "../../../../lib/product-cost";
+
+type MarginPreviewProps = {
+  priceCents?: number | null;
+  salePriceCents?: number | null;
+  costCents?: number | null;
+  currency?: string;
+  /** Single line for table rows */
+  compact?: boolean;
+};
+
+const TONE_CLASS: Record<MarginTone, string> = {
+  loss: "text-rose-600",
+  thin: "text-amber-600",
+  healthy: "text-emerald-600",
+};
+
+const percent = (value: number | null) => (value == null ? "—" : `${value.toFixed(1)}%`);
+
+export function MarginPreview({ priceCents, salePriceCents, costCents, currency = "EGP", compact }: MarginPreviewProps) {
+  const { t } = useTranslation();
+  const regular = computeMargin(priceCents, costCents);
+  const sale = salePriceCents ? computeMargin(salePriceCents, costCents) : null;
+
+  if (!regular) {
+    return compact ? (
+      <span className="text-xs text-muted-foreground">—</span>
+    ) : (
+      <p className="rounded-md bg-muted px-3 py-2 text-xs text-muted-foreground">
+        {t("products.cost.preview_hint", "Enter a price and cost to preview margin and markup.")}
+      </p>
+    );
+  }
+
+  if (compact) {
+    const shown = sale ?? regular;
+    return (
+      <span className={`text-xs font-medium ${TONE_CLASS[marginTone(shown)]}`}>
+        {percent(shown.marginPercent)} · {fmtCurrency(shown.profitCents, currency)}
+      </span>
+    );
+  }
+
+  const rows = [
+    { key: "regular", label: t("products.cost.at_price", "At regular price"), margin: regular },
+    ...(sale ? [{ key: "sale", label: t("products.cost.at_sale_price", "At sale price"), margin: sale }] : []),
+  ];
+
+  return (
+    <div className="rounded-md border text-sm">
+      <div className="grid grid-cols-4 gap-2 border-b bg-muted/40 px-3 py-1.5 text-xs text-muted-foreground">
+        <span />
+        <span>{t("products.cost.profit", "Profit / unit")}</span>
+        <span>{t("products.cost.margin", "Margin")}</span>
+        <span>{t("products.cost.markup", "Markup")}</span>
+      </div>
+      {rows.map(({ key, label, margin }) => (
+        <div key={key} className={`grid grid-cols-4 gap-2 px-3 py-1.5 ${TONE_CLASS[marginTone(margin)]}`}>
+          <span className="text-xs text-muted-foreground">{label}</span>
+          <span className="font-medium">{fmtCurrency(margin.profitCents, currency)}</span>
+          <span className="font-medium">{percent(margin.marginPercent)}</span>
+          <span className="font-medium">{percent(margin.markupPercent)}</span>
+        </div>
+      ))}
+      {rows.some(({ margin }) => marginTone(margin) === "loss") && (
+        <p className="border-t px-3 py-1.5 text-xs text-rose-600">
+          {t("products.cost.loss_warning", "This price is below cost.")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Edit, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../../../ui/card";
+import { Button } from "../../../ui/button";
+import { Input } from "../../../ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../ui/table";
+import { AdminTableSkeleton } from "../../common/AdminTableSkeleton";
+import { EmptyState } from "../../common/EmptyState";
+import { ErrorState } from "../../common/ErrorState";
+import { PRODUCTS_QUERY_KEY } from "../../../../hooks/api/useProductsAdmin";
+import { PRODUCT_COSTS_QUERY_KEY, useMissingCostProducts } from "../../../../hooks/api/useProductCosts";
+import { addProductCost } from "../../../../services/product-costs.service";
+import type { Product } from "../../../../services/products.service";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import { fmtCurrency, toCents } from "../../../../lib/money";
+import { parseImportNumber } from "../../../../lib/product-import";
+import { MarginPreview } from "./MarginPreview";
+
+type MissingCostsQueueProps = {
+  q?: string;
+  providerId?: string;
+  categoryId?: string;
+  categoryName: (id: string) => string | undefined;
+  onEdit: (product: Product) => void;
+  onClose: () => void;
+};
+
+const PAGE_SIZE = 20;
+
+function parseCost(value: string) {
+  const numeric = parseImportNumber(value);
+  return Number.isFinite(numeric) && numeric >= 0 ? toCents(numeric) : null;
+}
+
+/** Work queue of products without a cost: enter one inline, or open the full editor. */
+export function MissingCostsQueue({ q, providerId, categoryId, categoryName, onEdit, onClose }: MissingCostsQueueProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const query = useMissingCostProducts({ q, providerId, categoryId, page, pageSize: PAGE_SIZE });
+  const items = (query.data?.items ?? []) as Product[];
+  const total = query.data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const saveMutation = useMutation({
+    mutationFn: ({ productId, costCents }: { productId: string; costCents: number }) =>
+      addProductCost(productId, { costCents, effectiveFrom: dayjs().startOf("day").toISOString() }),
+    onSuccess: (_data, variables) => {
+      toast.success(t("products.cost.saved", "Cost saved"));
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[variables.productId];
+        return next;
+      });
+      queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: [...PRODUCT_COSTS_QUERY_KEY, variables.productId] });
+    },
+    onError: (error) => toast.error(getAdminErrorMessage(error, t, t("products.cost.save_failed", "Unable to save cost"))),
+  });
+
+  const savingId = saveMutation.isPending ? saveMutation.variables?.productId : undefined;
+
+  return (
+    <Card className="border-amber-200">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="text-base">
+            {t("products.cost.queue_title", "Missing costs")} ({total})
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {t("products.cost.queue_subtitle", "Products without a cost are excluded from gross profit. Costs apply from today.")}
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" className="gap-1" onClick={onClose}>
+          <X className="w-4 h-4" />
+          {t("app.actions.close", "Close")}
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        {query.isLoading ? (
+          <div className="p-4">
+            <AdminTableSkeleton rows={5} columns={5} />
+          </div>
+        ) : query.isError ? (
+          <ErrorState message={getAdminErrorMessage(query.error, t)} onRetry={() => query.refetch()} />
+        ) : !items.length ? (
+          <div className="p-4">
+            <EmptyState
+              title={t("products.cost.queue_empty", "Every product has a cost")}
+              description={t("products.cost.queue_empty_hint", "Profit reports now use actual COGS for these filters.")}
+            />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("products.name")}</TableHead>
+                <TableHead>{t("products.category")}</TableHead>
+                <TableHead>{t("products.price")}</TableHead>
+                <TableHead className="w-36">{t("products.cost.label", "Cost / unit")}</TableHead>
+                <TableHead>{t("products.cost.margin", "Margin")}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((product) => {
+                const draft = drafts[product.id] ?? "";
+                const costCents = parseCost(draft);
+                const save = () => costCents != null && saveMutation.mutate({ productId: product.id, costCents });
+                return (
+                  <TableRow key={product.id}>
+                    <TableCell>
+                      <p className="font-medium">{product.name}</p>
+                      {product.sku && <p className="text-xs text-muted-foreground">{product.sku}</p>}
+                    </TableCell>
+                    <TableCell className="text-sm">{categoryName(product.categoryId) ?? "—"}</TableCell>
+                    <TableCell className="text-sm">
+                      {fmtCurrency(product.salePriceCents ?? product.priceCents)}
+                      {product.salePriceCents != null && (
+                        <span className="ms-1 text-xs text-muted-foreground line-through">{fmtCurrency(product.priceCents)}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        inputMode="decimal"
+                        placeholder="0.00"
+                        value={draft}
+                        aria-label={t("products.cost.label", "Cost / unit")}
+                        onChange={(event) => setDrafts((prev) => ({ ...prev, [product.id]: event.target.value }))}
+                        onKeyDown={(event) => {
+                          if (event.key === "Enter") save();
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <MarginPreview compact priceCents={product.priceCents} salePriceCents={product.salePriceCents} costCents={costCents} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" disabled={costCents == null || savingId === product.id} onClick={save}>
+                          {savingId === product.id ? t("common.saving", "Saving...") : t("app.actions.save", "Save")}
+                        </Button>
+                        <Button size="icon" variant="ghost" aria-label={t("app.actions.edit", "Edit")} onClick={() => onEdit(product)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2 border-t p-3 text-sm">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))}>
+              {t("app.actions.prev")}
+            </Button>
+            <span className="text-muted-foreground">
+              {page}/{totalPages}
+            </span>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage((p) => Math.min(totalPages, p + 1))}>
+              {t("app.actions.next")}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
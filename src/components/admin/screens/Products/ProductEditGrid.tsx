@@ -0,0 +1,464 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { toast } from "sonner";
+import { AlertCircle, Save, Undo2 } from "lucide-react";
+import { Button } from "../../../ui/button";
+import { Badge } from "../../../ui/badge";
+import type { Product } from "../../../../services/products.service";
+import { settleWithConcurrency } from "../../../../lib/concurrency";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import {
+  GRID_COLUMNS,
+  GRID_STATUSES,
+  applyGridChanges,
+  cellChange,
+  currentGridValues,
+  gridPatch,
+  gridToClipboard,
+  isGridCellEditable,
+  parseClipboard,
+  pasteChanges,
+  revertGridChanges,
+  validateGridValues,
+  type GridChange,
+  type GridColumn,
+  type GridEdits,
+} from "../../../../lib/product-grid";
+
+type ProductEditGridProps = {
+  products: Product[];
+  categoryName: (id: string) => string | undefined;
+  canEditPrice: boolean;
+  saveProduct: (id: string, patch: Partial<Product>) => Promise<Product>;
+  onSaved: () => void;
+  /** Lets the screen warn before leaving grid mode with unsaved rows */
+  onDirtyChange?: (dirtyRows: number) => void;
+};
+
+type Cell = { row: number; col: number };
+
+const ROW_HEIGHT = 44;
+const HISTORY_LIMIT = 100;
+const GRID_TEMPLATE = "minmax(220px, 2fr) minmax(120px, 1fr) repeat(3, minmax(100px, 1fr)) minmax(140px, 1fr) 32px";
+
+const columnLabels: Record<GridColumn, [string, string]> = {
+  price: ["products.price", "Price"],
+  salePrice: ["products.salePrice", "Sale price"],
+  stock: ["products.stock", "Stock"],
+  status: ["products.status", "Status"],
+};
+
+/**
+ * Spreadsheet-style editing of price, sale price, stock and status. Edits stay local per product
+ * (across pages) until saved as a batch; each batch of cell changes can be undone.
+ */
+export function ProductEditGrid({ products, categoryName, canEditPrice, saveProduct, onSaved, onDirtyChange }: ProductEditGridProps) {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.dir() === "rtl";
+  const isArabic = i18n.language?.startsWith("ar");
+  const [edits, setEdits] = useState<GridEdits>({});
+  const [history, setHistory] = useState<GridChange[][]>([]);
+  const [active, setActive] = useState<Cell>({ row: 0, col: 0 });
+  const [editing, setEditing] = useState<{ cell: Cell; value: string } | null>(null);
+  // Blur can follow Enter/Tab/Escape in the same tick; only the first finish counts
+  const editingRef = useRef(false);
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState<Record<string, Product>>({});
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const gridRef = useRef<HTMLDivElement | null>(null);
+
+  // Saved rows show the server copy until the refetched page arrives
+  useEffect(() => setSaved({}), [products]);
+  const rows = useMemo(() => products.map((product) => saved[product.id] ?? product), [products, saved]);
+
+  const dirtyIds = Object.keys(edits);
+  const invalidIds = useMemo(
+    () =>
+      new Set(
+        Object.values(edits)
+          .filter(({ product }) => Object.keys(validateGridValues(currentGridValues(product, edits))).length)
+          .map(({ product }) => product.id)
+      ),
+    [edits]
+  );
+  const offPage = dirtyIds.filter((id) => !rows.some((product) => product.id === id)).length;
+
+  useEffect(() => onDirtyChange?.(dirtyIds.length), [dirtyIds.length, onDirtyChange]);
+
+  useEffect(() => {
+    setActive((cell) => ({ row: Math.min(cell.row, Math.max(0, rows.length - 1)), col: cell.col }));
+  }, [rows.length]);
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => gridRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 10,
+  });
+
+  const commit = (changes: GridChange[]) => {
+    const effective = changes.filter((change) => change.before !== change.after);
+    if (!effective.length) return;
+    setEdits((prev) => applyGridChanges(prev, effective, rows));
+    setHistory((prev) => [...prev, effective].slice(-HISTORY_LIMIT));
+    setRowErrors((prev) => {
+      const next = { ...prev };
+      effective.forEach((change) => delete next[change.id]);
+      return next;
+    });
+  };
+
+  const undo = () => {
+    const batch = history[history.length - 1];
+    if (!batch) return;
+    setEdits((prev) => revertGridChanges(prev, batch));
+    setHistory((prev) => prev.slice(0, -1));
+    const row = rows.findIndex((product) => product.id === batch[0].id);
+    if (row >= 0) moveTo({ row, col: GRID_COLUMNS.indexOf(batch[0].column) });
+  };
+
+  const discard = () => {
+    setEdits({});
+    setHistory([]);
+    setRowErrors({});
+  };
+
+  const moveTo = (cell: Cell) => {
+    const next = {
+      row: Math.min(Math.max(cell.row, 0), Math.max(0, rows.length - 1)),
+      col: Math.min(Math.max(cell.col, 0), GRID_COLUMNS.length - 1),
+    };
+    setActive(next);
+    virtualizer.scrollToIndex(next.row, { align: "auto" });
+  };
+
+  const activeProduct = rows[active.row];
+  const activeColumn = GRID_COLUMNS[active.col];
+  const canEditActive = Boolean(activeProduct && isGridCellEditable(activeProduct, activeColumn, canEditPrice));
+
+  const startEditing = (initial?: string) => {
+    if (!activeProduct || !canEditActive) return;
+    editingRef.current = true;
+    setEditing({ cell: active, value: initial ?? currentGridValues(activeProduct, edits)[activeColumn] });
+  };
+
+  const finishEditing = (value: string | null, move?: Cell) => {
+    if (!editingRef.current || !editing) return;
+    editingRef.current = false;
+    const product = rows[editing.cell.row];
+    if (value !== null && product) commit([cellChange(product, edits, GRID_COLUMNS[editing.cell.col], value)]);
+    setEditing(null);
+    if (move) moveTo(move);
+    gridRef.current?.focus();
+  };
+
+  const handleSave = async () => {
+    const targets = dirtyIds.filter((id) => !invalidIds.has(id));
+    if (!targets.length) return;
+    setProgress({ done: 0, total: targets.length });
+    const snapshot = edits;
+    const results = await settleWithConcurrency(
+      targets,
+      (id) => saveProduct(id, gridPatch(snapshot[id].product, snapshot[id].values)),
+      { limit: 4, onSettled: (_result, done) => setProgress({ done, total: targets.length }) }
+    );
+    setProgress(null);
+
+    const savedIds = new Set<string>();
+    const errors: Record<string, string> = {};
+    const savedProducts: Record<string, Product> = {};
+    results.forEach((result) => {
+      if (result.ok) {
+        savedIds.add(result.item);
+        if (result.value?.id) savedProducts[result.item] = { ...snapshot[result.item].product, ...result.value };
+      } else {
+        errors[result.item] = getAdminErrorMessage(result.error, t, t("products.updateFailed", "Unable to update product"));
+      }
+    });
+    setEdits((prev) => {
+      const next = { ...prev };
+      // Keep cells edited again while the save was in flight
+      savedIds.forEach((id) => {
+        if (prev[id]?.values === snapshot[id].values) delete next[id];
+      });
+      return next;
+    });
+    setHistory((prev) =>
+      prev.map((batch) => batch.filter((change) => !savedIds.has(change.id))).filter((batch) => batch.length)
+    );
+    setSaved((prev) => ({ ...prev, ...savedProducts }));
+    setRowErrors((prev) => ({ ...prev, ...errors }));
+
+    const failed = Object.keys(errors).length;
+    if (savedIds.size) {
+      toast.success(t("products.grid.saved", { defaultValue: "{{count}} products saved", count: savedIds.size }));
+      onSaved();
+    }
+    if (failed) toast.error(t("products.grid.saveFailed", { defaultValue: "{{count}} products could not be saved", count: failed }));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (editing || !rows.length) return;
+    const mod = event.ctrlKey || event.metaKey;
+    const forward = isRTL ? -1 : 1;
+    if (mod && event.key.toLowerCase() === "z") {
+      event.preventDefault();
+      undo();
+      return;
+    }
+    if (mod && event.key.toLowerCase() === "s") {
+      event.preventDefault();
+      if (!progress) handleSave();
+      return;
+    }
+    const moves: Record<string, Cell> = {
+      ArrowUp: { row: active.row - 1, col: active.col },
+      ArrowDown: { row: active.row + 1, col: active.col },
+      ArrowLeft: { row: active.row, col: active.col - forward },
+      ArrowRight: { row: active.row, col: active.col + forward },
+      Home: { row: mod ? 0 : active.row, col: 0 },
+      End: { row: mod ? rows.length - 1 : active.row, col: GRID_COLUMNS.length - 1 },
+      PageUp: { row: active.row - 10, col: active.col },
+      PageDown: { row: active.row + 10, col: active.col },
+      Tab: { row: active.row, col: active.col + (event.shiftKey ? -1 : 1) },
+    };
+    if (moves[event.key]) {
+      // Let Tab leave the grid from its first and last cell
+      if (event.key === "Tab" && (moves.Tab.col < 0 || moves.Tab.col >= GRID_COLUMNS.length)) return;
+      event.preventDefault();
+      moveTo(moves[event.key]);
+    } else if (event.key === "Enter" || event.key === "F2") {
+      event.preventDefault();
+      startEditing();
+    } else if ((event.key === "Delete" || event.key === "Backspace") && canEditActive && activeColumn === "salePrice") {
+      event.preventDefault();
+      commit([cellChange(activeProduct, edits, activeColumn, "")]);
+    } else if (event.key.length === 1 && !mod && !event.altKey) {
+      event.preventDefault();
+      startEditing(activeColumn === "status" ? undefined : event.key);
+    }
+  };
+
+  const handleCopy = (event: React.ClipboardEvent<HTMLDivElement>) => {
+    if (editing || !activeProduct) return;
+    event.preventDefault();
+    event.clipboardData.setData("text/plain", gridToClipboard([currentGridValues(activeProduct, edits)], [activeColumn]));
+  };
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLDivElement>) => {
+    if (editing || !rows.length) return;
+    const matrix = parseClipboard(event.clipboardData.getData("text/plain"));
+    if (!matrix.length) return;
+    event.preventDefault();
+    const changes = pasteChanges(rows, edits, active, matrix, canEditPrice);
+    commit(changes);
+    if (changes.length) {
+      toast.success(t("products.grid.pasted", { defaultValue: "{{count}} cells pasted", count: changes.length }));
+    }
+  };
+
+  const issueText = (column: GridColumn, issue?: string) =>
+    issue ? t(`products.grid.issues.${issue}`, t(columnLabels[column][0], columnLabels[column][1])) : undefined;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 px-4 pt-4 text-sm">
+        <Badge variant={dirtyIds.length ? "secondary" : "outline"}>
+          {t("products.grid.dirty", { defaultValue: "{{count}} unsaved rows", count: dirtyIds.length })}
+        </Badge>
+        {offPage > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {t("products.grid.offPage", { defaultValue: "{{count}} on other pages", count: offPage })}
+          </span>
+        )}
+        {invalidIds.size > 0 && (
+          <Badge className="bg-rose-100 text-rose-700">
+            {t("products.grid.invalid", { defaultValue: "{{count}} rows need fixes before saving", count: invalidIds.size })}
+          </Badge>
+        )}
+        <span className="hidden lg:inline text-xs text-muted-foreground">
+          {t("products.grid.hint", "Arrows to move, Enter to edit, paste from Excel, Ctrl+Z to undo, Ctrl+S to save")}
+        </span>
+        <div className="ms-auto flex gap-2">
+          <Button size="sm" variant="outline" className="gap-2" disabled={!history.length || Boolean(progress)} onClick={undo}>
+            <Undo2 className="w-4 h-4" />
+            {t("products.grid.undo", "Undo")}
+          </Button>
+          <Button size="sm" variant="ghost" disabled={!dirtyIds.length || Boolean(progress)} onClick={discard}>
+            {t("products.grid.discard", "Discard changes")}
+          </Button>
+          <Button
+            size="sm"
+            className="gap-2"
+            disabled={dirtyIds.length === invalidIds.size || Boolean(progress)}
+            onClick={handleSave}
+          >
+            <Save className="w-4 h-4" />
+            {progress
+              ? t("products.grid.saving", { defaultValue: "Saving {{done}}/{{total}}", ...progress })
+              : t("products.grid.save", { defaultValue: "Save {{count}} rows", count: dirtyIds.length - invalidIds.size })}
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={gridRef}
+        role="grid"
+        aria-rowcount={rows.length}
+        aria-colcount={GRID_COLUMNS.length + 2}
+        tabIndex={0}
+        dir={i18n.dir()}
+        className="max-h-[70vh] overflow-auto border-t text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        onKeyDown={handleKeyDown}
+        onCopy={handleCopy}
+        onPaste={handlePaste}
+      >
+        <div
+          role="row"
+          className="sticky top-0 z-10 grid bg-muted/80 backdrop-blur text-xs font-medium text-muted-foreground"
+          style={{ gridTemplateColumns: GRID_TEMPLATE }}
+        >
+          <div role="columnheader" className="px-3 py-2">{t("products.product")}</div>
+          <div role="columnheader" className="px-3 py-2">{t("products.category")}</div>
+          {GRID_COLUMNS.map((column) => (
+            <div key={column} role="columnheader" className="px-3 py-2">
+              {t(...columnLabels[column])}
+            </div>
+          ))}
+          <div role="columnheader" />
+        </div>
+        {!rows.length && (
+          <p className="p-6 text-center text-sm text-muted-foreground">
+            {t("products.noResults", "No products found for the selected filters")}
+          </p>
+        )}
+        <div style={{ position: "relative", height: virtualizer.getTotalSize() }}>
+          {virtualizer.getVirtualItems().map((virtualRow) => {
+            const product = rows[virtualRow.index];
+            const values = currentGridValues(product, edits);
+            const pending = edits[product.id]?.values ?? {};
+            const issues = edits[product.id] ? validateGridValues(values) : {};
+            const error = rowErrors[product.id];
+            const name = isArabic && product.nameAr?.trim() ? product.nameAr : product.name;
+            return (
+              <div
+                key={product.id}
+                role="row"
+                aria-rowindex={virtualRow.index + 1}
+                className={`absolute inset-x-0 grid border-b ${edits[product.id] ? "bg-amber-50/60" : ""}`}
+                style={{ gridTemplateColumns: GRID_TEMPLATE, height: ROW_HEIGHT, transform: `translateY(${virtualRow.start}px)` }}
+              >
+                <div role="rowheader" className="px-3 flex flex-col justify-center min-w-0">
+                  <span className="truncate font-medium">{name}</span>
+                  {product.sku && <span className="truncate text-[11px] text-muted-foreground">{product.sku}</span>}
+                </div>
+                <div role="gridcell" className="px-3 flex items-center truncate text-muted-foreground">
+                  {categoryName(product.categoryId) || "--"}
+                </div>
+                {GRID_COLUMNS.map((column, col) => {
+                  const isActive = active.row === virtualRow.index && active.col === col;
+                  const editable = isGridCellEditable(product, column, canEditPrice);
+                  const issue = issueText(column, issues[column]);
+                  return (
+                    <div
+                      key={column}
+                      role="gridcell"
+                      aria-selected={isActive}
+                      aria-readonly={!editable}
+                      title={issue}
+                      className={`relative flex items-center px-3 border-s cursor-cell ${
+                        editable ? "" : "bg-muted/40 text-muted-foreground cursor-not-allowed"
+                      } ${pending[column] !== undefined ? "font-semibold text-amber-800" : ""} ${
+                        issue ? "bg-rose-50 text-rose-700" : ""
+                      } ${isActive ? "outline outline-2 -outline-offset-2 outline-primary" : ""}`}
+                      onMouseDown={() => {
+                        if (!isActive) setActive({ row: virtualRow.index, col });
+                      }}
+                      onDoubleClick={() => startEditing()}
+                    >
+                      {editing && editing.cell.row === virtualRow.index && editing.cell.col === col ? (
+                        column === "status" ? (
+                          <select
+                            autoFocus
+                            className="w-full h-8 rounded border bg-background text-sm"
+                            value={editing.value}
+                            onChange={(event) => finishEditing(event.target.value)}
+                            onBlur={() => finishEditing(null)}
+                            onKeyDown={(event) => {
+                              if (event.key === "Escape") finishEditing(null);
+                            }}
+                          >
+                            {GRID_STATUSES.map((status) => (
+                              <option key={status} value={status}>
+                                {t(`products.statuses.${status}`)}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <input
+                            autoFocus
+                            inputMode="decimal"
+                            className="w-full h-8 rounded border bg-background px-2 text-sm"
+                            value={editing.value}
+                            onChange={(event) => setEditing({ ...editing, value: event.target.value })}
+                            onBlur={() => finishEditing(editing.value)}
+                            onKeyDown={(event) => {
+                              if (event.key === "Escape") {
+                                event.preventDefault();
+                                finishEditing(null);
+                              } else if (event.key === "Enter") {
+                                event.preventDefault();
+                                finishEditing(editing.value, {
+                                  row: editing.cell.row + (event.shiftKey ? -1 : 1),
+                                  col: editing.cell.col,
+                                });
+                              } else if (event.key === "Tab") {
+                                event.preventDefault();
+                                finishEditing(editing.value, {
+                                  row: editing.cell.row,
+                                  col: editing.cell.col + (event.shiftKey ? -1 : 1),
+                                });
+                              }
+                            }}
+                          />
+                        )
+                      ) : column === "status" ? (
+                        <span className="truncate">
+                          {GRID_STATUSES.includes(values.status as Product["status"])
+                            ? t(`products.statuses.${values.status}`)
+                            : values.status}
+                        </span>
+                      ) : (
+                        <span className="truncate tabular-nums">{values[column] || "--"}</span>
+                      )}
+                    </div>
+                  );
+                })}
+                <div className="flex items-center justify-center">
+                  {error && (
+                    <span title={error} aria-label={error} className="text-rose-600">
+                      <AlertCircle className="w-4 h-4" />
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      {Object.keys(rowErrors).length > 0 && (
+        <div className="mx-4 mb-4 rounded-md bg-rose-50 p-3 text-xs text-rose-700 space-y-1">
+          {Object.entries(rowErrors).map(([id, message]) => {
+            const product = edits[id]?.product ?? rows.find((item) => item.id === id);
+            return (
+              <p key={id}>
+                <span className="font-medium">{product?.name ?? id}:</span> {message}
+              </p>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
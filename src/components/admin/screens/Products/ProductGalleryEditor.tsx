@@ -0,0 +1,362 @@
+import React, { useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { ChevronLeft, ChevronRight, Crop, GripVertical, RotateCcw, Star, Trash2, X } from "lucide-react";
+import { Button } from "../../../ui/button";
+import { Badge } from "../../../ui/badge";
+import { Input } from "../../../ui/input";
+import { Label } from "../../../ui/label";
+import { Progress } from "../../../ui/progress";
+import { ImageWithFallback } from "../../../figma/ImageWithFallback";
+import { settleWithConcurrency } from "../../../../lib/concurrency";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import {
+  mergeImages,
+  missingAltCount,
+  moveItem,
+  removeImage,
+  replaceImage,
+  resolvePrimary,
+  type ImageAltText,
+} from "../../../../lib/product-gallery";
+import type { UploadOptions } from "../../../../services/uploads.service";
+import { ImageCropDialog, type CropSource } from "./ImageCropDialog";
+
+export type GalleryValue = {
+  images: string[];
+  primary: string;
+  alts: Record<string, ImageAltText>;
+};
+
+type ProductGalleryEditorProps = {
+  value: GalleryValue;
+  onChange: (value: GalleryValue) => void;
+  /** uploadAdminFile or uploadProviderFile */
+  uploadFile: (file: File | Blob, options?: UploadOptions) => Promise<{ url: string; warnings?: string[] }>;
+};
+
+type UploadEntry = {
+  id: string;
+  name: string;
+  progress: number;
+  error?: string;
+};
+
+// Mirrors the backend cap; uploads.service compresses anything larger than that
+const MAX_IMAGE_MB = 10;
+const UPLOAD_CONCURRENCY = 3;
+
+let uploadSeq = 0;
+
+/** Product images: parallel uploads, drag to reorder, a cover toggle, crop to fixed ratios and alt text in both languages. */
+export function ProductGalleryEditor({ value, onChange, uploadFile }: ProductGalleryEditorProps) {
+  const { t } = useTranslation();
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const dragIndex = useRef<number | null>(null);
+  // Uploads finish one by one; each merges into the latest value rather than the render it started from
+  const latest = useRef(value);
+  latest.current = value;
+  // Files picked in this session, so cropping them needs no cross-origin fetch
+  const localFiles = useRef(new Map<string, File>());
+  const pendingFiles = useRef(new Map<string, File>());
+  const [uploads, setUploads] = useState<UploadEntry[]>([]);
+  const [cropSource, setCropSource] = useState<CropSource | null>(null);
+
+  const commit = (next: GalleryValue) => {
+    latest.current = next;
+    onChange(next);
+  };
+
+  const patchUpload = (id: string, patch: Partial<UploadEntry> | null) =>
+    setUploads((prev) => (patch ? prev.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)) : prev.filter((entry) => entry.id !== id)));
+
+  const runUploads = async (entries: Array<{ id: string; file: File }>, onUploaded: (url: string, file: File) => void) => {
+    await settleWithConcurrency(
+      entries,
+      async ({ id, file }) => {
+        const { url, warnings } = await uploadFile(file, { onProgress: (progress) => patchUpload(id, { progress }) });
+        warnings?.forEach((warning) => toast.warning(warning));
+        return url;
+      },
+      {
+        limit: UPLOAD_CONCURRENCY,
+        onSettled: (result) => {
+          if (result.ok) {
+            pendingFiles.current.delete(result.item.id);
+            localFiles.current.set(result.value, result.item.file);
+            patchUpload(result.item.id, null);
+            onUploaded(result.value, result.item.file);
+          } else {
+            patchUpload(result.item.id, {
+              error: getAdminErrorMessage(result.error, t, t("products.upload.failed", "Upload failed")),
+            });
+          }
+        },
+      }
+    );
+  };
+
+  const queue = (files: File[]) => {
+    const entries = files.map((file) => {
+      uploadSeq += 1;
+      const id = `upload-${uploadSeq}`;
+      pendingFiles.current.set(id, file);
+      return { id, file };
+    });
+    setUploads((prev) => [...prev, ...entries.map(({ id, file }) => ({ id, name: file.name || "image", progress: 0 }))]);
+    return entries;
+  };
+
+  const appendUploaded = (url: string) => {
+    const images = mergeImages(latest.current.images, [url]);
+    commit({ ...latest.current, images, primary: resolvePrimary(images, latest.current.primary) });
+  };
+
+  const handleFiles = (list: FileList | File[]) => {
+    const files = Array.from(list).filter((file) => {
+      if (!file.type.startsWith("image/")) {
+        toast.error(t("products.upload.bad_type", "Unsupported file type"));
+        return false;
+      }
+      if (file.size > MAX_IMAGE_MB * 1024 * 1024) {
+        toast.error(t("products.upload.too_large", "File too large"));
+        return false;
+      }
+      return true;
+    });
+    if (files.length) void runUploads(queue(files), appendUploaded);
+  };
+
+  const retry = (id: string) => {
+    const file = pendingFiles.current.get(id);
+    if (!file) return;
+    patchUpload(id, { progress: 0, error: undefined });
+    void runUploads([{ id, file }], appendUploaded);
+  };
+
+  const handleCropped = (file: File) => {
+    const from = cropSource?.url;
+    setCropSource(null);
+    if (!from) return;
+    void runUploads(queue([file]), (url) => {
+      const { images, primary } = replaceImage(latest.current.images, latest.current.primary, from, url);
+      const { [from]: carried, ...alts } = latest.current.alts;
+      commit({ images, primary, alts: carried ? { ...alts, [url]: carried } : alts });
+    });
+  };
+
+  const setAlt = (url: string, field: keyof ImageAltText, text: string) => {
+    const current = value.alts[url] ?? { alt: "", altAr: "" };
+    onChange({ ...value, alts: { ...value.alts, [url]: { ...current, [field]: text } } });
+  };
+
+  const move = (from: number, to: number) => onChange({ ...value, images: moveItem(value.images, from, to) });
+
+  const handleTileDrop = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    if (dragIndex.current === null) {
+      if (event.dataTransfer.files?.length) handleFiles(event.dataTransfer.files);
+      return;
+    }
+    move(dragIndex.current, index);
+    dragIndex.current = null;
+  };
+
+  const { images, primary } = value;
+  const missingEn = missingAltCount(images, value.alts, "alt");
+  const missingAr = missingAltCount(images, value.alts, "altAr");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Label>{t("products.images.title", "Product images")}</Label>
+        {images.length > 0 && (missingEn > 0 || missingAr > 0) && (
+          <p className="text-xs text-amber-700">
+            {t("products.images.missingAlt", {
+              defaultValue: "Alt text missing: {{en}} English, {{ar}} Arabic",
+              en: missingEn,
+              ar: missingAr,
+            })}
+          </p>
+        )}
+      </div>
+      <div
+        className="border border-dashed rounded-lg p-4 text-center text-sm text-muted-foreground"
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={(event) => {
+          event.preventDefault();
+          if (dragIndex.current === null && event.dataTransfer.files?.length) handleFiles(event.dataTransfer.files);
+        }}
+      >
+        {t("products.media.hint", "Drop images here to upload.")}
+      </div>
+      <div className="flex items-center gap-2">
+        <Button type="button" variant="outline" onClick={() => inputRef.current?.click()}>
+          {t("app.actions.upload", "Upload")}
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(event) => {
+            const files = event.target.files;
+            if (files && files.length) handleFiles(files);
+            event.currentTarget.value = "";
+          }}
+        />
+        <p className="text-xs text-muted-foreground">{t("validation.imageType", "Use PNG, JPG, or WEBP (max {{size}}MB)", { size: MAX_IMAGE_MB })}</p>
+      </div>
+
+      {uploads.length > 0 && (
+        <ul className="space-y-2">
+          {uploads.map((entry) => (
+            <li key={entry.id} className="rounded-md border px-3 py-2 text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate">{entry.name}</span>
+                {entry.error ? (
+                  <span className="flex items-center gap-1">
+                    <Button type="button" variant="ghost" size="sm" className="h-6 px-2" onClick={() => retry(entry.id)}>
+                      <RotateCcw className="w-3 h-3" />
+                      {t("app.actions.retry", "Retry")}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      aria-label={t("app.actions.remove", "Remove")}
+                      onClick={() => {
+                        pendingFiles.current.delete(entry.id);
+                        patchUpload(entry.id, null);
+                      }}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </span>
+                ) : (
+                  <span className="tabular-nums text-muted-foreground">{Math.round(entry.progress * 100)}%</span>
+                )}
+              </div>
+              {entry.error ? <p className="mt-1 text-rose-600">{entry.error}</p> : <Progress value={entry.progress * 100} className="mt-1 h-1.5" />}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {images.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{t("products.images.empty", "No gallery images added")}</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {images.map((url, index) => {
+            const isPrimary = url === primary;
+            return (
+              <div
+                key={url}
+                className={`border rounded-lg p-2 space-y-2 ${isPrimary ? "border-primary" : ""}`}
+                draggable
+                onDragStart={() => (dragIndex.current = index)}
+                onDragEnd={() => (dragIndex.current = null)}
+                onDragOver={(event) => event.preventDefault()}
+                onDrop={(event) => handleTileDrop(event, index)}
+              >
+                <div className="relative w-full aspect-square bg-muted rounded-md overflow-hidden">
+                  <ImageWithFallback
+                    src={url}
+                    alt={value.alts[url]?.alt || `image-${index + 1}`}
+                    className="w-full h-full object-cover"
+                  />
+                  <GripVertical className="absolute top-1 start-1 w-4 h-4 cursor-grab text-white drop-shadow" />
+                  {isPrimary && <Badge className="absolute top-1 end-1">{t("products.mainImage", "Cover")}</Badge>}
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={index === 0}
+                      aria-label={t("products.images.moveEarlier", "Move earlier")}
+                      onClick={() => move(index, index - 1)}
+                    >
+                      <ChevronLeft className="w-4 h-4 rtl:rotate-180" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={index === images.length - 1}
+                      aria-label={t("products.images.moveLater", "Move later")}
+                      onClick={() => move(index, index + 1)}
+                    >
+                      <ChevronRight className="w-4 h-4 rtl:rotate-180" />
+                    </Button>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      aria-pressed={isPrimary}
+                      aria-label={t("products.images.setCover", "Use as cover")}
+                      title={t("products.images.setCover", "Use as cover")}
+                      onClick={() => onChange({ ...value, primary: url })}
+                    >
+                      <Star className={`w-4 h-4 ${isPrimary ? "fill-amber-400 text-amber-500" : ""}`} />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      aria-label={t("products.images.crop", "Crop")}
+                      title={t("products.images.crop", "Crop")}
+                      onClick={() => setCropSource({ url, file: localFiles.current.get(url) })}
+                    >
+                      <Crop className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-rose-500"
+                      aria-label={t("app.actions.delete")}
+                      onClick={() => {
+                        const next = removeImage(images, primary, url);
+                        const { [url]: _removed, ...alts } = value.alts;
+                        onChange({ ...next, alts });
+                      }}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Input
+                  className="h-8 text-xs"
+                  value={value.alts[url]?.alt ?? ""}
+                  placeholder={t("products.images.altEn", "Alt text (English)")}
+                  aria-label={t("products.images.altEn", "Alt text (English)")}
+                  onChange={(event) => setAlt(url, "alt", event.target.value)}
+                />
+                <Input
+                  className="h-8 text-xs"
+                  dir="rtl"
+                  value={value.alts[url]?.altAr ?? ""}
+                  placeholder={t("products.images.altAr", "Alt text (Arabic)")}
+                  aria-label={t("products.images.altAr", "Alt text (Arabic)")}
+                  onChange={(event) => setAlt(url, "altAr", event.target.value)}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <ImageCropDialog source={cropSource} onOpenChange={(open) => !open && setCropSource(null)} onCropped={handleCropped} />
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "../../../ui/button";
+import { Input } from "../../../ui/input";
+import { Label } from "../../../ui/label";
+import { Textarea } from "../../../ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { PRODUCTS_QUERY_KEY } from "../../../../hooks/api/useProductsAdmin";
+import { PROVIDER_PRODUCTS_QUERY_KEY } from "../../../../hooks/api/useProductsProvider";
+import { STOCK_MOVEMENTS_QUERY_KEY } from "../../../../hooks/api/useStockMovements";
+import { DASHBOARD_SUMMARY_KEY } from "../../../../hooks/api/useDashboardAdmin";
+import { adjustStock, type InventoryScope } from "../../../../services/inventory.service";
+import { ADJUSTMENT_REASONS, adjustmentDelta, parseQuantity, validateAdjustment, variantLabel } from "../../../../lib/inventory";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import type { ProductVariant } from "../../../../types/product";
+import type { StockAdjustmentInput, StockAdjustmentReason } from "../../../../types/inventory";
+
+/** Just enough of a product to adjust it; the dashboard low-stock items carry no variants. */
+export type StockTarget = {
+  id: string;
+  name: string;
+  nameAr?: string;
+  stock: number;
+  variants?: ProductVariant[];
+};
+
+type StockAdjustDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product: StockTarget | null;
+  scope?: InventoryScope;
+  defaultReason?: StockAdjustmentReason;
+};
+
+/** Records one stock adjustment with its reason; the ledger keeps the signed change. */
+export function StockAdjustDialog({ open, onOpenChange, product, scope = "admin", defaultReason = "RECEIVE" }: StockAdjustDialogProps) {
+  const { t, i18n } = useTranslation();
+  const isArabic = i18n.language?.startsWith("ar");
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState<StockAdjustmentReason>(defaultReason);
+  const [variantId, setVariantId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [note, setNote] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+
+  const variants = (product?.variants ?? []).filter((variant) => variant.id);
+  const variant = variants.find((item) => item.id === variantId);
+
+  useEffect(() => {
+    if (!open) return;
+    setReason(defaultReason);
+    setVariantId(variants[0]?.id ?? "");
+    setQuantity("");
+    setNote("");
+    setSubmitted(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, product?.id, defaultReason]);
+
+  const currentStock = variant ? variant.stock : product?.stock ?? 0;
+  const issue = validateAdjustment(reason, quantity, currentStock);
+  const parsed = parseQuantity(quantity);
+  const delta = parsed === null ? null : adjustmentDelta(reason, parsed, currentStock);
+
+  const mutation = useMutation({
+    mutationFn: (body: StockAdjustmentInput) => adjustStock(product!.id, body, scope),
+    onSuccess: () => {
+      toast.success(t("inventory.adjusted", "Stock updated"));
+      queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: PROVIDER_PRODUCTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: STOCK_MOVEMENTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: DASHBOARD_SUMMARY_KEY });
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(getAdminErrorMessage(error, t, t("inventory.adjustFailed", "Unable to adjust stock"))),
+  });
+
+  const handleSubmit = () => {
+    setSubmitted(true);
+    if (!product || issue || delta === null) return;
+    if (reason === "DAMAGE" && !note.trim()) return;
+    mutation.mutate({ reason, variantId: variant?.id, delta, expectedStock: currentStock, note });
+  };
+
+  const noteMissing = submitted && reason === "DAMAGE" && !note.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("inventory.adjustTitle", "Adjust stock")}</DialogTitle>
+          <DialogDescription>{product ? (isArabic && product.nameAr ? product.nameAr : product.name) : ""}</DialogDescription>
+        </DialogHeader>
+
+        <fieldset disabled={mutation.isPending} className="space-y-4">
+          <div className="space-y-1">
+            <Label>{t("inventory.reason", "Reason")}</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as StockAdjustmentReason)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADJUSTMENT_REASONS.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {t(`inventory.reasons.${item}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {variants.length > 0 && (
+            <div className="space-y-1">
+              <Label>{t("inventory.variant", "Variant")}</Label>
+              <Select value={variantId} onValueChange={setVariantId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {variants.map((item) => (
+                    <SelectItem key={item.id} value={item.id!}>
+                      {variantLabel(item.options)} ({item.stock})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label>
+              {reason === "COUNT_CORRECTION" ? t("inventory.countedQuantity", "Counted quantity") : t("inventory.quantity", "Quantity")}
+            </Label>
+            <Input
+              inputMode="numeric"
+              value={quantity}
+              autoFocus
+              onChange={(event) => setQuantity(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") handleSubmit();
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t("inventory.stockPreview", {
+                defaultValue: "Stock {{before}} → {{after}}",
+                before: currentStock,
+                after: delta === null ? "?" : currentStock + delta,
+              })}
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <Label>{reason === "DAMAGE" ? t("inventory.noteRequired", "Note (required)") : t("inventory.note", "Note")}</Label>
+            <Textarea
+              rows={2}
+              value={note}
+              placeholder={t("inventory.notePlaceholder", "Supplier invoice, damage details...")}
+              onChange={(event) => setNote(event.target.value)}
+            />
+          </div>
+        </fieldset>
+
+        {submitted && (issue || noteMissing) && (
+          <p className="rounded-md bg-rose-50 p-3 text-sm text-rose-700">
+            {issue ? t(`inventory.issues.${issue}`) : t("inventory.issues.note_required", "Describe the damage in the note")}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            {t("app.actions.cancel")}
+          </Button>
+          <Button type="button" disabled={!product || mutation.isPending} onClick={handleSubmit}>
+            {mutation.isPending ? t("common.saving", "Saving...") : t("inventory.apply", "Apply")}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
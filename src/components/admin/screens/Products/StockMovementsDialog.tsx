@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import dayjs from "dayjs";
+import { Button } from "../../../ui/button";
+import { Badge } from "../../../ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "../../../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../ui/table";
+import { AdminTableSkeleton } from "../../common/AdminTableSkeleton";
+import { EmptyState } from "../../common/EmptyState";
+import { ErrorState } from "../../common/ErrorState";
+import { useStockMovements } from "../../../../hooks/api/useStockMovements";
+import type { InventoryScope } from "../../../../services/inventory.service";
+import { variantLabel } from "../../../../lib/inventory";
+import { getAdminErrorMessage } from "../../../../lib/errors";
+import type { StockMovementReason } from "../../../../types/inventory";
+import type { StockTarget } from "./StockAdjustDialog";
+
+type StockMovementsDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product: StockTarget | null;
+  scope?: InventoryScope;
+  onAdjust?: () => void;
+};
+
+const PAGE_SIZE = 20;
+const REASONS: StockMovementReason[] = ["RECEIVE", "DAMAGE", "COUNT_CORRECTION", "RETURN", "ORDER", "ORDER_CANCELED", "MANUAL_EDIT"];
+
+/** Stock ledger of one product, newest first. */
+export function StockMovementsDialog({ open, onOpenChange, product, scope = "admin", onAdjust }: StockMovementsDialogProps) {
+  const { t, i18n } = useTranslation();
+  const isArabic = i18n.language?.startsWith("ar");
+  const [reason, setReason] = useState<StockMovementReason | "all">("all");
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    setReason("all");
+    setPage(1);
+  }, [product?.id]);
+
+  const query = useStockMovements(
+    product?.id,
+    { page, pageSize: PAGE_SIZE, reason: reason === "all" ? undefined : reason },
+    { enabled: open, scope }
+  );
+  const items = query.data?.items ?? [];
+  const totalPages = Math.max(1, Math.ceil((query.data?.total ?? 0) / PAGE_SIZE));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl w-[95vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("inventory.historyTitle", "Stock history")}</DialogTitle>
+          <DialogDescription>
+            {product ? `${isArabic && product.nameAr ? product.nameAr : product.name} · ${t("inventory.inStock", { defaultValue: "{{count}} in stock", count: product.stock })}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Select
+            value={reason}
+            onValueChange={(value) => {
+              setReason(value as StockMovementReason | "all");
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("inventory.allReasons", "All reasons")}</SelectItem>
+              {REASONS.map((item) => (
+                <SelectItem key={item} value={item}>
+                  {t(`inventory.reasons.${item}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {onAdjust && (
+            <Button size="sm" onClick={onAdjust}>
+              {t("inventory.adjustTitle", "Adjust stock")}
+            </Button>
+          )}
+        </div>
+
+        {query.isLoading ? (
+          <AdminTableSkeleton rows={5} columns={5} />
+        ) : query.isError ? (
+          <ErrorState
+            message={getAdminErrorMessage(query.error, t, t("inventory.historyFailed", "Unable to load stock history"))}
+            onRetry={() => query.refetch()}
+          />
+        ) : !items.length ? (
+          <EmptyState
+            title={t("inventory.historyEmpty", "No stock movements yet")}
+            description={t("inventory.historyEmptyHint", "Adjustments, counts and orders will show up here.")}
+          />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("inventory.date", "Date")}</TableHead>
+                <TableHead>{t("inventory.reason", "Reason")}</TableHead>
+                <TableHead className="text-end">{t("inventory.change", "Change")}</TableHead>
+                <TableHead>{t("inventory.stock", "Stock")}</TableHead>
+                <TableHead>{t("inventory.details", "Details")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((movement) => (
+                <TableRow key={movement.id}>
+                  <TableCell className="whitespace-nowrap text-xs">{dayjs(movement.createdAt).format("DD/MM/YYYY HH:mm")}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{t(`inventory.reasons.${movement.reason}`, movement.reason)}</Badge>
+                  </TableCell>
+                  <TableCell className={`text-end font-medium tabular-nums ${movement.delta < 0 ? "text-rose-600" : "text-emerald-600"}`}>
+                    {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm tabular-nums">
+                    {movement.stockBefore} → {movement.stockAfter}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground space-y-0.5">
+                    {movement.variantOptions && <p>{variantLabel(movement.variantOptions)}</p>}
+                    {movement.orderCode && <p>{t("inventory.order", { defaultValue: "Order {{code}}", code: movement.orderCode })}</p>}
+                    {movement.note && <p className="text-foreground">{movement.note}</p>}
+                    {movement.createdBy && <p>{movement.createdBy.name}</p>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))}>
+              {t("app.actions.prev")}
+            </Button>
+            <span className="text-muted-foreground">
+              {page}/{totalPages}
+            </span>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage((p) => Math.min(totalPages, p + 1))}>
+              {t("app.actions.next")}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
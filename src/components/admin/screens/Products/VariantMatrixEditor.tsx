@@ -0,0 +1,338 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "../../../ui/button";
+import { Input } from "../../../ui/input";
+import { Label } from "../../../ui/label";
+import { Switch } from "../../../ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../ui/table";
+import { fromCents, toCents } from "../../../../lib/money";
+import {
+  buildVariantMatrix,
+  discardedVariants,
+  matrixGroups,
+  parseAmount,
+  validateVariants,
+  type VariantFormValue,
+} from "../../../../lib/product-variants";
+import type { ProductOptionGroup, ProductOptionGroupType } from "../../../../types/product";
+
+type VariantMatrixEditorProps = {
+  groups: ProductOptionGroup[];
+  variants: VariantFormValue[];
+  onChange: (next: { groups: ProductOptionGroup[]; variants: VariantFormValue[] }) => void;
+  /** Seed price/SKU for newly generated rows */
+  basePrice: string;
+  baseSku?: string;
+  /** Product images a variant can point at */
+  images: string[];
+  canEditPrice: boolean;
+};
+
+const NO_IMAGE = "none";
+
+const decimalOnly = (value: string) => value.replace(/[^0-9.,\u0660-\u0669\u06f0-\u06f9]/g, "");
+const digitsOnly = (value: string) => value.replace(/[^0-9]/g, "");
+
+export function VariantMatrixEditor({ groups, variants, onChange, basePrice, baseSku, images, canEditPrice }: VariantMatrixEditorProps) {
+  const { t } = useTranslation();
+  const [fill, setFill] = useState({ price: "", stock: "" });
+  const axes = matrixGroups(groups);
+  const issues = validateVariants(variants);
+
+  const commitGroups = (nextGroups: ProductOptionGroup[], currentVariants = variants) => {
+    const nextVariants = buildVariantMatrix(nextGroups, currentVariants, { price: basePrice, sku: baseSku });
+    const discarded = discardedVariants(variants, nextVariants);
+    if (
+      discarded.length &&
+      !window.confirm(
+        t("products.variants.confirm_discard", {
+          defaultValue: "This removes {{count}} saved variants with their SKU, price and stock when the product is saved. Continue?",
+          count: discarded.length,
+        })
+      )
+    ) {
+      return;
+    }
+    onChange({ groups: nextGroups, variants: nextVariants });
+  };
+
+  const updateGroup = (index: number, patch: Partial<ProductOptionGroup>) => {
+    const previous = groups[index];
+    const nextGroups = groups.map((group, i) => (i === index ? { ...group, ...patch } : group));
+    // Keep existing rows when an axis is renamed
+    const renamed =
+      patch.name !== undefined && previous.name.trim() && patch.name.trim() !== previous.name.trim()
+        ? variants.map((variant) => {
+            const { [previous.name.trim()]: value, ...rest } = variant.options;
+            return value === undefined ? variant : { ...variant, options: { ...rest, [patch.name!.trim()]: value } };
+          })
+        : variants;
+    commitGroups(nextGroups, renamed);
+  };
+
+  const updateValue = (groupIndex: number, valueIndex: number, patch: Partial<ProductOptionGroup["values"][number]>) => {
+    const group = groups[groupIndex];
+    const previous = group.values[valueIndex];
+    const nextGroups = groups.map((item, i) =>
+      i === groupIndex
+        ? { ...item, values: item.values.map((value, j) => (j === valueIndex ? { ...value, ...patch } : value)) }
+        : item
+    );
+    const name = group.name.trim();
+    const renamed =
+      patch.label !== undefined && previous.label.trim()
+        ? variants.map((variant) =>
+            variant.options[name] === previous.label.trim()
+              ? { ...variant, options: { ...variant.options, [name]: patch.label!.trim() } }
+              : variant
+          )
+        : variants;
+    commitGroups(nextGroups, renamed);
+  };
+
+  const addGroup = () => commitGroups([...groups, { name: "", nameAr: "", type: "VARIANT", values: [{ label: "" }] }]);
+  const removeGroup = (index: number) => commitGroups(groups.filter((_, i) => i !== index));
+  const addValue = (groupIndex: number) =>
+    commitGroups(groups.map((group, i) => (i === groupIndex ? { ...group, values: [...group.values, { label: "" }] } : group)));
+  const removeValue = (groupIndex: number, valueIndex: number) =>
+    commitGroups(
+      groups.map((group, i) => (i === groupIndex ? { ...group, values: group.values.filter((_, j) => j !== valueIndex) } : group))
+    );
+
+  const updateVariant = (index: number, patch: Partial<VariantFormValue>) =>
+    onChange({ groups, variants: variants.map((variant, i) => (i === index ? { ...variant, ...patch } : variant)) });
+
+  const applyFill = () =>
+    onChange({
+      groups,
+      variants: variants.map((variant) => ({
+        ...variant,
+        ...(fill.price && canEditPrice ? { price: fill.price } : {}),
+        ...(fill.stock ? { stock: fill.stock } : {}),
+      })),
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium">{t("products.variants.title", "Options & variants")}</p>
+          <p className="text-xs text-muted-foreground">
+            {t("products.variants.hint", "Variant options (size, weight) build the SKU matrix; add-ons are extras priced on top.")}
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" className="gap-1" onClick={addGroup}>
+          <Plus className="w-4 h-4" />
+          {t("products.variants.add_group", "Add option group")}
+        </Button>
+      </div>
+
+      {groups.map((group, groupIndex) => (
+        <div key={group.id ?? groupIndex} className="space-y-2 rounded-md border p-3">
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-[1fr_1fr_9rem_auto]">
+            <Input
+              value={group.name}
+              placeholder={t("products.variants.group_name", "Group name (e.g. Size)")}
+              onChange={(event) => updateGroup(groupIndex, { name: event.target.value })}
+            />
+            <Input
+              dir="rtl"
+              value={group.nameAr ?? ""}
+              placeholder={t("products.variants.group_name_ar", "Arabic name")}
+              onChange={(event) => updateGroup(groupIndex, { nameAr: event.target.value })}
+            />
+            <Select value={group.type} onValueChange={(value) => updateGroup(groupIndex, { type: value as ProductOptionGroupType })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="VARIANT">{t("products.variants.type_variant", "Variant")}</SelectItem>
+                <SelectItem value="ADDON">{t("products.variants.type_addon", "Add-on")}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              aria-label={t("app.actions.remove", "Remove")}
+              onClick={() => removeGroup(groupIndex)}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          {group.type === "ADDON" && (
+            <label className="flex items-center gap-2 text-xs">
+              <Switch checked={Boolean(group.required)} onCheckedChange={(checked) => updateGroup(groupIndex, { required: checked })} />
+              {t("products.variants.required", "Customer must pick one")}
+            </label>
+          )}
+          <div className="space-y-2">
+            {group.values.map((value, valueIndex) => (
+              <div key={value.id ?? valueIndex} className="flex gap-2">
+                <Input
+                  value={value.label}
+                  placeholder={t("products.variants.value", "Value")}
+                  onChange={(event) => updateValue(groupIndex, valueIndex, { label: event.target.value })}
+                />
+                <Input
+                  dir="rtl"
+                  value={value.labelAr ?? ""}
+                  placeholder={t("products.variants.value_ar", "Arabic value")}
+                  onChange={(event) => updateValue(groupIndex, valueIndex, { labelAr: event.target.value })}
+                />
+                {group.type === "ADDON" && (
+                  <Input
+                    className="w-28"
+                    inputMode="decimal"
+                    placeholder="+0.00"
+                    disabled={!canEditPrice}
+                    defaultValue={value.priceDeltaCents ? fromCents(value.priceDeltaCents).toString() : ""}
+                    aria-label={t("products.variants.price_delta", "Extra price")}
+                    onBlur={(event) => {
+                      const amount = parseAmount(decimalOnly(event.target.value));
+                      updateValue(groupIndex, valueIndex, { priceDeltaCents: Number.isFinite(amount) ? toCents(amount) : 0 });
+                    }}
+                  />
+                )}
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  aria-label={t("app.actions.remove", "Remove")}
+                  onClick={() => removeValue(groupIndex, valueIndex)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" size="sm" variant="ghost" className="h-7 gap-1 px-2" onClick={() => addValue(groupIndex)}>
+              <Plus className="w-3 h-3" />
+              {t("products.variants.add_value", "Add value")}
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {variants.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <Label className="text-xs text-muted-foreground">{t("products.price")}</Label>
+              <Input
+                className="w-28"
+                inputMode="decimal"
+                disabled={!canEditPrice}
+                value={fill.price}
+                onChange={(event) => setFill((prev) => ({ ...prev, price: decimalOnly(event.target.value) }))}
+              />
+            </div>
+            <div>
+              <Label className="text-xs text-muted-foreground">{t("products.stock")}</Label>
+              <Input
+                className="w-24"
+                inputMode="numeric"
+                value={fill.stock}
+                onChange={(event) => setFill((prev) => ({ ...prev, stock: digitsOnly(event.target.value) }))}
+              />
+            </div>
+            <Button type="button" size="sm" variant="outline" disabled={!fill.price && !fill.stock} onClick={applyFill}>
+              {t("products.variants.apply_all", "Apply to all variants")}
+            </Button>
+          </div>
+
+          <div className="overflow-x-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {axes.map((group) => (
+                    <TableHead key={group.name}>{group.name}</TableHead>
+                  ))}
+                  <TableHead>{t("export.columns.sku", "SKU")}</TableHead>
+                  <TableHead>{t("products.price")}</TableHead>
+                  <TableHead>{t("products.salePrice")}</TableHead>
+                  <TableHead>{t("products.stock")}</TableHead>
+                  <TableHead>{t("products.variants.image", "Image")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {variants.map((variant, index) => {
+                  const rowIssues = issues[index] ?? [];
+                  const invalid = (issue: string) => (rowIssues.some((item) => item.startsWith(issue)) ? "border-rose-400" : "");
+                  return (
+                    <TableRow key={axes.map((group) => variant.options[group.name.trim()]).join("|")}>
+                      {axes.map((group) => (
+                        <TableCell key={group.name} className="whitespace-nowrap text-sm">
+                          {variant.options[group.name.trim()]}
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        <Input
+                          className={`w-32 ${invalid("sku")}`}
+                          value={variant.sku}
+                          onChange={(event) => updateVariant(index, { sku: event.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          className={`w-24 ${invalid("invalid_price")}`}
+                          inputMode="decimal"
+                          disabled={!canEditPrice}
+                          value={variant.price}
+                          onChange={(event) => updateVariant(index, { price: decimalOnly(event.target.value) })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          className={`w-24 ${invalid("invalid_sale_price")}`}
+                          inputMode="decimal"
+                          disabled={!canEditPrice}
+                          value={variant.salePrice}
+                          onChange={(event) => updateVariant(index, { salePrice: decimalOnly(event.target.value) })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          className={`w-20 ${invalid("invalid_stock")}`}
+                          inputMode="numeric"
+                          value={variant.stock}
+                          onChange={(event) => updateVariant(index, { stock: digitsOnly(event.target.value) })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={variant.imageUrl || NO_IMAGE}
+                          onValueChange={(value) => updateVariant(index, { imageUrl: value === NO_IMAGE ? "" : value })}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_IMAGE}>{t("products.variants.product_image", "Product image")}</SelectItem>
+                            {images.map((url, imageIndex) => (
+                              <SelectItem key={url} value={url}>
+                                {t("products.variants.image_n", { defaultValue: "Image {{n}}", n: imageIndex + 1 })}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          {Object.keys(issues).length > 0 && (
+            <ul className="space-y-1 text-xs text-rose-600">
+              {Array.from(new Set(Object.values(issues).flat())).map((issue) => (
+                <li key={issue}>{t(`products.variants.issues.${issue}`)}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useTranslation } from "react-i18next";
 import { useForm, Controller, type FieldError, type Resolver } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import dayjs from "dayjs";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import {
@@ -14,11 +15,12 @@ import {
   deleteProviderProduct,
   getProduct,
   getProviderProduct,
+  listProducts,
+  listProviderProducts,
   type Product,
-  downloadProductsBulkTemplate,
-  uploadProductsBulk,
 } from "../../../services/products.service";
-import { uploadAdminFile, uploadProviderFile } from "../../../services/uploads.service";
+import { addProductCost } from "../../../services/product-costs.service";
+import { uploadAdminFile, uploadProviderFile, type UploadOptions } from "../../../services/uploads.service";
 import { type Category } from "../../../services/categories.service";
 import { toCents, fromCents } from "../../../lib/money";
 import { Card, CardContent, CardHeader, CardTitle } from "../../ui/card";
@@ -61,30 +63,65 @@ import {
   Trash2,
   Filter,
   Upload,
-  Download,
   Flame,
   DollarSign,
   Package,
   ArrowUpDown,
   Image as ImageIcon,
   AlertTriangle,
+  ListChecks,
+  Coins,
+  Sheet,
+  ClipboardList,
+  History,
+  PackagePlus,
 } from "lucide-react";
 import { ImageWithFallback } from "../../figma/ImageWithFallback";
 import { toast } from "sonner";
 import { useAuth } from "../../../auth/AuthProvider";
 import { useDebounce } from "../../../hooks/useDebounce";
+import { useListState } from "../../../hooks/useListState";
+import { listParam, type ListStateSchema } from "../../../lib/list-state";
 import { useProductsAdmin, PRODUCTS_QUERY_KEY } from "../../../hooks/api/useProductsAdmin";
 import { useProductsProvider, PROVIDER_PRODUCTS_QUERY_KEY } from "../../../hooks/api/useProductsProvider";
 import { useCategoriesAdmin } from "../../../hooks/api/useCategoriesAdmin";
 import { useCategoriesProvider } from "../../../hooks/api/useCategoriesProvider";
 import { useProviders } from "../../../hooks/api/useProviders";
+import { useSettingsAdmin } from "../../../hooks/api/useSettingsAdmin";
+import { DEFAULT_LOW_STOCK_THRESHOLD, categoryThresholds, resolveThreshold } from "../../../lib/low-stock";
+import type { NotificationsSettings } from "../../../types/settings";
 import { AdminTableSkeleton } from "../../admin/common/AdminTableSkeleton";
 import { EmptyState } from "../../admin/common/EmptyState";
 import { ErrorState } from "../../admin/common/ErrorState";
+import { SavedViewsMenu } from "../../admin/common/SavedViewsMenu";
+import { TableExportButton } from "../../admin/common/TableExportButton";
+import { productExportColumns } from "../../../lib/export-columns";
+import { PRODUCT_COSTS_QUERY_KEY } from "../../../hooks/api/useProductCosts";
+import { MissingCostsQueue } from "./Products/MissingCostsQueue";
+import { MarginPreview } from "./Products/MarginPreview";
+import { CostHistoryList } from "./Products/CostHistoryList";
+import { VariantMatrixEditor } from "./Products/VariantMatrixEditor";
+import { BulkUploadDrawer } from "./Products/BulkUploadDrawer";
+import { ProductEditGrid } from "./Products/ProductEditGrid";
+import { StockAdjustDialog } from "./Products/StockAdjustDialog";
+import { StockMovementsDialog } from "./Products/StockMovementsDialog";
+import { CycleCountPanel } from "./Products/CycleCountPanel";
+import { LowStockPanel } from "./Products/LowStockPanel";
+import { CatalogAuditPanel } from "./Products/CatalogAuditPanel";
+import { ProductGalleryEditor } from "./Products/ProductGalleryEditor";
+import { altsByUrl, imageAltsPayload, resolvePrimary, type ImageAltText } from "../../../lib/product-gallery";
+import {
+  restoreVariantPrices,
+  summarizeVariants,
+  validateVariants,
+  variantsFromForm,
+  variantsToForm,
+  type VariantFormValue,
+} from "../../../lib/product-variants";
+import type { ProductOptionGroup } from "../../../types/product";
 import { getAdminErrorMessage } from "../../../lib/errors";
 import type { ScreenProps } from "../../admin/AdminDashboard";
 
-const MAX_FILE_MB = 2;
 const PAGE_SIZE_OPTIONS = [10, 20, 50];
 const DEFAULT_PAGE_SIZE = 20;
 
@@ -103,13 +140,23 @@ const productFormSchema = z
     price: z.string().trim().min(1, "validation.required"),
     salePrice: z.string().trim().optional(),
     stock: z.string().trim().min(1, "validation.required"),
+    lowStockThreshold: z.string().trim().optional(),
     status: z.enum(["DRAFT", "ACTIVE", "HIDDEN", "DISCONTINUED"]),
     isHotOffer: z.boolean().default(false),
     images: z.array(z.string().min(1)).default([]),
     mainImage: z.string().optional(),
+    imageAlts: z.record(z.string(), z.custom<ImageAltText>()).default({}),
     providerId: z.string().optional(),
+    cost: z.string().trim().optional(),
+    costEffectiveFrom: z.string().optional(),
+    optionGroups: z.array(z.custom<ProductOptionGroup>()).default([]),
+    variants: z.array(z.custom<VariantFormValue>()).default([]),
   })
   .superRefine((val, ctx) => {
+    if (val.variants.length && Object.keys(validateVariants(val.variants)).length) {
+      ctx.addIssue({ code: "custom", path: ["variants"], message: "products.variants.invalid" });
+    }
+
     const priceValue = parseCurrency(val.price);
     if (!Number.isFinite(priceValue) || priceValue <= 0) {
       ctx.addIssue({ code: "custom", path: ["price"], message: "products.invalid_price_positive" });
@@ -128,10 +175,21 @@ const productFormSchema = z
     if (!Number.isFinite(stockValue) || stockValue < 0) {
       ctx.addIssue({ code: "custom", path: ["stock"], message: "products.invalid_stock" });
     }
+
+    if (val.cost) {
+      const costValue = parseCurrency(val.cost);
+      if (!Number.isFinite(costValue) || costValue < 0) {
+        ctx.addIssue({ code: "custom", path: ["cost"], message: "products.cost.invalid" });
+      }
+      if (!val.costEffectiveFrom || !dayjs(val.costEffectiveFrom).isValid()) {
+        ctx.addIssue({ code: "custom", path: ["costEffectiveFrom"], message: "validation.required" });
+      }
+    }
   });
 
 type ProductFormValues = z.infer<typeof productFormSchema>;
-type DrawerState = { mode: "create" | "edit"; product?: Product } | null;
+/** `draft` holds unsaved form values to restore, e.g. after the product saved but its cost did not */
+type DrawerState = { mode: "create" | "edit"; product?: Product; draft?: ProductFormValues } | null;
 type StatusFilter = Product["status"] | "all";
 type StockFilter = "all" | "in" | "out" | "low";
 type SortField = "createdAt" | "priceCents" | "name";
@@ -148,28 +206,30 @@ type FilterState = {
   pageSize: number;
   sortField: SortField;
   sortDirection: "asc" | "desc";
+  /** Admin work queue of products without a cost */
+  missingCost: boolean;
+  /** Inline spreadsheet editing instead of the product list */
+  view: "list" | "grid" | "count" | "reorder" | "audit";
 };
 
-const defaultFilters: FilterState = {
-  status: "all",
-  categoryId: "all",
-  providerId: "all",
-  stock: "all",
-  onlyHot: false,
-  page: 1,
-  pageSize: DEFAULT_PAGE_SIZE,
-  sortField: "createdAt",
-  sortDirection: "desc",
-};
-
-type BulkRowStatus = { row: number | string; status: "success" | "failed"; message?: string; name?: string };
-type BulkUploadResult = {
-  created: number;
-  updated: number;
-  skipped?: number;
-  dryRun?: boolean;
-  rows?: BulkRowStatus[];
-  errors?: { row: number | string; message: string; name?: string }[];
+/** Filters plus the committed (debounced) search, as kept in the URL */
+type ProductListState = FilterState & { q: string };
+
+const PRODUCTS_LIST_SCHEMA: ListStateSchema<ProductListState> = {
+  q: listParam.string(),
+  status: listParam.oneOf<StatusFilter>(["all", "ACTIVE", "DRAFT", "HIDDEN", "DISCONTINUED"], "all"),
+  categoryId: listParam.string("all"),
+  providerId: listParam.string("all"),
+  stock: listParam.oneOf<StockFilter>(["all", "in", "out", "low"], "all"),
+  onlyHot: listParam.boolean(),
+  minPrice: listParam.optionalNumber(),
+  maxPrice: listParam.optionalNumber(),
+  page: listParam.number(1, { min: 1 }),
+  pageSize: listParam.number(DEFAULT_PAGE_SIZE, { min: 1, max: 200 }),
+  sortField: listParam.oneOf<SortField>(["createdAt", "priceCents", "name"], "createdAt"),
+  sortDirection: listParam.oneOf(["asc", "desc"] as const, "desc"),
+  missingCost: listParam.boolean(),
+  view: listParam.oneOf(["list", "grid", "count", "reorder", "audit"] as const, "list"),
 };
 
 const statusStyles: Record<Product["status"], string> = {
@@ -232,11 +292,17 @@ function mapProductToForm(product?: Product): ProductFormValues {
       price: "",
       salePrice: "",
       stock: "",
+      lowStockThreshold: "",
       status: "ACTIVE",
       isHotOffer: false,
       images: [],
       mainImage: "",
+      imageAlts: {},
       providerId: "",
+      cost: "",
+      costEffectiveFrom: dayjs().format("YYYY-MM-DD"),
+      optionGroups: [],
+      variants: [],
     };
   }
   return {
@@ -249,11 +315,17 @@ function mapProductToForm(product?: Product): ProductFormValues {
     price: fromCents(product.priceCents).toString(),
     salePrice: product.salePriceCents ? fromCents(product.salePriceCents).toString() : "",
     stock: product.stock.toString(),
+    lowStockThreshold: product.lowStockThreshold != null ? String(product.lowStockThreshold) : "",
     status: product.status,
     isHotOffer: !!product.isHotOffer,
     images: product.images?.filter(Boolean) || [],
     mainImage: product.imageUrl || product.images?.[0] || "",
+    imageAlts: altsByUrl(product.imageAlts),
     providerId: product.providerId || "",
+    cost: product.costPriceCents != null ? fromCents(product.costPriceCents).toString() : "",
+    costEffectiveFrom: dayjs().format("YYYY-MM-DD"),
+    optionGroups: product.optionGroups ?? [],
+    variants: variantsToForm(product.variants),
   };
 }
 
@@ -321,12 +393,13 @@ function buildFilterChips(
   if (filters.onlyHot) chips.push({ label: t("products.hotOffer") });
   if (filters.minPrice) chips.push({ label: `${t("products.minPrice")}: ${filters.minPrice}` });
   if (filters.maxPrice) chips.push({ label: `${t("products.maxPrice")}: ${filters.maxPrice}` });
+  if (filters.missingCost) chips.push({ label: t("products.cost.queue_title", "Missing costs") });
   return chips;
 }
 
-function stockClass(stock: number) {
+function stockClass(stock: number, threshold: number) {
   if (stock === 0) return stockBadge.out;
-  if (stock > 0 && stock <= 10) return stockBadge.low;
+  if (stock > 0 && stock <= threshold) return stockBadge.low;
   return stockBadge.ok;
 }
 
@@ -353,11 +426,29 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
   const deleteFn = isProvider ? deleteProviderProduct : deleteProduct;
   const getFn = isProvider ? getProviderProduct : getProduct;
 
-  const [filters, setFilters] = useState<FilterState>(defaultFilters);
-  const [searchInput, setSearchInput] = useState("");
+  const {
+    state: filters,
+    setState: setFilters,
+    applyQuery,
+    reset: resetListState,
+    query: listQuery,
+  } = useListState(PRODUCTS_LIST_SCHEMA, { screen: "products" });
+  const [searchInput, setSearchInput] = useState(filters.q);
   const debouncedSearch = useDebounce(searchInput, 400);
+
+  useEffect(() => {
+    if (debouncedSearch.trim() !== filters.q) setFilters({ q: debouncedSearch.trim() });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedSearch]);
+
+  // Saved views and back/forward change the URL search; mirror it into the input
+  useEffect(() => {
+    setSearchInput((current) => (current.trim() === filters.q ? current : filters.q));
+  }, [filters.q]);
   const [drawerState, setDrawerState] = useState<DrawerState>(null);
   const [bulkOpen, setBulkOpen] = useState(false);
+  const [stockDialog, setStockDialog] = useState<{ mode: "adjust" | "history"; product: Product } | null>(null);
+  const gridDirtyRef = useRef(0);
 
   const categoriesQuery = isProvider
     ? useCategoriesProvider({ pageSize: 100 }, { enabled: true })
@@ -379,7 +470,7 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
   }, [providers, isArabic]);
 
   const apiFilters = useMemo(() => {
-    const q = debouncedSearch.trim();
+    const q = filters.q;
     return {
       q: q || undefined,
       categoryId: filters.categoryId !== "all" ? filters.categoryId : undefined,
@@ -401,7 +492,7 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
       page: filters.page,
       pageSize: filters.pageSize,
     };
-  }, [filters, debouncedSearch, isAdmin]);
+  }, [filters, isAdmin]);
 
   const productsQuery = isProvider ? useProductsProvider(apiFilters) : useProductsAdmin(apiFilters);
 
@@ -442,11 +533,18 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
     return flattened;
   }, [categoriesQuery.data?.items, isArabic]);
 
+  const settingsQuery = useSettingsAdmin({ enabled: isAdmin });
+  const defaultThreshold =
+    (settingsQuery.data?.notifications as NotificationsSettings | undefined)?.adminAlerts?.lowStock?.threshold ??
+    DEFAULT_LOW_STOCK_THRESHOLD;
+  const thresholdsByCategory = useMemo(() => categoryThresholds(categoriesQuery.data?.items || []), [categoriesQuery.data?.items]);
+  const thresholdFor = (product: Product) => resolveThreshold(product, thresholdsByCategory, defaultThreshold).threshold;
+
   const tableItems = useMemo(() => {
     const data = productsQuery.data?.items || [];
     if (filters.stock !== "low") return data;
-    return data.filter((item) => item.stock > 0 && item.stock <= 10);
-  }, [productsQuery.data?.items, filters.stock]);
+    return data.filter((item) => item.stock > 0 && item.stock <= resolveThreshold(item, thresholdsByCategory, defaultThreshold).threshold);
+  }, [productsQuery.data?.items, filters.stock, thresholdsByCategory, defaultThreshold]);
 
   const productListParentRef = useRef<HTMLDivElement | null>(null);
   const productVirtualizer = useVirtualizer({
@@ -462,13 +560,15 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
   const stats = useMemo(() => {
     const items = tableItems;
     const active = items.filter((p) => p.status === "ACTIVE").length;
-    const lowStock = items.filter((p) => p.stock > 0 && p.stock <= 10).length;
+    const lowStock = items.filter(
+      (p) => p.stock > 0 && p.stock <= resolveThreshold(p, thresholdsByCategory, defaultThreshold).threshold
+    ).length;
     const outOfStock = items.filter((p) => p.stock === 0).length;
     return { total: total || items.length, active, lowStock, outOfStock };
-  }, [tableItems, total]);
+  }, [tableItems, total, thresholdsByCategory, defaultThreshold]);
 
   const upsertMutation = useMutation({
-    mutationFn: async (payload: { id?: string; values: ProductFormValues; imageFile: File | null; product?: Product }) => {
+    mutationFn: async (payload: { id?: string; values: ProductFormValues; product?: Product }) => {
       const priceValue = parseCurrency(payload.values.price);
       const saleValue = payload.values.salePrice ? parseCurrency(payload.values.salePrice) : NaN;
       const stockValue = Number.parseInt(sanitizeIntegerInput(payload.values.stock), 10);
@@ -493,13 +593,22 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
         categoryId: payload.values.categoryId,
         status: payload.values.status,
         stock: stockValue,
+        lowStockThreshold: payload.values.lowStockThreshold
+          ? Number.parseInt(sanitizeIntegerInput(payload.values.lowStockThreshold), 10)
+          : null,
         isHotOffer: payload.values.isHotOffer,
         priceCents: toCents(priceValue),
         salePriceCents: payload.values.salePrice ? toCents(saleValue) : undefined,
-        imageUrl: payload.values.mainImage || payload.values.images[0] || undefined,
+        imageUrl: resolvePrimary(payload.values.images, payload.values.mainImage) || undefined,
         images: payload.values.images.filter(Boolean),
+        imageAlts: imageAltsPayload(payload.values.images, payload.values.imageAlts),
         providerId: payload.values.providerId || undefined,
       };
+      // Send the matrix when there is one, or when clearing a product that had one
+      if (payload.values.optionGroups.length || payload.product?.optionGroups?.length) {
+        basePayload.optionGroups = payload.values.optionGroups;
+        basePayload.variants = variantsFromForm(payload.values.variants);
+      }
 
       const canCreateProduct = isAdmin || isProvider;
       const canEditPricing = isAdmin || isProvider;
@@ -517,28 +626,45 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
           payload.product && typeof payload.product.salePriceCents !== "undefined"
             ? payload.product.salePriceCents ?? undefined
             : basePayload.salePriceCents;
-      }
-
-      if (payload.imageFile) {
-        const { url } = await uploadFile(payload.imageFile);
-        basePayload.imageUrl = url;
-        if (!basePayload.images?.length) {
-          basePayload.images = [url];
-        } else if (!basePayload.images.includes(url)) {
-          basePayload.images = [url, ...basePayload.images];
+        if (basePayload.variants) {
+          basePayload.variants = restoreVariantPrices(basePayload.variants, payload.product.variants, payload.product.priceCents);
         }
       }
 
-      if (payload.id) {
-        return updateFn(payload.id, basePayload, null);
+      const saved = payload.id ? await updateFn(payload.id, basePayload, null) : await createFn(basePayload, null);
+
+      // Cost history lives behind the admin API; a new entry is only added when the cost or its start date changed
+      let costError: unknown = null;
+      if (isAdmin && payload.values.cost && saved?.id) {
+        const costCents = toCents(parseCurrency(payload.values.cost));
+        const effectiveFrom = dayjs(payload.values.costEffectiveFrom).startOf("day");
+        if (costCents !== payload.product?.costPriceCents || !effectiveFrom.isSame(dayjs(), "day")) {
+          try {
+            await addProductCost(saved.id, { costCents, effectiveFrom: effectiveFrom.toISOString() });
+          } catch (error) {
+            costError = error;
+          }
+        }
       }
-      return createFn(basePayload, null);
+      return { saved, costError };
     },
-    onSuccess: (_, variables) => {
+    onSuccess: ({ saved, costError }, variables) => {
+      queryClient.invalidateQueries({ queryKey: productQueryKey });
+      if (isAdmin) queryClient.invalidateQueries({ queryKey: PRODUCT_COSTS_QUERY_KEY });
+      if (costError) {
+        // The product exists now, so the retry must edit it; the typed cost stays in the form unsaved
+        toast.warning(
+          t("products.cost.partial_save", {
+            defaultValue: "Product saved, but its cost was not: {{message}}",
+            message: getAdminErrorMessage(costError, t, t("products.cost.save_failed", "Unable to save cost")),
+          })
+        );
+        setDrawerState({ mode: "edit", product: saved ?? variables.product, draft: variables.values });
+        return;
+      }
       toast.success(
         variables.id ? t("products.updated", "Product updated") : t("products.created", "Product created")
       );
-      queryClient.invalidateQueries({ queryKey: productQueryKey });
       setDrawerState(null);
     },
     onError: (error) => {
@@ -584,8 +710,23 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
       filters.sortField === field ? "text-foreground" : "text-muted-foreground"
     } ${filters.sortField === field && filters.sortDirection === "asc" ? "rotate-180" : ""}`;
 
+  const switchView = (view: FilterState["view"]) => {
+    if (
+      filters.view === "grid" &&
+      gridDirtyRef.current > 0 &&
+      !window.confirm(t("products.grid.leaveConfirm", "Discard unsaved grid changes?"))
+    ) {
+      return;
+    }
+    setFilters((prev) => ({ ...prev, view, missingCost: view === "list" || view === "grid" ? prev.missingCost : false }));
+  };
+  // Prefer the refetched row so the dialogs show the stock after an adjustment
+  const stockProduct = stockDialog ? tableItems.find((item) => item.id === stockDialog.product.id) ?? stockDialog.product : null;
+
+  const toggleGridView = () => switchView(filters.view === "grid" ? "list" : "grid");
+
   const resetFilters = () => {
-    setFilters(defaultFilters);
+    resetListState();
     setSearchInput("");
   };
 
@@ -600,6 +741,38 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
   const endAlignClass = isRTL ? "text-left" : "text-right";
   const sortHeaderClass = isRTL ? "flex-row-reverse" : "";
 
+  // Stable between renders, otherwise every refetch would reset the open form
+  const formInitialValues = useMemo(() => mapProductToForm(drawerState?.product), [drawerState?.product]);
+
+  const sidePanel =
+    isAdmin && filters.missingCost ? (
+      <MissingCostsQueue
+        q={apiFilters.q}
+        providerId={apiFilters.providerId}
+        categoryId={apiFilters.categoryId}
+        categoryName={(id) => categoryLookup.get(id)}
+        onEdit={(product) => setDrawerState({ mode: "edit", product })}
+        onClose={() => setFilters((prev) => ({ ...prev, missingCost: false }))}
+      />
+    ) : canManageProducts && filters.view === "count" ? (
+      <CycleCountPanel
+        filterKey={{ ...apiFilters, page: undefined, pageSize: undefined }}
+        fetchPage={(page, pageSize) => (isProvider ? listProviderProducts : listProducts)({ ...apiFilters, page, pageSize })}
+        scope={isProvider ? "provider" : "admin"}
+        categoryName={(id) => categoryLookup.get(id)}
+        onClose={() => switchView("list")}
+      />
+    ) : canManageProducts && filters.view === "reorder" ? (
+      <LowStockPanel scope={isProvider ? "provider" : "admin"} providers={isAdmin ? providers : undefined} onClose={() => switchView("list")} />
+    ) : canManageProducts && filters.view === "audit" ? (
+      <CatalogAuditPanel
+        scope={isProvider ? "provider" : "admin"}
+        providers={isAdmin ? providers : undefined}
+        onEdit={(product) => setDrawerState({ mode: "edit", product })}
+        onClose={() => switchView("list")}
+      />
+    ) : null;
+
   return (
     <div className="p-4 lg:p-6 space-y-6">
       <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
@@ -611,6 +784,44 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
         </div>
         {canManageProducts && (
           <div className="flex flex-col sm:flex-row gap-3">
+            {isAdmin && (
+              <Button
+                variant={filters.missingCost ? "secondary" : "outline"}
+                className="gap-2"
+                aria-pressed={filters.missingCost}
+                onClick={() => setFilters((prev) => ({ ...prev, missingCost: !prev.missingCost }))}
+              >
+                <Coins className="w-4 h-4" />
+                {t("products.cost.queue_title", "Missing costs")}
+              </Button>
+            )}
+            <Button
+              variant={filters.view === "count" ? "secondary" : "outline"}
+              className="gap-2"
+              aria-pressed={filters.view === "count"}
+              onClick={() => switchView(filters.view === "count" ? "list" : "count")}
+            >
+              <ClipboardList className="w-4 h-4" />
+              {t("inventory.count.title", "Cycle count")}
+            </Button>
+            <Button
+              variant={filters.view === "reorder" ? "secondary" : "outline"}
+              className="gap-2"
+              aria-pressed={filters.view === "reorder"}
+              onClick={() => switchView(filters.view === "reorder" ? "list" : "reorder")}
+            >
+              <AlertTriangle className="w-4 h-4" />
+              {t("lowStock.reorder", "Reorder")}
+            </Button>
+            <Button
+              variant={filters.view === "audit" ? "secondary" : "outline"}
+              className="gap-2"
+              aria-pressed={filters.view === "audit"}
+              onClick={() => switchView(filters.view === "audit" ? "list" : "audit")}
+            >
+              <ListChecks className="w-4 h-4" />
+              {t("audit.button", "Quality audit")}
+            </Button>
             {isAdmin && (
               <Button variant="outline" className="gap-2" onClick={() => setBulkOpen(true)}>
                 <Upload className="w-4 h-4" />
@@ -712,6 +923,16 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
                   ))}
                 </SelectContent>
               </Select>
+              <SavedViewsMenu screen="products" query={listQuery} onApply={applyQuery} />
+              <TableExportButton
+                filename="products"
+                title={t("products.title")}
+                columns={productExportColumns({
+                  categoryName: (id) => categoryLookup.get(id),
+                  providerName: isAdmin ? (id) => providerLookup.get(id) : undefined,
+                })}
+                fetchPage={(page, pageSize) => (isProvider ? listProviderProducts : listProducts)({ ...apiFilters, page, pageSize })}
+              />
             </div>
           </div>
 
@@ -804,15 +1025,30 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
         </CardContent>
       </Card>
 
-      <Card>
+      {sidePanel}
+      <Card className={sidePanel ? "hidden" : undefined}>
         <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
           <CardTitle className="text-base font-semibold flex items-center gap-2">
             <Filter className="w-4 h-4 text-muted-foreground" />
             {t("products.tableTitle", "Products")}
           </CardTitle>
-          <span className="text-sm text-muted-foreground">
-            {t("app.table.page")} {filters.page} {t("app.table.of")} {totalPages}
-          </span>
+          <div className="flex items-center gap-3">
+            {canManageProducts && (
+              <Button
+                size="sm"
+                variant={filters.view === "grid" ? "secondary" : "outline"}
+                className="gap-2"
+                aria-pressed={filters.view === "grid"}
+                onClick={toggleGridView}
+              >
+                <Sheet className="w-4 h-4" />
+                {t("products.grid.toggle", "Grid edit")}
+              </Button>
+            )}
+            <span className="text-sm text-muted-foreground">
+              {t("app.table.page")} {filters.page} {t("app.table.of")} {totalPages}
+            </span>
+          </div>
         </CardHeader>
         <CardContent className="p-0">
           {productsQuery.isLoading ? (
@@ -826,6 +1062,15 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
                 onRetry={() => productsQuery.refetch()}
               />
             </div>
+          ) : canManageProducts && filters.view === "grid" ? (
+            <ProductEditGrid
+              products={tableItems}
+              categoryName={(id) => categoryLookup.get(id)}
+              canEditPrice={isAdmin || isProvider}
+              saveProduct={(id, patch) => updateFn(id, patch, null)}
+              onSaved={() => queryClient.invalidateQueries({ queryKey: productQueryKey })}
+              onDirtyChange={(count) => (gridDirtyRef.current = count)}
+            />
           ) : tableItems.length ? (
             <div className="overflow-x-auto" dir={i18n.dir()}>
               <div ref={productListParentRef} className="max-h-[70vh] overflow-auto">
@@ -896,6 +1141,11 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
                           <div className="space-y-0.5">
                             <p className="font-medium text-sm">{primaryName}</p>
                             <p className="text-xs text-muted-foreground max-w-[220px] truncate">{secondaryName}</p>
+                            {product.variants?.length ? (
+                              <Badge variant="outline" className="text-[10px]">
+                                {t("products.variants.count", { defaultValue: "{{count}} variants", count: product.variants.length })}
+                              </Badge>
+                            ) : null}
                           </div>
                         </div>
                       </TableCell>
@@ -903,10 +1153,10 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
                       <TableCell className={primaryAlignClass}>{formatDate(product.createdAt, i18n.language)}</TableCell>
                       <TableCell className={primaryAlignClass}>{formatPrice(product.priceCents, i18n.language)}</TableCell>
                       <TableCell className={primaryAlignClass}>
-                        <Badge className={stockClass(product.stock)}>
+                        <Badge className={stockClass(product.stock, thresholdFor(product))}>
                           {product.stock === 0
                             ? t("products.stockFilters.out", "Out of stock")
-                            : product.stock <= 10
+                            : product.stock <= thresholdFor(product)
                             ? t("products.stockFilters.low", "Low stock")
                             : t("products.stockFilters.in", "In stock")}{" "}
                           ({product.stock})
@@ -927,6 +1177,26 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
                       </TableCell>
                       <TableCell className={endAlignClass}>
                         <div className={`flex ${isRTL ? "justify-start" : "justify-end"} gap-2`}>
+                          {canManageProducts && (
+                            <>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                aria-label={t("inventory.adjustTitle", "Adjust stock")}
+                                onClick={() => setStockDialog({ mode: "adjust", product })}
+                              >
+                                <PackagePlus className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                aria-label={t("inventory.historyTitle", "Stock history")}
+                                onClick={() => setStockDialog({ mode: "history", product })}
+                              >
+                                <History className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
                           <Button size="icon" variant="ghost" onClick={() => setDrawerState({ mode: "edit", product })}>
                             <Edit className="w-4 h-4" />
                           </Button>
@@ -1048,14 +1318,15 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
             providers={providers}
             showProviderSelect={isAdmin}
             providerDefaultId={isAdmin && filters.providerId !== "all" ? filters.providerId : undefined}
-            initialValues={mapProductToForm(drawerState?.product)}
+            initialValues={formInitialValues}
+            draftValues={drawerState?.draft}
             loading={upsertMutation.isPending}
             canEditPrice={isAdmin || isProvider}
+            showCost={isAdmin}
+            productId={drawerState?.product?.id}
             uploadFile={uploadFile}
             onCancel={() => setDrawerState(null)}
-            onSubmit={(values, imageFile) =>
-              upsertMutation.mutate({ id: drawerState?.product?.id, values, imageFile, product: drawerState?.product })
-            }
+            onSubmit={(values) => upsertMutation.mutate({ id: drawerState?.product?.id, values, product: drawerState?.product })}
           />
         </DialogContent>
       </Dialog>
@@ -1067,6 +1338,24 @@ export function ProductsManagement(props?: Partial<ScreenProps>) {
           onCompleted={() => queryClient.invalidateQueries({ queryKey: productQueryKey })}
         />
       )}
+
+      {canManageProducts && (
+        <>
+          <StockAdjustDialog
+            open={stockDialog?.mode === "adjust"}
+            onOpenChange={(open) => !open && setStockDialog(null)}
+            product={stockProduct}
+            scope={isProvider ? "provider" : "admin"}
+          />
+          <StockMovementsDialog
+            open={stockDialog?.mode === "history"}
+            onOpenChange={(open) => !open && setStockDialog(null)}
+            product={stockProduct}
+            scope={isProvider ? "provider" : "admin"}
+            onAdjust={() => setStockDialog((prev) => prev && { ...prev, mode: "adjust" })}
+          />
+        </>
+      )}
     </div>
   );
 }
@@ -1100,10 +1389,15 @@ type ProductFormProps = {
   showProviderSelect: boolean;
   providerDefaultId?: string;
   initialValues: ProductFormValues;
+  /** Unsaved values shown on top of `initialValues`, leaving the form dirty */
+  draftValues?: ProductFormValues;
   loading: boolean;
   canEditPrice: boolean;
-  uploadFile: (file: File | Blob, options?: { resize?: { maxDimension?: number; quality?: number; maxBytes?: number } }) => Promise<{ url: string; warnings?: string[] }>;
-  onSubmit: (values: ProductFormValues, imageFile: File | null) => void;
+  /** Admin-only cost entry with margin preview and history */
+  showCost?: boolean;
+  productId?: string;
+  uploadFile: (file: File | Blob, options?: UploadOptions) => Promise<{ url: string; warnings?: string[] }>;
+  onSubmit: (values: ProductFormValues) => void;
   onCancel: () => void;
 };
 
@@ -1114,8 +1408,11 @@ function ProductForm({
   showProviderSelect,
   providerDefaultId,
   initialValues,
+  draftValues,
   loading,
   canEditPrice,
+  showCost,
+  productId,
   uploadFile,
   onSubmit,
   onCancel,
@@ -1130,28 +1427,18 @@ function ProductForm({
     error?.message ? (
       <p className="text-xs text-rose-600 mt-1">{t(error.message as string, { defaultValue: error.message as string })}</p>
     ) : null;
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const slugEdited = useRef(false);
 
   useEffect(() => {
     form.reset(initialValues);
-    setImageFile(null);
     slugEdited.current = false;
-    if (showProviderSelect && providerDefaultId && !initialValues.providerId) {
+    if (draftValues) {
+      form.reset(draftValues, { keepDefaultValues: true });
+      slugEdited.current = true;
+    } else if (showProviderSelect && providerDefaultId && !initialValues.providerId) {
       form.setValue("providerId", providerDefaultId);
     }
-  }, [initialValues, form, providerDefaultId, showProviderSelect]);
-
-  useEffect(() => {
-    if (!imageFile) {
-      setPreviewUrl(null);
-      return;
-    }
-    const url = URL.createObjectURL(imageFile);
-    setPreviewUrl(url);
-    return () => URL.revokeObjectURL(url);
-  }, [imageFile]);
+  }, [initialValues, draftValues, form, providerDefaultId, showProviderSelect]);
 
   const nameValue = form.watch("name");
   const saleValue = form.watch("salePrice");
@@ -1162,6 +1449,30 @@ function ProductForm({
   }, [nameValue, form]);
 
   const discount = calcDiscount(form.watch("price"), saleValue || "");
+  const costValue = form.watch("cost");
+  const optionGroups = form.watch("optionGroups");
+  const variants = form.watch("variants");
+  const hasVariants = variants.length > 0;
+
+  // With variants, the product-level price and stock mirror the lowest variant price and total stock
+  useEffect(() => {
+    if (!variants.length) return;
+    const valid = variantsFromForm(variants).filter((variant) => Number.isFinite(variant.priceCents) && variant.priceCents > 0);
+    const summary = summarizeVariants(valid);
+    if (!summary) return;
+    form.setValue("price", fromCents(summary.minPriceCents).toString());
+    form.setValue(
+      "salePrice",
+      summary.minSalePriceCents != null && summary.minSalePriceCents < summary.minPriceCents
+        ? fromCents(summary.minSalePriceCents).toString()
+        : ""
+    );
+    form.setValue("stock", String(summary.totalStock));
+  }, [variants, form]);
+  const toPreviewCents = (value?: string) => {
+    const parsed = value ? parseCurrency(value) : NaN;
+    return Number.isFinite(parsed) ? toCents(parsed) : null;
+  };
   const selectedProviderId = form.watch("providerId");
   const visibleCategories = showProviderSelect && selectedProviderId
     ? categories.filter((category) => category.providerId === selectedProviderId)
@@ -1169,20 +1480,7 @@ function ProductForm({
   const visibleCategoryIds = new Set(visibleCategories.map((category) => category.id));
   const visibleOptions = categoryOptions.filter((option) => visibleCategoryIds.has(option.id));
 
-  const handleImageChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) {
-      setImageFile(null);
-      return;
-    }
-    if (file.size > MAX_FILE_MB * 1024 * 1024) {
-      toast.error(t("products.upload.too_large", "File too large"));
-      return;
-    }
-    setImageFile(file);
-  };
-
-  const submit = form.handleSubmit((values: ProductFormValues) => onSubmit(values, imageFile));
+  const submit = form.handleSubmit((values: ProductFormValues) => onSubmit(values));
 
   return (
     <form className="space-y-6" onSubmit={submit}>
@@ -1284,7 +1582,7 @@ function ProductForm({
                     inputMode="decimal"
                     onChange={(event) => field.onChange(sanitizeCurrencyInput(event.target.value))}
                     placeholder="0.00"
-                    disabled={!canEditPrice}
+                    disabled={!canEditPrice || hasVariants}
                   />
                   {renderError(form.formState.errors.price as FieldError)}
                   {!canEditPrice && (
@@ -1306,7 +1604,7 @@ function ProductForm({
                     inputMode="decimal"
                     onChange={(event) => field.onChange(sanitizeCurrencyInput(event.target.value))}
                     placeholder="0.00"
-                    disabled={!canEditPrice}
+                    disabled={!canEditPrice || hasVariants}
                   />
                   {renderError(form.formState.errors.salePrice as FieldError)}
                 </div>
@@ -1319,6 +1617,45 @@ function ProductForm({
             </div>
           )}
 
+          {showCost && (
+            <div className="space-y-3 rounded-md border p-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <Controller
+                  control={form.control}
+                  name="cost"
+                  render={({ field }) => (
+                    <div>
+                      <Label>{t("products.cost.label", "Cost / unit")}</Label>
+                      <Input
+                        {...field}
+                        inputMode="decimal"
+                        onChange={(event) => field.onChange(sanitizeCurrencyInput(event.target.value))}
+                        placeholder="0.00"
+                      />
+                      {renderError(form.formState.errors.cost as FieldError)}
+                    </div>
+                  )}
+                />
+                <div>
+                  <Label>{t("products.cost.effective_from", "Effective from")}</Label>
+                  <Input type="date" {...form.register("costEffectiveFrom")} disabled={!costValue} />
+                  {renderError(form.formState.errors.costEffectiveFrom as FieldError)}
+                </div>
+              </div>
+              <MarginPreview
+                priceCents={toPreviewCents(form.watch("price"))}
+                salePriceCents={toPreviewCents(saleValue)}
+                costCents={toPreviewCents(costValue)}
+              />
+              {productId && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">{t("products.cost.history", "Cost history")}</p>
+                  <CostHistoryList productId={productId} />
+                </div>
+              )}
+            </div>
+          )}
+
           <Controller
             control={form.control}
             name="stock"
@@ -1332,8 +1669,30 @@ function ProductForm({
                   inputMode="numeric"
                   onChange={(event) => field.onChange(sanitizeIntegerInput(event.target.value))}
                   placeholder="0"
+                  disabled={hasVariants}
                 />
                 {renderError(form.formState.errors.stock as FieldError)}
+                {hasVariants && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {t("products.variants.derived_hint", "Price and stock come from the variants below.")}
+                  </p>
+                )}
+              </div>
+            )}
+          />
+
+          <Controller
+            control={form.control}
+            name="lowStockThreshold"
+            render={({ field }) => (
+              <div>
+                <Label>{t("lowStock.productThreshold", "Low-stock alert at")}</Label>
+                <Input
+                  {...field}
+                  inputMode="numeric"
+                  onChange={(event) => field.onChange(sanitizeIntegerInput(event.target.value))}
+                  placeholder={t("lowStock.inherit", "Category or store default")}
+                />
               </div>
             )}
           />
@@ -1353,37 +1712,35 @@ function ProductForm({
               </SelectContent>
             </Select>
           </div>
-
-          <div>
-            <Label>{t("products.imageUrl", "Main image")}</Label>
-            <Input type="file" accept="image/*" onChange={handleImageChange} />
-            {(previewUrl || form.watch("mainImage")) && (
-              <div className="mt-2 w-32 h-32 rounded-lg overflow-hidden bg-muted">
-                {previewUrl ? (
-                  <img src={previewUrl} alt="preview" className="w-full h-full object-cover" />
-                ) : (
-                  <ImageWithFallback src={form.watch("mainImage") || ""} alt="main" className="w-full h-full object-cover" />
-                )}
-              </div>
-            )}
-          </div>
         </div>
       </div>
 
-      <Controller
-        control={form.control}
-        name="images"
-        render={({ field }) => (
-          <ProductImagesInput
-            value={field.value}
-            mainImage={form.watch("mainImage")}
-            onChange={(value) => field.onChange(value)}
-            onMainChange={(value) => form.setValue("mainImage", value)}
-            uploadFile={uploadFile}
-          />
-        )}
+      <ProductGalleryEditor
+        value={{ images: form.watch("images"), primary: form.watch("mainImage") || "", alts: form.watch("imageAlts") }}
+        onChange={(next) => {
+          form.setValue("images", next.images, { shouldDirty: true });
+          form.setValue("mainImage", next.primary, { shouldDirty: true });
+          form.setValue("imageAlts", next.alts, { shouldDirty: true });
+        }}
+        uploadFile={uploadFile}
       />
 
+      <div className="space-y-1">
+        <VariantMatrixEditor
+          groups={optionGroups}
+          variants={variants}
+          onChange={(next) => {
+            form.setValue("optionGroups", next.groups);
+            form.setValue("variants", next.variants, { shouldValidate: form.formState.isSubmitted });
+          }}
+          basePrice={form.watch("price")}
+          baseSku={form.watch("slug").toUpperCase()}
+          images={form.watch("images")}
+          canEditPrice={canEditPrice}
+        />
+        {renderError(form.formState.errors.variants as FieldError | undefined)}
+      </div>
+
       <div className="flex flex-col gap-3 sm:flex-row sm:justify-end">
         <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
           {t("app.actions.cancel")}
@@ -1395,369 +1752,3 @@ function ProductForm({
     </form>
   );
 }
-type ProductImagesInputProps = {
-  value: string[];
-  mainImage?: string;
-  onChange: (value: string[]) => void;
-  onMainChange: (value: string) => void;
-  uploadFile: (file: File | Blob, options?: { resize?: { maxDimension?: number; quality?: number; maxBytes?: number } }) => Promise<{ url: string; warnings?: string[] }>;
-};
-
-function ProductImagesInput({ value, mainImage, onChange, onMainChange, uploadFile }: ProductImagesInputProps) {
-  const { t } = useTranslation();
-  const dragIndex = useRef<number | null>(null);
-  const inputRef = useRef<HTMLInputElement | null>(null);
-  const [uploading, setUploading] = useState(false);
-  const MAX_IMAGE_MB = 2;
-
-  const handleFiles = async (files: FileList | File[]) => {
-    const list = Array.from(files);
-    if (!list.length) return;
-    setUploading(true);
-    try {
-      const nextUrls: string[] = [];
-      for (const file of list) {
-        if (file.size > MAX_IMAGE_MB * 1024 * 1024) {
-          toast.error(t("products.upload.too_large", "File too large"));
-          continue;
-        }
-        const { url } = await uploadFile(file);
-        nextUrls.push(url);
-      }
-      if (nextUrls.length) {
-        const merged = [...(value || []), ...nextUrls].filter(Boolean);
-        onChange(Array.from(new Set(merged)));
-      }
-    } finally {
-      setUploading(false);
-    }
-  };
-
-  const handleReorder = (targetIndex: number) => {
-    if (dragIndex.current === null || dragIndex.current === targetIndex) return;
-    const next = [...value];
-    const [item] = next.splice(dragIndex.current, 1);
-    next.splice(targetIndex, 0, item);
-    dragIndex.current = null;
-    onChange(next);
-  };
-
-  const items = value || [];
-
-  return (
-    <div className="space-y-3">
-      <Label>{t("products.images.label", "Additional images")}</Label>
-      <div
-        className="border border-dashed rounded-lg p-4 text-center text-sm text-muted-foreground"
-        onDragOver={(event) => event.preventDefault()}
-        onDrop={(event) => {
-          event.preventDefault();
-          const files = event.dataTransfer.files;
-          if (files && files.length) {
-            void handleFiles(files);
-          }
-        }}
-      >
-        {t("products.media.hint", "Drop images here to upload.")}
-      </div>
-      <div className="flex items-center gap-2">
-        <Button type="button" variant="outline" onClick={() => inputRef.current?.click()} disabled={uploading}>
-          {uploading ? t("common.saving", "Saving...") : t("app.actions.upload", "Upload")}
-        </Button>
-        <input
-          ref={inputRef}
-          type="file"
-          accept="image/*"
-          multiple
-          className="hidden"
-          onChange={(event) => {
-            const files = event.target.files;
-            if (files && files.length) {
-              void handleFiles(files);
-            }
-            event.currentTarget.value = "";
-          }}
-        />
-        <p className="text-xs text-muted-foreground">{t("validation.imageType", "Use PNG, JPG, or WEBP (max {{size}}MB)", { size: MAX_IMAGE_MB })}</p>
-      </div>
-
-      {items.length === 0 ? (
-        <p className="text-xs text-muted-foreground">{t("products.images.empty", "No gallery images added")}</p>
-      ) : (
-        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-          {items.map((url, index) => (
-            <div
-              key={`${url}-${index}`}
-              className="border rounded-lg p-2 space-y-2"
-              draggable
-              onDragStart={() => (dragIndex.current = index)}
-              onDragOver={(event) => event.preventDefault()}
-              onDrop={() => handleReorder(index)}
-            >
-              <div className="w-full aspect-square bg-muted rounded-md overflow-hidden">
-                <ImageWithFallback src={url} alt={`image-${index}`} className="w-full h-full object-cover" />
-              </div>
-              <div className="flex items-center justify-between text-xs">
-                <Badge variant={mainImage === url ? "default" : "secondary"}>
-                  {mainImage === url ? t("products.mainImage", "Cover") : t("products.gallery", "Gallery")}
-                </Badge>
-                <div className="flex gap-1">
-                  <Button type="button" variant="ghost" size="sm" onClick={() => onMainChange(url)}>
-                    {t("app.actions.set", "Set")}
-                  </Button>
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    className="text-rose-500"
-                    onClick={() => {
-                      const next = items.filter((_, i) => i !== index);
-                      onChange(next);
-                      if (mainImage === url) {
-                        onMainChange(next[0] || "");
-                      }
-                    }}
-                  >
-                    {t("app.actions.delete")}
-                  </Button>
-                </div>
-              </div>
-            </div>
-          ))}
-        </div>
-      )}
-    </div>
-  );
-}
-type BulkUploadDrawerProps = {
-  open: boolean;
-  onOpenChange: (open: boolean) => void;
-  onCompleted: () => void;
-};
-
-function BulkUploadDrawer({ open, onOpenChange, onCompleted }: BulkUploadDrawerProps) {
-  const { t } = useTranslation();
-  const [file, setFile] = useState<File | null>(null);
-  const [result, setResult] = useState<BulkUploadResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [uploading, setUploading] = useState(false);
-  const inputRef = useRef<HTMLInputElement | null>(null);
-
-  useEffect(() => {
-    if (!open) {
-      setFile(null);
-      setResult(null);
-      setError(null);
-      setUploading(false);
-    }
-  }, [open]);
-
-  const handleUpload = async () => {
-    if (!file) {
-      setError(t("products.bulkImport.noFile", "Select a file"));
-      return;
-    }
-    setUploading(true);
-    setError(null);
-    try {
-      const res = await uploadBulkFile(file);
-      setResult(res);
-      toast.success(t("products.bulkImport.success", "Bulk upload complete"));
-      onCompleted();
-    } catch (err) {
-      const message = getAdminErrorMessage(err, t, t("products.bulkImport.error", "Upload failed"));
-      setError(message);
-      toast.error(message);
-    } finally {
-      setUploading(false);
-    }
-  };
-
-  const rows = useMemo(() => {
-    if (result?.rows?.length) return result.rows;
-    if (result?.errors?.length) {
-      return result.errors.map((item) => ({ row: item.row, status: "failed" as const, message: item.message, name: item.name }));
-    }
-    return [] as BulkRowStatus[];
-  }, [result]);
-
-  return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-3xl w-[95vw]">
-        <DialogHeader>
-          <DialogTitle>{t("products.importExcel", "Import products from Excel")}</DialogTitle>
-          <DialogDescription>
-            {t("products.bulkImport.instructions1", "Download the template, fill it, then upload the file.")}
-          </DialogDescription>
-        </DialogHeader>
-        <div className="space-y-5">
-          <div className="flex flex-wrap gap-3">
-            <Button
-              type="button"
-              variant="outline"
-              className="gap-2"
-              onClick={async () => {
-                try {
-                  await downloadBulkTemplate();
-                  toast.success(t("products.bulkImport.templateDownloaded", "Template downloaded"));
-                } catch (err) {
-                  toast.error(
-                    getAdminErrorMessage(err, t, t("products.bulkImport.templateError", "Unable to download template"))
-                  );
-                }
-              }}
-            >
-              <Download className="w-4 h-4" />
-              {t("products.bulkImport.downloadTemplate", "Download template")}
-            </Button>
-            <Button type="button" variant="ghost" onClick={() => inputRef.current?.click()}>
-              {t("products.bulkImport.chooseFile", "Choose file")}
-            </Button>
-            <input
-              ref={inputRef}
-              type="file"
-              accept=".xlsx,.csv"
-              className="hidden"
-              onChange={(event) => {
-                const next = event.target.files?.[0];
-                setFile(next || null);
-                setResult(null);
-                setError(null);
-              }}
-            />
-          </div>
-
-          <div
-            className="border-2 border-dashed rounded-lg p-6 text-center"
-            onDragOver={(event) => event.preventDefault()}
-            onDrop={(event) => {
-              event.preventDefault();
-              const next = event.dataTransfer.files?.[0];
-              if (!next) return;
-              setFile(next);
-              setResult(null);
-              setError(null);
-            }}
-          >
-            {file ? (
-              <div>
-                <p className="font-medium">{file.name}</p>
-                <p className="text-xs text-muted-foreground">
-                  {(file.size / 1024).toFixed(1)} KB
-                </p>
-              </div>
-            ) : (
-              <p className="text-muted-foreground text-sm">
-                {t("products.bulkImport.dropzone", "Drag & drop your Excel file here")}
-              </p>
-            )}
-          </div>
-
-          {error && <div className="text-sm text-rose-600 bg-rose-50 rounded-md p-3">{error}</div>}
-
-          <div className="flex gap-3">
-            <Button type="button" className="flex-1" disabled={!file || uploading} onClick={handleUpload}>
-              {uploading ? t("products.bulkImport.uploading", "Uploading...") : t("products.bulkImport.startUpload", "Start upload")}
-            </Button>
-            <Button type="button" variant="outline" className="flex-1" onClick={() => onOpenChange(false)} disabled={uploading}>
-              {t("app.actions.close")}
-            </Button>
-          </div>
-
-          {result && (
-            <div className="space-y-3">
-              <div className="grid grid-cols-2 gap-3">
-                <Card>
-                  <CardContent className="p-4">
-                    <p className="text-xs text-muted-foreground">{t("products.bulkImport.created", "Created")}</p>
-                    <p className="text-2xl font-semibold text-emerald-600">{result.created}</p>
-                  </CardContent>
-                </Card>
-                <Card>
-                  <CardContent className="p-4">
-                    <p className="text-xs text-muted-foreground">{t("products.bulkImport.updated", "Updated")}</p>
-                    <p className="text-2xl font-semibold text-blue-600">{result.updated}</p>
-                  </CardContent>
-                </Card>
-              </div>
-
-              <div className="border rounded-lg">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>{t("products.bulkImport.row", "Row")}</TableHead>
-                      <TableHead>{t("products.bulkImport.product", "Product")}</TableHead>
-                      <TableHead>{t("products.bulkImport.status", "Status")}</TableHead>
-                      <TableHead>{t("products.bulkImport.message", "Message")}</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {rows.length === 0 ? (
-                      <TableRow>
-                        <TableCell colSpan={4} className="text-center text-muted-foreground">
-                          {t("products.bulkImport.noRows", "No row details provided")}
-                        </TableCell>
-                      </TableRow>
-                    ) : (
-                      rows.map((row, index) => (
-                        <TableRow key={`${row.row}-${index}`}>
-                          <TableCell>{row.row}</TableCell>
-                          <TableCell>{row.name || "--"}</TableCell>
-                          <TableCell>
-                            <Badge className={row.status === "success" ? "bg-emerald-100 text-emerald-700" : "bg-rose-100 text-rose-700"}>
-                              {row.status === "success"
-                                ? t("products.bulkImport.successRow", "Success")
-                                : t("products.bulkImport.failedRow", "Failed")}
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-xs text-muted-foreground">{row.message || "--"}</TableCell>
-                        </TableRow>
-                      ))
-                    )}
-                  </TableBody>
-                </Table>
-              </div>
-            </div>
-          )}
-        </div>
-      </DialogContent>
-    </Dialog>
-  );
-}
-
-async function downloadBulkTemplate() {
-  const { blob, filename } = await downloadProductsBulkTemplate();
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = filename || "products-template.xlsx";
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-}
-
-async function uploadBulkFile(file: File): Promise<BulkUploadResult> {
-  const payload = await uploadProductsBulk(file);
-  const rows =
-    payload.rows?.map((row, index) => ({
-      row: row.row ?? row.rowNumber ?? index + 1,
-      status: ((row.status || "").toLowerCase() === "failed" ? "failed" : "success") as BulkRowStatus["status"],
-      message: row.errorMessage || row.message,
-      name: row.name,
-    })) ?? [];
-  const errors =
-    payload.errors?.map((error) => ({
-      row: error.row,
-      code: error.code,
-      message: error.message,
-    })) ?? [];
-  return {
-    created: payload.created ?? 0,
-    updated: payload.updated ?? 0,
-    skipped: payload.skipped ?? 0,
-    dryRun: payload.dryRun,
-    rows,
-    errors,
-  };
-}
@@ -8,6 +8,7 @@ import { Input } from "../../ui/input";
 import { AdminTableSkeleton } from "../common/AdminTableSkeleton";
 import { ErrorState } from "../common/ErrorState";
 import { EmptyState } from "../common/EmptyState";
+import { navigateTo } from "../../../lib/navigation";
 import { fetchProfitRange, exportProfit } from "../../../services/reports.service";
 import { fmtCurrency } from "../../../lib/money";
 import { getAdminErrorMessage } from "../../../lib/errors";
@@ -130,7 +131,7 @@ export function ProfitReportsPage() {
               <p className="font-semibold">{t("reports.missing_costs_title", "Missing product costs detected")}</p>
               <p>{t("reports.missing_costs_msg", "Add COGS to products to improve gross profit accuracy.")}</p>
             </div>
-            <Button variant="outline" size="sm" onClick={() => window.open("/products", "_self")}>
+            <Button variant="outline" size="sm" onClick={() => navigateTo("/products/manage?missingCost=1")}>
               {t("reports.fix_costs", "Fix product costs")}
             </Button>
           </CardContent>
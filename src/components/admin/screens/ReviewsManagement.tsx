@@ -10,9 +10,11 @@ import { Badge } from "../../ui/badge";
 import { AdminTableSkeleton } from "../common/AdminTableSkeleton";
 import { EmptyState } from "../common/EmptyState";
 import { ErrorState } from "../common/ErrorState";
+import { TableExportButton } from "../common/TableExportButton";
 import { useProviders } from "../../../hooks/api/useProviders";
 import { useReviews, REVIEWS_QUERY_KEY } from "../../../hooks/api/useReviews";
-import { moderateReview } from "../../../services/reviews.service";
+import { listReviews, moderateReview } from "../../../services/reviews.service";
+import { REVIEW_EXPORT_COLUMNS } from "../../../lib/export-columns";
 import { getAdminErrorMessage } from "../../../lib/errors";
 import type { Review, ReviewFilters, ReviewStatus } from "../../../types/review";
 import { toast } from "sonner";
@@ -111,6 +113,12 @@ export function ReviewsManagement() {
           <h1 className="text-2xl font-semibold">{t("reviews.title", "Reviews")}</h1>
           <p className="text-muted-foreground">{t("reviews.subtitle", "Moderate provider ratings and feedback")}</p>
         </div>
+        <TableExportButton
+          filename="reviews"
+          title={t("reviews.title", "Reviews")}
+          columns={REVIEW_EXPORT_COLUMNS}
+          fetchPage={(exportPage, exportPageSize) => listReviews({ ...filters, page: exportPage, pageSize: exportPageSize })}
+        />
       </div>
 
       <Card>
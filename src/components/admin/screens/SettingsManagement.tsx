@@ -14,6 +14,7 @@ import { toast } from "sonner";
 import { useSettingsAdmin } from "../../../hooks/api/useSettingsAdmin";
 import { useUpdateSettingsSection } from "../../../hooks/api/useUpdateSettingsSection";
 import { getAdminErrorMessage } from "../../../lib/errors";
+import { DEFAULT_LOW_STOCK_THRESHOLD, DEFAULT_REORDER_COVER_DAYS } from "../../../lib/low-stock";
 import { AdminTableSkeleton } from "../common/AdminTableSkeleton";
 import { ErrorState } from "../common/ErrorState";
 import { EmptyState } from "../common/EmptyState";
@@ -43,6 +44,8 @@ const generalSchema = z.object({
   contactPhone: z.string().optional(),
   storeAddress: z.string().optional(),
   businessHours: z.string().optional(),
+  receiptHeader: z.string().max(500).optional(),
+  receiptFooter: z.string().max(500).optional(),
 });
 
 const deliverySchema = z.object({
@@ -87,6 +90,9 @@ const notificationsSchema = z.object({
   notifySms: z.boolean(),
   notifyPush: z.boolean(),
   marketingEnabled: z.boolean(),
+  lowStockEnabled: z.boolean(),
+  lowStockThreshold: z.coerce.number().int().min(0),
+  reorderCoverDays: z.coerce.number().int().min(1).max(365),
 });
 
 const systemSchema = z.object({
@@ -358,6 +364,8 @@ export function SettingsManagement({ initialSection }: SettingsManagementProps)
       contactPhone: "",
       storeAddress: "",
       businessHours: "",
+      receiptHeader: "",
+      receiptFooter: "",
     },
   });
 
@@ -392,6 +400,9 @@ export function SettingsManagement({ initialSection }: SettingsManagementProps)
       notifySms: false,
       notifyPush: false,
       marketingEnabled: false,
+      lowStockEnabled: true,
+      lowStockThreshold: DEFAULT_LOW_STOCK_THRESHOLD,
+      reorderCoverDays: DEFAULT_REORDER_COVER_DAYS,
     },
   });
 
@@ -439,6 +450,8 @@ export function SettingsManagement({ initialSection }: SettingsManagementProps)
         contactPhone: g.contactPhone || "",
         storeAddress: g.storeAddress || "",
         businessHours: g.businessHours || "",
+        receiptHeader: g.receiptHeader || "",
+        receiptFooter: g.receiptFooter || "",
       });
     }
   }, [settingsQuery.data?.general, generalForm]);
@@ -480,6 +493,9 @@ export function SettingsManagement({ initialSection }: SettingsManagementProps)
       notifySms: n.orderNotifications?.sms ?? false,
       notifyPush: n.orderNotifications?.push ?? false,
       marketingEnabled: n.marketingEmails?.enabled ?? false,
+      lowStockEnabled: n.adminAlerts?.lowStock?.enabled ?? true,
+      lowStockThreshold: n.adminAlerts?.lowStock?.threshold ?? DEFAULT_LOW_STOCK_THRESHOLD,
+      reorderCoverDays: n.adminAlerts?.lowStock?.reorderCoverDays ?? DEFAULT_REORDER_COVER_DAYS,
     });
   }, [settingsQuery.data?.notifications, notificationsForm]);
 
@@ -594,6 +610,14 @@ export function SettingsManagement({ initialSection }: SettingsManagementProps)
     const payload: NotificationsSettings = {
       orderNotifications: { email: values.notifyEmail, sms: values.notifySms, push: values.notifyPush },
       marketingEmails: { enabled: values.marketingEnabled },
+      adminAlerts: {
+        ...(settingsQuery.data?.notifications as NotificationsSettings | undefined)?.adminAlerts,
+        lowStock: {
+          enabled: values.lowStockEnabled,
+          threshold: values.lowStockThreshold,
+          reorderCoverDays: values.reorderCoverDays,
+        },
+      },
     };
     try {
       await notificationsMutation.mutateAsync(payload);
@@ -803,6 +827,19 @@ export function SettingsManagement({ initialSection }: SettingsManagementProps)
                   <Input {...generalForm.register("businessHours")} />
                   {renderError(generalForm.formState.errors.businessHours)}
                 </div>
+                <div className="space-y-2">
+                  <Label>{t("settings.receiptHeader", "Receipt header")}</Label>
+                  <Textarea rows={3} {...generalForm.register("receiptHeader")} />
+                  {renderError(generalForm.formState.errors.receiptHeader)}
+                </div>
+                <div className="space-y-2">
+                  <Label>{t("settings.receiptFooter", "Receipt footer")}</Label>
+                  <Textarea rows={3} {...generalForm.register("receiptFooter")} />
+                  <p className="text-xs text-muted-foreground">
+                    {t("settings.receiptHint", "Printed on thermal receipts and packing slips, e.g. tax ID or return policy.")}
+                  </p>
+                  {renderError(generalForm.formState.errors.receiptFooter)}
+                </div>
                 <div className="md:col-span-2 flex justify-end">
                   <Button type="submit" disabled={generalMutation.isPending}>
                     {generalMutation.isPending ? t("common.saving", "Saving...") : t("common.save", "Save")}
@@ -1110,6 +1147,27 @@ export function SettingsManagement({ initialSection }: SettingsManagementProps)
                   checked={notificationsForm.watch("marketingEnabled")}
                   onChange={(v) => notificationsForm.setValue("marketingEnabled", v)}
                 />
+                <ToggleField
+                  label={t("settings.lowStockAlerts", "Low-stock alerts")}
+                  description={t("settings.lowStockAlertsDesc", "Alert admins when a product reaches its threshold")}
+                  checked={notificationsForm.watch("lowStockEnabled")}
+                  onChange={(v) => notificationsForm.setValue("lowStockEnabled", v)}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>{t("settings.lowStockThreshold", "Default threshold")}</Label>
+                    <Input type="number" min={0} {...notificationsForm.register("lowStockThreshold", { valueAsNumber: true })} />
+                    {renderError(notificationsForm.formState.errors.lowStockThreshold)}
+                  </div>
+                  <div className="space-y-2">
+                    <Label>{t("settings.reorderCoverDays", "Reorder cover (days)")}</Label>
+                    <Input type="number" min={1} {...notificationsForm.register("reorderCoverDays", { valueAsNumber: true })} />
+                    {renderError(notificationsForm.formState.errors.reorderCoverDays)}
+                  </div>
+                  <p className="col-span-2 text-xs text-muted-foreground">
+                    {t("settings.lowStockHint", "Categories and products can set their own threshold.")}
+                  </p>
+                </div>
                 <div className="md:col-span-2 flex justify-end">
                   <Button type="submit" disabled={notificationsMutation.isPending}>
                     {notificationsMutation.isPending ? t("common.saving", "Saving...") : t("common.save", "Save")}
@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 import dayjs from "dayjs";
 import { useTranslation } from "react-i18next";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "../../ui/card";
 import { Input } from "../../ui/input";
 import { Button } from "../../ui/button";
@@ -89,7 +90,10 @@ export function WhatsAppInbox() {
   const { t } = useTranslation();
   const perms = usePermissions();
   const queryClient = useQueryClient();
-  const [search, setSearch] = useState("");
+  // Deep links from the order timeline: ?conversation=<id>&q=<phone>
+  const [searchParams] = useSearchParams();
+  const linkedConversationId = searchParams.get("conversation");
+  const [search, setSearch] = useState(() => searchParams.get("q") || "");
   const [status, setStatus] = useState<string>("all");
   const [page, setPage] = useState(1);
   const pageSize = 20;
@@ -125,9 +129,10 @@ export function WhatsAppInbox() {
       return;
     }
     if (!selectedConversationId || !conversations.find((conv) => conv.id === selectedConversationId)) {
-      setSelectedConversationId(conversations[0].id);
+      const linked = conversations.find((conv: WhatsappConversation) => conv.id === linkedConversationId);
+      setSelectedConversationId(linked ? linked.id : conversations[0].id);
     }
-  }, [conversations, selectedConversationId]);
+  }, [conversations, selectedConversationId, linkedConversationId]);
 
   const selectedConversation =
     conversations.find((conv) => conv.id === selectedConversationId) ?? null;
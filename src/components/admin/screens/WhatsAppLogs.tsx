@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import dayjs from "dayjs";
 import { useTranslation } from "react-i18next";
 import { useQuery } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "../../ui/card";
 import { Input } from "../../ui/input";
 import { Button } from "../../ui/button";
@@ -29,16 +30,17 @@ const STATUS_BADGE: Record<string, string> = {
 export function WhatsAppLogs() {
   const { t } = useTranslation();
   const perms = usePermissions();
-  const [filters, setFilters] = useState({
+  const [searchParams] = useSearchParams();
+  const [filters, setFilters] = useState(() => ({
     status: "all",
     template: "",
-    order: "",
+    order: searchParams.get("order") || "",
     phone: "",
     from: "",
     to: "",
     page: 1,
     pageSize: 25,
-  });
+  }));
 
   const debouncedOrder = useDebounce(filters.order, 250);
   const debouncedPhone = useDebounce(filters.phone, 250);
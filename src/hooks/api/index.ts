@@ -11,3 +11,14 @@ export * from "./useUpdateSettingsSection";
 export * from "./useAssignDriver";
 export * from "./useOrderReceipt";
 export * from "./useDriverOrders";
+export * from "./useOrderEvents";
+export * from "./useOrderSla";
+export * from "./useDeliveryTracking";
+export * from "./useDriverSuggestions";
+export * from "./useProductCosts";
+export * from "./useFlashSales";
+export * from "./useStockMovements";
+export * from "./useLowStock";
+export * from "./useCatalogAudit";
+export * from "./useLedgerReconciliation";
+export * from "./useRoleDefaultViews";
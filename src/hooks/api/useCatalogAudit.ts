@@ -0,0 +1,57 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { listProducts, listProviderProducts } from "../../services/products.service";
+import { listCategories } from "../../services/categories.service";
+import { listProviderCategories } from "../../services/provider-categories.service";
+import type { InventoryScope } from "../../services/inventory.service";
+import { fetchAllPages } from "../../lib/table-export";
+import { auditCatalog } from "../../lib/catalog-audit";
+import { PRODUCTS_QUERY_KEY } from "./useProductsAdmin";
+import { PROVIDER_PRODUCTS_QUERY_KEY } from "./useProductsProvider";
+import { CATEGORIES_QUERY_KEY } from "./useCategoriesAdmin";
+import { PROVIDER_CATEGORIES_QUERY_KEY } from "./useCategoriesProvider";
+
+// Products are scored client-side; very large catalogs are audited up to this many rows
+export const CATALOG_AUDIT_MAX = 5000;
+
+/** Completeness audit of the admin catalog (optionally one provider) or the signed-in provider's products. */
+export function useCatalogAudit(scope: InventoryScope, options?: { providerId?: string; enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+  const isProvider = scope === "provider";
+  const providerId = isProvider ? undefined : options?.providerId;
+
+  const productsQuery = useQuery({
+    queryKey: [...(isProvider ? PROVIDER_PRODUCTS_QUERY_KEY : PRODUCTS_QUERY_KEY), "audit", { providerId }] as const,
+    queryFn: () =>
+      fetchAllPages((page, pageSize) => (isProvider ? listProviderProducts : listProducts)({ providerId, page, pageSize }), {
+        maxRows: CATALOG_AUDIT_MAX,
+      }),
+    enabled,
+  });
+
+  // Same list the low-stock report reads, so the two share a cache entry
+  const categoriesQuery = useQuery({
+    queryKey: [...(isProvider ? PROVIDER_CATEGORIES_QUERY_KEY : CATEGORIES_QUERY_KEY), "thresholds"] as const,
+    queryFn: () => fetchAllPages((page, pageSize) => (isProvider ? listProviderCategories : listCategories)({ page, pageSize })),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const audit = useMemo(
+    () =>
+      auditCatalog(productsQuery.data ?? [], {
+        // Without the category list only blank categories are flagged
+        categoryIds: categoriesQuery.data ? new Set(categoriesQuery.data.map((category) => category.id)) : undefined,
+      }),
+    [productsQuery.data, categoriesQuery.data]
+  );
+
+  return {
+    audit,
+    truncated: (productsQuery.data?.length ?? 0) >= CATALOG_AUDIT_MAX,
+    isLoading: productsQuery.isLoading,
+    isError: productsQuery.isError,
+    error: productsQuery.error,
+    refetch: () => Promise.all([productsQuery.refetch(), categoriesQuery.refetch()]),
+  };
+}
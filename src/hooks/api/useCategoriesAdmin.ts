@@ -1,5 +1,6 @@
 import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { listCategories, type Category, type Paged } from "../../services/categories.service";
+import { fetchAllPages } from "../../lib/table-export";
 
 export type UseCategoriesAdminFilters = {
   q?: string;
@@ -24,3 +25,16 @@ export function useCategoriesAdmin(
     enabled: options?.enabled ?? true,
   });
 }
+
+// The tree editor needs every category at once; larger catalogs are cut off with a notice
+export const CATEGORY_TREE_MAX = 5000;
+
+/** All categories (optionally for one provider) for the tree editor, with product counts when the API sends them. */
+export function useCategoryTree(filters: { providerId?: string } = {}, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: [...CATEGORIES_QUERY_KEY, "tree", filters] as const,
+    queryFn: () =>
+      fetchAllPages((page, pageSize) => listCategories({ ...filters, page, pageSize }), { maxRows: CATEGORY_TREE_MAX }),
+    enabled: options?.enabled ?? true,
+  });
+}
@@ -11,10 +11,15 @@ export type UseDashboardGranularity = "day" | "week" | "month";
 export const DASHBOARD_SUMMARY_KEY = ["admin-dashboard-summary"] as const;
 export const DASHBOARD_SERIES_KEY = ["admin-dashboard-series"] as const;
 
-export function useDashboardAdmin(range: UseDashboardRange, granularity: UseDashboardGranularity) {
+export function useDashboardAdmin(
+  range: UseDashboardRange,
+  granularity: UseDashboardGranularity,
+  options?: { refetchInterval?: number | false }
+) {
   const summaryQuery = useQuery({
     queryKey: [...DASHBOARD_SUMMARY_KEY, range] as const,
     queryFn: () => fetchDashboard(range),
+    refetchInterval: options?.refetchInterval ?? false,
   });
 
   const seriesQuery = useQuery({
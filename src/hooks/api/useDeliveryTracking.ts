@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { getOrder, getOrderDriverLocation, listOrders, type OrderScope } from "../../services/orders.service";
+import {
+  appendTrackPoint,
+  estimateEtaMinutes,
+  haversineKm,
+  isValidLatLng,
+  trailSpeedMps,
+  type LatLng,
+  type TrackPoint,
+} from "../../lib/geo";
+import type { Order, OrderDetail, OrderDriverLocation, OrderFilters } from "../../types/order";
+import { ORDERS_QUERY_KEY } from "./useOrdersAdmin";
+import { PROVIDER_ORDERS_QUERY_KEY } from "./useOrdersProvider";
+import { useOrdersPollInterval } from "./useOrderEvents";
+
+export const DRIVER_LOCATION_POLL_MS = 10_000;
+const TRACKING_PAGE_SIZE = 100;
+
+export type TrackedDelivery = {
+  order: Order & Pick<Partial<OrderDetail>, "address">;
+  destination: LatLng | null;
+  location: OrderDriverLocation | null;
+  trail: TrackPoint[];
+  distanceKm: number | null;
+  etaMinutes: number | null;
+};
+
+/**
+ * Polls the driver location of every OUT_FOR_DELIVERY order and keeps a breadcrumb trail per order
+ * for as long as the view stays mounted.
+ */
+export function useDeliveryTracking({ scope, enabled = true }: { scope: OrderScope; enabled?: boolean }) {
+  const ordersKey = scope === "provider" ? PROVIDER_ORDERS_QUERY_KEY : ORDERS_QUERY_KEY;
+  const filters = useMemo<OrderFilters>(() => ({ status: "OUT_FOR_DELIVERY", page: 1, pageSize: TRACKING_PAGE_SIZE }), []);
+  const pollInterval = useOrdersPollInterval(scope);
+
+  // same key shape as the orders list so the order stream patches it
+  const listQuery = useQuery({
+    queryKey: [...ordersKey, filters] as const,
+    queryFn: () => listOrders(filters, scope),
+    enabled,
+    refetchInterval: pollInterval,
+    refetchIntervalInBackground: false,
+  });
+  const orders = useMemo(
+    () => (listQuery.data?.items ?? []).filter((order) => order.status === "OUT_FOR_DELIVERY"),
+    [listQuery.data]
+  );
+
+  // list rows carry no address, so destinations come from the (cached) order detail
+  const detailQueries = useQueries({
+    queries: orders.map((order) => ({
+      queryKey: [...ordersKey, "detail", order.id],
+      queryFn: () => getOrder(order.id, scope),
+      enabled,
+      staleTime: 5 * 60_000,
+      meta: { silent: true },
+    })),
+  });
+
+  const locationQueries = useQueries({
+    queries: orders.map((order) => ({
+      queryKey: [...ordersKey, "driver-location", order.id],
+      queryFn: () => getOrderDriverLocation(order.id, scope),
+      enabled: enabled && Boolean(order.driver),
+      refetchInterval: DRIVER_LOCATION_POLL_MS,
+      refetchIntervalInBackground: false,
+      meta: { silent: true },
+    })),
+  });
+
+  const locations = locationQueries.map((query) => (query.data as OrderDriverLocation | null | undefined) ?? null);
+  const locationSignature = orders.map((order, index) => `${order.id}@${locations[index]?.recordedAt ?? ""}`).join("|");
+
+  const [trails, setTrails] = useState<Record<string, TrackPoint[]>>({});
+  useEffect(() => {
+    setTrails((prev) => {
+      const next: Record<string, TrackPoint[]> = {};
+      orders.forEach((order, index) => {
+        const location = locations[index];
+        const trail = prev[order.id] ?? [];
+        next[order.id] =
+          location && isValidLatLng(location)
+            ? appendTrackPoint(trail, {
+                lat: location.lat,
+                lng: location.lng,
+                at: location.recordedAt,
+                speed: location.speed,
+                heading: location.heading,
+              })
+            : trail;
+      });
+      return next;
+    });
+    // locationSignature captures every change in `orders` and `locations`
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [locationSignature]);
+
+  const deliveries: TrackedDelivery[] = orders.map((order, index) => {
+    const detail = detailQueries[index]?.data as OrderDetail | undefined;
+    const address = detail?.address;
+    const target = { lat: address?.latitude ?? NaN, lng: address?.longitude ?? NaN };
+    const destination = isValidLatLng(target) ? target : null;
+    const location = locations[index];
+    const trail = trails[order.id] ?? [];
+    const position = location && isValidLatLng(location) ? location : null;
+    const distanceKm = position && destination ? haversineKm(position, destination) : null;
+    const speed = location?.speed ?? trailSpeedMps(trail);
+    return {
+      order: detail ? { ...order, ...detail, status: order.status } : order,
+      destination,
+      location: position,
+      trail,
+      distanceKm,
+      etaMinutes: distanceKm != null ? estimateEtaMinutes(distanceKm, speed) : null,
+    };
+  });
+
+  return {
+    deliveries,
+    total: listQuery.data?.total ?? 0,
+    isLoading: listQuery.isLoading,
+    isError: listQuery.isError,
+    error: listQuery.error,
+    refetch: listQuery.refetch,
+  };
+}
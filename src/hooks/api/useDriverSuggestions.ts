@@ -0,0 +1,86 @@
+import { useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getOrderDriverLocation, listOrders } from "../../services/orders.service";
+import { settleWithConcurrency } from "../../lib/concurrency";
+import { buildDriverSignals, rankDrivers, type AssignmentTarget, type DriverSignals } from "../../lib/driver-ranking";
+import { isValidLatLng, type LatLng } from "../../lib/geo";
+import type { OrderDetail, OrderDriverLocation, OrderStatus } from "../../types/order";
+import { ORDERS_QUERY_KEY } from "./useOrdersAdmin";
+import { useDeliveryDrivers } from "./useDeliveryDrivers";
+
+const ACTIVE_STATUSES: OrderStatus[] = ["PENDING", "CONFIRMED", "PREPARING", "OUT_FOR_DELIVERY"];
+const SIGNALS_PAGE_SIZE = 100;
+
+async function fetchDriverSignals(
+  fetchLocation: (orderId: string) => Promise<OrderDriverLocation | null>
+): Promise<Record<string, DriverSignals>> {
+  const [activePages, delivered, failed] = await Promise.all([
+    Promise.all(
+      ACTIVE_STATUSES.map((status) => listOrders({ status, hasDriver: true, page: 1, pageSize: SIGNALS_PAGE_SIZE }))
+    ),
+    listOrders({ status: "DELIVERED", hasDriver: true, page: 1, pageSize: SIGNALS_PAGE_SIZE }),
+    // same source as the failed deliveries queue
+    listOrders({ status: "DELIVERY_FAILED", page: 1, pageSize: SIGNALS_PAGE_SIZE }),
+  ]);
+  const active = activePages.flatMap((page) => page.items).filter((order) => order.driver?.id);
+
+  // drivers only report a position while carrying an order
+  const onTheRoad = active.filter((order) => order.status === "OUT_FOR_DELIVERY");
+  const results = await settleWithConcurrency(onTheRoad, (order) => fetchLocation(order.id), { limit: 4 });
+  const locations: Record<string, LatLng & { at: string }> = {};
+  results.forEach((result) => {
+    const location = result.ok ? result.value : null;
+    const driverId = result.item.driver?.id;
+    if (!driverId || !location || !isValidLatLng(location)) return;
+    const known = locations[driverId];
+    if (!known || known.at < location.recordedAt) {
+      locations[driverId] = { lat: location.lat, lng: location.lng, at: location.recordedAt };
+    }
+  });
+
+  return buildDriverSignals({ active, delivered: delivered.items, failed: failed.items }, locations);
+}
+
+/** Ranks active drivers for an order (admin scope; assignment is an admin endpoint). */
+export function useDriverSuggestions(order: OrderDetail | null | undefined, options?: { enabled?: boolean }) {
+  const queryClient = useQueryClient();
+  const enabled = (options?.enabled ?? true) && Boolean(order);
+  const driversQuery = useDeliveryDrivers({ isActive: true, page: 1, pageSize: 200 }, { enabled });
+
+  const signalsQuery = useQuery({
+    queryKey: [...ORDERS_QUERY_KEY, "driver-signals"] as const,
+    queryFn: () =>
+      fetchDriverSignals((orderId) =>
+        queryClient.fetchQuery({
+          queryKey: [...ORDERS_QUERY_KEY, "driver-location", orderId],
+          queryFn: () => getOrderDriverLocation(orderId, "admin"),
+          staleTime: 30_000,
+        })
+      ),
+    enabled,
+    staleTime: 60_000,
+    meta: { silent: true },
+  });
+
+  const target: AssignmentTarget = useMemo(() => {
+    const location = { lat: order?.address?.latitude ?? NaN, lng: order?.address?.longitude ?? NaN };
+    return {
+      zoneId: order?.deliveryZone?.id ?? null,
+      location: isValidLatLng(location) ? location : null,
+    };
+  }, [order?.address?.latitude, order?.address?.longitude, order?.deliveryZone?.id]);
+
+  const suggestions = useMemo(
+    () => rankDrivers(driversQuery.data?.items ?? [], signalsQuery.data ?? {}, target),
+    [driversQuery.data, signalsQuery.data, target]
+  );
+
+  return {
+    suggestions,
+    target,
+    isLoading: driversQuery.isLoading || signalsQuery.isLoading,
+    // rankings still work from load-neutral defaults when signals fail
+    signalsUnavailable: signalsQuery.isError,
+    refetch: () => Promise.all([driversQuery.refetch(), signalsQuery.refetch()]),
+  };
+}
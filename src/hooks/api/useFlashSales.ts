@@ -0,0 +1,16 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { listFlashSales } from "../../services/flash-sales.service";
+import { fetchAllPages } from "../../lib/table-export";
+
+export const FLASH_SALES_QUERY_KEY = ["admin-flash-sales"] as const;
+
+/** Every sale overlapping [from, to); the calendar and conflict checks need the whole window, not a page. */
+export function useFlashSales(range: { from: string; to: string }, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: [...FLASH_SALES_QUERY_KEY, range] as const,
+    queryFn: ({ signal }) =>
+      fetchAllPages((page, pageSize) => listFlashSales({ ...range, page, pageSize }), { signal }),
+    placeholderData: keepPreviousData,
+    enabled: options?.enabled ?? true,
+  });
+}
@@ -1,9 +1,13 @@
 import { keepPreviousData, useQuery } from "@tanstack/react-query";
-import { listInvoices } from "../../services/invoices.service";
-import type { InvoiceFilters, InvoiceListResponse } from "../../types/invoice";
+import { getInvoice, listInvoices } from "../../services/invoices.service";
+import type { OrderScope } from "../../services/orders.service";
+import type { Invoice, InvoiceFilters, InvoiceListResponse } from "../../types/invoice";
 
 export const INVOICES_QUERY_KEY = ["admin-invoices"] as const;
 
+export const invoiceQueryKey = (scope: OrderScope, id?: string) =>
+  [scope === "provider" ? "provider-invoice" : "admin-invoice", id] as const;
+
 export function useInvoices(filters: InvoiceFilters, options?: { enabled?: boolean }) {
   return useQuery<InvoiceListResponse>({
     queryKey: [...INVOICES_QUERY_KEY, filters] as const,
@@ -12,3 +16,13 @@ export function useInvoices(filters: InvoiceFilters, options?: { enabled?: boole
     enabled: options?.enabled ?? true,
   });
 }
+
+/** One invoice with its items and ledger entries. */
+export function useInvoice(id: string | undefined, options?: { enabled?: boolean; scope?: OrderScope }) {
+  const scope = options?.scope ?? "admin";
+  return useQuery<Invoice>({
+    queryKey: invoiceQueryKey(scope, id),
+    queryFn: () => getInvoice(id!, scope),
+    enabled: Boolean(id) && (options?.enabled ?? true),
+  });
+}
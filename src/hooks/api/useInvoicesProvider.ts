@@ -0,0 +1,14 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { listInvoices } from "../../services/invoices.service";
+import type { InvoiceFilters, InvoiceListResponse } from "../../types/invoice";
+
+export const PROVIDER_INVOICES_QUERY_KEY = ["provider-invoices"] as const;
+
+export function useInvoicesProvider(filters: Omit<InvoiceFilters, "providerId">, options?: { enabled?: boolean }) {
+  return useQuery<InvoiceListResponse>({
+    queryKey: [...PROVIDER_INVOICES_QUERY_KEY, filters] as const,
+    queryFn: () => listInvoices(filters, "provider"),
+    placeholderData: keepPreviousData,
+    enabled: options?.enabled ?? true,
+  });
+}
@@ -0,0 +1,102 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import dayjs from "dayjs";
+import { listOrders } from "../../services/orders.service";
+import { listInvoices, getInvoice } from "../../services/invoices.service";
+import { listLedgerEntries, listUnsettledOrders } from "../../services/admin-finance.service";
+import { listSubscriptions } from "../../services/subscriptions.service";
+import { fetchAllPages } from "../../lib/table-export";
+import { settleWithConcurrency } from "../../lib/concurrency";
+import { commissionRateAt, reconcileLedger } from "../../lib/ledger-reconciliation";
+
+export const LEDGER_RECONCILIATION_QUERY_KEY = ["finance-reconciliation"] as const;
+
+// Every source is read in full for the range; larger ranges are cut at this many rows each
+export const RECONCILIATION_MAX = 5000;
+const INVOICE_DETAIL_CONCURRENCY = 4;
+
+type ReconciliationFilters = { providerId?: string; from?: string; to?: string };
+
+async function loadSources({ providerId, from, to }: ReconciliationFilters) {
+  const [orders, settlements, unsettled, subscriptions] = await Promise.all([
+    fetchAllPages((page, pageSize) => listOrders({ status: "DELIVERED", providerId, from, to, page, pageSize }), {
+      maxRows: RECONCILIATION_MAX,
+    }),
+    // Orders are settled after delivery, so this only takes the start of the range
+    fetchAllPages((page, pageSize) => listLedgerEntries({ providerId, type: "ORDER_SETTLEMENT", from, page, pageSize }), {
+      maxRows: RECONCILIATION_MAX,
+    }),
+    fetchAllPages((page, pageSize) => listUnsettledOrders({ from, to, page, pageSize }), { maxRows: RECONCILIATION_MAX }),
+    // The whole history, so each order is checked at the rate of its own date
+    fetchAllPages((page, pageSize) => listSubscriptions({ providerId, page, pageSize })),
+  ]);
+
+  // An invoice whose period started before the range still bills the first orders in it; reach back one
+  // billing period, then keep the invoices whose period overlaps the range
+  const lookback = subscriptions.some((item) => item.plan?.billingInterval === "YEARLY") ? "year" : "month";
+  const invoiceFrom = from ? dayjs(from).subtract(1, lookback).toISOString() : undefined;
+  const invoiceList = (
+    await fetchAllPages((page, pageSize) => listInvoices({ providerId, from: invoiceFrom, page, pageSize }), {
+      maxRows: RECONCILIATION_MAX,
+    })
+  ).filter((invoice) => !from || !invoice.periodEnd || dayjs(invoice.periodEnd).isAfter(from));
+
+  // The list endpoint leaves out items and ledger entries
+  const details = await settleWithConcurrency(invoiceList, (invoice) => getInvoice(invoice.id), {
+    limit: INVOICE_DETAIL_CONCURRENCY,
+  });
+  const failed = details.find((result) => !result.ok);
+  if (failed && !failed.ok) throw failed.error;
+
+  return {
+    // The list endpoint drops unknown status filters, so check again here
+    orders: orders.filter((order) => order.status === "DELIVERED"),
+    invoices: details.flatMap((result) => (result.ok ? [result.value] : [])),
+    settlements,
+    unsettledOrderIds: new Set(unsettled.filter((order) => !order.providerId || order.providerId === providerId).map((order) => order.id)),
+    subscriptions,
+    truncated: [orders, invoiceList, settlements].some((rows) => rows.length >= RECONCILIATION_MAX),
+  };
+}
+
+/** Cross-checks one provider's delivered orders against commission entries, invoice lines and settlements. */
+export function useLedgerReconciliation(filters: ReconciliationFilters, options?: { enabled?: boolean }) {
+  const enabled = (options?.enabled ?? true) && Boolean(filters.providerId);
+  const query = useQuery({
+    queryKey: [...LEDGER_RECONCILIATION_QUERY_KEY, filters] as const,
+    queryFn: () => loadSources(filters),
+    enabled,
+  });
+
+  const reconciliation = useMemo(
+    () =>
+      reconcileLedger({
+        orders: query.data?.orders ?? [],
+        invoices: query.data?.invoices ?? [],
+        settlements: query.data?.settlements ?? [],
+        unsettledOrderIds: query.data?.unsettledOrderIds,
+        rateAt: (date) => commissionRateAt(query.data?.subscriptions ?? [], date),
+        range: { from: filters.from, to: filters.to },
+      }),
+    [query.data, filters.from, filters.to]
+  );
+  // Distinct rates the orders were checked at, lowest first
+  const rates = useMemo(
+    () =>
+      [...new Set(reconciliation.rows.map((row) => row.rateBps).filter((rate): rate is number => rate != null))].sort(
+        (a, b) => a - b
+      ),
+    [reconciliation]
+  );
+
+  return {
+    reconciliation,
+    rates,
+    truncated: query.data?.truncated ?? false,
+    isLoading: enabled && query.isLoading,
+    isFetching: query.isFetching,
+    isError: query.isError,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
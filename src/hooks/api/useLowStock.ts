@@ -0,0 +1,122 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import dayjs from "dayjs";
+import { listProducts, listProviderProducts } from "../../services/products.service";
+import { listCategories } from "../../services/categories.service";
+import { listProviderCategories } from "../../services/provider-categories.service";
+import { fetchDashboardTopProducts } from "../../services/dashboard.service";
+import { fetchProviderNotificationPreferences, fetchProviderTopProducts } from "../../services/provider-finance.service";
+import type { InventoryScope } from "../../services/inventory.service";
+import { fetchAllPages } from "../../lib/table-export";
+import {
+  DEFAULT_LOW_STOCK_THRESHOLD,
+  DEFAULT_REORDER_COVER_DAYS,
+  VELOCITY_WINDOW_DAYS,
+  categoryThresholds,
+  dailyVelocity,
+  lowStockReport,
+} from "../../lib/low-stock";
+import type { NotificationsSettings } from "../../types/settings";
+import { PRODUCTS_QUERY_KEY } from "./useProductsAdmin";
+import { PROVIDER_PRODUCTS_QUERY_KEY } from "./useProductsProvider";
+import { CATEGORIES_QUERY_KEY } from "./useCategoriesAdmin";
+import { PROVIDER_CATEGORIES_QUERY_KEY } from "./useCategoriesProvider";
+import { useSettingsAdmin } from "./useSettingsAdmin";
+
+export const LOW_STOCK_VELOCITY_KEY = ["low-stock-velocity"] as const;
+
+// Stock levels are read client-side to apply per-product and per-category thresholds
+const MAX_PRODUCTS = 5000;
+// Products per top-products request when reading the sales of the short ones
+const VELOCITY_BATCH = 100;
+
+/**
+ * Low-stock report for the admin catalog or the signed-in provider's products, with reorder
+ * suggestions from the last 30 days of sales of the listed products. Defaults come from the admin
+ * notification settings, or the provider's own preferences in provider scope.
+ */
+export function useLowStockReport(scope: InventoryScope, options?: { providerId?: string; enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+  const isProvider = scope === "provider";
+  const providerId = isProvider ? undefined : options?.providerId;
+
+  const settingsQuery = useSettingsAdmin({ enabled: enabled && !isProvider });
+  const preferencesQuery = useQuery({
+    queryKey: ["provider-notification-preferences"],
+    queryFn: fetchProviderNotificationPreferences,
+    enabled: enabled && isProvider,
+    meta: { silent: true },
+  });
+  const lowStockSettings = isProvider
+    ? preferencesQuery.data?.lowStock
+    : (settingsQuery.data?.notifications as NotificationsSettings | undefined)?.adminAlerts?.lowStock;
+  const defaultThreshold = lowStockSettings?.threshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+  const coverDays = lowStockSettings?.reorderCoverDays ?? DEFAULT_REORDER_COVER_DAYS;
+
+  const productsQuery = useQuery({
+    queryKey: [...(isProvider ? PROVIDER_PRODUCTS_QUERY_KEY : PRODUCTS_QUERY_KEY), "low-stock", { providerId }] as const,
+    queryFn: () =>
+      fetchAllPages((page, pageSize) => (isProvider ? listProviderProducts : listProducts)({ providerId, page, pageSize }), {
+        maxRows: MAX_PRODUCTS,
+      }),
+    enabled,
+  });
+
+  const categoriesQuery = useQuery({
+    queryKey: [...(isProvider ? PROVIDER_CATEGORIES_QUERY_KEY : CATEGORIES_QUERY_KEY), "thresholds"] as const,
+    queryFn: () => fetchAllPages((page, pageSize) => (isProvider ? listProviderCategories : listCategories)({ page, pageSize })),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const byCategory = useMemo(() => categoryThresholds(categoriesQuery.data ?? []), [categoriesQuery.data]);
+  const shortages = useMemo(
+    () => lowStockReport(productsQuery.data ?? [], { byCategory, defaultThreshold, coverDays }),
+    [productsQuery.data, byCategory, defaultThreshold, coverDays]
+  );
+  const shortIds = useMemo(() => shortages.map((row) => row.product.id).sort(), [shortages]);
+
+  // Sales of the short products themselves; an overall top list would miss the slower sellers
+  const velocityQuery = useQuery({
+    queryKey: [...LOW_STOCK_VELOCITY_KEY, scope, shortIds] as const,
+    queryFn: async () => {
+      const range = {
+        from: dayjs().subtract(VELOCITY_WINDOW_DAYS, "day").startOf("day").toISOString(),
+        to: dayjs().endOf("day").toISOString(),
+      };
+      const batches: string[][] = [];
+      for (let i = 0; i < shortIds.length; i += VELOCITY_BATCH) batches.push(shortIds.slice(i, i + VELOCITY_BATCH));
+      const results = await Promise.all(
+        batches.map((productIds) =>
+          (isProvider ? fetchProviderTopProducts : fetchDashboardTopProducts)({ ...range, productIds, limit: productIds.length })
+        )
+      );
+      return results.flat();
+    },
+    enabled: enabled && shortIds.length > 0,
+    staleTime: 15 * 60 * 1000,
+  });
+
+  const rows = useMemo(
+    () =>
+      // Without sales data the report still lists shortages, just without velocity
+      velocityQuery.data
+        ? lowStockReport(
+            shortages.map((row) => row.product),
+            { byCategory, defaultThreshold, velocity: dailyVelocity(velocityQuery.data), coverDays }
+          )
+        : shortages,
+    [shortages, velocityQuery.data, byCategory, defaultThreshold, coverDays]
+  );
+
+  return {
+    rows,
+    coverDays,
+    truncated: (productsQuery.data?.length ?? 0) >= MAX_PRODUCTS,
+    isLoading: productsQuery.isLoading || categoriesQuery.isLoading || preferencesQuery.isLoading,
+    isError: productsQuery.isError || categoriesQuery.isError,
+    error: productsQuery.error ?? categoriesQuery.error,
+    velocityUnavailable: velocityQuery.isError,
+    refetch: () => Promise.all([productsQuery.refetch(), categoriesQuery.refetch(), velocityQuery.refetch()]),
+  };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { getOrderEventsUrl, normalizeOrderEvent, type OrderScope } from "../../services/orders.service";
+import { applyOrderEventToCache } from "../../lib/order-events";
+import { createMockOrderEventSource } from "../../lib/mock-order-stream";
+import { getOrderStreamStatus, onOrderStreamStatus, openOrderStream } from "../../lib/order-stream";
+import { ORDERS_QUERY_KEY } from "./useOrdersAdmin";
+import { PROVIDER_ORDERS_QUERY_KEY } from "./useOrdersProvider";
+import { DASHBOARD_SUMMARY_KEY } from "./useDashboardAdmin";
+
+export const ORDERS_FALLBACK_POLL_MS = 15000;
+export const DASHBOARD_FALLBACK_POLL_MS = 60000;
+
+const MOCK_EVENTS_ENABLED = (import.meta.env.VITE_ORDER_EVENTS_MOCK ?? "false") === "true";
+
+export function useOrderEventStream({ scope, enabled = true }: { scope: OrderScope; enabled?: boolean }) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+    const ordersKey = scope === "provider" ? PROVIDER_ORDERS_QUERY_KEY : ORDERS_QUERY_KEY;
+    const stream = openOrderStream({
+      key: scope,
+      url: MOCK_EVENTS_ENABLED ? () => "mock://orders" : () => getOrderEventsUrl(scope),
+      createSource: MOCK_EVENTS_ENABLED ? () => createMockOrderEventSource() : undefined,
+      onMessage: (payload) => {
+        const event = normalizeOrderEvent(payload);
+        if (!event) return;
+        applyOrderEventToCache(queryClient, event, { ordersKey, summaryKey: DASHBOARD_SUMMARY_KEY });
+      },
+    });
+    return () => stream.close();
+  }, [enabled, scope, queryClient]);
+}
+
+export function useOrderStreamStatus(scope: OrderScope) {
+  const subscribe = useCallback((listener: () => void) => onOrderStreamStatus(scope, listener), [scope]);
+  const getSnapshot = useCallback(() => getOrderStreamStatus(scope), [scope]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/** Polling interval for order queries: off while the scope's stream is live, on while it is down. */
+export function useOrdersPollInterval(scope: OrderScope, intervalMs = ORDERS_FALLBACK_POLL_MS): number | false {
+  const status = useOrderStreamStatus(scope);
+  return status === "open" ? false : intervalMs;
+}
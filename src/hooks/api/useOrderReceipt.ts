@@ -1,14 +1,70 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQueries, useQuery } from "@tanstack/react-query";
 import { getOrderReceipt, type OrderScope } from "../../services/orders.service";
+import { getSettings } from "../../services/settings.service";
+import { fetchProviderAccount } from "../../services/provider-account.service";
+import type { ReceiptBranding } from "../../lib/receipt-print";
 import type { OrderReceipt } from "../../types/order";
+import { SETTINGS_QUERY_KEY } from "./useSettingsAdmin";
+
+const receiptQueryKey = (scope: OrderScope, orderId?: string) => ["order-receipt", scope, orderId] as const;
 
 export function useOrderReceipt(
   orderId: string | undefined,
   options?: { enabled?: boolean; scope?: OrderScope }
 ) {
   return useQuery<OrderReceipt | null>({
-    queryKey: ["order-receipt", options?.scope ?? "admin", orderId] as const,
+    queryKey: receiptQueryKey(options?.scope ?? "admin", orderId),
     queryFn: () => (orderId ? getOrderReceipt(orderId, options?.scope ?? "admin") : Promise.resolve(null)),
     enabled: Boolean(orderId) && (options?.enabled ?? true),
   });
 }
+
+/** Receipts for several orders (batch printing); shares the cache with `useOrderReceipt`. */
+export function useOrderReceipts(orderIds: string[], options?: { enabled?: boolean; scope?: OrderScope }) {
+  const scope = options?.scope ?? "admin";
+  return useQueries({
+    queries: orderIds.map((orderId) => ({
+      queryKey: receiptQueryKey(scope, orderId),
+      queryFn: () => getOrderReceipt(orderId, scope),
+      enabled: options?.enabled ?? true,
+      meta: { silent: true },
+    })),
+  });
+}
+
+/**
+ * Store details printed on receipts. Admins get the header/footer from general settings;
+ * providers cannot read platform settings, so their own account details are used instead.
+ */
+export function useReceiptBranding(scope: OrderScope, options?: { enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+  const settingsQuery = useQuery({
+    queryKey: SETTINGS_QUERY_KEY,
+    queryFn: () => getSettings(),
+    enabled: enabled && scope === "admin",
+    meta: { silent: true },
+  });
+  const accountQuery = useQuery({
+    queryKey: ["provider-account"],
+    queryFn: fetchProviderAccount,
+    enabled: enabled && scope === "provider",
+    meta: { silent: true },
+  });
+
+  const general = settingsQuery.data?.general;
+  const provider = accountQuery.data?.provider;
+  const branding: ReceiptBranding =
+    scope === "provider"
+      ? { storeName: provider?.name, storePhone: provider?.contactPhone }
+      : {
+          storeName: general?.storeName,
+          storePhone: general?.contactPhone,
+          storeAddress: general?.storeAddress,
+          header: general?.receiptHeader,
+          footer: general?.receiptFooter,
+        };
+  return {
+    branding,
+    isLoading: scope === "provider" ? accountQuery.isLoading : settingsQuery.isLoading,
+  };
+}
@@ -0,0 +1,144 @@
+import { useEffect, useMemo, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchOpsWatchers } from "../../services/ops.service";
+import { getOrderHistory, listOrders, type OrderScope } from "../../services/orders.service";
+import { settleWithConcurrency } from "../../lib/concurrency";
+import {
+  collectNewBreaches,
+  evaluateSlaEntries,
+  monitoredStatuses,
+  nextBreachDelay,
+  statusEnteredAt,
+  thresholdsFromWatcher,
+  type SlaEntry,
+  type SlaScan,
+  type SlaState,
+  type SlaThresholds,
+} from "../../lib/order-sla";
+import type { OrderFilters, OrderHistoryEntry } from "../../types/order";
+import { ORDERS_QUERY_KEY } from "./useOrdersAdmin";
+import { PROVIDER_ORDERS_QUERY_KEY } from "./useOrdersProvider";
+import { useOrdersPollInterval } from "./useOrderEvents";
+
+export const OPS_WATCHERS_QUERY_KEY = ["ops-watchers"] as const;
+
+export const SLA_SCAN_PAGE_SIZE = 100;
+const SLA_HISTORY_CONCURRENCY = 4;
+const SLA_HISTORY_STALE_MS = 5 * 60_000;
+const SLA_FALLBACK_POLL_MS = 60_000;
+const NO_ENTRIES: SlaEntry[] = [];
+
+type UseStuckOrdersOptions = {
+  scope: OrderScope;
+  enabled?: boolean;
+  /** Read per-order history for exact age-in-status; otherwise `updatedAt` is used */
+  withHistory?: boolean;
+  /** Read thresholds from the ops watcher; otherwise the default threshold applies */
+  withWatcher?: boolean;
+  /** List filters other than status to scan within, e.g. the provider or date range on screen */
+  filters?: Omit<OrderFilters, "status" | "page" | "pageSize">;
+};
+
+/**
+ * Scans every order in a status that has an SLA threshold (not just the visible page) and
+ * resolves when each entered that status. The order stream keeps the result current.
+ */
+export function useStuckOrders({ scope, enabled = true, withHistory = true, withWatcher = true, filters }: UseStuckOrdersOptions) {
+  const queryClient = useQueryClient();
+  const ordersKey = scope === "provider" ? PROVIDER_ORDERS_QUERY_KEY : ORDERS_QUERY_KEY;
+  // watcher config lives on the admin API; providers fall back to the default threshold
+  const readWatcher = withWatcher && scope === "admin";
+  const watchersQuery = useQuery({
+    queryKey: OPS_WATCHERS_QUERY_KEY,
+    queryFn: () => fetchOpsWatchers(),
+    enabled: enabled && readWatcher,
+    staleTime: 60_000,
+    meta: { silent: true },
+  });
+  const thresholds: SlaThresholds = useMemo(
+    () => thresholdsFromWatcher(watchersQuery.data?.watchers.ordersStuck.thresholds),
+    [watchersQuery.data]
+  );
+  const statuses = useMemo(() => monitoredStatuses(thresholds), [thresholds]);
+  const thresholdsReady = !readWatcher || !watchersQuery.isLoading;
+  const pollInterval = useOrdersPollInterval(scope, SLA_FALLBACK_POLL_MS);
+  // unfiltered scans share one cache entry across screens
+  const scanFilters = filters && Object.values(filters).some((value) => value !== undefined && value !== "") ? filters : null;
+
+  const entriesQuery = useQuery({
+    queryKey: [...ordersKey, "sla", statuses, ...(scanFilters ? [scanFilters] : [])] as const,
+    queryFn: async (): Promise<SlaScan> => {
+      const pages = await Promise.all(
+        statuses.map((status) => listOrders({ ...scanFilters, status, page: 1, pageSize: SLA_SCAN_PAGE_SIZE }, scope))
+      );
+      const truncated = pages.some((page) => page.total > page.items.length);
+      const orders = pages.flatMap((page) => page.items).filter((order) => statuses.includes(order.status));
+      if (!withHistory) return { entries: orders.map((order) => ({ order, enteredAt: statusEnteredAt(order) })), truncated };
+      const histories = await settleWithConcurrency(
+        orders,
+        (order) =>
+          queryClient.fetchQuery({
+            queryKey: [...ordersKey, "history", order.id],
+            queryFn: () => getOrderHistory(order.id, scope),
+            staleTime: SLA_HISTORY_STALE_MS,
+          }) as Promise<OrderHistoryEntry[]>,
+        { limit: SLA_HISTORY_CONCURRENCY }
+      );
+      const entries = histories.map((result) => ({
+        order: result.item,
+        enteredAt: statusEnteredAt(result.item, result.ok ? result.value : undefined),
+      }));
+      return { entries, truncated };
+    },
+    enabled: enabled && thresholdsReady && statuses.length > 0,
+    refetchInterval: pollInterval,
+    refetchIntervalInBackground: false,
+    staleTime: 30_000,
+    meta: { silent: true },
+  });
+
+  return {
+    thresholds,
+    entries: entriesQuery.data?.entries ?? NO_ENTRIES,
+    truncated: entriesQuery.data?.truncated ?? false,
+    isLoading: entriesQuery.isLoading || (enabled && !thresholdsReady),
+    isError: entriesQuery.isError,
+    refetch: entriesQuery.refetch,
+  };
+}
+
+/**
+ * Calls `onBreach` once per order/status as it crosses its threshold. Breaches already present
+ * on the first scan are treated as known so opening the app does not replay a burst of alerts.
+ */
+export function useSlaBreachAlerts(
+  entries: SlaEntry[],
+  thresholds: SlaThresholds,
+  onBreach: (states: SlaState[]) => void,
+  options?: { enabled?: boolean }
+) {
+  const enabled = options?.enabled ?? true;
+  const seenRef = useRef<Set<string> | null>(null);
+  const onBreachRef = useRef(onBreach);
+  onBreachRef.current = onBreach;
+
+  useEffect(() => {
+    if (!enabled || !entries.length) return;
+    let timer: number | undefined;
+    const check = () => {
+      const states = evaluateSlaEntries(entries, thresholds);
+      if (!seenRef.current) {
+        seenRef.current = new Set();
+        collectNewBreaches(states, seenRef.current);
+      } else {
+        const fresh = collectNewBreaches(states, seenRef.current);
+        if (fresh.length) onBreachRef.current(fresh);
+      }
+      const delay = nextBreachDelay(states);
+      // setTimeout overflows past ~24.8 days; recheck well before that
+      if (delay !== null) timer = window.setTimeout(check, Math.min(delay + 1000, 6 * 60 * 60_000));
+    };
+    check();
+    return () => window.clearTimeout(timer);
+  }, [entries, thresholds, enabled]);
+}
@@ -0,0 +1,25 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { listProducts } from "../../services/products.service";
+import { listProductCostHistory } from "../../services/product-costs.service";
+import type { ProductFilters } from "../../types/product";
+import { PRODUCTS_QUERY_KEY } from "./useProductsAdmin";
+
+export const PRODUCT_COSTS_QUERY_KEY = ["product-costs"] as const;
+
+export function useProductCostHistory(productId?: string | null, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: [...PRODUCT_COSTS_QUERY_KEY, productId] as const,
+    queryFn: () => listProductCostHistory(productId as string),
+    enabled: Boolean(productId) && (options?.enabled ?? true),
+  });
+}
+
+/** Products without a cost, for the missing-costs queue. Shares the products key so saves refresh it. */
+export function useMissingCostProducts(filters: Omit<ProductFilters, "missingCost">, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: [...PRODUCTS_QUERY_KEY, "missing-costs", filters] as const,
+    queryFn: () => listProducts({ ...filters, missingCost: true }),
+    placeholderData: keepPreviousData,
+    enabled: options?.enabled ?? true,
+  });
+}
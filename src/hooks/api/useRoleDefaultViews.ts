@@ -0,0 +1,24 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getRoleDefaultViews, updateRoleDefaultViews } from "../../services/list-views.service";
+import type { RoleDefaultViews } from "../../lib/list-state";
+
+export const ROLE_DEFAULT_VIEWS_QUERY_KEY = ["list-views", "role-defaults"] as const;
+
+/** Default list views pinned per role, shared by every admin user through the API. */
+export function useRoleDefaultViews(options?: { enabled?: boolean }) {
+  return useQuery<RoleDefaultViews>({
+    queryKey: ROLE_DEFAULT_VIEWS_QUERY_KEY,
+    queryFn: getRoleDefaultViews,
+    enabled: options?.enabled ?? true,
+    staleTime: 5 * 60_000,
+    meta: { silent: true },
+  });
+}
+
+export function useUpdateRoleDefaultViews() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (defaults: RoleDefaultViews) => updateRoleDefaultViews(defaults),
+    onSuccess: (defaults) => queryClient.setQueryData(ROLE_DEFAULT_VIEWS_QUERY_KEY, defaults),
+  });
+}
@@ -0,0 +1,19 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { listStockMovements, type InventoryScope } from "../../services/inventory.service";
+import type { StockMovementFilters } from "../../types/inventory";
+
+export const STOCK_MOVEMENTS_QUERY_KEY = ["stock-movements"] as const;
+
+export function useStockMovements(
+  productId: string | null | undefined,
+  filters: StockMovementFilters,
+  options?: { enabled?: boolean; scope?: InventoryScope }
+) {
+  const scope = options?.scope ?? "admin";
+  return useQuery({
+    queryKey: [...STOCK_MOVEMENTS_QUERY_KEY, scope, productId, filters] as const,
+    queryFn: () => listStockMovements(productId as string, filters, scope),
+    placeholderData: keepPreviousData,
+    enabled: Boolean(productId) && (options?.enabled ?? true),
+  });
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import { usePermissions } from "../auth/permissions";
+import { useRoleDefaultViews } from "./api/useRoleDefaultViews";
+import {
+  hasListParams,
+  listStateQuery,
+  parseListState,
+  serializeListState,
+  type ListScreen,
+  type ListStateSchema,
+} from "../lib/list-state";
+
+type Updater<T> = Partial<T> | ((prev: T) => Partial<T>);
+
+/**
+ * List filters, sort and page kept in the URL query string. The URL is the source of truth, so
+ * back/forward, reloads and shared links restore the same list. When the screen opens without any
+ * list params, the default view pinned for the user's role (if any) is applied.
+ */
+export function useListState<T>(schema: ListStateSchema<T>, { screen }: { screen: ListScreen }) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { role } = usePermissions();
+  const state = useMemo(() => parseListState(schema, searchParams), [schema, searchParams]);
+
+  // Several updates in one event would otherwise each start from the same render's params
+  const latestParams = useRef(searchParams);
+  latestParams.current = searchParams;
+
+  // Applied once, when the defaults arrive, and only if the list still has no params by then
+  const appliedDefault = useRef(hasListParams(schema, searchParams));
+  const roleDefaults = useRoleDefaultViews({ enabled: !appliedDefault.current && Boolean(role) }).data;
+  useEffect(() => {
+    if (appliedDefault.current || !roleDefaults) return;
+    appliedDefault.current = true;
+    const current = latestParams.current;
+    if (hasListParams(schema, current)) return;
+    const pinned = role ? roleDefaults[role]?.[screen] : undefined;
+    if (!pinned?.query) return;
+    const params = new URLSearchParams(current);
+    new URLSearchParams(pinned.query).forEach((value, key) => params.set(key, value));
+    setSearchParams(params, { replace: true });
+  }, [roleDefaults, role, schema, screen, setSearchParams]);
+
+  const setState = useCallback(
+    (update: Updater<T>) => {
+      const prev = latestParams.current;
+      const current = parseListState(schema, prev);
+      const patch = typeof update === "function" ? update(current) : update;
+      const next = serializeListState(schema, { ...current, ...patch }, prev);
+      latestParams.current = next;
+      setSearchParams(next, { replace: true });
+    },
+    [schema, setSearchParams]
+  );
+
+  /** Replaces the whole list state with a stored query string (saved views). */
+  const applyQuery = useCallback(
+    (query: string) => {
+      const next = serializeListState(schema, parseListState(schema, new URLSearchParams(query)), latestParams.current);
+      latestParams.current = next;
+      setSearchParams(next);
+    },
+    [schema, setSearchParams]
+  );
+
+  const reset = useCallback(() => applyQuery(""), [applyQuery]);
+
+  return {
+    state,
+    setState,
+    applyQuery,
+    reset,
+    /** Current list params only, e.g. for saving as a view */
+    query: listStateQuery(schema, state),
+  };
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+/** Current timestamp, refreshed every `intervalMs` for countdowns. */
+export function useNow(intervalMs = 30_000) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
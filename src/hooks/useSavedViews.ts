@@ -0,0 +1,69 @@
+import { useCallback, useState } from "react";
+import { useAuth } from "../auth/AuthProvider";
+import { useRoleDefaultViews, useUpdateRoleDefaultViews } from "./api/useRoleDefaultViews";
+import {
+  exportSavedViews,
+  loadSavedViews,
+  mergeSavedViews,
+  parseSavedViewsExport,
+  setRoleDefault,
+  storeSavedViews,
+  upsertSavedView,
+  type ListScreen,
+  type RoleDefaultViews,
+  type SavedView,
+} from "../lib/list-state";
+
+const NO_DEFAULTS: RoleDefaultViews = {};
+
+/** Named list views saved per user in this browser, plus the per-role default views kept on the server. */
+export function useSavedViews(screen: ListScreen) {
+  const { user } = useAuth();
+  const userId = user?.id || "anonymous";
+  const [allViews, setAllViews] = useState<SavedView[]>(() => loadSavedViews(userId));
+  const roleDefaults = useRoleDefaultViews().data ?? NO_DEFAULTS;
+  const updateRoleDefaults = useUpdateRoleDefaultViews();
+
+  const commit = useCallback(
+    (next: SavedView[]) => {
+      storeSavedViews(userId, next);
+      setAllViews(next);
+    },
+    [userId]
+  );
+
+  const save = (name: string, query: string) =>
+    commit(
+      upsertSavedView(allViews, {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        screen,
+        name: name.trim(),
+        query,
+        createdAt: new Date().toISOString(),
+      })
+    );
+
+  const remove = (id: string) => commit(allViews.filter((view) => view.id !== id));
+
+  /** Returns how many views were imported; throws on files that are not a views export. */
+  const importText = (text: string) => {
+    const imported = parseSavedViewsExport(text);
+    commit(mergeSavedViews(allViews, imported));
+    return imported.length;
+  };
+
+  const pinForRole = (role: string, view: Pick<SavedView, "name" | "query"> | null) =>
+    updateRoleDefaults.mutateAsync(setRoleDefault(roleDefaults, role, screen, view));
+
+  return {
+    views: allViews.filter((view) => view.screen === screen),
+    /** Every screen's views, for export */
+    exportAll: () => exportSavedViews(allViews),
+    save,
+    remove,
+    importText,
+    roleDefaults,
+    pinForRole,
+    pinning: updateRoleDefaults.isPending,
+  };
+}
@@ -0,0 +1,126 @@
+import type { Product } from "../types/product";
+
+/**
+ * Catalog completeness audit. Each product is scored 0-100 from weighted checks; a failed check puts
+ * the product into that issue's bucket so it can be fixed from one list. Weights favour what blocks a
+ * sale (price, category, image) over what only hurts discovery (descriptions, SKU).
+ */
+
+export const AUDIT_ISSUES = [
+  { id: "zero_price", weight: 5 },
+  { id: "no_category", weight: 4 },
+  { id: "no_image", weight: 4 },
+  { id: "no_name_ar", weight: 3 },
+  { id: "no_description", weight: 2 },
+  { id: "no_description_ar", weight: 2 },
+  { id: "no_sku", weight: 1 },
+] as const;
+
+export type AuditIssue = (typeof AUDIT_ISSUES)[number]["id"];
+
+/** The fields the audit reads; both the admin and provider product shapes satisfy it. */
+export type AuditableProduct = Pick<
+  Product,
+  "id" | "name" | "nameAr" | "description" | "descriptionAr" | "imageUrl" | "priceCents" | "status" | "categoryId" | "sku" | "providerId"
+> & {
+  images?: Array<string | { url?: string | null }>;
+  variants?: Array<{ priceCents: number; sku?: string | null }>;
+};
+
+export type ProductAudit<P extends AuditableProduct = AuditableProduct> = {
+  product: P;
+  issues: AuditIssue[];
+  score: number;
+};
+
+export type ProviderQuality = {
+  providerId: string;
+  products: number;
+  score: number;
+  issues: Partial<Record<AuditIssue, number>>;
+};
+
+export type CatalogAudit<P extends AuditableProduct = AuditableProduct> = {
+  rows: ProductAudit<P>[];
+  /** Average product score; 100 for an empty catalog */
+  score: number;
+  buckets: Record<AuditIssue, ProductAudit<P>[]>;
+  byProvider: ProviderQuality[];
+};
+
+export const SCORE_BANDS = { good: 90, fair: 70 } as const;
+
+const TOTAL_WEIGHT = AUDIT_ISSUES.reduce((sum, issue) => sum + issue.weight, 0);
+const WEIGHTS = new Map<AuditIssue, number>(AUDIT_ISSUES.map((issue) => [issue.id, issue.weight]));
+
+const blank = (value?: string | null) => !value || !value.trim();
+
+function hasImage(product: AuditableProduct) {
+  if (!blank(product.imageUrl)) return true;
+  return (product.images ?? []).some((image) => (typeof image === "string" ? !blank(image) : !blank(image?.url)));
+}
+
+function hasZeroPrice(product: AuditableProduct) {
+  if (product.variants?.length) return product.variants.some((variant) => !(variant.priceCents > 0));
+  return !(product.priceCents > 0);
+}
+
+/**
+ * Failed checks for one product. `categoryIds`, when given, also flags products filed under a
+ * category that no longer exists.
+ */
+export function productIssues(product: AuditableProduct, categoryIds?: Set<string>): AuditIssue[] {
+  const issues: AuditIssue[] = [];
+  if (hasZeroPrice(product)) issues.push("zero_price");
+  if (blank(product.categoryId) || (categoryIds && !categoryIds.has(product.categoryId))) issues.push("no_category");
+  if (!hasImage(product)) issues.push("no_image");
+  if (blank(product.nameAr)) issues.push("no_name_ar");
+  if (blank(product.description)) issues.push("no_description");
+  if (blank(product.descriptionAr)) issues.push("no_description_ar");
+  // Variant products carry SKUs per variant; one missing is enough to flag the product
+  const skuMissing = product.variants?.length ? product.variants.some((variant) => blank(variant.sku)) : blank(product.sku);
+  if (skuMissing) issues.push("no_sku");
+  return issues;
+}
+
+export function completenessScore(issues: AuditIssue[]) {
+  const lost = issues.reduce((sum, issue) => sum + (WEIGHTS.get(issue) ?? 0), 0);
+  return Math.round(((TOTAL_WEIGHT - lost) / TOTAL_WEIGHT) * 100);
+}
+
+export function scoreBand(score: number): "good" | "fair" | "poor" {
+  return score >= SCORE_BANDS.good ? "good" : score >= SCORE_BANDS.fair ? "fair" : "poor";
+}
+
+const average = (values: number[]) => (values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 100);
+
+/** Scores every product (discontinued ones are skipped), worst first, with issue buckets and provider scores. */
+export function auditCatalog<P extends AuditableProduct>(
+  products: P[],
+  { categoryIds }: { categoryIds?: Set<string> } = {}
+): CatalogAudit<P> {
+  const rows = products
+    .filter((product) => product.status !== "DISCONTINUED")
+    .map((product): ProductAudit<P> => {
+      const issues = productIssues(product, categoryIds);
+      return { product, issues, score: completenessScore(issues) };
+    })
+    .sort((a, b) => a.score - b.score || a.product.name.localeCompare(b.product.name));
+
+  const buckets = Object.fromEntries(AUDIT_ISSUES.map((issue) => [issue.id, [] as ProductAudit<P>[]])) as Record<AuditIssue, ProductAudit<P>[]>;
+  const providers = new Map<string, ProductAudit<P>[]>();
+  rows.forEach((row) => {
+    row.issues.forEach((issue) => buckets[issue].push(row));
+    const providerId = row.product.providerId ?? "";
+    providers.set(providerId, [...(providers.get(providerId) ?? []), row]);
+  });
+
+  const byProvider = [...providers].map(([providerId, providerRows]): ProviderQuality => {
+    const issues: Partial<Record<AuditIssue, number>> = {};
+    providerRows.forEach((row) => row.issues.forEach((issue) => (issues[issue] = (issues[issue] ?? 0) + 1)));
+    return { providerId, products: providerRows.length, score: average(providerRows.map((row) => row.score)), issues };
+  });
+  byProvider.sort((a, b) => a.score - b.score);
+
+  return { rows, score: average(rows.map((row) => row.score)), buckets, byProvider };
+}
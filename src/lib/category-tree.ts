@@ -0,0 +1,172 @@
+import type { Category } from "../services/categories.service";
+
+/**
+ * Category tree helpers for the drag-and-drop editor. The API returns a flat list with `parentId`
+ * and a per-sibling `sortOrder`; orphans (parent missing or outside the current filter) sit at the
+ * root, and parent cycles are cut so a bad row never hangs the tree.
+ */
+
+export type CategoryTreeNode = {
+  category: Category;
+  children: CategoryTreeNode[];
+  depth: number;
+  /** Products filed directly under this category; null when the API sent no counts */
+  productCount: number | null;
+  /** Products in this category and everything below it */
+  totalProducts: number | null;
+};
+
+export type DropPosition = "before" | "inside" | "after";
+
+export type TreeMove = {
+  id: string;
+  parentId: string | null;
+  /** New sortOrder for every sibling under the destination parent, and under the old one if it changed */
+  order: Array<{ id: string; sortOrder: number }>;
+};
+
+export const productCountOf = (category: Category) => category._count?.products ?? null;
+
+const bySortOrder = (a: Category, b: Category) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.name.localeCompare(b.name);
+
+/** Parent id used for placement: null for roots and for rows whose parent is missing or would loop. */
+function effectiveParents(categories: Category[]) {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const parents = new Map<string, string | null>();
+  categories.forEach((category) => {
+    const parentId = category.parentId && byId.has(category.parentId) ? category.parentId : null;
+    // Walk up; if we come back to this row the link is part of a cycle and gets cut here
+    const seen = new Set([category.id]);
+    let cursor = parentId;
+    while (cursor && !seen.has(cursor)) {
+      seen.add(cursor);
+      const next = byId.get(cursor)?.parentId;
+      cursor = next && byId.has(next) ? next : null;
+    }
+    parents.set(category.id, cursor === category.id ? null : parentId);
+  });
+  return parents;
+}
+
+export function buildCategoryTree(categories: Category[]): CategoryTreeNode[] {
+  const parents = effectiveParents(categories);
+  const childrenOf = new Map<string | null, Category[]>();
+  categories.forEach((category) => {
+    const parentId = parents.get(category.id) ?? null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), category]);
+  });
+
+  const build = (parentId: string | null, depth: number, seen: Set<string>): CategoryTreeNode[] =>
+    (childrenOf.get(parentId) ?? [])
+      .filter((category) => !seen.has(category.id))
+      .sort(bySortOrder)
+      .map((category) => {
+        seen.add(category.id);
+        const children = build(category.id, depth + 1, seen);
+        const own = productCountOf(category);
+        const totalProducts =
+          own === null || children.some((child) => child.totalProducts === null)
+            ? null
+            : children.reduce((sum, child) => sum + (child.totalProducts ?? 0), own);
+        return { category, children, depth, productCount: own, totalProducts };
+      });
+
+  return build(null, 0, new Set());
+}
+
+/** Depth-first rows for rendering, skipping the children of collapsed nodes. */
+export function flattenTree(nodes: CategoryTreeNode[], collapsed: Set<string> = new Set()): CategoryTreeNode[] {
+  return nodes.flatMap((node) => [node, ...(collapsed.has(node.category.id) ? [] : flattenTree(node.children, collapsed))]);
+}
+
+/** Keeps nodes whose name, Arabic name or slug matches, plus their ancestors so the path stays visible. */
+export function filterTree(nodes: CategoryTreeNode[], query: string): CategoryTreeNode[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return nodes;
+  return nodes.flatMap((node) => {
+    const children = filterTree(node.children, query);
+    const { name, nameAr, slug } = node.category;
+    const matches = [name, nameAr, slug].some((value) => value?.toLowerCase().includes(needle));
+    return matches || children.length ? [{ ...node, children: matches ? node.children : children }] : [];
+  });
+}
+
+export function descendantIds(categories: Category[], id: string) {
+  const parents = effectiveParents(categories);
+  const result = new Set<string>();
+  let frontier = [id];
+  while (frontier.length) {
+    const next: string[] = [];
+    categories.forEach((category) => {
+      const parentId = parents.get(category.id);
+      if (parentId && frontier.includes(parentId) && !result.has(category.id)) {
+        result.add(category.id);
+        next.push(category.id);
+      }
+    });
+    frontier = next;
+  }
+  return result;
+}
+
+/**
+ * Where a dragged category lands when dropped on `targetId`, or null when the drop is not allowed:
+ * onto itself or its own subtree, or across providers.
+ */
+export function planMove(categories: Category[], dragId: string, targetId: string, position: DropPosition): TreeMove | null {
+  if (dragId === targetId) return null;
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const dragged = byId.get(dragId);
+  const target = byId.get(targetId);
+  if (!dragged || !target) return null;
+  if (descendantIds(categories, dragId).has(targetId)) return null;
+  if ((dragged.providerId ?? null) !== (target.providerId ?? null)) return null;
+
+  const parents = effectiveParents(categories);
+  const oldParentId = parents.get(dragId) ?? null;
+  const parentId = position === "inside" ? targetId : parents.get(targetId) ?? null;
+  // Each provider orders its own roots, so siblings never span providers
+  const siblingsOf = (parent: string | null) =>
+    categories
+      .filter(
+        (category) =>
+          category.id !== dragId &&
+          (parents.get(category.id) ?? null) === parent &&
+          (category.providerId ?? null) === (dragged.providerId ?? null)
+      )
+      .sort(bySortOrder);
+
+  const siblings = siblingsOf(parentId);
+  const targetIndex = siblings.findIndex((category) => category.id === targetId);
+  const insertAt = position === "inside" ? siblings.length : position === "before" ? targetIndex : targetIndex + 1;
+  siblings.splice(insertAt, 0, dragged);
+
+  const order = siblings.map((category, index) => ({ id: category.id, sortOrder: index }));
+  if (oldParentId !== parentId) {
+    siblingsOf(oldParentId).forEach((category, index) => order.push({ id: category.id, sortOrder: index }));
+  }
+  // Only rows whose position actually changed go to the API
+  const changed = order.filter((entry) => byId.get(entry.id)?.sortOrder !== entry.sortOrder || entry.id === dragId);
+  return { id: dragId, parentId, order: changed };
+}
+
+/** Categories that can receive another category's products: same provider, not the category or its subtree. */
+export function mergeTargets(categories: Category[], id: string) {
+  const source = categories.find((category) => category.id === id);
+  if (!source) return [];
+  const excluded = descendantIds(categories, id);
+  excluded.add(id);
+  return categories.filter(
+    (category) => !excluded.has(category.id) && (category.providerId ?? null) === (source.providerId ?? null)
+  );
+}
+
+/** Indented labels in tree order, for parent and merge-target pickers. */
+export function treeOptions(categories: Category[], { exclude, isArabic }: { exclude?: Set<string>; isArabic?: boolean } = {}) {
+  return flattenTree(buildCategoryTree(categories))
+    .filter((node) => !exclude?.has(node.category.id))
+    .map((node) => ({
+      id: node.category.id,
+      label: `${"\u00a0\u00a0".repeat(node.depth)}${isArabic && node.category.nameAr ? node.category.nameAr : node.category.name}`,
+    }));
+}
@@ -0,0 +1,42 @@
+export type SettledResult<T, R> =
+  | { item: T; ok: true; value: R }
+  | { item: T; ok: false; error: unknown };
+
+type SettleOptions<T, R> = {
+  limit?: number;
+  onSettled?: (result: SettledResult<T, R>, done: number) => void;
+};
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight and never throws;
+ * results come back in input order so callers can report per-item outcomes.
+ */
+export async function settleWithConcurrency<T, R>(
+  items: T[],
+  worker: (item: T) => Promise<R>,
+  { limit = 4, onSettled }: SettleOptions<T, R> = {}
+): Promise<SettledResult<T, R>[]> {
+  const results = new Array<SettledResult<T, R>>(items.length);
+  let cursor = 0;
+  let done = 0;
+
+  const next = async (): Promise<void> => {
+    while (cursor < items.length) {
+      const index = cursor++;
+      const item = items[index];
+      let result: SettledResult<T, R>;
+      try {
+        result = { item, ok: true, value: await worker(item) };
+      } catch (error) {
+        result = { item, ok: false, error };
+      }
+      results[index] = result;
+      done += 1;
+      onSettled?.(result, done);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: lanes }, () => next()));
+  return results;
+}
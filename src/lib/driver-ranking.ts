@@ -0,0 +1,153 @@
+import { haversineKm, type LatLng } from "./geo";
+import type { DeliveryDriver } from "../types/delivery";
+import type { Order } from "../types/order";
+
+export type DriverSignals = {
+  activeOrders: number;
+  location: LatLng | null;
+  /** Zones of the driver's current (undelivered) orders */
+  activeZoneIds: string[];
+  /** Zones the driver recently delivered to or failed in */
+  recentZoneIds: string[];
+  delivered: number;
+  failed: number;
+};
+
+export type ScoreKey = "load" | "distance" | "zone" | "reliability";
+
+export type ScoreComponent = {
+  key: ScoreKey;
+  /** 0..1 before weighting */
+  score: number;
+  weight: number;
+};
+
+export type DriverSuggestion = {
+  driver: DeliveryDriver;
+  signals: DriverSignals;
+  distanceKm: number | null;
+  failureRate: number | null;
+  components: ScoreComponent[];
+  /** 0..100 */
+  total: number;
+};
+
+export type AssignmentTarget = {
+  zoneId?: string | null;
+  location?: LatLng | null;
+};
+
+export const RANKING_WEIGHTS: Record<ScoreKey, number> = {
+  load: 0.35,
+  distance: 0.3,
+  zone: 0.15,
+  reliability: 0.2,
+};
+
+// A driver carrying this many open orders scores zero on load
+const MAX_LOAD = 4;
+// Beyond this the distance score bottoms out
+const MAX_DISTANCE_KM = 10;
+// Unknown signals neither help nor hurt
+const NEUTRAL = 0.5;
+
+export const EMPTY_SIGNALS: DriverSignals = {
+  activeOrders: 0,
+  location: null,
+  activeZoneIds: [],
+  recentZoneIds: [],
+  delivered: 0,
+  failed: 0,
+};
+
+/**
+ * Folds order lists into per-driver signals. `active` should hold assigned orders that are not
+ * yet delivered; `delivered` and `failed` are recent outcomes used for zone familiarity and reliability.
+ */
+export function buildDriverSignals(
+  { active, delivered, failed }: { active: Order[]; delivered: Order[]; failed: Order[] },
+  locations: Record<string, LatLng> = {}
+): Record<string, DriverSignals> {
+  const signals: Record<string, DriverSignals> = {};
+  const ensure = (driverId: string) => {
+    if (!signals[driverId]) {
+      signals[driverId] = { ...EMPTY_SIGNALS, activeZoneIds: [], recentZoneIds: [], location: locations[driverId] ?? null };
+    }
+    return signals[driverId];
+  };
+  const addZone = (list: string[], zoneId?: string | null) => {
+    if (zoneId && !list.includes(zoneId)) list.push(zoneId);
+  };
+
+  active.forEach((order) => {
+    if (!order.driver?.id) return;
+    const entry = ensure(order.driver.id);
+    entry.activeOrders += 1;
+    addZone(entry.activeZoneIds, order.deliveryZone?.id);
+  });
+  delivered.forEach((order) => {
+    if (!order.driver?.id) return;
+    const entry = ensure(order.driver.id);
+    entry.delivered += 1;
+    addZone(entry.recentZoneIds, order.deliveryZone?.id);
+  });
+  failed.forEach((order) => {
+    if (!order.driver?.id) return;
+    const entry = ensure(order.driver.id);
+    entry.failed += 1;
+    addZone(entry.recentZoneIds, order.deliveryZone?.id);
+  });
+  Object.entries(locations).forEach(([driverId, location]) => {
+    ensure(driverId).location = location;
+  });
+  return signals;
+}
+
+export function scoreDriver(driver: DeliveryDriver, signals: DriverSignals, target: AssignmentTarget): DriverSuggestion {
+  const distanceKm = signals.location && target.location ? haversineKm(signals.location, target.location) : null;
+  const outcomes = signals.delivered + signals.failed;
+  const failureRate = outcomes ? signals.failed / outcomes : null;
+
+  const load = Math.max(0, 1 - signals.activeOrders / MAX_LOAD);
+  const distance = distanceKm == null ? NEUTRAL : Math.max(0, 1 - distanceKm / MAX_DISTANCE_KM);
+  const zone = !target.zoneId
+    ? NEUTRAL
+    : signals.activeZoneIds.includes(target.zoneId)
+      ? 1
+      : signals.recentZoneIds.includes(target.zoneId)
+        ? 0.7
+        : signals.activeZoneIds.length
+          ? 0
+          : NEUTRAL;
+  // Laplace smoothing so one failure on a new driver does not sink them
+  const reliability = (signals.delivered + 1) / (outcomes + 2);
+
+  const components: ScoreComponent[] = (
+    [
+      ["load", load],
+      ["distance", distance],
+      ["zone", zone],
+      ["reliability", reliability],
+    ] as const
+  ).map(([key, score]) => ({ key, score, weight: RANKING_WEIGHTS[key] }));
+  const total = Math.round(components.reduce((sum, component) => sum + component.score * component.weight, 0) * 100);
+
+  return { driver, signals, distanceKm, failureRate, components, total };
+}
+
+/** Highest score first; ties go to the lighter load, then the closer driver. */
+export function rankDrivers(
+  drivers: DeliveryDriver[],
+  signals: Record<string, DriverSignals>,
+  target: AssignmentTarget
+): DriverSuggestion[] {
+  return drivers
+    .filter((driver) => driver.isActive)
+    .map((driver) => scoreDriver(driver, signals[driver.id] ?? EMPTY_SIGNALS, target))
+    .sort(
+      (a, b) =>
+        b.total - a.total ||
+        a.signals.activeOrders - b.signals.activeOrders ||
+        (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity)
+    );
+}
@@ -0,0 +1,175 @@
+import dayjs from "dayjs";
+import type { Customer } from "../services/customers.service";
+import type { LowStockRow } from "./low-stock";
+import type { OrderReconciliation, ReconcileOrderIssue } from "./ledger-reconciliation";
+import type { PayoutItem } from "../services/admin-finance.service";
+import type { OrderSummary } from "../types/order";
+import type { Product } from "../types/product";
+import type { Review } from "../types/review";
+import { fromCents } from "./money";
+import { maskPhone } from "./pii";
+import type { ExportColumn } from "./table-export";
+
+/** Column sets for the list screens' spreadsheet export. Money is exported as plain numbers. */
+
+const dateTime = (value?: string | null) => (value ? dayjs(value).format("YYYY-MM-DD HH:mm") : "");
+
+export function orderExportColumns({ canViewPII }: { canViewPII: boolean }): ExportColumn<OrderSummary>[] {
+  return [
+    { id: "code", labelKey: "orders.code", label: "Order code", value: (order) => order.code },
+    { id: "status", labelKey: "orders.status", label: "Status", value: (order) => order.status },
+    { id: "createdAt", labelKey: "export.columns.created_at", label: "Date", value: (order) => dateTime(order.createdAt) },
+    { id: "customer", labelKey: "orders.customer", label: "Customer", value: (order) => order.customer?.name },
+    {
+      id: "phone",
+      labelKey: "orders.phone",
+      label: "Phone",
+      value: (order) => (canViewPII ? order.customer?.phone : maskPhone(order.customer?.phone)),
+    },
+    { id: "total", labelKey: "orders.total", label: "Total", value: (order) => fromCents(order.totalCents) },
+    { id: "currency", labelKey: "export.columns.currency", label: "Currency", value: (order) => order.currency || "EGP", defaultSelected: false },
+    { id: "payment", labelKey: "orders.payment", label: "Payment method", value: (order) => order.paymentMethod },
+    { id: "driver", labelKey: "orders.driver", label: "Driver", value: (order) => order.driver?.fullName },
+    { id: "zone", labelKey: "orders.zone", label: "Zone", value: (order) => order.deliveryZone?.nameEn, defaultSelected: false },
+    { id: "orderGroupId", labelKey: "export.columns.order_group", label: "Order group", value: (order) => order.orderGroupId, defaultSelected: false },
+  ];
+}
+
+export const CUSTOMER_EXPORT_COLUMNS: ExportColumn<Customer>[] = [
+  { id: "name", labelKey: "customers.name", label: "Name", value: (customer) => customer.name },
+  { id: "phone", labelKey: "customers.phone", label: "Phone", value: (customer) => customer.phone },
+  { id: "email", labelKey: "customers.email", label: "Email", value: (customer) => customer.email },
+  { id: "role", labelKey: "customers.role", label: "Role", value: (customer) => customer.role, defaultSelected: false },
+  { id: "orders", labelKey: "customers.orders", label: "Orders", value: (customer) => customer.ordersCount ?? null },
+  {
+    id: "spent",
+    labelKey: "export.columns.total_spent",
+    label: "Total spent",
+    value: (customer) => (customer.totalSpentCents == null ? null : fromCents(customer.totalSpentCents)),
+  },
+  { id: "tier", labelKey: "export.columns.loyalty_tier", label: "Loyalty tier", value: (customer) => customer.loyaltyTier, defaultSelected: false },
+  { id: "createdAt", labelKey: "customers.createdAt", label: "Joined", value: (customer) => dateTime(customer.createdAt) },
+];
+
+export function productExportColumns({
+  categoryName,
+  providerName,
+}: {
+  categoryName: (id: string) => string | undefined;
+  providerName?: (id: string) => string | undefined;
+}): ExportColumn<Product>[] {
+  return [
+    { id: "sku", labelKey: "export.columns.sku", label: "SKU", value: (product) => product.sku },
+    { id: "name", labelKey: "products.name", label: "Name", value: (product) => product.name },
+    { id: "nameAr", labelKey: "products.nameAr", label: "Arabic name", value: (product) => product.nameAr },
+    { id: "category", labelKey: "products.category", label: "Category", value: (product) => categoryName(product.categoryId) ?? product.categoryId },
+    ...(providerName
+      ? [
+          {
+            id: "provider",
+            labelKey: "finance.vendor",
+            label: "Vendor",
+            value: (product: Product) => (product.providerId ? providerName(product.providerId) ?? product.providerId : ""),
+          },
+        ]
+      : []),
+    { id: "price", labelKey: "products.price", label: "Price", value: (product) => fromCents(product.priceCents) },
+    {
+      id: "salePrice",
+      labelKey: "products.salePrice",
+      label: "Sale price",
+      value: (product) => (product.salePriceCents == null ? null : fromCents(product.salePriceCents)),
+    },
+    { id: "stock", labelKey: "products.stock", label: "Stock", value: (product) => product.stock },
+    { id: "status", labelKey: "products.status", label: "Status", value: (product) => product.status },
+    { id: "hot", labelKey: "products.hotOffer", label: "Hot offer", value: (product) => Boolean(product.isHotOffer), defaultSelected: false },
+    { id: "updatedAt", labelKey: "export.columns.updated_at", label: "Updated", value: (product) => dateTime(product.updatedAt), defaultSelected: false },
+  ];
+}
+
+export const PAYOUT_EXPORT_COLUMNS: ExportColumn<PayoutItem>[] = [
+  { id: "createdAt", labelKey: "export.columns.created_at", label: "Created", value: (payout) => dateTime(payout.createdAt) },
+  { id: "provider", labelKey: "finance.vendor", label: "Vendor", value: (payout) => payout.provider?.name ?? payout.providerId },
+  { id: "amount", labelKey: "finance.amount", label: "Amount", value: (payout) => fromCents(payout.amountCents) },
+  { id: "fee", labelKey: "finance.fee", label: "Fee", value: (payout) => fromCents(payout.feeCents ?? 0) },
+  { id: "currency", labelKey: "export.columns.currency", label: "Currency", value: (payout) => payout.currency || "EGP", defaultSelected: false },
+  { id: "status", labelKey: "finance.status", label: "Status", value: (payout) => payout.status },
+  { id: "reference", labelKey: "finance.reference", label: "Reference", value: (payout) => payout.referenceId },
+  { id: "failure", labelKey: "finance.failure_reason", label: "Failure reason", value: (payout) => payout.failureReason, defaultSelected: false },
+  { id: "processedAt", labelKey: "export.columns.processed_at", label: "Processed", value: (payout) => dateTime(payout.processedAt) },
+];
+
+export const REVIEW_EXPORT_COLUMNS: ExportColumn<Review>[] = [
+  { id: "createdAt", labelKey: "export.columns.created_at", label: "Date", value: (review) => dateTime(review.createdAt) },
+  { id: "provider", labelKey: "finance.vendor", label: "Vendor", value: (review) => review.provider?.name },
+  { id: "order", labelKey: "export.columns.order", label: "Order", value: (review) => review.order?.code ?? review.orderId },
+  { id: "customer", labelKey: "orders.customer", label: "Customer", value: (review) => review.user?.name },
+  { id: "rating", labelKey: "export.columns.rating", label: "Rating", value: (review) => review.rating },
+  { id: "comment", labelKey: "export.columns.comment", label: "Comment", value: (review) => review.comment },
+  { id: "status", labelKey: "orders.status", label: "Status", value: (review) => review.status },
+  { id: "reply", labelKey: "export.columns.reply", label: "Reply", value: (review) => review.reply, defaultSelected: false },
+  { id: "moderationNote", labelKey: "export.columns.moderation_note", label: "Moderation note", value: (review) => review.moderationNote, defaultSelected: false },
+];
+
+/** Purchase list from the low-stock report; `suggestedQty` is the quantity to order. */
+export function purchaseListExportColumns({
+  providerName,
+}: {
+  providerName?: (id: string) => string | undefined;
+}): ExportColumn<LowStockRow>[] {
+  return [
+    ...(providerName
+      ? [
+          {
+            id: "provider",
+            labelKey: "finance.vendor",
+            label: "Vendor",
+            value: (row: LowStockRow) => (row.product.providerId ? providerName(row.product.providerId) ?? row.product.providerId : ""),
+          },
+        ]
+      : []),
+    { id: "sku", labelKey: "export.columns.sku", label: "SKU", value: (row) => row.product.sku },
+    { id: "name", labelKey: "products.name", label: "Name", value: (row) => row.product.name },
+    { id: "nameAr", labelKey: "products.nameAr", label: "Arabic name", value: (row) => row.product.nameAr },
+    { id: "stock", labelKey: "products.stock", label: "Stock", value: (row) => row.product.stock },
+    { id: "threshold", labelKey: "lowStock.threshold", label: "Threshold", value: (row) => row.threshold },
+    { id: "velocity", labelKey: "lowStock.perDay", label: "Sold / day", value: (row) => Math.round(row.dailyVelocity * 10) / 10 },
+    { id: "quantity", labelKey: "lowStock.orderQty", label: "Order qty", value: (row) => row.suggestedQty },
+    {
+      id: "unitCost",
+      labelKey: "products.cost.label",
+      label: "Cost / unit",
+      value: (row) => (row.product.costPriceCents == null ? null : fromCents(row.product.costPriceCents)),
+    },
+    {
+      id: "lineCost",
+      labelKey: "lowStock.lineCost",
+      label: "Line cost",
+      value: (row) => (row.product.costPriceCents == null ? null : fromCents(row.product.costPriceCents * row.suggestedQty)),
+    },
+  ];
+}
+
+/** Orders flagged by the ledger reconciliation; `issueLabel` translates each issue code. */
+export function reconciliationExportColumns({
+  issueLabel,
+}: {
+  issueLabel: (issue: ReconcileOrderIssue) => string;
+}): ExportColumn<OrderReconciliation>[] {
+  return [
+    { id: "order", labelKey: "export.columns.order", label: "Order", value: (row) => row.order.code || row.order.id },
+    { id: "createdAt", labelKey: "export.columns.created_at", label: "Created", value: (row) => dateTime(row.order.createdAt) },
+    { id: "total", labelKey: "finance.amount", label: "Amount", value: (row) => fromCents(row.order.totalCents) },
+    {
+      id: "expected",
+      labelKey: "finance.reconciliation.expected",
+      label: "Expected commission",
+      value: (row) => (row.expectedCents == null ? null : fromCents(row.expectedCents)),
+    },
+    { id: "recorded", labelKey: "finance.reconciliation.recorded", label: "Recorded commission", value: (row) => fromCents(row.commissionCents) },
+    { id: "entries", labelKey: "finance.reconciliation.entries", label: "Commission entries", value: (row) => row.entries.length },
+    { id: "invoices", labelKey: "finance.reconciliation.invoices", label: "Invoices", value: (row) => row.invoiceNumbers.join(", ") },
+    { id: "settlements", labelKey: "finance.reconciliation.settlements", label: "Settlements", value: (row) => row.settlements },
+    { id: "issues", labelKey: "finance.reconciliation.issuesColumn", label: "Issues", value: (row) => row.issues.map(issueLabel).join("; ") },
+  ];
+}
@@ -0,0 +1,118 @@
+import dayjs from "dayjs";
+import type { FlashSale, FlashSaleDiscountType, FlashSaleInput } from "../types/flash-sale";
+
+/**
+ * Flash-sale scheduling rules shared by the sale form and calendar: the price a sale charges,
+ * overlapping-window conflicts per product, and which ended sales still hold their sale prices.
+ * Windows are half-open, so a sale ending at 18:00 and one starting at 18:00 do not overlap.
+ */
+
+export type FlashSalePhase = "scheduled" | "active" | "ended" | "canceled";
+
+export type FlashSaleConflict = { productId: string; sale: FlashSale };
+
+export type FlashSaleIssue =
+  | "name_required"
+  | "invalid_window"
+  | "products_required"
+  | "invalid_percent"
+  | "invalid_fixed_price"
+  | "not_a_discount";
+
+export type CalendarDay = { date: string; inMonth: boolean; sales: FlashSale[] };
+
+type Discount = { discountType: FlashSaleDiscountType; percent?: number | null; fixedPriceCents?: number | null };
+
+const time = (value: string | Date) => new Date(value).getTime();
+
+export function flashSalePhase(sale: Pick<FlashSale, "status" | "startsAt" | "endsAt">, now: Date = new Date()): FlashSalePhase {
+  if (sale.status === "CANCELED") return "canceled";
+  if (sale.status === "REVERTED" || time(sale.endsAt) <= now.getTime()) return "ended";
+  return time(sale.startsAt) <= now.getTime() ? "active" : "scheduled";
+}
+
+/** Sale price for one product, or null when the sale would not lower its regular price. */
+export function flashSalePrice(priceCents: number, discount: Discount) {
+  const cents =
+    discount.discountType === "PERCENT"
+      ? Math.round((priceCents * (100 - Number(discount.percent ?? 0))) / 100)
+      : Math.round(Number(discount.fixedPriceCents ?? 0));
+  return Number.isFinite(cents) && cents > 0 && cents < priceCents ? cents : null;
+}
+
+export function windowsOverlap(aStart: string, aEnd: string, bStart: string, bEnd: string) {
+  return time(aStart) < time(bEnd) && time(bStart) < time(aEnd);
+}
+
+/** Products of `draft` already in another live sale whose window overlaps; canceled and reverted sales are ignored. */
+export function findFlashSaleConflicts(
+  draft: { id?: string; startsAt: string; endsAt: string; productIds: string[] },
+  sales: FlashSale[]
+): FlashSaleConflict[] {
+  const wanted = new Set(draft.productIds);
+  return sales
+    .filter(
+      (sale) =>
+        sale.id !== draft.id &&
+        sale.status !== "CANCELED" &&
+        sale.status !== "REVERTED" &&
+        windowsOverlap(draft.startsAt, draft.endsAt, sale.startsAt, sale.endsAt)
+    )
+    .flatMap((sale) =>
+      sale.items.filter((item) => wanted.has(item.productId)).map((item) => ({ productId: item.productId, sale }))
+    );
+}
+
+/** How long the server's scheduler has to revert an ended sale before the panel reports it as overdue. */
+export const REVERT_GRACE_MS = 10 * 60 * 1000;
+
+/** Ended sales the server applied but has not reverted within `graceMs` of their end. */
+export function salesNeedingRevert(sales: FlashSale[], now: Date = new Date(), graceMs = REVERT_GRACE_MS) {
+  return sales.filter(
+    (sale) => sale.status === "ACTIVE" && !sale.revertedAt && time(sale.endsAt) + graceMs <= now.getTime()
+  );
+}
+
+export function validateFlashSale(input: FlashSaleInput, products: Array<{ id: string; priceCents: number }>) {
+  const issues: FlashSaleIssue[] = [];
+  if (!input.name.trim()) issues.push("name_required");
+  if (!input.startsAt || !input.endsAt || !(time(input.startsAt) < time(input.endsAt))) issues.push("invalid_window");
+  if (!input.productIds.length) issues.push("products_required");
+  if (input.discountType === "PERCENT") {
+    const percent = Number(input.percent);
+    if (!Number.isInteger(percent) || percent <= 0 || percent >= 100) issues.push("invalid_percent");
+  } else if (!Number.isFinite(Number(input.fixedPriceCents)) || Number(input.fixedPriceCents) <= 0) {
+    issues.push("invalid_fixed_price");
+  }
+  const notDiscounted = issues.some((issue) => issue === "invalid_percent" || issue === "invalid_fixed_price")
+    ? []
+    : products.filter((product) => flashSalePrice(product.priceCents, input) === null).map((product) => product.id);
+  if (notDiscounted.length) issues.push("not_a_discount");
+  return { issues, notDiscounted };
+}
+
+/**
+ * Month grid (whole weeks from `weekStart`, 0 = Sunday, 6 = Saturday) with the sales running on
+ * each local day, ordered by start time.
+ */
+export function flashSaleCalendar(month: string | Date, sales: FlashSale[], weekStart = 0): CalendarDay[][] {
+  const first = dayjs(month).startOf("month");
+  const gridStart = first.subtract((first.day() - weekStart + 7) % 7, "day");
+  const last = first.endOf("month");
+  const sorted = [...sales].sort((a, b) => time(a.startsAt) - time(b.startsAt));
+  const weeks: CalendarDay[][] = [];
+  for (let cursor = gridStart; cursor.isBefore(last) || weeks.length === 0; ) {
+    const week: CalendarDay[] = [];
+    for (let i = 0; i < 7; i++, cursor = cursor.add(1, "day")) {
+      const dayStart = cursor.toISOString();
+      const dayEnd = cursor.add(1, "day").toISOString();
+      week.push({
+        date: cursor.format("YYYY-MM-DD"),
+        inMonth: cursor.month() === first.month(),
+        sales: sorted.filter((sale) => windowsOverlap(dayStart, dayEnd, sale.startsAt, sale.endsAt)),
+      });
+    }
+    weeks.push(week);
+  }
+  return weeks;
+}
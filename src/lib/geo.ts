@@ -0,0 +1,141 @@
+export type LatLng = { lat: number; lng: number };
+
+export type TrackPoint = LatLng & {
+  at: string;
+  speed?: number | null;
+  heading?: number | null;
+};
+
+export type WorldPoint = { x: number; y: number };
+
+export type Tile = { x: number; y: number; z: number; left: number; top: number };
+
+export const TILE_SIZE = 256;
+const EARTH_RADIUS_KM = 6371;
+const MAX_LAT = 85.05112878;
+// Straight-line distance understates the route through streets
+const ROUTE_FACTOR = 1.3;
+// Used when the driver reports no usable speed (stopped at a light, or no GPS speed)
+export const FALLBACK_SPEED_KMH = 20;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export function isValidLatLng(point?: Partial<LatLng> | null): point is LatLng {
+  return (
+    point != null &&
+    typeof point.lat === "number" &&
+    typeof point.lng === "number" &&
+    Number.isFinite(point.lat) &&
+    Number.isFinite(point.lng) &&
+    Math.abs(point.lat) <= 90 &&
+    Math.abs(point.lng) <= 180 &&
+    !(point.lat === 0 && point.lng === 0)
+  );
+}
+
+export function haversineKm(a: LatLng, b: LatLng) {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Web Mercator pixel position of a coordinate at `zoom` (same scheme as slippy map tiles). */
+export function projectToWorld({ lat, lng }: LatLng, zoom: number): WorldPoint {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const clampedLat = Math.max(-MAX_LAT, Math.min(MAX_LAT, lat));
+  const sin = Math.sin(toRad(clampedLat));
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/** Highest zoom (and its centre) at which every point fits inside the viewport. */
+export function fitViewport(
+  points: LatLng[],
+  width: number,
+  height: number,
+  { minZoom = 3, maxZoom = 16, padding = 48 }: { minZoom?: number; maxZoom?: number; padding?: number } = {}
+): { zoom: number; center: WorldPoint } {
+  const fallback: LatLng = { lat: 30.0444, lng: 31.2357 };
+  const targets = points.length ? points : [fallback];
+  for (let zoom = maxZoom; zoom >= minZoom; zoom -= 1) {
+    const projected = targets.map((point) => projectToWorld(point, zoom));
+    const xs = projected.map((point) => point.x);
+    const ys = projected.map((point) => point.y);
+    const spanX = Math.max(...xs) - Math.min(...xs);
+    const spanY = Math.max(...ys) - Math.min(...ys);
+    if (zoom === minZoom || (spanX <= width - padding * 2 && spanY <= height - padding * 2)) {
+      return {
+        zoom,
+        center: { x: (Math.max(...xs) + Math.min(...xs)) / 2, y: (Math.max(...ys) + Math.min(...ys)) / 2 },
+      };
+    }
+  }
+  return { zoom: minZoom, center: projectToWorld(targets[0], minZoom) };
+}
+
+/** Tiles covering a viewport centred on `center`, with their offsets inside it. */
+export function visibleTiles(center: WorldPoint, zoom: number, width: number, height: number): Tile[] {
+  const count = 2 ** zoom;
+  const originX = center.x - width / 2;
+  const originY = center.y - height / 2;
+  const tiles: Tile[] = [];
+  for (let ty = Math.floor(originY / TILE_SIZE); ty < Math.ceil((originY + height) / TILE_SIZE); ty += 1) {
+    if (ty < 0 || ty >= count) continue;
+    for (let tx = Math.floor(originX / TILE_SIZE); tx < Math.ceil((originX + width) / TILE_SIZE); tx += 1) {
+      tiles.push({
+        x: ((tx % count) + count) % count,
+        y: ty,
+        z: zoom,
+        left: tx * TILE_SIZE - originX,
+        top: ty * TILE_SIZE - originY,
+      });
+    }
+  }
+  return tiles;
+}
+
+export function tileUrl(template: string, tile: Pick<Tile, "x" | "y" | "z">) {
+  const subdomain = "abc"[(tile.x + tile.y) % 3];
+  return template
+    .replace("{z}", String(tile.z))
+    .replace("{x}", String(tile.x))
+    .replace("{y}", String(tile.y))
+    .replace("{s}", subdomain);
+}
+
+/** Speed in m/s from the last two trail points, for drivers whose devices do not report it. */
+export function trailSpeedMps(trail: TrackPoint[]) {
+  if (trail.length < 2) return null;
+  const prev = trail[trail.length - 2];
+  const last = trail[trail.length - 1];
+  const seconds = (new Date(last.at).getTime() - new Date(prev.at).getTime()) / 1000;
+  if (!(seconds > 0)) return null;
+  return (haversineKm(prev, last) * 1000) / seconds;
+}
+
+/** Minutes to cover `distanceKm` along streets at the reported speed, or the fallback city speed. */
+export function estimateEtaMinutes(distanceKm: number, speedMps?: number | null) {
+  const speedKmh = speedMps != null && speedMps > 1 ? speedMps * 3.6 : FALLBACK_SPEED_KMH;
+  return Math.max(1, Math.ceil(((distanceKm * ROUTE_FACTOR) / speedKmh) * 60));
+}
+
+/**
+ * Adds a poll result to a breadcrumb trail. Repeated timestamps are ignored and jitter
+ * below `minMeters` only refreshes the last point so a parked driver does not grow the trail.
+ */
+export function appendTrackPoint(
+  trail: TrackPoint[],
+  point: TrackPoint,
+  { maxPoints = 60, minMeters = 15 }: { maxPoints?: number; minMeters?: number } = {}
+): TrackPoint[] {
+  const last = trail[trail.length - 1];
+  if (last && last.at === point.at) return trail;
+  if (last && haversineKm(last, point) * 1000 < minMeters) {
+    return [...trail.slice(0, -1), { ...last, at: point.at, speed: point.speed, heading: point.heading }];
+  }
+  const next = [...trail, point];
+  return next.length > maxPoints ? next.slice(next.length - maxPoints) : next;
+}
@@ -0,0 +1,114 @@
+import type { Product } from "../services/products.service";
+import type { CycleCountLine, StockAdjustmentReason } from "../types/inventory";
+
+/**
+ * Stock adjustment and cycle-count arithmetic. Receive/return add units, damage removes them and a
+ * count correction sets the counted quantity; the ledger always records the signed difference.
+ */
+
+export const ADJUSTMENT_REASONS: StockAdjustmentReason[] = ["RECEIVE", "DAMAGE", "COUNT_CORRECTION", "RETURN"];
+
+export type AdjustmentIssue = "invalid_quantity" | "negative_stock" | "no_change";
+
+/** A countable stock line: the product itself, or one variant when stock lives on variants. */
+export type CountLine = {
+  key: string;
+  productId: string;
+  variantId?: string;
+  name: string;
+  nameAr?: string;
+  variantLabel?: string;
+  sku?: string | null;
+  expectedStock: number;
+};
+
+export type CountSummary = {
+  lines: CycleCountLine[];
+  counted: number;
+  invalid: string[];
+  unitsOver: number;
+  unitsShort: number;
+};
+
+/** Non-negative whole number; Arabic-Indic digits allowed. Null for anything else. */
+export function parseQuantity(value: string) {
+  const normalized = value
+    .replace(/[\u0660-\u0669]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[\u06f0-\u06f9]/g, (d) => String(d.charCodeAt(0) - 0x06f0))
+    .trim();
+  return /^\d+$/.test(normalized) ? Number(normalized) : null;
+}
+
+/** Signed change for an adjustment; for COUNT_CORRECTION `quantity` is the counted stock. */
+export function adjustmentDelta(reason: StockAdjustmentReason, quantity: number, currentStock: number) {
+  if (reason === "COUNT_CORRECTION") return quantity - currentStock;
+  return reason === "DAMAGE" ? -quantity : quantity;
+}
+
+export function validateAdjustment(reason: StockAdjustmentReason, quantityText: string, currentStock: number): AdjustmentIssue | null {
+  const quantity = parseQuantity(quantityText);
+  if (quantity === null || (reason !== "COUNT_CORRECTION" && quantity === 0)) return "invalid_quantity";
+  const delta = adjustmentDelta(reason, quantity, currentStock);
+  if (delta === 0) return "no_change";
+  return currentStock + delta < 0 ? "negative_stock" : null;
+}
+
+export function variantLabel(options?: Record<string, string> | null) {
+  return Object.entries(options ?? {})
+    .map(([group, value]) => `${group}: ${value}`)
+    .join(" · ");
+}
+
+export function countLines(products: Product[]): CountLine[] {
+  return products.flatMap((product) => {
+    const variants = (product.variants ?? []).filter((variant) => variant.id);
+    if (!variants.length) {
+      return [
+        {
+          key: product.id,
+          productId: product.id,
+          name: product.name,
+          nameAr: product.nameAr,
+          sku: product.sku,
+          expectedStock: product.stock,
+        },
+      ];
+    }
+    return variants.map((variant) => ({
+      key: `${product.id}:${variant.id}`,
+      productId: product.id,
+      variantId: variant.id,
+      name: product.name,
+      nameAr: product.nameAr,
+      variantLabel: variantLabel(variant.options),
+      sku: variant.sku ?? product.sku,
+      expectedStock: variant.stock,
+    }));
+  });
+}
+
+/** Lines with a counted quantity that differs from the expected stock; blank counts are skipped. */
+export function countVariances(lines: CountLine[], counts: Record<string, string>): CountSummary {
+  const summary: CountSummary = { lines: [], counted: 0, invalid: [], unitsOver: 0, unitsShort: 0 };
+  lines.forEach((line) => {
+    const text = counts[line.key]?.trim();
+    if (!text) return;
+    const counted = parseQuantity(text);
+    if (counted === null) {
+      summary.invalid.push(line.key);
+      return;
+    }
+    summary.counted += 1;
+    const variance = counted - line.expectedStock;
+    if (!variance) return;
+    if (variance > 0) summary.unitsOver += variance;
+    else summary.unitsShort -= variance;
+    summary.lines.push({
+      productId: line.productId,
+      variantId: line.variantId ?? null,
+      expectedStock: line.expectedStock,
+      countedStock: counted,
+    });
+  });
+  return summary;
+}
@@ -0,0 +1,77 @@
+import { creditedCents, invoiceBreakdown, lineTax, type InvoiceBreakdown } from "./invoice-document";
+import type { Invoice } from "../types/invoice";
+
+/**
+ * What finance may change on an issued invoice. Unpaid invoices take adjustment lines or are voided;
+ * once paid they stay as they are and money goes back through credit notes instead.
+ */
+
+export type InvoiceAction = "adjust" | "credit" | "void";
+
+export type InvoiceActionError =
+  | "not_allowed"
+  | "amount_required"
+  | "description_required"
+  | "below_paid"
+  | "exceeds_creditable"
+  | "reason_required";
+
+/** Paid amount not yet returned through credit notes. */
+export const creditableCents = (invoice: Invoice) => Math.max(0, invoice.amountPaidCents - creditedCents(invoice));
+
+export function invoiceActions(invoice: Invoice): InvoiceAction[] {
+  if (invoice.status === "DRAFT" || invoice.status === "OPEN") {
+    // A part-paid invoice cannot be voided; the payment would be lost with it
+    return invoice.amountPaidCents > 0 ? ["adjust"] : ["adjust", "void"];
+  }
+  if (invoice.status === "PAID" && creditableCents(invoice) > 0) return ["credit"];
+  return [];
+}
+
+export type AdjustmentPreview = {
+  error: InvoiceActionError | null;
+  before: InvoiceBreakdown;
+  after: InvoiceBreakdown;
+};
+
+/** Totals before and after adding the line, so the change can be checked before it is saved. */
+export function previewAdjustment(
+  invoice: Invoice,
+  draft: { amountCents: number; description: string; taxRateBps?: number | null }
+): AdjustmentPreview {
+  const before = invoiceBreakdown(invoice);
+  const line = {
+    id: "draft",
+    invoiceId: invoice.id,
+    type: "ADJUSTMENT" as const,
+    description: draft.description,
+    amountCents: draft.amountCents,
+    taxRateBps: draft.taxRateBps || null,
+  };
+  // The server bills what it billed before plus the new line and its tax
+  const after = invoiceBreakdown({
+    ...invoice,
+    amountDueCents: invoice.amountDueCents + line.amountCents + lineTax(line),
+    items: [...(invoice.items ?? []), line],
+  });
+  let error: InvoiceActionError | null = null;
+  if (!invoiceActions(invoice).includes("adjust")) error = "not_allowed";
+  else if (!Number.isFinite(draft.amountCents) || draft.amountCents === 0) error = "amount_required";
+  else if (!draft.description.trim()) error = "description_required";
+  else if (after.totalCents < invoice.amountPaidCents) error = "below_paid";
+  return { error, before, after };
+}
+
+export function checkCreditNote(invoice: Invoice, draft: { amountCents: number; reason: string }): InvoiceActionError | null {
+  if (!invoiceActions(invoice).includes("credit")) return "not_allowed";
+  if (!Number.isFinite(draft.amountCents) || draft.amountCents <= 0) return "amount_required";
+  if (draft.amountCents > creditableCents(invoice)) return "exceeds_creditable";
+  if (!draft.reason.trim()) return "reason_required";
+  return null;
+}
+
+export function checkVoid(invoice: Invoice, reason: string): InvoiceActionError | null {
+  if (!invoiceActions(invoice).includes("void")) return "not_allowed";
+  if (!reason.trim()) return "reason_required";
+  return null;
+}
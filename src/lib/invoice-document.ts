@@ -0,0 +1,268 @@
+import { escapeHtml, type ReceiptBranding } from "./receipt-print";
+import type { Invoice, InvoiceItem, InvoiceItemType, InvoiceStatus } from "../types/invoice";
+
+/**
+ * Printable provider invoice. Lines are grouped by type and the tax summary is built from each line's
+ * VAT rate; labels can be given in a second language so the same page reads in English and Arabic.
+ * The total is always the server's billed amount; when the lines add up to something else the page
+ * says so instead of printing a figure nobody billed.
+ *
+ * Amounts keep the ledger's sign: lines are positive when the provider owes them, discounts are
+ * negative, and credit notes (stored positive) are printed as negative amounts.
+ */
+
+export const INVOICE_SECTIONS: InvoiceItemType[] = ["SUBSCRIPTION", "COMMISSION", "ADJUSTMENT"];
+
+export type InvoiceLabels = {
+  invoice: string;
+  number: string;
+  status: string;
+  issuedAt: string;
+  dueAt: string;
+  paidAt: string;
+  period: string;
+  billedTo: string;
+  plan: string;
+  description: string;
+  taxRate: string;
+  amount: string;
+  subtotal: string;
+  /** Receives the formatted rate, e.g. "14%" */
+  tax: (rate: string) => string;
+  untaxed: string;
+  total: string;
+  amountPaid: string;
+  balanceDue: string;
+  credited: string;
+  creditNote: string;
+  voidNote: string;
+  noItems: string;
+  /** Receives the formatted sum of the lines, shown when it differs from the billed total */
+  linesDiffer: (lineTotal: string) => string;
+  sections: Record<InvoiceItemType, string>;
+  statuses: Record<InvoiceStatus, string>;
+};
+
+export type InvoiceDocumentOptions = {
+  lang: string;
+  dir: "ltr" | "rtl";
+  labels: InvoiceLabels;
+  /** Printed under each label in smaller type */
+  secondaryLabels?: InvoiceLabels;
+  /** The platform issuing the invoice */
+  issuer?: ReceiptBranding;
+  /** Fallback for invoices loaded without their provider */
+  billedTo?: { name?: string | null; phone?: string | null };
+  formatMoney: (cents: number, currency: string) => string;
+  formatDate: (iso: string) => string;
+};
+
+export type InvoiceTaxLine = { rateBps: number; baseCents: number; taxCents: number };
+
+export type InvoiceSection = { type: InvoiceItemType; items: InvoiceItem[]; amountCents: number };
+
+export type InvoiceBreakdown = {
+  sections: InvoiceSection[];
+  subtotalCents: number;
+  /** One line per VAT rate, highest first; untaxed lines are left out */
+  taxes: InvoiceTaxLine[];
+  taxCents: number;
+  /** Subtotal plus tax as the lines add up; the billed amount when there are no lines */
+  lineTotalCents: number;
+  /** The server's billed amount */
+  totalCents: number;
+  /** Lines minus the billed amount; 0 when they agree or the lines are not loaded */
+  differenceCents: number;
+  amountPaidCents: number;
+  /** Refunded through credit notes; does not change the balance */
+  creditedCents: number;
+  balanceCents: number;
+};
+
+/** Tax on one line: what the server charged, else the line's rate applied to its amount. */
+export function lineTax(item: Pick<InvoiceItem, "amountCents" | "taxRateBps" | "taxCents">) {
+  if (item.taxCents != null) return item.taxCents;
+  return item.taxRateBps ? Math.round((item.amountCents * item.taxRateBps) / 10_000) : 0;
+}
+
+export const creditedCents = (invoice: Pick<Invoice, "creditNotes">) =>
+  (invoice.creditNotes ?? []).reduce((sum, note) => sum + note.amountCents, 0);
+
+export function invoiceBreakdown(invoice: Invoice): InvoiceBreakdown {
+  const items = invoice.items ?? [];
+  const sections = INVOICE_SECTIONS.map((type) => {
+    const sectionItems = items.filter((item) => item.type === type);
+    return { type, items: sectionItems, amountCents: sectionItems.reduce((sum, item) => sum + item.amountCents, 0) };
+  }).filter((section) => section.items.length);
+
+  const byRate = new Map<number, InvoiceTaxLine>();
+  items.forEach((item) => {
+    const rateBps = item.taxRateBps ?? 0;
+    const taxCents = lineTax(item);
+    if (!rateBps && !taxCents) return;
+    const line = byRate.get(rateBps) ?? { rateBps, baseCents: 0, taxCents: 0 };
+    line.baseCents += item.amountCents;
+    line.taxCents += taxCents;
+    byRate.set(rateBps, line);
+  });
+  const taxes = [...byRate.values()].sort((a, b) => b.rateBps - a.rateBps);
+
+  const subtotalCents = sections.reduce((sum, section) => sum + section.amountCents, 0);
+  const taxCents = taxes.reduce((sum, line) => sum + line.taxCents, 0);
+  // List payloads come without items; the billed amount is all there is then
+  const lineTotalCents = items.length ? subtotalCents + taxCents : invoice.amountDueCents;
+  const totalCents = invoice.amountDueCents;
+  const amountPaidCents = invoice.amountPaidCents;
+  return {
+    sections,
+    subtotalCents,
+    taxes,
+    taxCents,
+    lineTotalCents,
+    totalCents,
+    differenceCents: lineTotalCents - totalCents,
+    amountPaidCents,
+    creditedCents: creditedCents(invoice),
+    balanceCents: invoice.status === "VOID" ? 0 : Math.max(0, totalCents - amountPaidCents),
+  };
+}
+
+export const formatTaxRate = (rateBps: number) => `${Number((rateBps / 100).toFixed(2))}%`;
+
+function renderInvoice(invoice: Invoice, options: InvoiceDocumentOptions) {
+  const { labels, secondaryLabels: alt, issuer, formatDate } = options;
+  const currency = invoice.currency || "EGP";
+  const money = (cents: number) => escapeHtml(options.formatMoney(cents, currency));
+  const date = (iso?: string | null) => (iso ? escapeHtml(formatDate(iso)) : "-");
+  const label = (pick: (set: InvoiceLabels) => string) => {
+    const primary = pick(labels);
+    const secondary = alt ? pick(alt) : "";
+    return `${escapeHtml(primary)}${secondary && secondary !== primary ? `<span class="alt">${escapeHtml(secondary)}</span>` : ""}`;
+  };
+  const breakdown = invoiceBreakdown(invoice);
+  const billedTo = invoice.provider?.name || options.billedTo?.name || invoice.providerId;
+  const contact = [issuer?.storePhone, issuer?.storeAddress].filter(Boolean).map(escapeHtml).join(" · ");
+  const meta = (pick: (set: InvoiceLabels) => string, value: string) =>
+    `<div><div class="muted">${label(pick)}</div><div class="strong">${value}</div></div>`;
+
+  const sections = breakdown.sections
+    .map(
+      (section) =>
+        `<tbody><tr class="section"><td colspan="3">${label((set) => set.sections[section.type])}</td></tr>` +
+        section.items
+          .map(
+            (item) =>
+              `<tr><td>${escapeHtml(item.description || labels.sections[item.type])}</td>` +
+              `<td class="num">${item.taxRateBps ? escapeHtml(formatTaxRate(item.taxRateBps)) : "-"}</td>` +
+              `<td class="num">${money(item.amountCents)}</td></tr>`
+          )
+          .join("") +
+        `</tbody>`
+    )
+    .join("");
+
+  const totalRow = (pick: (set: InvoiceLabels) => string, value: string, className = "") =>
+    `<tr class="${className}"><td>${label(pick)}</td><td class="num">${value}</td></tr>`;
+  const taxRows = breakdown.taxes.length
+    ? breakdown.taxes
+        .map((line) =>
+          totalRow((set) => set.tax(formatTaxRate(line.rateBps)), `${money(line.taxCents)}<div class="muted small">${money(line.baseCents)}</div>`)
+        )
+        .join("")
+    : totalRow((set) => set.untaxed, money(0));
+
+  const creditNotes = invoice.creditNotes?.length
+    ? `<table class="credits"><thead><tr><th>${label((set) => set.creditNote)}</th><th>${label((set) => set.description)}</th><th class="num">${label((set) => set.amount)}</th></tr></thead><tbody>` +
+      invoice.creditNotes
+        .map(
+          (note) =>
+            `<tr><td>${escapeHtml(note.number)}<div class="muted small">${date(note.createdAt)}</div></td>` +
+            `<td>${escapeHtml(note.reason)}</td><td class="num">${money(-note.amountCents)}</td></tr>`
+        )
+        .join("") +
+      `</tbody></table>`
+    : "";
+
+  return `<section class="doc">
+    <header class="head">
+      <div>
+        ${issuer?.storeName ? `<div class="store">${escapeHtml(issuer.storeName)}</div>` : ""}
+        ${contact ? `<div class="muted">${contact}</div>` : ""}
+      </div>
+      <div class="title">
+        <h1>${label((set) => set.invoice)}</h1>
+        <div class="strong">#${escapeHtml(invoice.number)}</div>
+        <div class="stamp ${invoice.status.toLowerCase()}">${label((set) => set.statuses[invoice.status])}</div>
+      </div>
+    </header>
+    <div class="grid">
+      ${meta((set) => set.billedTo, escapeHtml(billedTo))}
+      ${meta((set) => set.plan, escapeHtml(invoice.subscription?.plan?.name || "-"))}
+      ${meta((set) => set.period, invoice.periodStart && invoice.periodEnd ? `${date(invoice.periodStart)} – ${date(invoice.periodEnd)}` : "-")}
+      ${meta((set) => set.issuedAt, date(invoice.createdAt))}
+      ${meta((set) => set.dueAt, date(invoice.dueAt))}
+      ${meta((set) => set.paidAt, date(invoice.paidAt))}
+    </div>
+    <table class="lines">
+      <thead><tr><th>${label((set) => set.description)}</th><th class="num">${label((set) => set.taxRate)}</th><th class="num">${label((set) => set.amount)}</th></tr></thead>
+      ${sections || `<tbody><tr><td colspan="3" class="muted">${label((set) => set.noItems)}</td></tr></tbody>`}
+    </table>
+    <table class="totals">
+      ${totalRow((set) => set.subtotal, money(breakdown.subtotalCents))}
+      ${taxRows}
+      ${totalRow((set) => set.total, money(breakdown.totalCents), "strong")}
+      ${totalRow((set) => set.amountPaid, money(breakdown.amountPaidCents))}
+      ${breakdown.creditedCents ? totalRow((set) => set.credited, money(-breakdown.creditedCents)) : ""}
+      ${totalRow((set) => set.balanceDue, money(breakdown.balanceCents), "strong due")}
+    </table>
+    ${breakdown.differenceCents ? `<p class="warning">${label((set) => set.linesDiffer(options.formatMoney(breakdown.lineTotalCents, currency)))}</p>` : ""}
+    ${creditNotes}
+    ${invoice.status === "VOID" && invoice.voidReason ? `<p class="note"><span class="strong">${label((set) => set.voidNote)}</span> ${escapeHtml(invoice.voidReason)}</p>` : ""}
+    ${issuer?.footer?.trim() ? `<footer class="note">${escapeHtml(issuer.footer.trim()).replace(/\r?\n/g, "<br/>")}</footer>` : ""}
+  </section>`;
+}
+
+/** Full A4 HTML document with one invoice per page, ready for an iframe or print window. */
+export function buildInvoiceDocument(invoices: Invoice[], options: InvoiceDocumentOptions) {
+  const title = invoices.length === 1 ? `${options.labels.invoice} ${invoices[0].number}` : options.labels.invoice;
+  return `<!doctype html>
+<html lang="${escapeHtml(options.lang)}" dir="${options.dir}">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; color: #000; font-family: Tahoma, "Segoe UI", Arial, sans-serif; font-size: 12px; line-height: 1.4; }
+  .doc { break-after: page; page-break-after: always; }
+  .doc:last-child { break-after: auto; page-break-after: auto; }
+  .muted { color: #444; }
+  .small { font-size: 0.85em; }
+  .strong { font-weight: 700; }
+  .alt { display: block; font-size: 0.8em; font-weight: 400; color: #555; }
+  .store { font-size: 1.3em; font-weight: 700; }
+  .head { display: flex; justify-content: space-between; align-items: flex-start; gap: 16px; }
+  .title { text-align: end; }
+  .title h1 { font-size: 1.8em; margin: 0 0 4px; }
+  .stamp { display: inline-block; margin-top: 6px; padding: 2px 10px; border: 2px solid #000; border-radius: 4px; font-weight: 700; text-transform: uppercase; }
+  .stamp.paid { border-color: #15803d; color: #15803d; }
+  .stamp.void { border-color: #b91c1c; color: #b91c1c; }
+  .grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px 16px; margin: 18px 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #999; padding: 6px 4px; text-align: start; vertical-align: top; }
+  th { border-bottom: 2px solid #000; }
+  .section td { font-weight: 700; background: #f3f3f3; }
+  .num { text-align: end; white-space: nowrap; }
+  .totals { width: 55%; margin-inline-start: auto; margin-top: 12px; }
+  .totals td { border-bottom: 1px solid #ddd; }
+  .totals .due td { border-top: 2px solid #000; border-bottom: 0; font-size: 1.2em; }
+  .credits { margin-top: 18px; }
+  .note { margin-top: 24px; }
+  .warning { width: 55%; margin-top: 8px; margin-inline-start: auto; padding: 6px 8px; border: 2px solid #b91c1c; color: #b91c1c; font-weight: 700; }
+</style>
+</head>
+<body>
+${invoices.map((invoice) => renderInvoice(invoice, options)).join("\n")}
+</body>
+</html>`;
+}
@@ -0,0 +1,224 @@
+import type { LedgerEntryItem } from "../services/admin-finance.service";
+import type { Invoice, ProviderLedgerEntry } from "../types/invoice";
+import type { Order } from "../types/order";
+import type { ProviderSubscription } from "../types/subscription";
+
+/**
+ * Ties delivered orders to the billing side: each order should have exactly one COMMISSION ledger entry
+ * (on the invoice for the period it was delivered in) worth the commission rate in effect on its delivery
+ * date, and exactly one ORDER_SETTLEMENT entry in the finance ledger unless it is still waiting in the
+ * unsettled queue. Orders delivered after the last invoiced period are only awaiting their invoice. Invoices are checked separately: their COMMISSION lines
+ * must add up to the commission entries attached to them. Voided invoices are left out; their reissue counts.
+ *
+ * Amounts keep their sign: commission entries and lines are positive when the provider owes them, so a
+ * reversal (negative) never passes for the charge it cancels.
+ */
+
+export type ReconcileOrderIssue =
+  | "missing_commission"
+  | "duplicate_commission"
+  | "commission_mismatch"
+  | "missing_settlement"
+  | "duplicate_settlement";
+
+export const RECONCILE_ORDER_ISSUES: ReconcileOrderIssue[] = [
+  "missing_commission",
+  "duplicate_commission",
+  "commission_mismatch",
+  "missing_settlement",
+  "duplicate_settlement",
+];
+
+// Commission is rounded per order on the server; allow that cent either way
+export const COMMISSION_TOLERANCE_CENTS = 1;
+
+export type ReconcilableOrder = Pick<Order, "id" | "code" | "totalCents" | "createdAt" | "deliveredAt" | "status">;
+
+/** Commission is taken on delivery; older payloads without the timestamp fall back to the order date. */
+export const commissionDate = (order: ReconcilableOrder) => order.deliveredAt ?? order.createdAt;
+
+export type OrderReconciliation<O extends ReconcilableOrder = ReconcilableOrder> = {
+  order: O;
+  /** Commission rate on the delivery date; null when no subscription covers it */
+  rateBps: number | null;
+  /** Null when the rate is unknown */
+  expectedCents: number | null;
+  commissionCents: number;
+  entries: ProviderLedgerEntry[];
+  invoiceNumbers: string[];
+  settlements: number;
+  /** Listed in the unsettled queue, so a missing settlement is expected */
+  pendingSettlement: boolean;
+  /** Delivered after the last invoiced period, so a missing commission entry is expected */
+  awaitingInvoice: boolean;
+  issues: ReconcileOrderIssue[];
+};
+
+export type InvoiceCheck = {
+  invoice: Invoice;
+  lineCents: number;
+  entryCents: number;
+  differenceCents: number;
+};
+
+export type LedgerReconciliation<O extends ReconcilableOrder = ReconcilableOrder> = {
+  rows: OrderReconciliation<O>[];
+  mismatches: OrderReconciliation<O>[];
+  /** Invoices whose COMMISSION lines do not add up to their commission entries */
+  invoices: InvoiceCheck[];
+  /** Commission entries on these invoices, dated in the range, for orders outside the delivered list */
+  orphans: ProviderLedgerEntry[];
+  totals: {
+    expectedCents: number;
+    commissionCents: number;
+    awaitingInvoice: number;
+    issues: Partial<Record<ReconcileOrderIssue, number>>;
+  };
+};
+
+export const expectedCommission = (totalCents: number, rateBps: number) => Math.round((totalCents * rateBps) / 10_000);
+
+function groupBy<T>(items: T[], key: (item: T) => string | null | undefined) {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const id = key(item);
+    if (id) groups.set(id, [...(groups.get(id) ?? []), item]);
+  });
+  return groups;
+}
+
+const time = (value?: string | null) => (value ? Date.parse(value) : NaN);
+
+export function reconcileLedger<O extends ReconcilableOrder>({
+  orders,
+  invoices,
+  settlements,
+  unsettledOrderIds = new Set(),
+  rateAt,
+  range = {},
+}: {
+  orders: O[];
+  /** Invoice details, with `items` and `ledgerEntries` loaded */
+  invoices: Invoice[];
+  settlements: LedgerEntryItem[];
+  unsettledOrderIds?: Set<string>;
+  /** Commission rate in effect at a date, see `commissionRateAt` */
+  rateAt: (date: string) => number | null;
+  /** Dates the orders were loaded for; commission entries outside it are not orphans */
+  range?: { from?: string; to?: string };
+}): LedgerReconciliation<O> {
+  const invoiceNumbers = new Map(invoices.map((invoice) => [invoice.id, invoice.number]));
+  // A voided invoice no longer bills anything; its reissue carries the entries and lines that count
+  const live = invoices.filter((invoice) => invoice.status !== "VOID");
+  // The same entry can come back on more than one invoice payload; count it once
+  const entries = [
+    ...new Map(
+      live
+        .flatMap((invoice) => invoice.ledgerEntries ?? [])
+        .filter((entry) => entry.type === "COMMISSION")
+        .map((entry) => [entry.id, entry])
+    ).values(),
+  ];
+  const entriesByOrder = groupBy(entries, (entry) => entry.orderId);
+  const settlementsByOrder = groupBy(
+    settlements.filter((entry) => entry.type === "ORDER_SETTLEMENT"),
+    (entry) => entry.orderId
+  );
+  const invoicedThrough = Math.max(-Infinity, ...live.map((invoice) => time(invoice.periodEnd)).filter(Number.isFinite));
+
+  const rows = orders.map((order): OrderReconciliation<O> => {
+    const orderEntries = entriesByOrder.get(order.id) ?? [];
+    const settled = settlementsByOrder.get(order.id)?.length ?? 0;
+    const pendingSettlement = unsettledOrderIds.has(order.id);
+    const billedAt = commissionDate(order);
+    const awaitingInvoice = !orderEntries.length && !(time(billedAt) < invoicedThrough);
+    const rateBps = rateAt(billedAt);
+    const expectedCents = rateBps == null ? null : expectedCommission(order.totalCents, rateBps);
+    const issues: ReconcileOrderIssue[] = [];
+    if (!orderEntries.length && !awaitingInvoice) issues.push("missing_commission");
+    if (orderEntries.length > 1) issues.push("duplicate_commission");
+    if (
+      expectedCents !== null &&
+      orderEntries.some((entry) => Math.abs(entry.amountCents - expectedCents) > COMMISSION_TOLERANCE_CENTS)
+    ) {
+      issues.push("commission_mismatch");
+    }
+    if (!settled && !pendingSettlement) issues.push("missing_settlement");
+    if (settled > 1) issues.push("duplicate_settlement");
+    return {
+      order,
+      rateBps,
+      expectedCents,
+      commissionCents: orderEntries.reduce((sum, entry) => sum + entry.amountCents, 0),
+      entries: orderEntries,
+      invoiceNumbers: [...new Set(orderEntries.map((entry) => (entry.invoiceId && invoiceNumbers.get(entry.invoiceId)) || ""))].filter(Boolean),
+      settlements: settled,
+      pendingSettlement,
+      awaitingInvoice,
+      issues,
+    };
+  });
+
+  const checks = live
+    .map((invoice): InvoiceCheck => {
+      const lineCents = (invoice.items ?? [])
+        .filter((item) => item.type === "COMMISSION")
+        .reduce((sum, item) => sum + item.amountCents, 0);
+      const entryCents = entries
+        .filter((entry) => entry.invoiceId === invoice.id)
+        .reduce((sum, entry) => sum + entry.amountCents, 0);
+      return { invoice, lineCents, entryCents, differenceCents: lineCents - entryCents };
+    })
+    .filter((check) => check.differenceCents !== 0);
+
+  const orderIds = new Set(orders.map((order) => order.id));
+  // Invoices reach back before the range; their entries for earlier orders are not orphans
+  const inRange = (entry: ProviderLedgerEntry) =>
+    !entry.createdAt ||
+    (!(time(entry.createdAt) < time(range.from)) && !(time(entry.createdAt) > time(range.to)));
+  const mismatches = rows.filter((row) => row.issues.length);
+  const issues: Partial<Record<ReconcileOrderIssue, number>> = {};
+  mismatches.forEach((row) => row.issues.forEach((issue) => (issues[issue] = (issues[issue] ?? 0) + 1)));
+
+  return {
+    rows,
+    mismatches,
+    invoices: checks,
+    orphans: entries.filter((entry) => entry.orderId && !orderIds.has(entry.orderId) && inRange(entry)),
+    totals: {
+      expectedCents: rows.reduce((sum, row) => sum + (row.expectedCents ?? 0), 0),
+      commissionCents: rows.reduce((sum, row) => sum + row.commissionCents, 0),
+      awaitingInvoice: rows.filter((row) => row.awaitingInvoice).length,
+      issues,
+    },
+  };
+}
+
+/** Commission rate in effect for a provider: the subscription override, else the plan's rate. */
+export function providerCommissionBps(
+  subscription?: { commissionRateBpsOverride?: number | null; plan?: { commissionRateBps?: number | null } | null } | null
+) {
+  return subscription?.commissionRateBpsOverride ?? subscription?.plan?.commissionRateBps ?? null;
+}
+
+type CommissionSubscription = Pick<
+  ProviderSubscription,
+  "status" | "createdAt" | "canceledAt" | "currentPeriodEnd" | "commissionRateBpsOverride"
+> & { plan?: { commissionRateBps?: number | null } | null };
+
+const ENDED = ["CANCELED", "EXPIRED"];
+
+/**
+ * Rate in effect at `date`: the latest subscription started by then that had not ended, else null.
+ * A plan change inside one subscription is not kept in its history, so it counts from the start.
+ */
+export function commissionRateAt(subscriptions: CommissionSubscription[], date: string) {
+  const at = time(date);
+  const current = subscriptions
+    .filter((subscription) => {
+      const endsAt = time(subscription.canceledAt ?? (ENDED.includes(subscription.status) ? subscription.currentPeriodEnd : null));
+      return !(time(subscription.createdAt) > at) && !(endsAt <= at);
+    })
+    .sort((a, b) => (time(b.createdAt) || 0) - (time(a.createdAt) || 0))[0];
+  return current ? providerCommissionBps(current) : null;
+}
@@ -0,0 +1,217 @@
+/**
+ * URL-backed list state (filters, sort, page) and locally saved views for list screens.
+ * A schema maps each state key to a codec; defaults are omitted from the URL so links stay short.
+ */
+
+export type ParamCodec<V> = {
+  defaultValue: V;
+  parse: (raw: string) => V | undefined;
+  format: (value: V) => string | undefined;
+};
+
+export type ListStateSchema<T> = { [K in keyof T]: ParamCodec<T[K]> };
+
+export const listParam = {
+  string(defaultValue = ""): ParamCodec<string> {
+    return { defaultValue, parse: (raw) => raw, format: (value) => value || undefined };
+  },
+  optionalString(): ParamCodec<string | undefined> {
+    return { defaultValue: undefined, parse: (raw) => raw || undefined, format: (value) => value || undefined };
+  },
+  number(defaultValue: number, { min = -Infinity, max = Infinity }: { min?: number; max?: number } = {}): ParamCodec<number> {
+    return {
+      defaultValue,
+      parse: (raw) => {
+        const value = Number(raw);
+        return Number.isFinite(value) && value >= min && value <= max ? value : undefined;
+      },
+      format: (value) => String(value),
+    };
+  },
+  optionalNumber(): ParamCodec<number | undefined> {
+    return {
+      defaultValue: undefined,
+      parse: (raw) => (raw !== "" && Number.isFinite(Number(raw)) ? Number(raw) : undefined),
+      format: (value) => (value == null ? undefined : String(value)),
+    };
+  },
+  boolean(defaultValue = false): ParamCodec<boolean> {
+    return {
+      defaultValue,
+      parse: (raw) => (raw === "1" || raw === "true" ? true : raw === "0" || raw === "false" ? false : undefined),
+      format: (value) => (value ? "1" : "0"),
+    };
+  },
+  optionalBoolean(): ParamCodec<boolean | undefined> {
+    return {
+      defaultValue: undefined,
+      parse: (raw) => (raw === "1" || raw === "true" ? true : raw === "0" || raw === "false" ? false : undefined),
+      format: (value) => (value == null ? undefined : value ? "1" : "0"),
+    };
+  },
+  oneOf<V extends string>(values: readonly V[], defaultValue: V): ParamCodec<V> {
+    return {
+      defaultValue,
+      parse: (raw) => (values.includes(raw as V) ? (raw as V) : undefined),
+      format: (value) => value,
+    };
+  },
+  optionalOneOf<V extends string>(values: readonly V[]): ParamCodec<V | undefined> {
+    return {
+      defaultValue: undefined,
+      parse: (raw) => (values.includes(raw as V) ? (raw as V) : undefined),
+      format: (value) => value,
+    };
+  },
+};
+
+export function defaultListState<T>(schema: ListStateSchema<T>): T {
+  const state = {} as T;
+  (Object.keys(schema) as (keyof T)[]).forEach((key) => {
+    state[key] = schema[key].defaultValue;
+  });
+  return state;
+}
+
+/** Reads the schema's keys from `params`; missing or invalid values fall back to the default. */
+export function parseListState<T>(schema: ListStateSchema<T>, params: URLSearchParams): T {
+  const state = defaultListState(schema);
+  (Object.keys(schema) as (keyof T)[]).forEach((key) => {
+    const raw = params.get(String(key));
+    if (raw == null) return;
+    const parsed = schema[key].parse(raw);
+    if (parsed !== undefined) state[key] = parsed;
+  });
+  return state;
+}
+
+/**
+ * Writes `state` into a copy of `base`, dropping keys that hold their default value.
+ * Params that are not part of the schema (deep-link ids and the like) are kept.
+ */
+export function serializeListState<T>(
+  schema: ListStateSchema<T>,
+  state: NoInfer<T>,
+  base: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  const params = new URLSearchParams(base);
+  (Object.keys(schema) as (keyof T)[]).forEach((key) => {
+    const codec = schema[key];
+    const formatted = codec.format(state[key]);
+    if (!formatted || formatted === codec.format(codec.defaultValue)) {
+      params.delete(String(key));
+    } else {
+      params.set(String(key), formatted);
+    }
+  });
+  return params;
+}
+
+/** Just the schema's params, in schema order; used as the stored form of a saved view. */
+export function listStateQuery<T>(schema: ListStateSchema<T>, state: NoInfer<T>) {
+  return serializeListState(schema, state).toString();
+}
+
+export function hasListParams<T>(schema: ListStateSchema<T>, params: URLSearchParams) {
+  return Object.keys(schema).some((key) => params.has(key));
+}
+
+export type ListScreen = "orders" | "products" | "customers" | "finance";
+
+export type SavedView = {
+  id: string;
+  screen: ListScreen;
+  name: string;
+  /** Query string produced by `listStateQuery` */
+  query: string;
+  createdAt: string;
+};
+
+export type SavedViewsExport = {
+  version: 1;
+  exportedAt: string;
+  views: SavedView[];
+};
+
+/** Role name -> screen -> view applied when the screen opens without list params. */
+export type RoleDefaultViews = Partial<Record<string, Partial<Record<ListScreen, Pick<SavedView, "name" | "query">>>>>;
+
+const VIEWS_STORAGE_PREFIX = "fasket_saved_views:";
+const LIST_SCREENS: ListScreen[] = ["orders", "products", "customers", "finance"];
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function isSavedView(value: unknown): value is SavedView {
+  const view = value as SavedView;
+  return (
+    Boolean(view) &&
+    typeof view.id === "string" &&
+    typeof view.name === "string" &&
+    view.name.trim().length > 0 &&
+    typeof view.query === "string" &&
+    LIST_SCREENS.includes(view.screen)
+  );
+}
+
+export function loadSavedViews(userId: string): SavedView[] {
+  const stored = readJson<unknown>(`${VIEWS_STORAGE_PREFIX}${userId}`, []);
+  return Array.isArray(stored) ? stored.filter(isSavedView) : [];
+}
+
+export function storeSavedViews(userId: string, views: SavedView[]) {
+  localStorage.setItem(`${VIEWS_STORAGE_PREFIX}${userId}`, JSON.stringify(views));
+}
+
+/** Adds a view, replacing one with the same name on the same screen. */
+export function upsertSavedView(views: SavedView[], view: SavedView): SavedView[] {
+  const sameName = (other: SavedView) =>
+    other.screen === view.screen && other.name.trim().toLowerCase() === view.name.trim().toLowerCase();
+  const existing = views.find(sameName);
+  if (existing) return views.map((other) => (other === existing ? { ...view, id: existing.id } : other));
+  return [...views, view];
+}
+
+export function exportSavedViews(views: SavedView[], now = new Date()): SavedViewsExport {
+  return { version: 1, exportedAt: now.toISOString(), views };
+}
+
+/** Validates an exported file; throws when it is not a saved views export. Invalid entries are dropped. */
+export function parseSavedViewsExport(text: string): SavedView[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a valid JSON file");
+  }
+  const payload = data as Partial<SavedViewsExport>;
+  if (!payload || payload.version !== 1 || !Array.isArray(payload.views)) {
+    throw new Error("Not a saved views export");
+  }
+  return payload.views.filter(isSavedView);
+}
+
+export function mergeSavedViews(existing: SavedView[], imported: SavedView[]) {
+  return imported.reduce((views, view) => upsertSavedView(views, view), existing);
+}
+
+export function setRoleDefault(
+  defaults: RoleDefaultViews,
+  role: string,
+  screen: ListScreen,
+  view: Pick<SavedView, "name" | "query"> | null
+): RoleDefaultViews {
+  const forRole = { ...(defaults[role] ?? {}) };
+  if (view) forRole[screen] = { name: view.name, query: view.query };
+  else delete forRole[screen];
+  return { ...defaults, [role]: forRole };
+}
+
+/** Roles an admin can pin default views for. */
+export const VIEW_ROLES = ["ADMIN", "OPS_MANAGER", "FINANCE", "STAFF", "PROVIDER"] as const;
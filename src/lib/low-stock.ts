@@ -0,0 +1,127 @@
+import type { Category } from "../services/categories.service";
+import type { Product } from "../types/product";
+
+/**
+ * Low-stock thresholds and reorder suggestions. A product's own threshold wins, then the nearest
+ * category up the tree that sets one, then the store default. Suggestions top stock up to cover
+ * `coverDays` of recent sales on top of the threshold, which acts as safety stock.
+ */
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+export const DEFAULT_REORDER_COVER_DAYS = 14;
+/** Sales window the velocity is averaged over */
+export const VELOCITY_WINDOW_DAYS = 30;
+
+export type ThresholdSource = "product" | "category" | "default";
+
+export type LowStockRow = {
+  product: Product;
+  threshold: number;
+  source: ThresholdSource;
+  /** Units sold per day over the velocity window */
+  dailyVelocity: number;
+  /** Days until the shelf is empty at the current pace; null when nothing sold */
+  daysLeft: number | null;
+  suggestedQty: number;
+};
+
+type ThresholdProduct = Pick<Product, "categoryId" | "lowStockThreshold">;
+
+const isThreshold = (value: number | null | undefined): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/** Effective threshold per category id, inherited from the closest ancestor that sets one. */
+export function categoryThresholds(categories: Array<Pick<Category, "id" | "parentId" | "lowStockThreshold">>) {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const resolved = new Map<string, number>();
+  categories.forEach((category) => {
+    const seen = new Set<string>();
+    let current: (typeof categories)[number] | undefined = category;
+    while (current && !seen.has(current.id)) {
+      if (isThreshold(current.lowStockThreshold)) {
+        resolved.set(category.id, current.lowStockThreshold);
+        return;
+      }
+      seen.add(current.id);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+  });
+  return resolved;
+}
+
+export function resolveThreshold(
+  product: ThresholdProduct,
+  byCategory: Map<string, number>,
+  fallback = DEFAULT_LOW_STOCK_THRESHOLD
+): { threshold: number; source: ThresholdSource } {
+  if (isThreshold(product.lowStockThreshold)) return { threshold: product.lowStockThreshold, source: "product" };
+  const category = byCategory.get(product.categoryId);
+  if (category !== undefined) return { threshold: category, source: "category" };
+  return { threshold: fallback, source: "default" };
+}
+
+/** Units per day for each product from a top-products list covering `days` days. */
+export function dailyVelocity(topProducts: Array<{ productId: string; qty: number }>, days = VELOCITY_WINDOW_DAYS) {
+  const velocity = new Map<string, number>();
+  if (days <= 0) return velocity;
+  topProducts.forEach((item) => {
+    velocity.set(item.productId, (velocity.get(item.productId) ?? 0) + Math.max(0, item.qty) / days);
+  });
+  return velocity;
+}
+
+export function reorderQuantity({
+  stock,
+  threshold,
+  velocity,
+  coverDays = DEFAULT_REORDER_COVER_DAYS,
+}: {
+  stock: number;
+  threshold: number;
+  velocity: number;
+  coverDays?: number;
+}) {
+  return Math.max(0, Math.ceil(velocity * coverDays) + threshold - Math.max(0, stock));
+}
+
+/** Products at or below their threshold, most urgent first. Discontinued products are left out. */
+export function lowStockReport(
+  products: Product[],
+  {
+    byCategory = new Map<string, number>(),
+    defaultThreshold = DEFAULT_LOW_STOCK_THRESHOLD,
+    velocity = new Map<string, number>(),
+    coverDays = DEFAULT_REORDER_COVER_DAYS,
+  }: { byCategory?: Map<string, number>; defaultThreshold?: number; velocity?: Map<string, number>; coverDays?: number } = {}
+): LowStockRow[] {
+  const rows: LowStockRow[] = [];
+  products.forEach((product) => {
+    if (product.status === "DISCONTINUED") return;
+    const { threshold, source } = resolveThreshold(product, byCategory, defaultThreshold);
+    if (product.stock > threshold) return;
+    const perDay = velocity.get(product.id) ?? 0;
+    rows.push({
+      product,
+      threshold,
+      source,
+      dailyVelocity: perDay,
+      daysLeft: perDay > 0 ? Math.max(0, product.stock) / perDay : null,
+      suggestedQty: reorderQuantity({ stock: product.stock, threshold, velocity: perDay, coverDays }),
+    });
+  });
+  return rows.sort((a, b) => {
+    if (a.daysLeft !== null && b.daysLeft !== null && a.daysLeft !== b.daysLeft) return a.daysLeft - b.daysLeft;
+    if ((a.daysLeft === null) !== (b.daysLeft === null)) return a.daysLeft === null ? 1 : -1;
+    return a.product.stock - b.product.stock;
+  });
+}
+
+/** Rows grouped by provider id ("" for products without one), keeping the report order. */
+export function groupByProvider(rows: LowStockRow[]) {
+  const groups = new Map<string, LowStockRow[]>();
+  rows.forEach((row) => {
+    const key = row.product.providerId ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  });
+  return groups;
+}
@@ -0,0 +1,87 @@
+import type { EventSourceLike } from "./order-stream";
+import type { OrderStatus } from "../types/order";
+
+// Local stand-in for the backend order event stream. Enable with VITE_ORDER_EVENTS_MOCK=true
+// to watch the live board react without a server, or drive it manually from tests via emit().
+
+export type MockOrderEventSource = EventSourceLike & {
+  emit: (payload: Record<string, unknown>) => void;
+  fail: () => void;
+};
+
+type MockOptions = {
+  intervalMs?: number;
+  autoplay?: boolean;
+  // Simulate a server that refuses the connection, to exercise backoff and polling fallback
+  unreachable?: boolean;
+};
+
+const FLOW: OrderStatus[] = ["PENDING", "CONFIRMED", "PREPARING", "OUT_FOR_DELIVERY", "DELIVERED"];
+
+export function createMockOrderEventSource(options: MockOptions = {}): MockOrderEventSource {
+  const intervalMs = options.intervalMs ?? 8000;
+  const autoplay = options.autoplay ?? true;
+  const active = new Map<string, number>();
+  let sequence = 0;
+  let ticker: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const source: MockOrderEventSource = {
+    onopen: null,
+    onmessage: null,
+    onerror: null,
+    emit: (payload) => {
+      source.onmessage?.(new MessageEvent("message", { data: JSON.stringify(payload) }));
+    },
+    fail: () => {
+      source.onerror?.(new Event("error"));
+    },
+    close: () => {
+      closed = true;
+      if (ticker) clearInterval(ticker);
+      ticker = null;
+    },
+  };
+
+  const tick = () => {
+    const at = new Date().toISOString();
+    const advancing = Array.from(active.entries()).find(([, step]) => step < FLOW.length - 1);
+    if (advancing && sequence % 3 !== 0) {
+      const [orderId, step] = advancing;
+      active.set(orderId, step + 1);
+      if (step + 1 === FLOW.length - 1) active.delete(orderId);
+      source.emit({ type: "order.status_changed", orderId, at, from: FLOW[step], to: FLOW[step + 1], actor: "mock" });
+    } else {
+      const orderId = `mock-${Date.now()}-${sequence}`;
+      active.set(orderId, 0);
+      source.emit({
+        type: "order.created",
+        orderId,
+        at,
+        order: {
+          id: orderId,
+          code: `MOCK-${1000 + sequence}`,
+          status: "PENDING",
+          createdAt: at,
+          updatedAt: at,
+          totalCents: 5000 + Math.round(Math.random() * 20000),
+          guestName: "Mock customer",
+          guestPhone: "01000000000",
+        },
+      });
+    }
+    sequence += 1;
+  };
+
+  setTimeout(() => {
+    if (closed) return;
+    if (options.unreachable) {
+      source.fail();
+      return;
+    }
+    source.onopen?.(new Event("open"));
+    if (autoplay) ticker = setInterval(tick, intervalMs);
+  }, 0);
+
+  return source;
+}
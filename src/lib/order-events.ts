@@ -0,0 +1,218 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import type { DashboardSummary } from "../services/dashboard.service";
+import type { Order, OrderDetail, OrderEvent, OrderFilters, OrderHistoryEntry, OrderStatus, OrdersPaged } from "../types/order";
+import { applyOrderEventToSla, type SlaScan } from "./order-sla";
+
+type CacheKeys = {
+  ordersKey: readonly unknown[];
+  summaryKey: readonly unknown[];
+};
+
+export function resolveEventStatus(event: OrderEvent) {
+  return event.to ?? event.order?.status;
+}
+
+export function mergeOrderEvent<T extends Order>(order: T, event: OrderEvent): T {
+  // Event payloads are summaries; only copy fields they reliably carry so detail data is not blanked
+  const patch: Partial<Order> = {};
+  if (event.order?.driver) patch.driver = event.order.driver;
+  if (event.order?.totalCents) patch.totalCents = event.order.totalCents;
+  if (event.order?.deliveryFailedReason) {
+    patch.deliveryFailedAt = event.order.deliveryFailedAt;
+    patch.deliveryFailedReason = event.order.deliveryFailedReason;
+    patch.deliveryFailedNote = event.order.deliveryFailedNote;
+  }
+  const status = resolveEventStatus(event) ?? order.status;
+  return { ...order, ...patch, status, updatedAt: event.at };
+}
+
+// Filters we can check locally; anything else means the page must be refetched to stay correct
+function matchesKnownFilters(order: Order, filters?: OrderFilters) {
+  if (!filters) return true;
+  if (filters.customer || filters.q || filters.search || filters.from || filters.to) return null;
+  if (filters.providerId || filters.orderGroupId || filters.driverId) return null;
+  if (filters.status && filters.status !== order.status) return false;
+  if (filters.hasDriver !== undefined && Boolean(order.driver) !== filters.hasDriver) return false;
+  return true;
+}
+
+/**
+ * Returns the patched page, or undefined when the change cannot be applied locally
+ * (e.g. a new order on a filtered or non-first page) and the query should refetch instead.
+ */
+export function applyOrderEventToPage(page: OrdersPaged, event: OrderEvent, filters?: OrderFilters): OrdersPaged | undefined {
+  const index = page.items.findIndex((item) => item.id === event.orderId);
+  if (index >= 0) {
+    const merged = mergeOrderEvent(page.items[index], event);
+    const matches = matchesKnownFilters(merged, filters);
+    if (matches === false) {
+      return { ...page, items: page.items.filter((_, i) => i !== index), total: Math.max(0, page.total - 1) };
+    }
+    const items = [...page.items];
+    items[index] = merged;
+    return { ...page, items };
+  }
+
+  if (event.type !== "order.created" || !event.order) {
+    return event.type === "order.created" ? undefined : page;
+  }
+  if ((filters?.page ?? 1) > 1) return undefined;
+  const matches = matchesKnownFilters(event.order, filters);
+  if (matches === null) return undefined;
+  if (!matches) return page;
+  const limit = page.pageSize || filters?.pageSize || page.items.length + 1;
+  return { ...page, items: [event.order, ...page.items].slice(0, limit), total: page.total + 1 };
+}
+
+/**
+ * Whether the event can move an order into or out of a status- or driver-filtered list. The page can
+ * be patched for the order itself, but rows that shift in from other pages only come with a refetch.
+ */
+export function changesListMembership(event: OrderEvent, filters?: OrderFilters) {
+  // Created orders are placed (or refetched for) by applyOrderEventToPage
+  if (!filters || event.type === "order.created") return false;
+  const to = resolveEventStatus(event);
+  if (filters.status && to && event.from !== to && (to === filters.status || event.from === filters.status || !event.from)) {
+    return true;
+  }
+  return filters.hasDriver !== undefined && event.type === "order.driver_assigned";
+}
+
+export function applyOrderEventToHistory(entries: OrderHistoryEntry[], event: OrderEvent): OrderHistoryEntry[] {
+  const to = resolveEventStatus(event);
+  if (!to || entries.some((entry) => entry.id === event.id)) return entries;
+  if (event.type !== "order.status_changed" && event.type !== "order.canceled" && event.type !== "order.created") return entries;
+  return [...entries, { id: event.id, at: event.at, from: event.from, to, actor: event.actor, note: event.note }];
+}
+
+export function applyOrderEventToSummary(summary: DashboardSummary, event: OrderEvent): DashboardSummary {
+  const to = resolveEventStatus(event);
+  let byStatus = summary.byStatus || [];
+  const bump = (status: string, delta: number) => {
+    const exists = byStatus.some((row) => row.status === status);
+    byStatus = exists
+      ? byStatus.map((row) =>
+          row.status === status ? { ...row, _count: { status: Math.max(0, row._count.status + delta) } } : row
+        )
+      : delta > 0
+        ? [...byStatus, { status, _count: { status: delta } }]
+        : byStatus;
+  };
+
+  if (event.type === "order.created" && event.order) {
+    const order = event.order;
+    if (summary.recent?.some((row) => row.id === order.id)) return summary;
+    bump(order.status, 1);
+    const totalOrders = summary.sales.totalOrders + 1;
+    const totalRevenueCents = summary.sales.totalRevenueCents + (order.totalCents || 0);
+    const recentSize = Math.max(summary.recent?.length ?? 0, 5);
+    return {
+      ...summary,
+      byStatus,
+      sales: {
+        totalOrders,
+        totalRevenueCents,
+        avgOrderValueCents: Math.round(totalRevenueCents / totalOrders),
+      },
+      recent: [
+        {
+          id: order.id,
+          totalCents: order.totalCents,
+          status: order.status,
+          createdAt: order.createdAt,
+          user: { name: order.customer?.name ?? "", phone: order.customer?.phone ?? "" },
+        },
+        ...(summary.recent || []),
+      ].slice(0, recentSize),
+    };
+  }
+
+  if (!to || !event.from || event.from === to) {
+    return summary;
+  }
+  bump(event.from, -1);
+  bump(to, 1);
+  return {
+    ...summary,
+    byStatus,
+    recent: (summary.recent || []).map((row) => (row.id === event.orderId ? { ...row, status: to } : row)),
+  };
+}
+
+/**
+ * Whether a summary cached for `range` counts an order created at `createdAt`; null when the date is not
+ * known here. Summaries without a range (the header's) cover every order.
+ */
+export function summaryCoversOrder(range: unknown, createdAt?: string | null) {
+  if (!range || typeof range !== "object") return true;
+  const { from, to } = range as { from?: string; to?: string };
+  if (!from && !to) return true;
+  if (!createdAt) return null;
+  const at = Date.parse(createdAt);
+  return !(at < Date.parse(from ?? "")) && !(at > Date.parse(to ?? ""));
+}
+
+// Summary counts are moved, not set, so an event replayed after a reconnect must not be counted twice
+const COUNTED_EVENTS_MAX = 500;
+const countedEvents = new WeakMap<QueryClient, string[]>();
+
+function countOnce(queryClient: QueryClient, event: OrderEvent) {
+  const counted = countedEvents.get(queryClient) ?? [];
+  if (counted.includes(event.id)) return false;
+  countedEvents.set(queryClient, [...counted, event.id].slice(-COUNTED_EVENTS_MAX));
+  return true;
+}
+
+function isListKey(key: QueryKey, baseLength: number) {
+  const segment = key[baseLength];
+  return key.length === baseLength + 1 && typeof segment === "object" && segment !== null;
+}
+
+export function applyOrderEventToCache(queryClient: QueryClient, event: OrderEvent, keys: CacheKeys) {
+  const base = keys.ordersKey.length;
+  const stale: QueryKey[] = [];
+
+  queryClient.getQueriesData({ queryKey: keys.ordersKey }).forEach(([key, data]) => {
+    if (!data) return;
+    const kind = key[base];
+    if (isListKey(key, base)) {
+      const next = applyOrderEventToPage(data as OrdersPaged, event, kind as OrderFilters);
+      if (next) queryClient.setQueryData(key, next);
+      if (!next || changesListMembership(event, kind as OrderFilters)) stale.push(key);
+      return;
+    }
+    if (kind === "sla") {
+      const scan = data as SlaScan;
+      const entries = applyOrderEventToSla(scan.entries, event, key[base + 1] as OrderStatus[]);
+      // a filtered scan cannot tell locally whether an order that just became monitored belongs in it
+      if (key[base + 2] && entries.length > scan.entries.length) stale.push(key);
+      else queryClient.setQueryData(key, { ...scan, entries });
+      return;
+    }
+    if (key[base + 1] !== event.orderId) {
+      if (kind === "group" && (data as OrdersPaged).items?.some((item) => item.id === event.orderId)) {
+        queryClient.setQueryData(key, applyOrderEventToPage(data as OrdersPaged, event));
+      }
+      return;
+    }
+    if (kind === "detail") {
+      queryClient.setQueryData(key, mergeOrderEvent(data as OrderDetail, event));
+    } else if (kind === "history") {
+      queryClient.setQueryData(key, applyOrderEventToHistory(data as OrderHistoryEntry[], event));
+    } else if (kind === "transitions") {
+      stale.push(key);
+    }
+  });
+
+  if (countOnce(queryClient, event)) {
+    queryClient.getQueriesData<DashboardSummary>({ queryKey: keys.summaryKey }).forEach(([key, data]) => {
+      if (!data) return;
+      const createdAt = event.order?.createdAt ?? data.recent?.find((row) => row.id === event.orderId)?.createdAt;
+      const covers = summaryCoversOrder(key[keys.summaryKey.length], createdAt);
+      if (covers === null) stale.push(key);
+      else if (covers) queryClient.setQueryData(key, applyOrderEventToSummary(data, event));
+    });
+  }
+
+  stale.forEach((key) => queryClient.invalidateQueries({ queryKey: key, exact: true }));
+}
@@ -0,0 +1,147 @@
+import type { Order, OrderEvent, OrderHistoryEntry, OrderStatus } from "../types/order";
+
+export type SlaThresholds = Partial<Record<OrderStatus, number>>;
+
+export type SlaEntry = {
+  order: Order;
+  /** When the order entered its current status */
+  enteredAt: string;
+};
+
+/** One SLA scan; `truncated` is set when a status had more orders than the scan reads. */
+export type SlaScan = {
+  entries: SlaEntry[];
+  truncated: boolean;
+};
+
+export type SlaState = SlaEntry & {
+  thresholdMinutes: number;
+  ageMs: number;
+  remainingMs: number;
+  breached: boolean;
+};
+
+// Used when the ops watcher has no thresholds configured (or the caller cannot read them)
+export const DEFAULT_SLA_MINUTES = 30;
+export const SLA_STATUSES: OrderStatus[] = ["PENDING", "CONFIRMED", "PREPARING", "OUT_FOR_DELIVERY"];
+// Orders within this share of their threshold are shown as at risk
+export const SLA_AT_RISK_RATIO = 0.25;
+
+const MINUTE_MS = 60_000;
+
+export function thresholdsFromWatcher(thresholds?: Array<{ status: string; minutes: number }> | null): SlaThresholds {
+  const configured = (thresholds || []).filter((item) => item.status && Number.isFinite(item.minutes) && item.minutes > 0);
+  if (!configured.length) {
+    return Object.fromEntries(SLA_STATUSES.map((status) => [status, DEFAULT_SLA_MINUTES]));
+  }
+  return Object.fromEntries(configured.map((item) => [item.status.toUpperCase(), item.minutes]));
+}
+
+export function monitoredStatuses(thresholds: SlaThresholds): OrderStatus[] {
+  return (Object.keys(thresholds) as OrderStatus[]).filter((status) => (thresholds[status] ?? 0) > 0).sort();
+}
+
+/** Latest history entry into the current status; falls back to the order timestamps when history is unavailable. */
+export function statusEnteredAt(order: Order, history?: OrderHistoryEntry[] | null): string {
+  let enteredAt: string | undefined;
+  (history || []).forEach((entry) => {
+    if (entry.to !== order.status || !entry.at) return;
+    if (!enteredAt || toTime(entry.at) > toTime(enteredAt)) enteredAt = entry.at;
+  });
+  return enteredAt || order.updatedAt || order.createdAt;
+}
+
+function toTime(value: string) {
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+export function evaluateSla(entry: SlaEntry, thresholds: SlaThresholds, now = Date.now()): SlaState | null {
+  const thresholdMinutes = thresholds[entry.order.status];
+  if (!thresholdMinutes) return null;
+  const entered = toTime(entry.enteredAt);
+  if (!entered) return null;
+  const ageMs = Math.max(0, now - entered);
+  const remainingMs = thresholdMinutes * MINUTE_MS - ageMs;
+  return { ...entry, thresholdMinutes, ageMs, remainingMs, breached: remainingMs <= 0 };
+}
+
+/** Evaluates and sorts most urgent first (most overdue, then closest to breaching). */
+export function evaluateSlaEntries(entries: SlaEntry[], thresholds: SlaThresholds, now = Date.now()): SlaState[] {
+  return entries
+    .map((entry) => evaluateSla(entry, thresholds, now))
+    .filter((state): state is SlaState => Boolean(state))
+    .sort((a, b) => a.remainingMs - b.remainingMs);
+}
+
+export function isSlaAtRisk(state: SlaState) {
+  return !state.breached && state.remainingMs <= state.thresholdMinutes * MINUTE_MS * SLA_AT_RISK_RATIO;
+}
+
+/** Compact duration such as "45m" or "2h 05m"; the sign is left to the caller. */
+export function formatSlaDuration(ms: number) {
+  const totalMinutes = Math.max(0, Math.floor(Math.abs(ms) / MINUTE_MS));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (!hours) return `${minutes}m`;
+  return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+}
+
+// Breaches are keyed per status so an order that moves on and stalls again alerts again
+export function slaBreachKey(state: Pick<SlaState, "order">) {
+  return `${state.order.id}:${state.order.status}`;
+}
+
+/** Returns breaches not yet in `seen` and records them. */
+export function collectNewBreaches(states: SlaState[], seen: Set<string>): SlaState[] {
+  const fresh: SlaState[] = [];
+  states.forEach((state) => {
+    if (!state.breached) return;
+    const key = slaBreachKey(state);
+    if (seen.has(key)) return;
+    seen.add(key);
+    fresh.push(state);
+  });
+  return fresh;
+}
+
+/** Milliseconds until the next entry breaches, or null when nothing is pending. */
+export function nextBreachDelay(states: SlaState[]): number | null {
+  const upcoming = states.filter((state) => !state.breached).map((state) => state.remainingMs);
+  return upcoming.length ? Math.min(...upcoming) : null;
+}
+
+export function applyOrderEventToSla(entries: SlaEntry[], event: OrderEvent, statuses: OrderStatus[]): SlaEntry[] {
+  const monitored = new Set(statuses);
+  if (event.type === "order.created") {
+    const order = event.order;
+    if (!order || !monitored.has(order.status) || entries.some((entry) => entry.order.id === order.id)) return entries;
+    return [...entries, { order, enteredAt: event.at || order.createdAt }];
+  }
+
+  const index = entries.findIndex((entry) => entry.order.id === event.orderId);
+  const to = event.type === "order.canceled" ? "CANCELED" : event.type === "order.status_changed" ? event.to : undefined;
+
+  if (index === -1) {
+    // an order we were not watching moved into a monitored status
+    if (to && monitored.has(to) && event.order) {
+      return [...entries, { order: { ...event.order, status: to }, enteredAt: event.at }];
+    }
+    return entries;
+  }
+
+  const current = entries[index];
+  if (to && to !== current.order.status) {
+    if (!monitored.has(to)) return entries.filter((_, i) => i !== index);
+    const next = [...entries];
+    next[index] = { order: { ...current.order, ...(event.order || {}), status: to }, enteredAt: event.at };
+    return next;
+  }
+  if (event.type === "order.driver_assigned" || event.type === "order.updated") {
+    if (!event.order) return entries;
+    const next = [...entries];
+    next[index] = { ...current, order: { ...current.order, ...event.order, status: current.order.status } };
+    return next;
+  }
+  return entries;
+}
@@ -0,0 +1,169 @@
+export type OrderStreamStatus = "idle" | "connecting" | "open" | "fallback";
+
+export type EventSourceLike = {
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  close: () => void;
+};
+
+export type OrderStreamOptions = {
+  /** Streams report their status under this key, so an admin and a provider stream never mix */
+  key: string;
+  /** May resolve asynchronously, e.g. after exchanging the session for a stream ticket */
+  url: () => string | Promise<string>;
+  onMessage: (data: unknown) => void;
+  createSource?: (url: string) => EventSourceLike;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  // Consecutive failures before the UI is told to fall back to polling
+  fallbackAfter?: number;
+};
+
+export type OrderStreamHandle = {
+  close: () => void;
+};
+
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+const DEFAULT_FALLBACK_AFTER = 3;
+
+type Listener = (status: OrderStreamStatus) => void;
+
+const statuses = new Map<string, OrderStreamStatus>();
+const listeners = new Map<string, Set<Listener>>();
+
+function publishStatus(key: string, next: OrderStreamStatus) {
+  if ((statuses.get(key) ?? "idle") === next) return;
+  statuses.set(key, next);
+  listeners.get(key)?.forEach((listener) => {
+    try {
+      listener(next);
+    } catch (error) {
+      console.error("order stream listener error", error);
+    }
+  });
+}
+
+export function getOrderStreamStatus(key: string): OrderStreamStatus {
+  return statuses.get(key) ?? "idle";
+}
+
+export function onOrderStreamStatus(key: string, listener: Listener) {
+  const set = listeners.get(key) ?? new Set<Listener>();
+  set.add(listener);
+  listeners.set(key, set);
+  return () => {
+    set.delete(listener);
+  };
+}
+
+export function nextBackoffDelay(attempt: number, initialDelayMs = DEFAULT_INITIAL_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS) {
+  const exponential = Math.min(maxDelayMs, initialDelayMs * 2 ** Math.max(0, attempt));
+  // +/-20% jitter so a fleet of tabs does not reconnect in lockstep after a deploy
+  const jitter = exponential * 0.2 * (Math.random() * 2 - 1);
+  return Math.max(initialDelayMs, Math.round(exponential + jitter));
+}
+
+function defaultSource(url: string): EventSourceLike | null {
+  if (typeof EventSource === "undefined") return null;
+  return new EventSource(url);
+}
+
+export function openOrderStream(options: OrderStreamOptions): OrderStreamHandle {
+  const initialDelayMs = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const fallbackAfter = options.fallbackAfter ?? DEFAULT_FALLBACK_AFTER;
+  let source: EventSourceLike | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let failures = 0;
+  let closed = false;
+  let status: OrderStreamStatus = "idle";
+  // A closed stream may still have a URL request in flight; it must not report over its replacement
+  const setStatus = (next: OrderStreamStatus) => {
+    status = next;
+    if (!closed) publishStatus(options.key, next);
+  };
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    failures += 1;
+    if (failures >= fallbackAfter) {
+      setStatus("fallback");
+    }
+    retryTimer = setTimeout(connect, nextBackoffDelay(failures - 1, initialDelayMs, maxDelayMs));
+  };
+
+  function connect() {
+    retryTimer = null;
+    if (closed) return;
+    if (status !== "fallback") setStatus("connecting");
+    let url: string | Promise<string>;
+    try {
+      url = options.url();
+    } catch (error) {
+      console.error("order stream url failed", error);
+      scheduleReconnect();
+      return;
+    }
+    if (typeof url === "string") {
+      attach(url);
+      return;
+    }
+    url.then(
+      (resolved) => {
+        if (!closed) attach(resolved);
+      },
+      (error) => {
+        console.error("order stream url failed", error);
+        scheduleReconnect();
+      }
+    );
+  }
+
+  function attach(url: string) {
+    let next: EventSourceLike | null = null;
+    try {
+      next = options.createSource ? options.createSource(url) : defaultSource(url);
+    } catch (error) {
+      console.error("order stream connect failed", error);
+    }
+    if (!next) {
+      // No EventSource support at all: stay on polling without retry churn
+      setStatus("fallback");
+      return;
+    }
+    source = next;
+    next.onopen = () => {
+      failures = 0;
+      setStatus("open");
+    };
+    next.onmessage = (event) => {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      options.onMessage(payload);
+    };
+    next.onerror = () => {
+      // Native EventSource retries on its own without backoff; take over so we control the cadence
+      next?.close();
+      if (source === next) source = null;
+      scheduleReconnect();
+    };
+  }
+
+  connect();
+
+  return {
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      source?.close();
+      source = null;
+      publishStatus(options.key, "idle");
+    },
+  };
+}
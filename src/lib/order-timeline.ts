@@ -0,0 +1,103 @@
+import type { AutomationEvent } from "../services/automation.service";
+import type { WhatsappLog } from "../services/whatsapp.service";
+import type { OrderHistoryEntry } from "../types/order";
+
+export type TimelineSource = "status" | "automation" | "whatsapp";
+
+export const TIMELINE_SOURCES: TimelineSource[] = ["status", "automation", "whatsapp"];
+
+type TimelineBase = {
+  key: string;
+  at: string;
+  correlationId: string | null;
+};
+
+export type TimelineEntry =
+  | (TimelineBase & { source: "status"; entry: OrderHistoryEntry })
+  | (TimelineBase & { source: "automation"; event: AutomationEvent })
+  | (TimelineBase & { source: "whatsapp"; log: WhatsappLog });
+
+export type TimelineGroup = {
+  key: string;
+  correlationId: string | null;
+  /** Latest entry time, used to order groups */
+  at: string;
+  /** Oldest first, so a group reads as a sequence */
+  entries: TimelineEntry[];
+};
+
+const time = (iso: string) => {
+  const value = new Date(iso).getTime();
+  return Number.isFinite(value) ? value : 0;
+};
+
+/** WhatsApp sends triggered by automation carry the outbox correlation id in their metadata. */
+export function whatsappCorrelationId(log: WhatsappLog): string | null {
+  const metadata = log.metadata ?? {};
+  const value = metadata.correlationId ?? metadata.correlation_id ?? metadata.automationCorrelationId;
+  return typeof value === "string" && value ? value : null;
+}
+
+/** Merges the three order feeds into one list, newest first. Duplicate ids within a source are dropped. */
+export function buildOrderTimeline({
+  history = [],
+  automation = [],
+  whatsapp = [],
+}: {
+  history?: OrderHistoryEntry[];
+  automation?: AutomationEvent[];
+  whatsapp?: WhatsappLog[];
+}): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  const seen = new Set<string>();
+  const push = (entry: TimelineEntry) => {
+    if (seen.has(entry.key)) return;
+    seen.add(entry.key);
+    entries.push(entry);
+  };
+
+  history.forEach((entry) => push({ key: `status:${entry.id}`, source: "status", at: entry.at, correlationId: null, entry }));
+  automation.forEach((event) =>
+    push({
+      key: `automation:${event.id}`,
+      source: "automation",
+      at: event.createdAt,
+      correlationId: event.correlationId || null,
+      event,
+    })
+  );
+  whatsapp.forEach((log) =>
+    push({ key: `whatsapp:${log.id}`, source: "whatsapp", at: log.createdAt, correlationId: whatsappCorrelationId(log), log })
+  );
+
+  return entries.sort((a, b) => time(b.at) - time(a.at));
+}
+
+export function filterTimeline(entries: TimelineEntry[], sources: Iterable<TimelineSource>) {
+  const allowed = new Set(sources);
+  return entries.filter((entry) => allowed.has(entry.source));
+}
+
+/**
+ * Collapses entries that share a correlation id into one group. Entries without one stay on their own.
+ * Expects newest-first input and keeps groups in that order (by their latest entry).
+ */
+export function groupTimeline(entries: TimelineEntry[]): TimelineGroup[] {
+  const groups: TimelineGroup[] = [];
+  const byCorrelation = new Map<string, TimelineGroup>();
+  entries.forEach((entry) => {
+    if (!entry.correlationId) {
+      groups.push({ key: entry.key, correlationId: null, at: entry.at, entries: [entry] });
+      return;
+    }
+    const existing = byCorrelation.get(entry.correlationId);
+    if (existing) {
+      existing.entries.unshift(entry);
+      return;
+    }
+    const group: TimelineGroup = { key: `corr:${entry.correlationId}`, correlationId: entry.correlationId, at: entry.at, entries: [entry] };
+    byCorrelation.set(entry.correlationId, group);
+    groups.push(group);
+  });
+  return groups;
+}
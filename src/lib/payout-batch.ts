@@ -0,0 +1,231 @@
+import type { PayoutItem, VendorBalanceItem } from "../services/admin-finance.service";
+import type { SheetRows } from "./spreadsheet-read";
+import type { ResolvedExportColumn } from "./table-export";
+import { fromCents, toCents } from "./money";
+
+/**
+ * Payout batches: propose one payout per provider from the available balance, apply the minimum and
+ * the transfer fee, then reconcile the bank's confirmation file back onto the created payouts by
+ * reference. Amounts are gross (debited from the balance); the bank transfers gross minus fee.
+ */
+
+export type BatchRules = {
+  minAmountCents: number;
+  feeFlatCents: number;
+  /** Percentage fee in basis points of the gross amount */
+  feeBps: number;
+};
+
+export const DEFAULT_BATCH_RULES: BatchRules = { minAmountCents: 10_000, feeFlatCents: 0, feeBps: 0 };
+
+export type BatchSkipReason = "below_minimum" | "fee_exceeds_amount";
+
+export type BatchLine = {
+  providerId: string;
+  providerName: string;
+  currency: string;
+  availableCents: number;
+  amountCents: number;
+  feeCents: number;
+  netCents: number;
+  referenceId: string;
+  included: boolean;
+  skip?: BatchSkipReason;
+};
+
+export function payoutFee(amountCents: number, rules: Pick<BatchRules, "feeFlatCents" | "feeBps">) {
+  if (amountCents <= 0) return 0;
+  return Math.max(0, rules.feeFlatCents) + Math.round((amountCents * Math.max(0, rules.feeBps)) / 10_000);
+}
+
+const randomSuffix = () => Math.floor(Math.random() * 36 ** 4).toString(36).toUpperCase().padStart(4, "0");
+
+/**
+ * `PB261019143005K7Q2` for a batch started on 2026-10-19 14:30:05. The random part keeps two batches
+ * started in the same second (or by two admins) from issuing the same payout references.
+ */
+export function newBatchId(date = new Date(), suffix = randomSuffix()) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const stamp = [date.getFullYear() % 100, date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()];
+  return `PB${stamp.map(pad).join("")}${suffix}`;
+}
+
+export const batchReference = (batchId: string, index: number) => `${batchId}-${String(index + 1).padStart(3, "0")}`;
+
+/** Recomputes fee, net and eligibility after the amount or the rules change. */
+export function priceLine(line: BatchLine, amountCents: number, rules: BatchRules): BatchLine {
+  const amount = Math.max(0, Math.min(Math.round(amountCents), line.availableCents));
+  const feeCents = payoutFee(amount, rules);
+  const skip: BatchSkipReason | undefined =
+    amount < Math.max(1, rules.minAmountCents) ? "below_minimum" : feeCents >= amount ? "fee_exceeds_amount" : undefined;
+  return { ...line, amountCents: amount, feeCents, netCents: Math.max(0, amount - feeCents), skip, included: line.included && !skip };
+}
+
+/** One line per balance with money available, largest first; ineligible lines come back excluded with a reason. */
+export function proposeBatch(balances: VendorBalanceItem[], rules: BatchRules, batchId: string): BatchLine[] {
+  return balances
+    .filter((balance) => balance.availableCents > 0)
+    .sort((a, b) => b.availableCents - a.availableCents)
+    .map((balance, index) =>
+      priceLine(
+        {
+          providerId: balance.providerId,
+          providerName: balance.provider?.name || balance.providerId,
+          currency: balance.currency || "EGP",
+          availableCents: balance.availableCents,
+          amountCents: 0,
+          feeCents: 0,
+          netCents: 0,
+          referenceId: batchReference(batchId, index),
+          included: true,
+        },
+        balance.availableCents,
+        rules
+      )
+    );
+}
+
+export type BatchTotals = { currency: string; count: number; amountCents: number; feeCents: number; netCents: number };
+
+/** Included lines added up per currency, in the order the currencies first appear; amounts never mix currencies. */
+export function batchTotals(lines: BatchLine[]): BatchTotals[] {
+  const totals = new Map<string, BatchTotals>();
+  lines
+    .filter((line) => line.included)
+    .forEach((line) => {
+      const sum = totals.get(line.currency) ?? { currency: line.currency, count: 0, amountCents: 0, feeCents: 0, netCents: 0 };
+      totals.set(line.currency, {
+        ...sum,
+        count: sum.count + 1,
+        amountCents: sum.amountCents + line.amountCents,
+        feeCents: sum.feeCents + line.feeCents,
+        netCents: sum.netCents + line.netCents,
+      });
+    });
+  return [...totals.values()];
+}
+
+/** Bank transfer file; headers stay in English whatever the UI language so the bank's import keeps working. */
+export const BANK_FILE_COLUMNS: ResolvedExportColumn<BatchLine>[] = [
+  { header: "Reference", value: (line) => line.referenceId },
+  { header: "Beneficiary", value: (line) => line.providerName },
+  { header: "Provider ID", value: (line) => line.providerId },
+  { header: "Amount", value: (line) => fromCents(line.netCents) },
+  { header: "Currency", value: (line) => line.currency },
+  { header: "Narration", value: (line) => `Payout ${line.referenceId}` },
+];
+
+export type BankStatus = "PAID" | "FAILED";
+
+export type BankConfirmation = {
+  rowNumber: number;
+  referenceId: string;
+  status: BankStatus | null;
+  rawStatus: string;
+  reason?: string;
+  amountCents?: number;
+};
+
+const CONFIRMATION_COLUMNS = {
+  reference: ["reference", "reference id", "referenceid", "ref", "payment reference", "transaction reference", "customer reference", "المرجع", "رقم المرجع"],
+  status: ["status", "result", "state", "transfer status", "الحالة"],
+  reason: ["reason", "failure reason", "message", "error", "remarks", "السبب"],
+  amount: ["amount", "net amount", "transfer amount", "المبلغ"],
+} as const;
+
+const PAID_WORDS = ["paid", "success", "successful", "succeeded", "completed", "complete", "executed", "processed", "settled", "ok", "تم", "ناجح", "ناجحة"];
+const FAILED_WORDS = ["failed", "failure", "rejected", "returned", "declined", "error", "cancelled", "canceled", "reversed", "فشل", "مرفوض", "مرفوضة"];
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[_\-.()*:]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export function bankStatus(value: string): BankStatus | null {
+  const normalized = normalize(value);
+  if (PAID_WORDS.includes(normalized)) return "PAID";
+  if (FAILED_WORDS.includes(normalized)) return "FAILED";
+  return null;
+}
+
+export class BankFileError extends Error {
+  constructor(public readonly code: "missing_reference" | "missing_status" | "empty") {
+    super(`Bank confirmation: ${code}`);
+    this.name = "BankFileError";
+  }
+}
+
+/** Reads the bank's confirmation sheet; the header row decides which columns hold reference, status, reason and amount. */
+export function parseBankConfirmation(rows: SheetRows): BankConfirmation[] {
+  const [header = [], ...data] = rows;
+  const columnOf = (aliases: readonly string[]) => header.findIndex((cell) => aliases.includes(normalize(cell)));
+  const reference = columnOf(CONFIRMATION_COLUMNS.reference);
+  const status = columnOf(CONFIRMATION_COLUMNS.status);
+  const reason = columnOf(CONFIRMATION_COLUMNS.reason);
+  const amount = columnOf(CONFIRMATION_COLUMNS.amount);
+  if (reference < 0) throw new BankFileError("missing_reference");
+  if (status < 0) throw new BankFileError("missing_status");
+
+  const confirmations = data
+    .map((cells, index): BankConfirmation => {
+      const rawAmount = amount >= 0 ? Number((cells[amount] ?? "").replace(/[^\d.-]/g, "")) : NaN;
+      return {
+        rowNumber: index + 2,
+        referenceId: (cells[reference] ?? "").trim(),
+        status: bankStatus(cells[status] ?? ""),
+        rawStatus: (cells[status] ?? "").trim(),
+        reason: (reason >= 0 && cells[reason]?.trim()) || undefined,
+        amountCents: amount >= 0 && cells[amount]?.trim() && Number.isFinite(rawAmount) ? toCents(rawAmount) : undefined,
+      };
+    })
+    .filter((row) => row.referenceId);
+  if (!confirmations.length) throw new BankFileError("empty");
+  return confirmations;
+}
+
+export type ReconcileIssue = "unmatched" | "ambiguous" | "unknown_status" | "duplicate" | "amount_mismatch" | "already_final";
+
+export type ReconcileRow = {
+  confirmation: BankConfirmation;
+  payout?: PayoutItem;
+  /** Set when the row should be applied through `updatePayout` */
+  status?: BankStatus;
+  issue?: ReconcileIssue;
+};
+
+const FINAL_STATUSES = new Set(["PAID", "FAILED"]);
+
+/**
+ * Matches confirmations to payouts on `referenceId`. A row is applied only when it matches exactly one
+ * open payout, carries a known status and, if the bank reports an amount, that amount is the net transfer.
+ * A reference shared by several payouts is ambiguous and never applied; a payout that is already PAID
+ * or FAILED is left alone.
+ */
+export function reconcileConfirmations(confirmations: BankConfirmation[], payouts: PayoutItem[]): ReconcileRow[] {
+  const byReference = new Map<string, PayoutItem[]>();
+  payouts.forEach((payout) => {
+    if (!payout.referenceId) return;
+    const key = payout.referenceId.trim().toLowerCase();
+    byReference.set(key, [...(byReference.get(key) ?? []), payout]);
+  });
+  const seen = new Set<string>();
+
+  return confirmations.map((confirmation): ReconcileRow => {
+    const key = confirmation.referenceId.toLowerCase();
+    const matches = byReference.get(key) ?? [];
+    const payout = matches.length === 1 ? matches[0] : undefined;
+    if (seen.has(key)) return { confirmation, payout, issue: "duplicate" };
+    seen.add(key);
+    if (matches.length > 1) return { confirmation, issue: "ambiguous" };
+    if (!payout) return { confirmation, issue: "unmatched" };
+    if (!confirmation.status) return { confirmation, payout, issue: "unknown_status" };
+    if (FINAL_STATUSES.has(payout.status)) return { confirmation, payout, issue: "already_final" };
+    const netCents = payout.amountCents - (payout.feeCents ?? 0);
+    if (confirmation.amountCents !== undefined && confirmation.status === "PAID" && confirmation.amountCents !== netCents) {
+      return { confirmation, payout, issue: "amount_mismatch" };
+    }
+    return { confirmation, payout, status: confirmation.status };
+  });
+}
@@ -0,0 +1,44 @@
+import type { ProductCostEntry } from "../types/product";
+
+export type MarginBreakdown = {
+  profitCents: number;
+  /** Profit as a share of the selling price */
+  marginPercent: number;
+  /** Profit as a share of the cost; null when the cost is zero */
+  markupPercent: number | null;
+};
+
+export type MarginTone = "loss" | "thin" | "healthy";
+
+/** Margins below this are flagged as thin in the product form and missing-costs queue. */
+export const THIN_MARGIN_PERCENT = 10;
+
+export function computeMargin(priceCents?: number | null, costCents?: number | null): MarginBreakdown | null {
+  if (priceCents == null || costCents == null || !Number.isFinite(priceCents) || !Number.isFinite(costCents)) return null;
+  if (priceCents <= 0 || costCents < 0) return null;
+  const profitCents = priceCents - costCents;
+  return {
+    profitCents,
+    marginPercent: (profitCents / priceCents) * 100,
+    markupPercent: costCents > 0 ? (profitCents / costCents) * 100 : null,
+  };
+}
+
+export function marginTone(margin: MarginBreakdown): MarginTone {
+  if (margin.profitCents < 0) return "loss";
+  return margin.marginPercent < THIN_MARGIN_PERCENT ? "thin" : "healthy";
+}
+
+/** Newest effective date first; ties fall back to creation time. */
+export function sortCostHistory(entries: ProductCostEntry[]) {
+  return [...entries].sort(
+    (a, b) =>
+      new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime() ||
+      new Date(b.createdAt ?? 0).getTime() - new Date(a.createdAt ?? 0).getTime()
+  );
+}
+
+/** The entry in effect at `at`, or null when every entry starts later (or there are none). */
+export function costAt(entries: ProductCostEntry[], at: Date = new Date()) {
+  return sortCostHistory(entries).find((entry) => new Date(entry.effectiveFrom).getTime() <= at.getTime()) ?? null;
+}
@@ -0,0 +1,109 @@
+import type { ProductImageAlt } from "../types/product";
+
+/**
+ * Gallery helpers for the product editor: ordering, the primary (cover) image, bilingual alt text
+ * keyed by url, and the crop rectangle for fixed aspect ratios. Canvas work stays in the component.
+ */
+
+export const CROP_RATIOS = [
+  { id: "1:1", value: 1 },
+  { id: "4:3", value: 4 / 3 },
+  { id: "3:4", value: 3 / 4 },
+  { id: "16:9", value: 16 / 9 },
+] as const;
+
+export type CropRatioId = (typeof CROP_RATIOS)[number]["id"];
+
+export type ImageAltText = { alt: string; altAr: string };
+
+export type CropRect = { x: number; y: number; width: number; height: number };
+
+export function moveItem<T>(list: T[], from: number, to: number) {
+  if (from === to || from < 0 || from >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, item);
+  return next;
+}
+
+/** Appends new urls, dropping blanks and anything already in the gallery. */
+export function mergeImages(existing: string[], added: string[]) {
+  const seen = new Set<string>();
+  return [...existing, ...added]
+    .map((url) => url.trim())
+    .filter((url) => {
+      if (!url || seen.has(url)) return false;
+      seen.add(url);
+      return true;
+    });
+}
+
+/** The primary image if it is still in the gallery, otherwise the first image. */
+export function resolvePrimary(images: string[], primary?: string | null) {
+  return primary && images.includes(primary) ? primary : images[0] ?? "";
+}
+
+export function removeImage(images: string[], primary: string | undefined, url: string) {
+  const next = images.filter((item) => item !== url);
+  return { images: next, primary: resolvePrimary(next, primary === url ? undefined : primary) };
+}
+
+/** Swaps one url for another in place (e.g. after a crop), keeping order and the primary flag. */
+export function replaceImage(images: string[], primary: string | undefined, from: string, to: string) {
+  const next = mergeImages(
+    images.map((url) => (url === from ? to : url)),
+    []
+  );
+  return { images: next, primary: primary === from ? to : resolvePrimary(next, primary) };
+}
+
+/**
+ * Source rectangle for a crop at `ratio` (width / height). Zoom 1 is the largest rectangle that fits;
+ * higher zoom shrinks it. `x`/`y` place it from 0 (left/top) to 1 (right/bottom) within the free space.
+ */
+export function cropRect(
+  image: { width: number; height: number },
+  ratio: number,
+  { zoom = 1, x = 0.5, y = 0.5 }: { zoom?: number; x?: number; y?: number } = {}
+): CropRect {
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+  if (image.width <= 0 || image.height <= 0 || ratio <= 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const fitWidth = Math.min(image.width, image.height * ratio);
+  const scale = 1 / Math.max(1, zoom);
+  const width = Math.max(1, Math.round(fitWidth * scale));
+  const height = Math.max(1, Math.min(image.height, Math.round(width / ratio)));
+  return {
+    x: Math.round((image.width - width) * clamp(x, 0, 1)),
+    y: Math.round((image.height - height) * clamp(y, 0, 1)),
+    width,
+    height,
+  };
+}
+
+/** Output canvas size for a crop, scaled down so the longer side stays within `maxDimension`. */
+export function cropOutputSize(rect: CropRect, maxDimension = 1600) {
+  const scale = Math.min(1, maxDimension / Math.max(rect.width, rect.height, 1));
+  return { width: Math.max(1, Math.round(rect.width * scale)), height: Math.max(1, Math.round(rect.height * scale)) };
+}
+
+export function altsByUrl(alts?: ProductImageAlt[] | null) {
+  const byUrl: Record<string, ImageAltText> = {};
+  (alts ?? []).forEach((entry) => {
+    if (entry?.url) byUrl[entry.url] = { alt: entry.alt ?? "", altAr: entry.altAr ?? "" };
+  });
+  return byUrl;
+}
+
+/** Alt text for the images still in the gallery, in gallery order; entries without text are dropped. */
+export function imageAltsPayload(images: string[], alts: Record<string, ImageAltText>): ProductImageAlt[] {
+  return images.flatMap((url) => {
+    const alt = alts[url]?.alt.trim() ?? "";
+    const altAr = alts[url]?.altAr.trim() ?? "";
+    return alt || altAr ? [{ url, alt: alt || null, altAr: altAr || null }] : [];
+  });
+}
+
+/** Images without alt text in the given language, for the editor's reminder. */
+export function missingAltCount(images: string[], alts: Record<string, ImageAltText>, field: keyof ImageAltText) {
+  return images.filter((url) => !alts[url]?.[field]?.trim()).length;
+}
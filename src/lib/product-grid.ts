@@ -0,0 +1,189 @@
+import type { Product } from "../services/products.service";
+import { fromCents, toCents } from "./money";
+import { parseImportNumber } from "./product-import";
+
+/**
+ * State helpers for the inline products grid: cells are edited as strings, kept per product id
+ * until saved, and turned into a PATCH body holding only the fields that changed.
+ */
+
+export type GridColumn = "price" | "salePrice" | "stock" | "status";
+
+export const GRID_COLUMNS: GridColumn[] = ["price", "salePrice", "stock", "status"];
+
+export const GRID_STATUSES: Product["status"][] = ["DRAFT", "ACTIVE", "HIDDEN", "DISCONTINUED"];
+
+export type GridValues = Record<GridColumn, string>;
+
+export type GridIssue = "invalid_price" | "invalid_sale_price" | "invalid_stock" | "invalid_status";
+
+/** One cell change; `before`/`after` are the pending edit (undefined = back to the saved value). */
+export type GridChange = { id: string; column: GridColumn; before?: string; after?: string };
+
+export type GridEdits = Record<string, { product: Product; values: Partial<GridValues> }>;
+
+export function productGridValues(product: Product): GridValues {
+  return {
+    price: fromCents(product.priceCents).toString(),
+    salePrice: product.salePriceCents ? fromCents(product.salePriceCents).toString() : "",
+    stock: String(product.stock ?? 0),
+    status: product.status,
+  };
+}
+
+/** Price and stock follow the variant matrix, so only status is editable on those products. */
+export function isGridCellEditable(product: Product, column: GridColumn, canEditPrice = true) {
+  if (column === "status") return true;
+  if (product.variants?.length) return false;
+  return column === "stock" || canEditPrice;
+}
+
+/** Tab-separated text as Excel and Sheets put it on the clipboard. */
+export function parseClipboard(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && !cell) {
+      quoted = true;
+    } else if (char === "\t") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.map((cells) => cells.map((value) => value.trim()));
+}
+
+/** Normalizes a typed or pasted value for its column (status labels are matched case-insensitively). */
+export function normalizeGridValue(column: GridColumn, value: string) {
+  const trimmed = value.trim();
+  if (column === "status") return trimmed.toUpperCase();
+  if (!trimmed) return "";
+  const parsed = parseImportNumber(trimmed);
+  return Number.isFinite(parsed) ? String(parsed) : trimmed;
+}
+
+export function currentGridValues(product: Product, edits: GridEdits): GridValues {
+  return { ...productGridValues(product), ...edits[product.id]?.values };
+}
+
+/**
+ * The cell changes a paste produces, anchored at `start`; cells past the grid or on read-only
+ * columns are skipped.
+ */
+export function pasteChanges(
+  products: Product[],
+  edits: GridEdits,
+  start: { row: number; col: number },
+  matrix: string[][],
+  canEditPrice = true
+): GridChange[] {
+  const changes: GridChange[] = [];
+  matrix.forEach((cells, rowOffset) => {
+    const product = products[start.row + rowOffset];
+    if (!product) return;
+    cells.forEach((value, colOffset) => {
+      const column = GRID_COLUMNS[start.col + colOffset];
+      if (!column || !isGridCellEditable(product, column, canEditPrice)) return;
+      changes.push(cellChange(product, edits, column, value));
+    });
+  });
+  return changes;
+}
+
+export function cellChange(product: Product, edits: GridEdits, column: GridColumn, value: string): GridChange {
+  const normalized = normalizeGridValue(column, value);
+  const saved = productGridValues(product)[column];
+  return {
+    id: product.id,
+    column,
+    before: edits[product.id]?.values[column],
+    after: normalized === saved ? undefined : normalized,
+  };
+}
+
+function applyValues(edits: GridEdits, changes: GridChange[], products: Map<string, Product>, pick: "before" | "after") {
+  const next: GridEdits = { ...edits };
+  changes.forEach((change) => {
+    const product = next[change.id]?.product ?? products.get(change.id);
+    if (!product) return;
+    const values = { ...next[change.id]?.values };
+    const value = change[pick];
+    if (value === undefined) delete values[change.column];
+    else values[change.column] = value;
+    if (Object.keys(values).length) next[change.id] = { product, values };
+    else delete next[change.id];
+  });
+  return next;
+}
+
+export function applyGridChanges(edits: GridEdits, changes: GridChange[], products: Product[]) {
+  return applyValues(edits, changes, new Map(products.map((product) => [product.id, product])), "after");
+}
+
+/** Reverts a batch in reverse order, so repeated edits of one cell unwind correctly. */
+export function revertGridChanges(edits: GridEdits, changes: GridChange[]) {
+  return applyValues(edits, [...changes].reverse(), new Map(), "before");
+}
+
+export function validateGridValues(values: GridValues): Partial<Record<GridColumn, GridIssue>> {
+  const issues: Partial<Record<GridColumn, GridIssue>> = {};
+  const price = parseImportNumber(values.price);
+  if (!Number.isFinite(price) || price <= 0) issues.price = "invalid_price";
+  if (values.salePrice.trim()) {
+    const sale = parseImportNumber(values.salePrice);
+    if (!Number.isFinite(sale) || sale <= 0 || (Number.isFinite(price) && sale >= price)) {
+      issues.salePrice = "invalid_sale_price";
+    }
+  }
+  const stock = parseImportNumber(values.stock);
+  if (!Number.isInteger(stock) || stock < 0) issues.stock = "invalid_stock";
+  if (!GRID_STATUSES.includes(values.status as Product["status"])) issues.status = "invalid_status";
+  return issues;
+}
+
+/** PATCH body with only the edited fields; a cleared sale price is sent as null. */
+export function gridPatch(product: Product, values: Partial<GridValues>): Partial<Product> {
+  const patch: Partial<Product> = {};
+  if (values.price !== undefined) patch.priceCents = toCents(parseImportNumber(values.price));
+  if (values.salePrice !== undefined) {
+    patch.salePriceCents = values.salePrice.trim() ? toCents(parseImportNumber(values.salePrice)) : null;
+  }
+  if (values.stock !== undefined) patch.stock = parseImportNumber(values.stock);
+  if (values.status !== undefined) patch.status = values.status as Product["status"];
+  // A sale price is only valid relative to the price, so send both when the sale price moves
+  if (patch.salePriceCents !== undefined && patch.priceCents === undefined) patch.priceCents = product.priceCents;
+  return patch;
+}
+
+/** Copyable TSV for the given rows and columns. */
+export function gridToClipboard(rows: GridValues[], columns: GridColumn[]) {
+  return rows
+    .map((values) =>
+      columns.map((column) => (/[\t\n"]/.test(values[column]) ? `"${values[column].replace(/"/g, '""')}"` : values[column])).join("\t")
+    )
+    .join("\n");
+}
@@ -0,0 +1,218 @@
+import type { ProductStatus } from "../types/product";
+
+/**
+ * Client-side checks for the products bulk import: map spreadsheet columns onto product fields,
+ * validate every row before the server dry run, and write the cleaned rows back out as CSV.
+ */
+
+export type ImportField =
+  | "sku"
+  | "name"
+  | "nameAr"
+  | "description"
+  | "descriptionAr"
+  | "category"
+  | "price"
+  | "salePrice"
+  | "stock"
+  | "status"
+  | "isHotOffer"
+  | "imageUrl";
+
+/** `header` is the column name in the bulk template, which the checked CSV is written with */
+export type ImportFieldDef = {
+  field: ImportField;
+  header: string;
+  labelKey: string;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+};
+
+export const IMPORT_FIELDS: ImportFieldDef[] = [
+  { field: "sku", header: "sku", labelKey: "export.columns.sku", label: "SKU", aliases: ["sku", "code", "barcode", "كود", "الكود"] },
+  { field: "name", header: "name", labelKey: "products.name", label: "Name", required: true, aliases: ["name", "name en", "product", "product name", "title"] },
+  { field: "nameAr", header: "nameAr", labelKey: "products.nameAr", label: "Arabic name", aliases: ["name ar", "arabic name", "namear", "الاسم", "اسم المنتج"] },
+  { field: "description", header: "description", labelKey: "products.description", label: "Description", aliases: ["description", "description en"] },
+  { field: "descriptionAr", header: "descriptionAr", labelKey: "products.descriptionAr", label: "Arabic description", aliases: ["description ar", "descriptionar", "الوصف"] },
+  { field: "category", header: "categoryId", labelKey: "products.category", label: "Category", required: true, aliases: ["category", "category id", "categoryid", "category slug", "القسم", "الفئة"] },
+  { field: "price", header: "price", labelKey: "products.price", label: "Price", required: true, aliases: ["price", "regular price", "السعر"] },
+  { field: "salePrice", header: "salePrice", labelKey: "products.salePrice", label: "Sale price", aliases: ["sale price", "saleprice", "offer price", "سعر العرض", "سعر الخصم"] },
+  { field: "stock", header: "stock", labelKey: "products.stock", label: "Stock", aliases: ["stock", "qty", "quantity", "inventory", "المخزون", "الكمية"] },
+  { field: "status", header: "status", labelKey: "products.status", label: "Status", aliases: ["status", "الحالة"] },
+  { field: "isHotOffer", header: "isHotOffer", labelKey: "products.hotOffer", label: "Hot offer", aliases: ["hot offer", "ishotoffer", "hot"] },
+  { field: "imageUrl", header: "imageUrl", labelKey: "products.imageUrl", label: "Image URL", aliases: ["image", "image url", "imageurl", "photo", "الصورة"] },
+];
+
+/** Column index -> product field (null = ignored) */
+export type ColumnMapping = Array<ImportField | null>;
+
+export type ImportRow = { rowNumber: number; cells: string[] };
+
+export type ImportIssueCode =
+  | "required"
+  | "unknown_category"
+  | "duplicate_sku"
+  | "invalid_price"
+  | "invalid_sale_price"
+  | "invalid_stock"
+  | "invalid_status"
+  | "invalid_boolean";
+
+export type ImportIssue = { field: ImportField; code: ImportIssueCode };
+
+export type CategoryRef = { id: string; name: string; nameAr?: string | null; slug?: string | null };
+
+const STATUSES: ProductStatus[] = ["DRAFT", "ACTIVE", "HIDDEN", "DISCONTINUED"];
+const TRUE_VALUES = ["true", "yes", "y", "1", "نعم"];
+const FALSE_VALUES = ["false", "no", "n", "0", "لا"];
+
+const normalizeHeader = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[_\-.()*]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const taken = new Set<ImportField>();
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const match = IMPORT_FIELDS.find(
+      (def) => !taken.has(def.field) && (def.aliases.includes(normalized) || normalizeHeader(def.field) === normalized)
+    );
+    if (!match) return null;
+    taken.add(match.field);
+    return match.field;
+  });
+}
+
+export function missingRequiredFields(mapping: ColumnMapping) {
+  return IMPORT_FIELDS.filter((def) => def.required && !mapping.includes(def.field)).map((def) => def.field);
+}
+
+export function fieldValue(row: ImportRow, mapping: ColumnMapping, field: ImportField) {
+  const index = mapping.indexOf(field);
+  return index < 0 ? "" : (row.cells[index] ?? "").trim();
+}
+
+/**
+ * Parses spreadsheet amounts: Arabic-Indic digits, currency text, "1,250.50" and "12,50".
+ * Returns NaN for anything ambiguous.
+ */
+export function parseImportNumber(value: string) {
+  let text = value
+    .replace(/[\u0660-\u0669]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[\u06f0-\u06f9]/g, (d) => String(d.charCodeAt(0) - 0x06f0))
+    .replace(/\u066b/g, ".")
+    .replace(/\u066c/g, ",")
+    .replace(/[^\d.,-]/g, "")
+    // Leftovers of currency text such as "ج.م"
+    .replace(/^[.,]+|[.,]+$/g, "");
+  if (!text) return NaN;
+  if (text.includes(".") && text.includes(",")) text = text.replace(/,/g, "");
+  else if (/^-?\d+,\d{1,2}$/.test(text)) text = text.replace(",", ".");
+  else if (/^-?\d{1,3}(,\d{3})+$/.test(text)) text = text.replace(/,/g, "");
+  return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : NaN;
+}
+
+export function parseImportBoolean(value: string) {
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return null;
+}
+
+export function findCategory(value: string, categories: CategoryRef[]) {
+  const needle = value.trim().toLowerCase();
+  if (!needle) return undefined;
+  return categories.find(
+    (category) =>
+      category.id === value.trim() ||
+      category.slug?.toLowerCase() === needle ||
+      category.name.toLowerCase() === needle ||
+      category.nameAr?.trim().toLowerCase() === needle
+  );
+}
+
+/** Issues per row index; rows without issues are omitted. `categories` null skips the category check. */
+export function validateImportRows(rows: ImportRow[], mapping: ColumnMapping, categories: CategoryRef[] | null) {
+  const issues: Record<number, ImportIssue[]> = {};
+  const add = (index: number, field: ImportField, code: ImportIssueCode) =>
+    (issues[index] = [...(issues[index] ?? []), { field, code }]);
+
+  const skuCounts = new Map<string, number>();
+  if (mapping.includes("sku")) {
+    rows.forEach((row) => {
+      const sku = fieldValue(row, mapping, "sku").toLowerCase();
+      if (sku) skuCounts.set(sku, (skuCounts.get(sku) ?? 0) + 1);
+    });
+  }
+
+  rows.forEach((row, index) => {
+    const value = (field: ImportField) => fieldValue(row, mapping, field);
+    IMPORT_FIELDS.forEach((def) => {
+      if (def.required && !value(def.field)) add(index, def.field, "required");
+    });
+
+    const sku = value("sku").toLowerCase();
+    if (sku && (skuCounts.get(sku) ?? 0) > 1) add(index, "sku", "duplicate_sku");
+
+    if (categories && value("category") && !findCategory(value("category"), categories)) add(index, "category", "unknown_category");
+
+    const price = parseImportNumber(value("price"));
+    if (value("price") && (!Number.isFinite(price) || price <= 0)) add(index, "price", "invalid_price");
+    if (value("salePrice")) {
+      const sale = parseImportNumber(value("salePrice"));
+      if (!Number.isFinite(sale) || sale <= 0 || (Number.isFinite(price) && sale >= price)) {
+        add(index, "salePrice", "invalid_sale_price");
+      }
+    }
+
+    if (value("stock")) {
+      const stock = parseImportNumber(value("stock"));
+      if (!Number.isInteger(stock) || stock < 0) add(index, "stock", "invalid_stock");
+    }
+    if (value("status") && !STATUSES.includes(value("status").toUpperCase() as ProductStatus)) {
+      add(index, "status", "invalid_status");
+    }
+    if (value("isHotOffer") && parseImportBoolean(value("isHotOffer")) === null) add(index, "isHotOffer", "invalid_boolean");
+  });
+  return issues;
+}
+
+/** The cell as the server should receive it: plain numbers, upper-case status, true/false. */
+function cleanCell(field: ImportField, value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) return trimmed;
+  if (field === "price" || field === "salePrice" || field === "stock") {
+    const parsed = parseImportNumber(trimmed);
+    return Number.isFinite(parsed) ? String(parsed) : trimmed;
+  }
+  if (field === "status") return trimmed.toUpperCase();
+  if (field === "isHotOffer") {
+    const parsed = parseImportBoolean(trimmed);
+    return parsed === null ? trimmed : String(parsed);
+  }
+  return trimmed;
+}
+
+function csvCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Rebuilds the upload as the bulk template: mapped fields only, under their template headers and in
+ * template order, cells cleaned per field. Categories resolve to their id when the list is loaded.
+ */
+export function rowsToCsv(rows: ImportRow[], mapping: ColumnMapping, categories: CategoryRef[] | null) {
+  const columns = IMPORT_FIELDS.filter((def) => mapping.includes(def.field));
+  const cell = (row: ImportRow, field: ImportField) => {
+    const value = fieldValue(row, mapping, field);
+    if (field === "category" && categories) return findCategory(value, categories)?.id ?? value;
+    return cleanCell(field, value);
+  };
+  const lines = [columns.map((def) => csvCell(def.header)).join(",")];
+  rows.forEach((row) => lines.push(columns.map((def) => csvCell(cell(row, def.field))).join(",")));
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
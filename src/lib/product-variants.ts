@@ -0,0 +1,246 @@
+import type { OrderItemOption } from "../types/order";
+import type { ProductOptionGroup, ProductVariant } from "../types/product";
+import { fromCents, toCents } from "./money";
+
+/**
+ * Variant matrix helpers shared by the product form and the products service payload builders.
+ * The form edits prices as strings; the API speaks cents.
+ */
+
+export type VariantFormValue = {
+  id?: string;
+  options: Record<string, string>;
+  sku: string;
+  price: string;
+  salePrice: string;
+  stock: string;
+  imageUrl: string;
+};
+
+export type VariantIssue = "sku_required" | "sku_duplicate" | "invalid_price" | "invalid_sale_price" | "invalid_stock";
+
+export type VariantSummary = { minPriceCents: number; minSalePriceCents: number | null; totalStock: number };
+
+/** Accepts Arabic-Indic digits and a comma decimal separator; NaN when empty. */
+export function parseAmount(value: string) {
+  const normalized = (value || "")
+    .replace(/[\u0660-\u0669]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[\u06f0-\u06f9]/g, (d) => String(d.charCodeAt(0) - 0x06f0))
+    .replace(/,/g, ".")
+    .trim();
+  return normalized ? Number(normalized) : NaN;
+}
+
+/** VARIANT groups that have at least one value, i.e. the axes of the matrix. */
+export function matrixGroups(groups: ProductOptionGroup[]) {
+  return groups.filter((group) => group.type === "VARIANT" && group.name.trim() && group.values.some((value) => value.label.trim()));
+}
+
+export function variantKey(options: Record<string, string>, groups: ProductOptionGroup[]) {
+  return matrixGroups(groups)
+    .map((group) => `${group.name.trim()}=${options[group.name.trim()] ?? ""}`)
+    .join("|");
+}
+
+function skuPart(label: string) {
+  return label
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9\u0600-\u06FF]+/g, "")
+    .slice(0, 8);
+}
+
+/**
+ * Every combination of the VARIANT group values. Rows that already exist keep their SKU, price,
+ * stock and image; new rows start from the product price with a SKU derived from `baseSku`.
+ * When an axis is added or removed, each old row (and its id) moves to the first free combination
+ * it agrees with, so saved variants are updated rather than deleted and recreated.
+ */
+export function buildVariantMatrix(
+  groups: ProductOptionGroup[],
+  existing: VariantFormValue[],
+  defaults: { price: string; sku?: string | null }
+): VariantFormValue[] {
+  const axes = matrixGroups(groups);
+  if (!axes.length) return [];
+  let combos: Array<Record<string, string>> = [{}];
+  axes.forEach((group) => {
+    const name = group.name.trim();
+    const labels = Array.from(new Set(group.values.map((value) => value.label.trim()).filter(Boolean)));
+    combos = combos.flatMap((combo) => labels.map((label) => ({ ...combo, [name]: label })));
+  });
+  // Rows can collapse onto one key when an axis goes away; the first saved one wins
+  const byKey = new Map<string, VariantFormValue>();
+  existing.forEach((variant) => {
+    const key = variantKey(variant.options, groups);
+    const current = byKey.get(key);
+    if (!current || (!current.id && variant.id)) byKey.set(key, variant);
+  });
+  const claimed = new Set<VariantFormValue>();
+  const rows: Array<VariantFormValue | null> = combos.map((options) => {
+    const match = byKey.get(variantKey(options, groups));
+    if (!match) return null;
+    claimed.add(match);
+    return { ...match, options };
+  });
+  const agrees = (options: Record<string, string>, combo: Record<string, string>) =>
+    Object.keys(options).every((name) => !(name in combo) || combo[name] === options[name]);
+  existing.forEach((variant) => {
+    if (claimed.has(variant)) return;
+    const index = rows.findIndex((row, i) => row === null && agrees(variant.options, combos[i]));
+    if (index === -1) return;
+    claimed.add(variant);
+    rows[index] = { ...variant, options: combos[index] };
+  });
+
+  const base = defaults.sku?.trim();
+  return rows.map((row, i) => {
+    if (row) return row;
+    const options = combos[i];
+    const suffix = Object.values(options).map(skuPart).filter(Boolean).join("-");
+    return {
+      options,
+      sku: base ? `${base}-${suffix}` : "",
+      price: defaults.price,
+      salePrice: "",
+      stock: "0",
+      imageUrl: "",
+    };
+  });
+}
+
+/** Saved rows (those with an id) in `before` that no longer appear in `after`. */
+export function discardedVariants(before: VariantFormValue[], after: VariantFormValue[]) {
+  const kept = new Set(after.map((variant) => variant.id).filter(Boolean));
+  return before.filter((variant) => variant.id && !kept.has(variant.id));
+}
+
+/**
+ * Puts back the saved prices of each variant for users who may not change pricing. Rows without a
+ * saved counterpart get the product price and no sale price.
+ */
+export function restoreVariantPrices(
+  variants: ProductVariant[],
+  saved: ProductVariant[] | undefined,
+  productPriceCents: number
+): ProductVariant[] {
+  const byId = new Map((saved ?? []).filter((variant) => variant.id).map((variant) => [variant.id, variant]));
+  return variants.map((variant) => {
+    const previous = variant.id ? byId.get(variant.id) : undefined;
+    return previous
+      ? { ...variant, priceCents: previous.priceCents, salePriceCents: previous.salePriceCents ?? null }
+      : { ...variant, priceCents: productPriceCents, salePriceCents: null };
+  });
+}
+
+/** Issues per row index; rows without issues are omitted. */
+export function validateVariants(values: VariantFormValue[]) {
+  const issues: Record<number, VariantIssue[]> = {};
+  const add = (index: number, issue: VariantIssue) => (issues[index] = [...(issues[index] ?? []), issue]);
+  const skuCounts = new Map<string, number>();
+  values.forEach((variant) => {
+    const sku = variant.sku.trim().toLowerCase();
+    if (sku) skuCounts.set(sku, (skuCounts.get(sku) ?? 0) + 1);
+  });
+  values.forEach((variant, index) => {
+    const sku = variant.sku.trim().toLowerCase();
+    if (!sku) add(index, "sku_required");
+    else if ((skuCounts.get(sku) ?? 0) > 1) add(index, "sku_duplicate");
+    const price = parseAmount(variant.price);
+    if (!Number.isFinite(price) || price <= 0) add(index, "invalid_price");
+    if (variant.salePrice.trim()) {
+      const sale = parseAmount(variant.salePrice);
+      if (!Number.isFinite(sale) || sale <= 0 || (Number.isFinite(price) && sale >= price)) add(index, "invalid_sale_price");
+    }
+    const stock = Number(variant.stock);
+    if (!variant.stock.trim() || !Number.isInteger(stock) || stock < 0) add(index, "invalid_stock");
+  });
+  return issues;
+}
+
+export function variantsToForm(variants?: ProductVariant[] | null): VariantFormValue[] {
+  return (variants ?? []).map((variant) => ({
+    id: variant.id,
+    options: { ...variant.options },
+    sku: variant.sku ?? "",
+    price: fromCents(variant.priceCents).toString(),
+    salePrice: variant.salePriceCents ? fromCents(variant.salePriceCents).toString() : "",
+    stock: String(variant.stock ?? 0),
+    imageUrl: variant.imageUrl ?? "",
+  }));
+}
+
+export function variantsFromForm(values: VariantFormValue[]): ProductVariant[] {
+  return values.map((variant) => ({
+    id: variant.id,
+    options: variant.options,
+    sku: variant.sku.trim() || null,
+    priceCents: toCents(parseAmount(variant.price)),
+    salePriceCents: variant.salePrice.trim() ? toCents(parseAmount(variant.salePrice)) : null,
+    stock: Number.parseInt(variant.stock, 10) || 0,
+    imageUrl: variant.imageUrl || null,
+  }));
+}
+
+/** Product-level price and stock derived from the variants (lowest price, summed stock). */
+export function summarizeVariants(variants: ProductVariant[]): VariantSummary | null {
+  if (!variants.length) return null;
+  const sales = variants.map((variant) => variant.salePriceCents).filter((cents): cents is number => cents != null && cents > 0);
+  return {
+    minPriceCents: Math.min(...variants.map((variant) => variant.priceCents)),
+    minSalePriceCents: sales.length ? Math.min(...sales) : null,
+    totalStock: variants.reduce((sum, variant) => sum + Math.max(0, variant.stock), 0),
+  };
+}
+
+export function serializeOptionGroups(groups: ProductOptionGroup[]): ProductOptionGroup[] {
+  return groups
+    .map((group) => {
+      const seen = new Set<string>();
+      const values = group.values
+        .map((value) => ({
+          ...(value.id ? { id: value.id } : {}),
+          label: value.label.trim(),
+          labelAr: value.labelAr?.trim() || null,
+          ...(group.type === "ADDON" ? { priceDeltaCents: Math.trunc(Number(value.priceDeltaCents ?? 0)) } : {}),
+        }))
+        .filter((value) => {
+          if (!value.label || seen.has(value.label)) return false;
+          seen.add(value.label);
+          return true;
+        });
+      return {
+        ...(group.id ? { id: group.id } : {}),
+        name: group.name.trim(),
+        nameAr: group.nameAr?.trim() || null,
+        type: group.type,
+        required: group.type === "ADDON" ? Boolean(group.required) : undefined,
+        values,
+      };
+    })
+    .filter((group) => group.name && group.values.length);
+}
+
+export function serializeVariants(variants: ProductVariant[]): ProductVariant[] {
+  return variants.map((variant) => ({
+    ...(variant.id ? { id: variant.id } : {}),
+    options: variant.options,
+    sku: variant.sku?.trim() || null,
+    priceCents: Math.trunc(Number(variant.priceCents)),
+    salePriceCents: variant.salePriceCents != null ? Math.trunc(Number(variant.salePriceCents)) : null,
+    stock: Math.trunc(Number(variant.stock)),
+    imageUrl: variant.imageUrl?.trim() || null,
+  }));
+}
+
+/** "Size: L · Extra cheese" in the requested language, for order lines and receipts. */
+export function formatItemOptions(options: OrderItemOption[] | null | undefined, lang = "en") {
+  const arabic = lang.startsWith("ar");
+  return (options ?? [])
+    .map((option) => {
+      const group = (arabic && option.groupAr) || option.group;
+      const value = (arabic && option.valueAr) || option.value;
+      return group ? `${group}: ${value}` : value;
+    })
+    .join(" · ");
+}
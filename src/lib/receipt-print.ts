@@ -0,0 +1,253 @@
+import { qrSvg } from "./qr";
+import type { OrderReceipt } from "../types/order";
+import { formatItemOptions } from "./product-variants";
+
+export type ReceiptFormat = "thermal58" | "thermal80" | "a4";
+
+export const RECEIPT_FORMATS: ReceiptFormat[] = ["thermal58", "thermal80", "a4"];
+
+export type ReceiptLabels = {
+  receipt: string;
+  packingSlip: string;
+  order: string;
+  date: string;
+  customer: string;
+  phone: string;
+  address: string;
+  zone: string;
+  driver: string;
+  notes: string;
+  item: string;
+  qty: string;
+  total: string;
+  subtotal: string;
+  coupon: string;
+  loyalty: string;
+  shipping: string;
+  picked: string;
+  itemsCount: string;
+};
+
+export type ReceiptBranding = {
+  storeName?: string | null;
+  storePhone?: string | null;
+  storeAddress?: string | null;
+  /** Free text printed under the store name; line breaks are kept */
+  header?: string | null;
+  footer?: string | null;
+};
+
+export type ReceiptPrintOptions = {
+  format: ReceiptFormat;
+  lang: string;
+  dir: "ltr" | "rtl";
+  labels: ReceiptLabels;
+  branding?: ReceiptBranding;
+  formatMoney: (cents: number, currency: string) => string;
+  formatDate: (iso: string) => string;
+};
+
+// Printable width after the printer's own margins
+const PAGE: Record<ReceiptFormat, { size: string; width: string; fontSize: string; qrPx: number }> = {
+  thermal58: { size: "58mm auto", width: "48mm", fontSize: "10px", qrPx: 96 },
+  thermal80: { size: "80mm auto", width: "72mm", fontSize: "12px", qrPx: 120 },
+  a4: { size: "A4", width: "auto", fontSize: "12px", qrPx: 110 },
+};
+
+export function escapeHtml(value: unknown) {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const multiline = (value?: string | null) => escapeHtml(value?.trim()).replace(/\r?\n/g, "<br/>");
+
+export function receiptAddressLine(receipt: OrderReceipt) {
+  const { label, building, street, apartment, city, region } = receipt.address;
+  return [label, building, street, apartment, city, region].filter(Boolean).join(", ");
+}
+
+function zoneName(receipt: OrderReceipt, lang: string) {
+  const zone = receipt.deliveryZone;
+  if (!zone) return "";
+  return (lang.startsWith("ar") ? zone.nameAr || zone.nameEn : zone.nameEn || zone.nameAr) || "";
+}
+
+function brandingBlock(branding: ReceiptBranding | undefined) {
+  if (!branding) return "";
+  const contact = [branding.storePhone, branding.storeAddress].filter(Boolean).map(escapeHtml).join(" · ");
+  return [
+    branding.storeName ? `<div class="store">${escapeHtml(branding.storeName)}</div>` : "",
+    contact ? `<div class="muted">${contact}</div>` : "",
+    branding.header?.trim() ? `<div class="note">${multiline(branding.header)}</div>` : "",
+  ].join("");
+}
+
+const itemOptions = (item: OrderReceipt["items"][number], lang: string) =>
+  item.options?.length ? `<div class="muted">${escapeHtml(formatItemOptions(item.options, lang))}</div>` : "";
+
+const row = (label: string, value: string, className = "") =>
+  `<div class="row ${className}"><span>${escapeHtml(label)}</span><span>${value}</span></div>`;
+
+function renderThermal(receipt: OrderReceipt, options: ReceiptPrintOptions) {
+  const { labels, formatMoney, branding } = options;
+  const currency = receipt.currency || "EGP";
+  const money = (cents: number) => escapeHtml(formatMoney(cents, currency));
+  const zone = zoneName(receipt, options.lang);
+  const items = receipt.items
+    .map(
+      (item) =>
+        `<div class="item"><div>${escapeHtml(item.productName)}</div>${itemOptions(item, options.lang)}` +
+        `<div class="row muted"><span>${item.quantity} × ${money(item.unitPriceCents)}</span>` +
+        `<span>${money(item.lineTotalCents)}</span></div></div>`
+    )
+    .join("");
+
+  return `<section class="doc thermal">
+    <header class="center">${brandingBlock(branding)}</header>
+    <div class="rule"></div>
+    ${row(labels.order, `#${escapeHtml(receipt.code)}`, "strong")}
+    ${row(labels.date, escapeHtml(options.formatDate(receipt.createdAt)))}
+    ${row(labels.customer, escapeHtml(receipt.customer.name))}
+    ${receipt.customer.phone ? row(labels.phone, escapeHtml(receipt.customer.phone)) : ""}
+    <div class="block"><span class="muted">${escapeHtml(labels.address)}</span><div>${escapeHtml(receiptAddressLine(receipt))}</div></div>
+    ${zone ? row(labels.zone, escapeHtml(zone)) : ""}
+    ${receipt.address.notes ? `<div class="block"><span class="muted">${escapeHtml(labels.notes)}</span><div>${multiline(receipt.address.notes)}</div></div>` : ""}
+    <div class="rule"></div>
+    ${items}
+    <div class="rule"></div>
+    ${row(labels.subtotal, money(receipt.subtotalCents))}
+    ${receipt.couponDiscountCents ? row(labels.coupon, `-${money(receipt.couponDiscountCents)}`) : ""}
+    ${receipt.loyaltyDiscountCents ? row(labels.loyalty, `-${money(receipt.loyaltyDiscountCents)}`) : ""}
+    ${row(labels.shipping, money(receipt.shippingFeeCents))}
+    ${row(labels.total, money(receipt.totalCents), "strong total")}
+    <div class="center qr">${qrSvg(receipt.code, { sizePx: PAGE[options.format].qrPx })}</div>
+    ${branding?.footer?.trim() ? `<footer class="center note">${multiline(branding.footer)}</footer>` : ""}
+  </section>`;
+}
+
+function renderPackingSlip(receipt: OrderReceipt, options: ReceiptPrintOptions) {
+  const { labels, branding } = options;
+  const zone = zoneName(receipt, options.lang);
+  const units = receipt.items.reduce((sum, item) => sum + item.quantity, 0);
+  const items = receipt.items
+    .map(
+      (item) =>
+        `<tr><td class="check"><span class="box"></span></td><td>${escapeHtml(item.productName)}${itemOptions(item, options.lang)}</td>` +
+        `<td class="num">${item.quantity}</td></tr>`
+    )
+    .join("");
+
+  return `<section class="doc slip">
+    <header class="slip-head">
+      <div>${brandingBlock(branding)}</div>
+      <div class="qr">${qrSvg(receipt.code, { sizePx: PAGE.a4.qrPx })}</div>
+    </header>
+    <h1>${escapeHtml(labels.packingSlip)} · #${escapeHtml(receipt.code)}</h1>
+    <div class="muted">${escapeHtml(labels.date)}: ${escapeHtml(options.formatDate(receipt.createdAt))}</div>
+    <div class="grid">
+      <div>
+        <div class="muted">${escapeHtml(labels.customer)}</div>
+        <div class="strong">${escapeHtml(receipt.customer.name)}</div>
+        <div>${escapeHtml(receipt.customer.phone)}</div>
+      </div>
+      <div>
+        <div class="muted">${escapeHtml(labels.address)}</div>
+        <div>${escapeHtml(receiptAddressLine(receipt))}</div>
+        ${zone ? `<div>${escapeHtml(labels.zone)}: ${escapeHtml(zone)}</div>` : ""}
+        ${receipt.driver?.fullName ? `<div>${escapeHtml(labels.driver)}: ${escapeHtml(receipt.driver.fullName)}</div>` : ""}
+      </div>
+    </div>
+    ${receipt.address.notes ? `<p class="note"><span class="muted">${escapeHtml(labels.notes)}:</span> ${multiline(receipt.address.notes)}</p>` : ""}
+    <table>
+      <thead><tr><th class="check">${escapeHtml(labels.picked)}</th><th>${escapeHtml(labels.item)}</th><th class="num">${escapeHtml(labels.qty)}</th></tr></thead>
+      <tbody>${items}</tbody>
+      <tfoot><tr><td></td><td>${escapeHtml(labels.itemsCount)}</td><td class="num">${units}</td></tr></tfoot>
+    </table>
+    ${branding?.footer?.trim() ? `<footer class="note">${multiline(branding.footer)}</footer>` : ""}
+  </section>`;
+}
+
+export function renderReceipt(receipt: OrderReceipt, options: ReceiptPrintOptions) {
+  return options.format === "a4" ? renderPackingSlip(receipt, options) : renderThermal(receipt, options);
+}
+
+/** Full HTML document with one receipt (or packing slip) per page, ready for an iframe or print window. */
+export function buildPrintDocument(receipts: OrderReceipt[], options: ReceiptPrintOptions) {
+  const page = PAGE[options.format];
+  const title = options.format === "a4" ? options.labels.packingSlip : options.labels.receipt;
+  return `<!doctype html>
+<html lang="${escapeHtml(options.lang)}" dir="${options.dir}">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: ${page.size}; margin: ${options.format === "a4" ? "14mm" : "3mm 2mm"}; }
+  * { box-sizing: border-box; }
+  body { margin: 0; color: #000; font-family: Tahoma, "Segoe UI", Arial, sans-serif; font-size: ${page.fontSize}; line-height: 1.35; }
+  .doc { width: ${page.width}; margin: 0 auto; break-after: page; page-break-after: always; }
+  .doc:last-child { break-after: auto; page-break-after: auto; }
+  .center { text-align: center; }
+  .muted { color: #444; }
+  .strong { font-weight: 700; }
+  .store { font-size: 1.3em; font-weight: 700; }
+  .note { white-space: normal; margin: 4px 0; }
+  .rule { border-top: 1px dashed #000; margin: 6px 0; }
+  .row { display: flex; justify-content: space-between; gap: 8px; }
+  .row > span:last-child { text-align: end; }
+  .total { font-size: 1.25em; margin-top: 4px; }
+  .block { margin: 2px 0; }
+  .item { margin: 3px 0; }
+  .qr { margin-top: 8px; }
+  .qr svg { display: inline-block; }
+  .slip-head { display: flex; justify-content: space-between; align-items: flex-start; gap: 16px; }
+  .slip h1 { font-size: 1.5em; margin: 12px 0 4px; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; margin: 12px 0; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th, td { border-bottom: 1px solid #999; padding: 6px 4px; text-align: start; }
+  tfoot td { font-weight: 700; border-bottom: 0; }
+  .num { text-align: end; width: 4em; }
+  .check { width: 4.5em; }
+  .box { display: inline-block; width: 12px; height: 12px; border: 1px solid #000; }
+</style>
+</head>
+<body>
+${receipts.map((receipt) => renderReceipt(receipt, options)).join("\n")}
+</body>
+</html>`;
+}
+
+/**
+ * Prints an HTML document through a hidden iframe so the admin layout is not part of the output.
+ * Resolves once the print dialog closes (or after a timeout on browsers without `afterprint`).
+ */
+export function printHtmlDocument(html: string) {
+  return new Promise<void>((resolve) => {
+    const frame = document.createElement("iframe");
+    frame.setAttribute("aria-hidden", "true");
+    frame.style.cssText = "position:fixed;right:0;bottom:0;width:0;height:0;border:0;";
+    let done = false;
+    const cleanup = () => {
+      if (done) return;
+      done = true;
+      frame.remove();
+      resolve();
+    };
+    frame.onload = () => {
+      const win = frame.contentWindow;
+      if (!win) {
+        cleanup();
+        return;
+      }
+      win.addEventListener("afterprint", () => setTimeout(cleanup, 0));
+      win.focus();
+      win.print();
+      setTimeout(cleanup, 60_000);
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+}
@@ -0,0 +1,161 @@
+import { readZip } from "./zip";
+
+/**
+ * Browser-side spreadsheet reading for imports: CSV (comma or semicolon) and the first sheet of an XLSX.
+ * Every cell comes back as a trimmed string; empty trailing rows are dropped.
+ */
+
+export type SheetRows = string[][];
+
+export class SpreadsheetReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetReadError";
+  }
+}
+
+function detectDelimiter(firstLine: string) {
+  let commas = 0;
+  let semicolons = 0;
+  let quoted = false;
+  for (const char of firstLine) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && char === ",") commas++;
+    else if (!quoted && char === ";") semicolons++;
+  }
+  return semicolons > commas ? ";" : ",";
+}
+
+function trimRows(rows: SheetRows) {
+  const cleaned = rows.map((row) => row.map((cell) => cell.trim()));
+  while (cleaned.length && cleaned[cleaned.length - 1].every((cell) => !cell)) cleaned.pop();
+  return cleaned;
+}
+
+export function parseCsv(text: string): SheetRows {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] ?? "");
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && !cell) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return trimRows(rows);
+}
+
+const byLocalName = (node: Document | Element, name: string) => Array.from(node.getElementsByTagNameNS("*", name));
+
+function parseXml(bytes: Uint8Array | undefined, part: string) {
+  if (!bytes) throw new SpreadsheetReadError(`Missing ${part}`);
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(bytes), "application/xml");
+  if (byLocalName(doc, "parsererror").length || doc.getElementsByTagName("parsererror").length) {
+    throw new SpreadsheetReadError(`Unreadable ${part}`);
+  }
+  return doc;
+}
+
+/** Zero-based column index from a cell reference like "AB12". */
+export function columnIndex(ref: string) {
+  const letters = /^[A-Z]+/i.exec(ref)?.[0].toUpperCase() ?? "";
+  return letters.split("").reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Skips phonetic runs (<rPh>), which Excel stores next to the visible text
+const textOf = (node: Element) =>
+  byLocalName(node, "t")
+    .filter((t) => t.parentElement?.localName !== "rPh")
+    .map((t) => t.textContent ?? "")
+    .join("");
+
+function resolvePath(target: string) {
+  if (target.startsWith("/")) return target.slice(1);
+  return `xl/${target}`.replace(/[^/]+\/\.\.\//g, "");
+}
+
+export async function readXlsxRows(bytes: Uint8Array): Promise<SheetRows> {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(bytes);
+  } catch (error) {
+    throw new SpreadsheetReadError(error instanceof Error ? error.message : "Unreadable XLSX file");
+  }
+
+  const workbook = parseXml(files.get("xl/workbook.xml"), "workbook");
+  const firstSheet = byLocalName(workbook, "sheet")[0];
+  const relId =
+    firstSheet?.getAttributeNS("http://schemas.openxmlformats.org/officeDocument/2006/relationships", "id") ||
+    firstSheet?.getAttribute("r:id");
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const rels = files.get("xl/_rels/workbook.xml.rels");
+  if (relId && rels) {
+    const rel = byLocalName(parseXml(rels, "workbook relationships"), "Relationship").find(
+      (item) => item.getAttribute("Id") === relId
+    );
+    const target = rel?.getAttribute("Target");
+    if (target) sheetPath = resolvePath(target);
+  }
+
+  const shared = files.has("xl/sharedStrings.xml")
+    ? byLocalName(parseXml(files.get("xl/sharedStrings.xml"), "shared strings"), "si").map(textOf)
+    : [];
+
+  const sheet = parseXml(files.get(sheetPath), "worksheet");
+  const rows: SheetRows = [];
+  byLocalName(sheet, "row").forEach((rowNode, position) => {
+    const rowNumber = Number(rowNode.getAttribute("r")) || position + 1;
+    const cells: string[] = [];
+    byLocalName(rowNode, "c").forEach((cellNode, cellPosition) => {
+      const ref = cellNode.getAttribute("r");
+      const index = ref ? columnIndex(ref) : cellPosition;
+      const type = cellNode.getAttribute("t");
+      const raw = byLocalName(cellNode, "v")[0]?.textContent ?? "";
+      let value: string;
+      if (type === "s") value = shared[Number(raw)] ?? "";
+      else if (type === "inlineStr") value = textOf(cellNode);
+      else if (type === "b") value = raw === "1" ? "true" : "false";
+      else value = raw;
+      while (cells.length < index) cells.push("");
+      cells[index] = value;
+    });
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  });
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  return trimRows(rows.map((row) => Array.from({ length: width }, (_, i) => row[i] ?? "")));
+}
+
+export async function readSpreadsheet(file: File): Promise<SheetRows> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".csv") || file.type === "text/csv") return parseCsv(await file.text());
+  if (name.endsWith(".xlsx")) return readXlsxRows(new Uint8Array(await file.arrayBuffer()));
+  throw new SpreadsheetReadError("Unsupported file type");
+}
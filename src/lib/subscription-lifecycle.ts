@@ -0,0 +1,184 @@
+import dayjs from "dayjs";
+import type { BillingInterval } from "../types/plan";
+import type { ProviderSubscription, SubscriptionPlanSummary, SubscriptionStatus } from "../types/subscription";
+
+/**
+ * Guided subscription changes and what each one does to the provider's invoices. Plan changes within
+ * the same billing interval are prorated over what is left of the current period; a change of interval
+ * (or a subscription without a period) credits the unused time and starts a new period straight away.
+ * Trialing subscriptions are never charged until the trial ends, so there is nothing to prorate, and a
+ * PAST_DUE period was never paid, so it has no unused time to credit. These previews are estimates; the
+ * plan change dialog shows the server's dry run next to them.
+ */
+
+export type SubscriptionAction = "change_plan" | "extend_trial" | "cancel" | "reactivate";
+
+export type LifecycleError = "not_allowed" | "same_plan" | "currency_mismatch" | "date_not_later";
+
+export type ImpactLineKind = "unused_time" | "remaining_time" | "new_period" | "first_charge" | "renewal" | "renewal_dropped";
+
+export type ImpactLine = { kind: ImpactLineKind; planName: string; amountCents: number };
+
+export type LifecyclePlan = Pick<SubscriptionPlanSummary, "id" | "name" | "billingInterval" | "amountCents"> & { currency?: string };
+
+export type LifecycleImpact = {
+  error: LifecycleError | null;
+  lines: ImpactLine[];
+  /** What the lines add up to on the invoice they land on; negative is carried as credit */
+  totalCents: number;
+  /** When that invoice is raised; null when nothing will be billed */
+  invoiceAt: string | null;
+  /** The period the subscription ends up in */
+  periodStart: string | null;
+  periodEnd: string | null;
+};
+
+const LIVE: SubscriptionStatus[] = ["TRIALING", "ACTIVE", "PAST_DUE"];
+
+export function subscriptionActions(subscription: ProviderSubscription): SubscriptionAction[] {
+  if (!LIVE.includes(subscription.status)) return ["reactivate"];
+  const actions: SubscriptionAction[] = ["change_plan"];
+  if (subscription.status === "TRIALING") actions.push("extend_trial");
+  actions.push(subscription.cancelAt ? "reactivate" : "cancel");
+  return actions;
+}
+
+export const addInterval = (date: Date | string, interval: BillingInterval) =>
+  dayjs(date).add(1, interval === "YEARLY" ? "year" : "month").toISOString();
+
+/** Share of the current period still ahead of `now`, between 0 and 1. */
+export function remainingFraction(subscription: ProviderSubscription, now: Date) {
+  const start = subscription.currentPeriodStart ? Date.parse(subscription.currentPeriodStart) : NaN;
+  const end = subscription.currentPeriodEnd ? Date.parse(subscription.currentPeriodEnd) : NaN;
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) return null;
+  return Math.min(1, Math.max(0, (end - now.getTime()) / (end - start)));
+}
+
+const empty = (subscription: ProviderSubscription, error: LifecycleError): LifecycleImpact => ({
+  error,
+  lines: [],
+  totalCents: 0,
+  invoiceAt: null,
+  periodStart: subscription.currentPeriodStart ?? null,
+  periodEnd: subscription.currentPeriodEnd ?? null,
+});
+
+const total = (lines: ImpactLine[]) => lines.reduce((sum, line) => sum + line.amountCents, 0);
+
+export function previewPlanChange(
+  subscription: ProviderSubscription,
+  current: LifecyclePlan,
+  next: LifecyclePlan | undefined,
+  now = new Date()
+): LifecycleImpact {
+  if (!subscriptionActions(subscription).includes("change_plan")) return empty(subscription, "not_allowed");
+  if (!next || next.id === current.id) return empty(subscription, "same_plan");
+  if (current.currency && next.currency && current.currency !== next.currency) return empty(subscription, "currency_mismatch");
+
+  if (subscription.status === "TRIALING") {
+    const lines: ImpactLine[] = [{ kind: "first_charge", planName: next.name, amountCents: next.amountCents }];
+    return {
+      error: null,
+      lines,
+      totalCents: total(lines),
+      invoiceAt: subscription.trialEndsAt ?? null,
+      periodStart: subscription.currentPeriodStart ?? null,
+      periodEnd: subscription.currentPeriodEnd ?? null,
+    };
+  }
+
+  const fraction = remainingFraction(subscription, now);
+  const credit = fraction === null || subscription.status === "PAST_DUE" ? 0 : Math.round(current.amountCents * fraction);
+  const unused: ImpactLine[] = credit ? [{ kind: "unused_time", planName: current.name, amountCents: -credit }] : [];
+
+  if (fraction === null || current.billingInterval !== next.billingInterval) {
+    const lines: ImpactLine[] = [...unused, { kind: "new_period", planName: next.name, amountCents: next.amountCents }];
+    return {
+      error: null,
+      lines,
+      totalCents: total(lines),
+      invoiceAt: now.toISOString(),
+      periodStart: now.toISOString(),
+      periodEnd: addInterval(now, next.billingInterval),
+    };
+  }
+
+  const lines: ImpactLine[] = [
+    ...unused,
+    { kind: "remaining_time", planName: next.name, amountCents: Math.round(next.amountCents * fraction) },
+  ];
+  const totalCents = total(lines);
+  return {
+    error: null,
+    lines,
+    totalCents,
+    // Upgrades are billed now; a downgrade's credit waits for the next renewal
+    invoiceAt: totalCents > 0 ? now.toISOString() : subscription.currentPeriodEnd ?? null,
+    periodStart: subscription.currentPeriodStart ?? null,
+    periodEnd: subscription.currentPeriodEnd ?? null,
+  };
+}
+
+export function previewTrialExtension(
+  subscription: ProviderSubscription,
+  plan: LifecyclePlan,
+  until: string,
+  now = new Date()
+): LifecycleImpact {
+  if (!subscriptionActions(subscription).includes("extend_trial")) return empty(subscription, "not_allowed");
+  const floor = Math.max(now.getTime(), subscription.trialEndsAt ? Date.parse(subscription.trialEndsAt) : 0);
+  const target = dayjs(until);
+  if (!target.isValid() || target.valueOf() <= floor) return empty(subscription, "date_not_later");
+  const lines: ImpactLine[] = [{ kind: "first_charge", planName: plan.name, amountCents: plan.amountCents }];
+  return {
+    error: null,
+    lines,
+    totalCents: total(lines),
+    invoiceAt: target.toISOString(),
+    periodStart: subscription.currentPeriodStart ?? null,
+    periodEnd: subscription.currentPeriodEnd ?? null,
+  };
+}
+
+/** Cancels at the end of the current period (or trial); nothing is refunded. */
+export function previewCancellation(subscription: ProviderSubscription, plan: LifecyclePlan): LifecycleImpact {
+  if (!subscriptionActions(subscription).includes("cancel")) return empty(subscription, "not_allowed");
+  return {
+    error: null,
+    lines: [{ kind: "renewal_dropped", planName: plan.name, amountCents: -plan.amountCents }],
+    totalCents: 0,
+    invoiceAt: null,
+    periodStart: subscription.currentPeriodStart ?? null,
+    periodEnd: cancellationDate(subscription),
+  };
+}
+
+export const cancellationDate = (subscription: ProviderSubscription) =>
+  (subscription.status === "TRIALING" ? subscription.trialEndsAt : subscription.currentPeriodEnd) ??
+  subscription.currentPeriodEnd ??
+  null;
+
+/** Drops a scheduled cancellation, or restarts an ended subscription with a fresh period. */
+export function previewReactivation(subscription: ProviderSubscription, plan: LifecyclePlan, now = new Date()): LifecycleImpact {
+  if (!subscriptionActions(subscription).includes("reactivate")) return empty(subscription, "not_allowed");
+  if (LIVE.includes(subscription.status)) {
+    const lines: ImpactLine[] = [{ kind: "renewal", planName: plan.name, amountCents: plan.amountCents }];
+    return {
+      error: null,
+      lines,
+      totalCents: total(lines),
+      invoiceAt: cancellationDate(subscription),
+      periodStart: subscription.currentPeriodStart ?? null,
+      periodEnd: subscription.currentPeriodEnd ?? null,
+    };
+  }
+  const lines: ImpactLine[] = [{ kind: "new_period", planName: plan.name, amountCents: plan.amountCents }];
+  return {
+    error: null,
+    lines,
+    totalCents: total(lines),
+    invoiceAt: now.toISOString(),
+    periodStart: now.toISOString(),
+    periodEnd: addInterval(now, plan.billingInterval),
+  };
+}
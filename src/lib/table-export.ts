@@ -0,0 +1,205 @@
+import type { PagedResponse } from "../types/common";
+import { buildZip } from "./zip";
+
+/**
+ * Client-side exports for paginated list services: walks every page, then writes CSV or XLSX.
+ * Column definitions carry an i18n key so headers follow the UI language.
+ */
+
+export type ExportCell = string | number | boolean | null | undefined;
+
+export type ExportColumn<T> = {
+  id: string;
+  /** i18n key for the header; `label` is the fallback */
+  labelKey: string;
+  label: string;
+  value: (row: T) => ExportCell;
+  /** Preselected in the column picker (default true) */
+  defaultSelected?: boolean;
+};
+
+/** A column with its header already translated. */
+export type ResolvedExportColumn<T> = { header: string; value: (row: T) => ExportCell };
+
+export type ExportFormat = "csv" | "xlsx";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "xlsx"];
+
+export type PageFetcher<T> = (page: number, pageSize: number) => Promise<PagedResponse<T>>;
+
+export type ExportProgress = { loaded: number; total: number };
+
+export class ExportCanceledError extends Error {
+  constructor() {
+    super("Export canceled");
+    this.name = "ExportCanceledError";
+  }
+}
+
+/**
+ * Fetches pages one at a time until `total` rows are loaded (or a short page comes back).
+ * Checks `signal` between pages and throws `ExportCanceledError` once it is aborted.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: PageFetcher<T>,
+  {
+    pageSize = 100,
+    maxRows = 50_000,
+    signal,
+    onProgress,
+  }: { pageSize?: number; maxRows?: number; signal?: AbortSignal; onProgress?: (progress: ExportProgress) => void } = {}
+): Promise<T[]> {
+  const rows: T[] = [];
+  let page = 1;
+  let total = Infinity;
+  while (rows.length < Math.min(total, maxRows)) {
+    if (signal?.aborted) throw new ExportCanceledError();
+    const response = await fetchPage(page, pageSize);
+    if (signal?.aborted) throw new ExportCanceledError();
+    const items = response.items ?? [];
+    total = Number.isFinite(response.total) ? response.total : rows.length + items.length;
+    rows.push(...items);
+    onProgress?.({ loaded: Math.min(rows.length, maxRows), total: Math.min(total, maxRows) });
+    if (items.length < pageSize) break;
+    page += 1;
+  }
+  return rows.slice(0, maxRows);
+}
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: ExportCell) {
+  if (value == null) return "";
+  let text = typeof value === "boolean" ? (value ? "true" : "false") : String(value);
+  // Spreadsheet apps run cells starting with these as formulas
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV with a UTF-8 BOM so Excel shows Arabic text correctly. */
+export function toCsv<T>(rows: T[], columns: ResolvedExportColumn<T>[]) {
+  const lines = [columns.map((column) => csvCell(column.header)).join(",")];
+  rows.forEach((row) => lines.push(columns.map((column) => csvCell(column.value(row))).join(",")));
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+function xmlEscape(value: string) {
+  return value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function columnName(index: number) {
+  let name = "";
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    name = String.fromCharCode(65 + rem) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+function xlsxCell(ref: string, value: ExportCell, style = 0) {
+  const s = style ? ` s="${style}"` : "";
+  if (value == null || value === "") return "";
+  if (typeof value === "number" && Number.isFinite(value)) return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  if (typeof value === "boolean") return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${xmlEscape(String(value))}</t></is></c>`;
+}
+
+function sheetName(name: string) {
+  return name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet1";
+}
+
+/** Single-sheet workbook with a bold, frozen header row. */
+export function toXlsx<T>(rows: T[], columns: ResolvedExportColumn<T>[], { sheet = "Sheet1", rtl = false } = {}) {
+  const header = `<row r="1">${columns.map((column, i) => xlsxCell(`${columnName(i)}1`, column.header, 1)).join("")}</row>`;
+  const body = rows
+    .map((row, r) => {
+      const cells = columns.map((column, i) => xlsxCell(`${columnName(i)}${r + 2}`, column.value(row))).join("");
+      return `<row r="${r + 2}">${cells}</row>`;
+    })
+    .join("");
+
+  const worksheet =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<sheetViews><sheetView workbookViewId="0"${rtl ? ' rightToLeft="1"' : ""}>` +
+    `<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>` +
+    `<sheetData>${header}${body}</sheetData></worksheet>`;
+
+  return buildZip([
+    {
+      name: "[Content_Types].xml",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+        `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+        `</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+        `</Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+        `<sheets><sheet name="${xmlEscape(sheetName(sheet))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>` +
+        `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        `</Relationships>`,
+    },
+    {
+      name: "xl/styles.xml",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+        `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+        `<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>` +
+        `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+        `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+        `<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>` +
+        `<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>` +
+        `</styleSheet>`,
+    },
+    { name: "xl/worksheets/sheet1.xml", data: worksheet },
+  ]);
+}
+
+export const EXPORT_MIME: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export function buildExportBlob<T>(
+  format: ExportFormat,
+  rows: T[],
+  columns: ResolvedExportColumn<T>[],
+  options: { sheet?: string; rtl?: boolean } = {}
+) {
+  const content = format === "csv" ? toCsv(rows, columns) : toXlsx(rows, columns, options);
+  return new Blob([content], { type: EXPORT_MIME[format] });
+}
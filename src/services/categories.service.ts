@@ -1,6 +1,9 @@
 import { api } from "../lib/api";
 import type { AxiosError } from "axios";
 import { buildQueryParams } from "../lib/query";
+import { fetchAllPages } from "../lib/table-export";
+import { settleWithConcurrency } from "../lib/concurrency";
+import { listProducts, updateProduct } from "./products.service";
 
 export type Category = {
   id: string;
@@ -13,6 +16,10 @@ export type Category = {
   sortOrder: number;
   parentId: string | null;
   providerId?: string | null;
+  /** Low-stock threshold for products in this category and its subcategories */
+  lowStockThreshold?: number | null;
+  /** Products filed directly under this category (not its subcategories) */
+  _count?: { products: number };
 };
 export type Paged<T> = { items: T[]; total: number; page: number; pageSize: number };
 
@@ -35,6 +42,9 @@ function buildCategoryFormData(body: CategoryPayload, imageFile?: File | null) {
     const provider = body.providerId === null ? "" : String(body.providerId);
     fd.append("providerId", provider);
   }
+  if (body.lowStockThreshold !== undefined) {
+    fd.append("lowStockThreshold", body.lowStockThreshold === null ? "" : String(Math.trunc(Number(body.lowStockThreshold))));
+  }
   if (body.imageUrl) fd.append("imageUrl", body.imageUrl);
   if (imageFile) fd.append("image", imageFile, imageFile.name || "image");
   return fd;
@@ -95,6 +105,23 @@ export async function reorderCategories(order: Array<{ id: string; sortOrder: nu
   }
 }
 
+/** Files every product of `id` under `targetCategoryId`; used to merge a category away before deleting it. */
+export async function moveCategoryProducts(id: string, targetCategoryId: string) {
+  try {
+    const { data } = await api.post<{ moved: number }>(`/api/v1/admin/categories/${id}/move-products`, { targetCategoryId });
+    return data;
+  } catch (error) {
+    const axiosError = error as AxiosError;
+    if (axiosError?.response?.status !== 404) throw error;
+    // Older backends: move the products one by one and fail loudly if any are left behind
+    const products = await fetchAllPages((page, pageSize) => listProducts({ categoryId: id, page, pageSize }));
+    const results = await settleWithConcurrency(products, (product) => updateProduct(product.id, { categoryId: targetCategoryId }));
+    const failed = results.find((result) => !result.ok);
+    if (failed && !failed.ok) throw failed.error;
+    return { moved: products.length };
+  }
+}
+
 export async function deleteCategory(id: string) {
   const { data } = await api.delete<{ ok: true }>(`/api/v1/admin/categories/${id}`);
   return data;
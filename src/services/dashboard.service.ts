@@ -28,8 +28,9 @@ export async function fetchDashboardTimeseries(params?: { from?: string; to?: st
   return data as Array<{ period: string; revenueCents: number; orders: number }>;
 }
 
-export async function fetchDashboardTopProducts(params?: { from?: string; to?: string; limit?: number }) {
-  const query = buildQueryParams(params);
+/** Best sellers in the range; `productIds` narrows the list to those products instead of the overall top. */
+export async function fetchDashboardTopProducts(params?: { from?: string; to?: string; limit?: number; productIds?: string[] }) {
+  const query = buildQueryParams({ ...params, productIds: params?.productIds?.join(",") });
   const { data } = await api.get<Array<{ productId: string; qty: number; name: string }>>(
     "/api/v1/admin/dashboard/top-products",
     { params: query }
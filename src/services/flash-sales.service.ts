@@ -0,0 +1,52 @@
+import { api } from "../lib/api";
+import { buildQueryParams } from "../lib/query";
+import type { FlashSale, FlashSaleFilters, FlashSaleInput, FlashSaleListResponse } from "../types/flash-sale";
+
+function toFlashSalePayload(body: FlashSaleInput): FlashSaleInput {
+  const percent = body.discountType === "PERCENT" ? Math.trunc(Number(body.percent ?? 0)) : null;
+  const fixedPriceCents = body.discountType === "FIXED_PRICE" ? Math.trunc(Number(body.fixedPriceCents ?? 0)) : null;
+  return {
+    ...body,
+    name: body.name.trim(),
+    nameAr: body.nameAr?.trim() || null,
+    percent,
+    fixedPriceCents,
+    productIds: Array.from(new Set(body.productIds)),
+  };
+}
+
+export async function listFlashSales(params?: FlashSaleFilters) {
+  const query = buildQueryParams(params);
+  const { data } = await api.get<FlashSaleListResponse>("/api/v1/admin/flash-sales", { params: query });
+  return data;
+}
+
+export async function getFlashSale(id: string) {
+  const { data } = await api.get<FlashSale>(`/api/v1/admin/flash-sales/${id}`);
+  return data;
+}
+
+export async function createFlashSale(body: FlashSaleInput) {
+  const { data } = await api.post<FlashSale>("/api/v1/admin/flash-sales", toFlashSalePayload(body));
+  return data;
+}
+
+export async function updateFlashSale(id: string, body: FlashSaleInput) {
+  const { data } = await api.patch<FlashSale>(`/api/v1/admin/flash-sales/${id}`, toFlashSalePayload(body));
+  return data;
+}
+
+/** Stops a scheduled or running sale; a running one has its prices restored right away. */
+export async function cancelFlashSale(id: string) {
+  const { data } = await api.post<FlashSale>(`/api/v1/admin/flash-sales/${id}/cancel`);
+  return data;
+}
+
+/**
+ * Restores the pre-sale prices of an ended sale (idempotent on the server). The server's scheduler does
+ * this when a window closes; the panel only calls it by hand for a sale the scheduler missed.
+ */
+export async function revertFlashSale(id: string) {
+  const { data } = await api.post<FlashSale>(`/api/v1/admin/flash-sales/${id}/revert`);
+  return data;
+}
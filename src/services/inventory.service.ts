@@ -0,0 +1,43 @@
+import { api } from "../lib/api";
+import { buildQueryParams } from "../lib/query";
+import type {
+  CycleCountInput,
+  CycleCountResult,
+  StockAdjustmentInput,
+  StockMovement,
+  StockMovementFilters,
+  StockMovementListResponse,
+} from "../types/inventory";
+
+/** Admins reach every product; providers only their own through the provider API. */
+export type InventoryScope = "admin" | "provider";
+
+const base = (scope: InventoryScope) => (scope === "provider" ? "/api/v1/provider" : "/api/v1/admin");
+
+export async function listStockMovements(productId: string, params?: StockMovementFilters, scope: InventoryScope = "admin") {
+  const query = buildQueryParams(params);
+  const { data } = await api.get<StockMovementListResponse>(`${base(scope)}/products/${productId}/stock-movements`, {
+    params: query,
+  });
+  return data;
+}
+
+export async function adjustStock(productId: string, body: StockAdjustmentInput, scope: InventoryScope = "admin") {
+  const payload = {
+    ...body,
+    delta: Math.trunc(body.delta),
+    variantId: body.variantId || undefined,
+    note: body.note?.trim() || undefined,
+  };
+  const { data } = await api.post<StockMovement>(`${base(scope)}/products/${productId}/stock-adjustments`, payload);
+  return data;
+}
+
+export async function submitCycleCount(body: CycleCountInput, scope: InventoryScope = "admin") {
+  const payload = {
+    lines: body.lines.map((line) => ({ ...line, variantId: line.variantId || undefined })),
+    note: body.note?.trim() || undefined,
+  };
+  const { data } = await api.post<CycleCountResult>(`${base(scope)}/inventory/cycle-counts`, payload);
+  return data;
+}
@@ -1,16 +1,44 @@
 import { api } from "../lib/api";
 import { buildQueryParams } from "../lib/query";
-import type { Invoice, InvoiceFilters, InvoiceListResponse } from "../types/invoice";
+import type { OrderScope } from "./orders.service";
+import type {
+  CreditNote,
+  CreditNoteInput,
+  Invoice,
+  InvoiceAdjustmentInput,
+  InvoiceFilters,
+  InvoiceListResponse,
+} from "../types/invoice";
 
-const BASE = "/api/v1/admin/invoices";
+// Providers read the same invoices, limited to their own, from the provider API
+const INVOICE_BASE: Record<OrderScope, string> = {
+  admin: "/api/v1/admin/invoices",
+  provider: "/api/v1/provider/invoices",
+};
 
-export async function listInvoices(filters?: InvoiceFilters) {
+export async function listInvoices(filters?: InvoiceFilters, scope: OrderScope = "admin") {
   const params = buildQueryParams(filters);
-  const { data } = await api.get<InvoiceListResponse>(BASE, { params });
+  const { data } = await api.get<InvoiceListResponse>(INVOICE_BASE[scope], { params });
   return data;
 }
 
-export async function getInvoice(id: string) {
-  const { data } = await api.get<Invoice>(`${BASE}/${id}`);
+export async function getInvoice(id: string, scope: OrderScope = "admin") {
+  const { data } = await api.get<Invoice>(`${INVOICE_BASE[scope]}/${id}`);
+  return data;
+}
+
+/** Adds an ADJUSTMENT line; DRAFT and OPEN invoices only. */
+export async function addInvoiceAdjustment(id: string, payload: InvoiceAdjustmentInput) {
+  const { data } = await api.post<Invoice>(`${INVOICE_BASE.admin}/${id}/adjustments`, payload);
+  return data;
+}
+
+export async function createCreditNote(id: string, payload: CreditNoteInput) {
+  const { data } = await api.post<CreditNote>(`${INVOICE_BASE.admin}/${id}/credit-notes`, payload);
+  return data;
+}
+
+export async function voidInvoice(id: string, reason: string) {
+  const { data } = await api.post<Invoice>(`${INVOICE_BASE.admin}/${id}/void`, { reason });
   return data;
 }
@@ -0,0 +1,16 @@
+import { api } from "../lib/api";
+import type { RoleDefaultViews } from "../lib/list-state";
+
+// Every role reads the defaults pinned for it; only admins can change them
+const DEFAULTS_URL = "/api/v1/list-views/role-defaults";
+const ADMIN_DEFAULTS_URL = "/api/v1/admin/settings/list-views";
+
+export async function getRoleDefaultViews(): Promise<RoleDefaultViews> {
+  const { data } = await api.get<{ defaults?: RoleDefaultViews | null }>(DEFAULTS_URL);
+  return data?.defaults ?? {};
+}
+
+export async function updateRoleDefaultViews(defaults: RoleDefaultViews): Promise<RoleDefaultViews> {
+  const { data } = await api.put<{ defaults?: RoleDefaultViews | null }>(ADMIN_DEFAULTS_URL, { defaults });
+  return data?.defaults ?? defaults;
+}
@@ -6,8 +6,11 @@ import type { DeliveryZone } from "../types/zones";
 import type {
   Order,
   OrderDetail,
+  OrderDriverLocation,
+  OrderEvent,
   OrderFilters,
   OrderItem,
+  OrderItemOption,
   OrderReceipt,
   OrderReceiptDriver,
   OrderReceiptZone,
@@ -76,6 +79,10 @@ type OrderItemDto = {
   totalCents?: number;
   imageUrl?: string | null;
   sku?: string | null;
+  variantId?: string | null;
+  variantSku?: string | null;
+  options?: OrderItemOption[] | null;
+  optionsSnapshot?: OrderItemOption[] | null;
 };
 
 type OrderDto = {
@@ -133,6 +140,8 @@ type OrderReceiptDto = {
     unitPriceCents?: number;
     lineTotalCents?: number;
     totalCents?: number;
+    options?: OrderItemOption[] | null;
+    optionsSnapshot?: OrderItemOption[] | null;
   }>;
   subtotalCents?: number;
   couponDiscountCents?: number;
@@ -202,7 +211,9 @@ function normalizeOrderItem(item: OrderItemDto): OrderItem {
     unitPriceCents,
     lineTotalCents,
     imageUrl: item.imageUrl,
-    sku: item.sku,
+    sku: item.variantSku ?? item.sku,
+    variantId: item.variantId ?? null,
+    options: item.optionsSnapshot ?? item.options ?? [],
   };
 }
 
@@ -232,6 +243,22 @@ function normalizeOrderSummary(order: OrderDto): Order {
   };
 }
 
+type OrderEventDto = {
+  id?: string;
+  eventId?: string;
+  type?: string;
+  event?: string;
+  orderId?: string;
+  at?: string;
+  createdAt?: string;
+  from?: string | null;
+  to?: string | null;
+  status?: string | null;
+  actor?: string | null;
+  note?: string | null;
+  order?: OrderDto | null;
+};
+
 function normalizeOrderDetail(order: OrderDto): OrderDetail {
   const guestAddress = order.guestAddress ?? null;
   const address =
@@ -245,6 +272,8 @@ function normalizeOrderDetail(order: OrderDto): OrderDetail {
           city: guestAddress.city ?? null,
           region: guestAddress.region ?? null,
           notes: guestAddress.notes ?? null,
+          latitude: guestAddress.latitude ?? guestAddress.lat ?? null,
+          longitude: guestAddress.longitude ?? guestAddress.lng ?? null,
         }
       : null);
   return {
@@ -301,6 +330,7 @@ function normalizeOrderReceipt(dto: OrderReceiptDto): OrderReceipt {
           quantity,
           unitPriceCents,
           lineTotalCents: item.lineTotalCents ?? item.totalCents ?? unitPriceCents * quantity,
+          options: item.optionsSnapshot ?? item.options ?? [],
         };
       })
     : [];
@@ -343,6 +373,37 @@ function normalizeOrderReceipt(dto: OrderReceiptDto): OrderReceipt {
   };
 }
 
+export function normalizeOrderEvent(raw: unknown): OrderEvent | null {
+  if (!raw || typeof raw !== "object") return null;
+  const dto = raw as OrderEventDto;
+  const orderId = dto.orderId ?? dto.order?.id;
+  const type = dto.type ?? dto.event;
+  if (!orderId || !type) return null;
+  const at = dto.at ?? dto.createdAt ?? new Date().toISOString();
+  const to = dto.to ?? dto.status ?? dto.order?.status;
+  return {
+    id: dto.id ?? dto.eventId ?? `${orderId}:${at}`,
+    type,
+    orderId,
+    at,
+    from: dto.from ? (dto.from.toUpperCase() as OrderStatus) : undefined,
+    to: to ? (String(to).toUpperCase() as OrderStatus) : undefined,
+    actor: dto.actor ?? null,
+    note: dto.note ?? null,
+    order: dto.order ? normalizeOrderSummary(dto.order) : null,
+  };
+}
+
+/**
+ * EventSource cannot send headers, so the stream is opened with a short-lived single-use ticket
+ * instead of the access token, which would otherwise end up in proxy and server access logs.
+ */
+export async function getOrderEventsUrl(scope: OrderScope = "admin") {
+  const base = `${api.defaults.baseURL ?? ""}`.replace(/\/+$/, "");
+  const { data } = await api.post<{ ticket: string }>(`${resolveOrderBase(scope)}/events/ticket`);
+  return `${base}${resolveOrderBase(scope)}/events?ticket=${encodeURIComponent(data.ticket)}`;
+}
+
 export async function listOrders(params?: OrderFilters, scope: OrderScope = "admin"): Promise<OrdersPaged> {
   const query = buildQueryParams(params) ?? {};
   const search = params?.customer?.trim();
@@ -434,15 +495,7 @@ export async function getOrderTransitions(id: string, scope: OrderScope = "admin
 
 export async function getOrderDriverLocation(orderId: string, scope: OrderScope = "admin") {
   const base = resolveOrderBase(scope);
-  const { data } = await api.get<{
-    driverId: string;
-    lat: number;
-    lng: number;
-    accuracy?: number | null;
-    heading?: number | null;
-    speed?: number | null;
-    recordedAt: string;
-  } | null>(`${base}/${orderId}/driver-location`);
+  const { data } = await api.get<OrderDriverLocation | null>(`${base}/${orderId}/driver-location`);
   return data;
 }
 
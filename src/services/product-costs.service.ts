@@ -0,0 +1,14 @@
+import { api } from "../lib/api";
+import type { ProductCostEntry, ProductCostInput } from "../types/product";
+
+const BASE = "/api/v1/admin/products";
+
+export async function listProductCostHistory(productId: string) {
+  const { data } = await api.get<ProductCostEntry[] | { items: ProductCostEntry[] }>(`${BASE}/${productId}/costs`);
+  return Array.isArray(data) ? data : data?.items ?? [];
+}
+
+export async function addProductCost(productId: string, payload: ProductCostInput) {
+  const { data } = await api.post<ProductCostEntry>(`${BASE}/${productId}/costs`, payload);
+  return data;
+}
@@ -1,6 +1,7 @@
 import { api } from "../lib/api";
 import { buildQueryParams } from "../lib/query";
-import type { ProductFilters } from "../types/product";
+import type { ProductFilters, ProductImageAlt, ProductOptionGroup, ProductVariant } from "../types/product";
+import { serializeOptionGroups, serializeVariants } from "../lib/product-variants";
 
 export type Product = {
   id: string;
@@ -14,6 +15,7 @@ export type Product = {
   isHotOffer?: boolean;
   imageUrl?: string | null;
   images?: string[];
+  imageAlts?: ProductImageAlt[];
   priceCents: number;
   salePriceCents?: number | null;
   createdAt?: string;
@@ -22,6 +24,10 @@ export type Product = {
   categoryId: string;
   sku?: string | null;
   providerId?: string | null;
+  costPriceCents?: number | null;
+  lowStockThreshold?: number | null;
+  optionGroups?: ProductOptionGroup[];
+  variants?: ProductVariant[];
 };
 export type Paged<T> = { items: T[]; total: number; page: number; pageSize: number };
 
@@ -91,7 +97,14 @@ function buildProductFormData(body: ProductPayload, imageFile?: File | null) {
   if (body.providerId != null) fd.append("providerId", String(body.providerId));
   if (body.imageUrl) fd.append("imageUrl", body.imageUrl);
   if (body.sku) fd.append("sku", String(body.sku));
+  if (body.lowStockThreshold !== undefined) {
+    fd.append("lowStockThreshold", body.lowStockThreshold === null ? "" : String(Math.trunc(Number(body.lowStockThreshold))));
+  }
   appendImages(fd, body.images);
+  if (body.imageAlts) fd.append("imageAlts", JSON.stringify(body.imageAlts));
+  // Nested structures travel as JSON strings in multipart bodies
+  if (body.optionGroups) fd.append("optionGroups", JSON.stringify(serializeOptionGroups(body.optionGroups)));
+  if (body.variants) fd.append("variants", JSON.stringify(serializeVariants(body.variants)));
   if (imageFile) fd.append("image", imageFile, imageFile.name || "image");
   return fd;
 }
@@ -108,6 +121,8 @@ function normalizeJsonPayload(body: ProductPayload) {
       delete payload.images;
     }
   }
+  if (body.optionGroups) payload.optionGroups = serializeOptionGroups(body.optionGroups);
+  if (body.variants) payload.variants = serializeVariants(body.variants);
   return payload;
 }
 
@@ -62,6 +62,8 @@ export type ProviderNotificationPreferences = {
   newOrders: { email: boolean; sms: boolean; push: boolean };
   payoutSuccess: { email: boolean; sms: boolean; push: boolean };
   subscriptionExpiry: { email: boolean; sms: boolean; push: boolean };
+  /** The provider's own low-stock default; its categories and products can override it */
+  lowStock?: { threshold?: number | null; reorderCoverDays?: number | null };
 };
 
 export async function fetchProviderDashboard() {
@@ -69,6 +71,16 @@ export async function fetchProviderDashboard() {
   return data;
 }
 
+/** The provider's best sellers; with `productIds`, the sales of just those products. */
+export async function fetchProviderTopProducts(params?: { from?: string; to?: string; limit?: number; productIds?: string[] }) {
+  const query = buildQueryParams({ ...params, productIds: params?.productIds?.join(",") });
+  const { data } = await api.get<Array<{ productId: string; qty: number; name: string }>>(
+    "/api/v1/provider/dashboard/top-products",
+    { params: query }
+  );
+  return data;
+}
+
 export async function fetchProviderEarningsSummary(params?: { from?: string; to?: string }) {
   const query = buildQueryParams(params);
   const { data } = await api.get<ProviderEarningsSummary>("/api/v1/provider/earnings/summary", { params: query });
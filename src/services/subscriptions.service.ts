@@ -1,6 +1,7 @@
 import { api } from "../lib/api";
 import { buildQueryParams } from "../lib/query";
 import type {
+  PlanChangePreview,
   ProviderSubscription,
   SubscriptionFilters,
   SubscriptionListResponse,
@@ -29,3 +30,30 @@ export async function updateSubscription(id: string, payload: SubscriptionUpsert
   const { data } = await api.patch<ProviderSubscription>(`${BASE}/${id}`, payload);
   return data;
 }
+
+/** Moves to another plan, prorating the current period. */
+export async function changeSubscriptionPlan(id: string, planId: string) {
+  const { data } = await api.post<ProviderSubscription>(`${BASE}/${id}/change-plan`, { planId, prorate: true });
+  return data;
+}
+
+/** Dry run of `changeSubscriptionPlan`: what the server would bill, without changing the subscription. */
+export async function previewSubscriptionPlanChange(id: string, planId: string) {
+  const { data } = await api.post<PlanChangePreview>(`${BASE}/${id}/change-plan`, { planId, prorate: true, dryRun: true });
+  return data;
+}
+
+export async function extendSubscriptionTrial(id: string, trialEndsAt: string) {
+  const { data } = await api.post<ProviderSubscription>(`${BASE}/${id}/extend-trial`, { trialEndsAt });
+  return data;
+}
+
+export async function cancelSubscriptionAtPeriodEnd(id: string) {
+  const { data } = await api.post<ProviderSubscription>(`${BASE}/${id}/cancel`, { atPeriodEnd: true });
+  return data;
+}
+
+export async function reactivateSubscription(id: string) {
+  const { data } = await api.post<ProviderSubscription>(`${BASE}/${id}/reactivate`);
+  return data;
+}
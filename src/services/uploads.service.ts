@@ -18,17 +18,23 @@ type ResizeOptions = {
   maxBytes?: number; // optional tighter cap
 };
 
+export type UploadOptions = {
+  resize?: ResizeOptions;
+  /** Fraction of the request body sent so far (0-1); direct uploads only report completion */
+  onProgress?: (fraction: number) => void;
+};
+
 // Backend allows up to 10MB by default (UPLOAD_MAX_BYTES); mirror that client-side
 const MAX_UPLOAD_MB = 10;
 const MAX_UPLOAD_BYTES = MAX_UPLOAD_MB * 1024 * 1024;
 // Toggle direct-to-storage uploads (requires CORS on the bucket). Disabled by default to avoid preflight failures.
 const DIRECT_UPLOAD_ENABLED = (import.meta.env.VITE_ENABLE_DIRECT_UPLOADS ?? "false") !== "false";
 
-export async function uploadAdminFile(file: File | Blob, options?: { resize?: ResizeOptions }): Promise<UploadResponse> {
+export async function uploadAdminFile(file: File | Blob, options?: UploadOptions): Promise<UploadResponse> {
   return uploadFileWithEndpoint(file, "/api/v1/admin/uploads", "/api/v1/admin/uploads/signed-url", options);
 }
 
-export async function uploadProviderFile(file: File | Blob, options?: { resize?: ResizeOptions }): Promise<UploadResponse> {
+export async function uploadProviderFile(file: File | Blob, options?: UploadOptions): Promise<UploadResponse> {
   return uploadFileWithEndpoint(file, "/api/v1/provider/uploads", null, options);
 }
 
@@ -36,7 +42,7 @@ async function uploadFileWithEndpoint(
   file: File | Blob,
   endpoint: string,
   signedUrlEndpoint: string | null,
-  options?: { resize?: ResizeOptions }
+  options?: UploadOptions
 ): Promise<UploadResponse> {
   const size = (file as File).size ?? (file as Blob).size;
   if (typeof size === "number" && size > MAX_UPLOAD_BYTES) {
@@ -51,6 +57,7 @@ async function uploadFileWithEndpoint(
   if (DIRECT_UPLOAD_ENABLED && signedUrlEndpoint) {
     const uploadUrl = await tryDirectUpload(maybeResized as File, signedUrlEndpoint);
     if (uploadUrl) {
+      options?.onProgress?.(1);
       return uploadUrl;
     }
   }
@@ -59,7 +66,13 @@ async function uploadFileWithEndpoint(
   formData.append("file", maybeResized);
 
   // Let the browser set the multipart boundary automatically
-  const { data } = await api.post<UploadResponse>(endpoint, formData);
+  const { data } = await api.post<UploadResponse>(endpoint, formData, {
+    onUploadProgress: options?.onProgress
+      ? (event) => {
+          if (event.total) options.onProgress?.(Math.min(1, event.loaded / event.total));
+        }
+      : undefined,
+  });
 
   return data;
 }
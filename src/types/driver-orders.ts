@@ -1,5 +1,5 @@
 import type { PaginatedQuery, PaginatedResponse } from "./common";
-import type { DeliveryFailureReason, OrderStatus } from "./order";
+import type { DeliveryFailureReason, OrderItemOption, OrderStatus } from "./order";
 
 export type DriverOrderAddress = {
   label?: string | null;
@@ -17,6 +17,7 @@ export type DriverOrderItem = {
   name?: string | null;
   qty?: number | null;
   priceSnapshotCents?: number | null;
+  options?: OrderItemOption[] | null;
 };
 
 export type DriverOrderCustomer = {
@@ -0,0 +1,58 @@
+import type { PaginatedQuery, PagedResponse, Timestamped } from "./common";
+
+export type FlashSaleDiscountType = "PERCENT" | "FIXED_PRICE";
+
+/** Server lifecycle; CANCELED sales never apply, REVERTED ones have restored the previous sale prices. */
+export type FlashSaleStatus = "SCHEDULED" | "ACTIVE" | "REVERTED" | "CANCELED";
+
+export type FlashSaleItem = {
+  productId: string;
+  name?: string;
+  nameAr?: string | null;
+  priceCents: number;
+  /** Price charged during the window */
+  salePriceCents: number;
+  /** Sale price the product had before the window, restored when it ends */
+  originalSalePriceCents?: number | null;
+};
+
+export type FlashSale = Timestamped & {
+  id: string;
+  name: string;
+  nameAr?: string | null;
+  startsAt: string;
+  endsAt: string;
+  discountType: FlashSaleDiscountType;
+  /** Whole percent off the regular price, for PERCENT sales */
+  percent?: number | null;
+  /** Single sale price for every product, for FIXED_PRICE sales */
+  fixedPriceCents?: number | null;
+  /** Also flag the products as hot offers while the sale runs */
+  markHotOffer?: boolean;
+  status: FlashSaleStatus;
+  appliedAt?: string | null;
+  revertedAt?: string | null;
+  items: FlashSaleItem[];
+};
+
+export type FlashSaleFilters = PaginatedQuery & {
+  q?: string;
+  status?: FlashSaleStatus;
+  /** Sales overlapping [from, to) */
+  from?: string;
+  to?: string;
+};
+
+export type FlashSaleInput = {
+  name: string;
+  nameAr?: string | null;
+  startsAt: string;
+  endsAt: string;
+  discountType: FlashSaleDiscountType;
+  percent?: number | null;
+  fixedPriceCents?: number | null;
+  markHotOffer?: boolean;
+  productIds: string[];
+};
+
+export type FlashSaleListResponse = PagedResponse<FlashSale>;
@@ -0,0 +1,62 @@
+import type { PaginatedQuery, PagedResponse } from "./common";
+
+/** Reasons staff can pick when adjusting stock by hand */
+export type StockAdjustmentReason = "RECEIVE" | "DAMAGE" | "COUNT_CORRECTION" | "RETURN";
+
+/** Every ledger entry; ORDER/ORDER_CANCELED come from checkout, MANUAL_EDIT from editing the product stock field */
+export type StockMovementReason = StockAdjustmentReason | "ORDER" | "ORDER_CANCELED" | "MANUAL_EDIT";
+
+export type StockMovement = {
+  id: string;
+  productId: string;
+  variantId?: string | null;
+  /** Option labels of the variant, e.g. { Size: "L" } */
+  variantOptions?: Record<string, string> | null;
+  reason: StockMovementReason;
+  /** Signed change in units */
+  delta: number;
+  stockBefore: number;
+  stockAfter: number;
+  note?: string | null;
+  orderId?: string | null;
+  orderCode?: string | null;
+  cycleCountId?: string | null;
+  createdAt: string;
+  createdBy?: { id: string; name: string } | null;
+};
+
+export type StockMovementFilters = PaginatedQuery & {
+  reason?: StockMovementReason;
+  variantId?: string;
+};
+
+export type StockAdjustmentInput = {
+  reason: StockAdjustmentReason;
+  variantId?: string | null;
+  /** Signed change in units */
+  delta: number;
+  /** Stock the user saw; the server rejects the adjustment if it moved in the meantime */
+  expectedStock: number;
+  note?: string;
+};
+
+export type CycleCountLine = {
+  productId: string;
+  variantId?: string | null;
+  expectedStock: number;
+  countedStock: number;
+};
+
+export type CycleCountInput = {
+  lines: CycleCountLine[];
+  note?: string;
+};
+
+export type CycleCountResult = {
+  id: string;
+  adjusted: number;
+  /** Lines whose stock changed since they were counted; their variance was not applied */
+  conflicts?: Array<{ productId: string; variantId?: string | null; currentStock: number }>;
+};
+
+export type StockMovementListResponse = PagedResponse<StockMovement>;
@@ -11,7 +11,12 @@ export type InvoiceItem = Timestamped & {
   invoiceId: string;
   type: InvoiceItemType;
   description?: string | null;
+  /** Net of tax */
   amountCents: number;
+  /** VAT rate the line was billed at; lines without one are not taxed */
+  taxRateBps?: number | null;
+  /** Tax the server charged on the line, when it differs from the rate applied to the amount */
+  taxCents?: number | null;
 };
 
 export type ProviderLedgerEntry = Timestamped & {
@@ -25,6 +30,15 @@ export type ProviderLedgerEntry = Timestamped & {
   currency: string;
 };
 
+/** Refunds part of a PAID invoice without reopening it */
+export type CreditNote = Timestamped & {
+  id: string;
+  invoiceId: string;
+  number: string;
+  amountCents: number;
+  reason: string;
+};
+
 export type InvoiceSubscriptionSummary = {
   id: string;
   status: SubscriptionStatus;
@@ -48,6 +62,10 @@ export type Invoice = Timestamped & {
   subscription?: InvoiceSubscriptionSummary | null;
   items?: InvoiceItem[];
   ledgerEntries?: ProviderLedgerEntry[];
+  creditNotes?: CreditNote[];
+  voidedAt?: string | null;
+  /** Audit note required when an invoice is voided */
+  voidReason?: string | null;
   _count?: { items: number };
 };
 
@@ -58,4 +76,16 @@ export type InvoiceFilters = PaginatedQuery & {
   to?: string;
 };
 
+export type InvoiceAdjustmentInput = {
+  /** Negative for a discount */
+  amountCents: number;
+  description: string;
+  taxRateBps?: number | null;
+};
+
+export type CreditNoteInput = {
+  amountCents: number;
+  reason: string;
+};
+
 export type InvoiceListResponse = PagedResponse<Invoice>;
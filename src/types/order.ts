@@ -39,6 +39,15 @@ export type OrderAddress = {
   longitude?: number | null;
 };
 
+/** A variant option or add-on picked for an order line, snapshotted at checkout */
+export type OrderItemOption = {
+  group: string;
+  groupAr?: string | null;
+  value: string;
+  valueAr?: string | null;
+  priceDeltaCents?: number | null;
+};
+
 export type OrderItem = {
   id: string;
   productId: string;
@@ -48,6 +57,8 @@ export type OrderItem = {
   lineTotalCents: number;
   imageUrl?: string | null;
   sku?: string | null;
+  variantId?: string | null;
+  options?: OrderItemOption[];
 };
 
 export type Order = {
@@ -58,6 +69,7 @@ export type Order = {
   status: OrderStatus;
   createdAt: string;
   updatedAt?: string;
+  deliveredAt?: string | null;
   deliveryFailedAt?: string | null;
   deliveryFailedReason?: DeliveryFailureReason | null;
   deliveryFailedNote?: string | null;
@@ -110,6 +122,16 @@ export type OrderStatusPayload = {
 
 export type OrdersPaged<T = OrderSummary> = PaginatedResponse<T>;
 
+export type OrderDriverLocation = {
+  driverId: string;
+  lat: number;
+  lng: number;
+  accuracy?: number | null;
+  heading?: number | null;
+  speed?: number | null;
+  recordedAt: string;
+};
+
 export type OrderHistoryEntry = {
   id: string;
   at: string;
@@ -149,6 +171,7 @@ export type OrderReceiptItem = {
   quantity: number;
   unitPriceCents: number;
   lineTotalCents: number;
+  options?: OrderItemOption[];
 };
 
 export type OrderReceiptDriver = {
@@ -188,3 +211,22 @@ export type OrderReceipt = {
   loyaltyPointsEarned?: number;
   currency: string;
 };
+
+export type OrderEventType =
+  | "order.created"
+  | "order.updated"
+  | "order.status_changed"
+  | "order.driver_assigned"
+  | "order.canceled";
+
+export type OrderEvent = {
+  id: string;
+  type: OrderEventType | (string & {});
+  orderId: string;
+  at: string;
+  from?: OrderStatus;
+  to?: OrderStatus;
+  actor?: string | null;
+  note?: string | null;
+  order?: Order | null;
+};
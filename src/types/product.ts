@@ -12,6 +12,8 @@ export type Product = Timestamped & {
   isHotOffer?: boolean;
   imageUrl?: string | null;
   images?: Array<string | FileResource>;
+  /** Alt text per gallery image, keyed by url */
+  imageAlts?: ProductImageAlt[];
   priceCents: number;
   salePriceCents?: number | null;
   stock: number;
@@ -19,6 +21,68 @@ export type Product = Timestamped & {
   categoryId: string;
   sku?: string | null;
   providerId?: string | null;
+  /** Current cost per unit (COGS), resolved by the backend from the cost history */
+  costPriceCents?: number | null;
+  /** Alert at or below this stock; null falls back to the category, then the store default */
+  lowStockThreshold?: number | null;
+  optionGroups?: ProductOptionGroup[];
+  /** When present, price/stock live on the variants and the product fields hold the lowest price and total stock */
+  variants?: ProductVariant[];
+};
+
+export type ProductImageAlt = {
+  url: string;
+  alt?: string | null;
+  altAr?: string | null;
+};
+
+/** VARIANT groups (size, weight) span the variant matrix; ADDON groups are extras priced on top of any variant. */
+export type ProductOptionGroupType = "VARIANT" | "ADDON";
+
+export type ProductOptionValue = {
+  id?: string;
+  label: string;
+  labelAr?: string | null;
+  /** ADDON groups only */
+  priceDeltaCents?: number | null;
+};
+
+export type ProductOptionGroup = {
+  id?: string;
+  name: string;
+  nameAr?: string | null;
+  type: ProductOptionGroupType;
+  /** ADDON groups: customer must pick at least one */
+  required?: boolean;
+  values: ProductOptionValue[];
+};
+
+export type ProductVariant = {
+  id?: string;
+  /** Option value label per VARIANT group name, e.g. { Size: "L" } */
+  options: Record<string, string>;
+  sku?: string | null;
+  priceCents: number;
+  salePriceCents?: number | null;
+  stock: number;
+  imageUrl?: string | null;
+};
+
+/** One effective-dated cost; the latest entry whose `effectiveFrom` has passed is the current cost. */
+export type ProductCostEntry = {
+  id: string;
+  productId: string;
+  costCents: number;
+  effectiveFrom: string;
+  note?: string | null;
+  createdAt?: string;
+  createdBy?: { id: string; name: string } | null;
+};
+
+export type ProductCostInput = {
+  costCents: number;
+  effectiveFrom: string;
+  note?: string;
 };
 
 export type ProductFilters = PaginatedQuery & {
@@ -30,6 +94,8 @@ export type ProductFilters = PaginatedQuery & {
   maxPriceCents?: number;
   inStock?: boolean;
   isHotOffer?: boolean;
+  /** Only products without a cost (the missing-costs queue) */
+  missingCost?: boolean;
   orderBy?: "createdAt" | "priceCents" | "name";
   sort?: "asc" | "desc";
 };
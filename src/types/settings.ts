@@ -7,6 +7,9 @@ export type GeneralSettings = {
   contactPhone?: string | null;
   storeAddress?: string | null;
   businessHours?: string | null;
+  /** Printed at the top and bottom of receipts and packing slips */
+  receiptHeader?: string | null;
+  receiptFooter?: string | null;
 };
 
 export type DeliverySettings = {
@@ -40,7 +43,13 @@ export type NotificationsSettings = {
   orderNotifications?: { email?: boolean; sms?: boolean; push?: boolean };
   marketingEmails?: { enabled?: boolean; frequency?: string | null };
   adminAlerts?: {
-    lowStock?: { enabled?: boolean; threshold?: number | null };
+    lowStock?: {
+      enabled?: boolean;
+      /** Store-wide default; categories and products can override it */
+      threshold?: number | null;
+      /** Days of sales a reorder suggestion should cover */
+      reorderCoverDays?: number | null;
+    };
     newOrders?: { enabled?: boolean };
     systemUpdates?: { enabled?: boolean };
   };
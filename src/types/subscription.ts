@@ -39,6 +39,12 @@ export type SubscriptionFilters = PaginatedQuery & {
 
 export type SubscriptionListResponse = PagedResponse<ProviderSubscription>;
 
+/** What the server would bill for a plan change, from a dry run of the change */
+export type PlanChangePreview = {
+  totalCents: number;
+  invoiceAt?: string | null;
+};
+
 export type SubscriptionUpsertInput = {
   providerId: string;
   planId: string;